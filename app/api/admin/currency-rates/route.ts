@@ -0,0 +1,90 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { authErrorResponse, isPlatformAdmin, requireUser } from "../../../../lib/apiAuth";
+import { REFERENCE_CURRENCY, isCurrencyCode } from "../../../../lib/salary";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+async function authorizeAdmin(req: Request) {
+  const auth = await requireUser(req, supabase);
+  if (auth.response) return { response: auth.response };
+
+  if (!isPlatformAdmin(auth.user)) {
+    return { response: authErrorResponse(403, "forbidden", "Admin role required to edit currency rates") };
+  }
+  return { user: auth.user };
+}
+
+// The rate table is public: the jobs page converts salaries with it
+export async function GET() {
+  const { data, error } = await supabase
+    .from("currency_rates")
+    .select("currency, rate_to_reference, updated_at")
+    .order("currency", { ascending: true });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  return NextResponse.json({ reference: REFERENCE_CURRENCY, rates: data || [] });
+}
+
+/**
+ * PUT /api/admin/currency-rates
+ * Body: { currency, rate_to_reference } — value of one unit in REFERENCE_CURRENCY.
+ */
+export async function PUT(req: Request) {
+  const auth = await authorizeAdmin(req);
+  if (auth.response) return auth.response;
+
+  const body = await req.json().catch(() => null);
+  const currency = typeof body?.currency === "string" ? body.currency.trim().toUpperCase() : "";
+  const rate = Number(body?.rate_to_reference);
+
+  if (!isCurrencyCode(currency)) {
+    return NextResponse.json({ error: "Currency must be a 3-letter ISO code" }, { status: 400 });
+  }
+  if (currency === REFERENCE_CURRENCY) {
+    return NextResponse.json({ error: `${REFERENCE_CURRENCY} is the reference currency` }, { status: 400 });
+  }
+  if (!Number.isFinite(rate) || rate <= 0) {
+    return NextResponse.json({ error: "Rate must be a positive number" }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from("currency_rates")
+    .upsert(
+      {
+        currency,
+        rate_to_reference: rate,
+        updated_at: new Date().toISOString(),
+        updated_by: auth.user.id,
+      },
+      { onConflict: "currency" }
+    )
+    .select("currency, rate_to_reference, updated_at")
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  return NextResponse.json({ rate: data });
+}
+
+// DELETE /api/admin/currency-rates?currency=XXX
+export async function DELETE(req: Request) {
+  const auth = await authorizeAdmin(req);
+  if (auth.response) return auth.response;
+
+  const currency = (new URL(req.url).searchParams.get("currency") || "").toUpperCase();
+  if (!isCurrencyCode(currency)) {
+    return NextResponse.json({ error: "Currency must be a 3-letter ISO code" }, { status: 400 });
+  }
+
+  const { error } = await supabase.from("currency_rates").delete().eq("currency", currency);
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  return NextResponse.json({ success: true });
+}
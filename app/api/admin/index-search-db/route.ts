@@ -1,7 +1,19 @@
 import { createClient } from "@supabase/supabase-js";
-import { embed } from "ai";
-import { openai } from "@ai-sdk/openai";
 import { NextResponse } from "next/server";
+import {
+  IndexRun,
+  claimIndexRun,
+  continueIndexRun,
+  getIndexRun,
+  startIndexRun,
+} from "../../../../lib/searchIndexer";
+import {
+  authErrorResponse,
+  getBearerToken,
+  isPlatformAdmin,
+  requireUser,
+  secretMatches,
+} from "../../../../lib/apiAuth";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!; // service role key needed for admin writes if RLS is strict
@@ -10,152 +22,107 @@ const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!; // service ro
 // If you only have anon key, ensure RLS allows inserts.
 const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
 
-// Imports are already at the top of the file, so we just export the function here.
+export const maxDuration = 60;
 
-export async function POST(req: Request) {
-  let insertedCount = 0;
-  let skippedCount = 0;
-  const errors: any[] = [];
-
-  // --- 1. JOBS ---
-  const { data: jobs } = await supabase
-    .from("jobs")
-    .select("id, title, company_name, location, employment_type, additional_description")
-    .eq("is_published", true);
-
-  if (jobs) {
-    for (const job of jobs) {
-      try {
-        const content = `Type: Job\nTitle: ${job.title}\nCompany: ${job.company_name}\nLocation: ${job.location || "Remote"}\nDetails: ${job.additional_description || ""}`;
-        const inserted = await indexItem(job.id, content, { type: "job", title: job.title });
-        if (inserted) insertedCount++; else skippedCount++;
-      } catch (e: any) {
-        errors.push({ id: job.id, type: "job", error: e.message });
-      }
-    }
-  }
+// Stop picking up new pages well before maxDuration so the checkpoint gets written
+const WORK_BUDGET_MS = 45 * 1000;
 
-  // --- 2. PRODUCTS ---
-  const { data: products } = await supabase
-    .from("products")
-    .select("id, name, company_name, category, description:short_description");
-    
-  if (products) {
-    for (const p of products) {
-      try {
-        const content = `Type: Product\nName: ${p.name}\nCompany: ${p.company_name}\nCategory: ${p.category}\nDescription: ${p.description || ""}`;
-        const inserted = await indexItem(p.id, content, { type: "product", title: p.name });
-        if (inserted) insertedCount++; else skippedCount++;
-      } catch (e: any) {
-        errors.push({ id: p.id, type: "product", error: e.message });
-      }
-    }
-  }
+// Shared secret for scripted runs (e.g. after bulk imports), sent as `x-admin-secret`
+const adminSecret = process.env.SEARCH_INDEX_ADMIN_SECRET;
 
-  // --- 3. ORGANIZATIONS ---
-  const { data: orgs } = await supabase
-    .from("organizations")
-    .select("id, name, slug, industry, description, focus_areas")
-    .eq("is_active", true);
-
-  if (orgs) {
-    for (const org of orgs) {
-      try {
-        const content = `Type: Organization\nName: ${org.name}\nIndustry: ${org.industry}\nFocus: ${org.focus_areas}\nDescription: ${org.description || ""}`;
-        const inserted = await indexItem(org.slug, content, { type: "organization", title: org.name });
-        if (inserted) insertedCount++; else skippedCount++;
-      } catch (e: any) {
-        errors.push({ id: org.slug, type: "organization", error: e.message });
-      }
-    }
-  }
+// Admin JWT or shared secret; returns a 401/403 response when the caller is neither
+async function authorizeAdmin(req: Request) {
+  if (secretMatches(req.headers.get("x-admin-secret"), adminSecret)) return null;
 
-  // --- 4. PROFILES (Users) ---
-  const { data: profiles } = await supabase
-    .from("profiles")
-    .select("id, full_name, short_bio, role, affiliation, skills");
-
-  if (profiles) {
-    for (const profile of profiles) {
-      if (!profile.full_name) continue; 
-      try {
-        const content = `Type: User Profile\nName: ${profile.full_name}\nRole: ${profile.role}\nAffiliation: ${profile.affiliation}\nBio: ${profile.short_bio}\nSkills: ${profile.skills}`;
-        const inserted = await indexItem(profile.id, content, { type: "profile", title: profile.full_name });
-        if (inserted) insertedCount++; else skippedCount++;
-      } catch (e: any) {
-        errors.push({ id: profile.id, type: "profile", error: e.message });
-      }
-    }
+  if (!getBearerToken(req) && req.headers.get("x-admin-secret")) {
+    return authErrorResponse(401, "unauthenticated", "Invalid admin secret");
   }
 
-  // --- 5. Q&A QUESTIONS ---
-  const { data: questions } = await supabase
-    .from("qna_questions")
-    .select("id, title, body, tags");
-
-  if (questions) {
-    for (const q of questions) {
-      try {
-        const content = `Type: Q&A Question\nTitle: ${q.title}\nBody: ${q.body}\nTags: ${q.tags?.join(", ")}`;
-        const inserted = await indexItem(q.id, content, { type: "question", title: q.title });
-        if (inserted) insertedCount++; else skippedCount++;
-      } catch (e: any) {
-        errors.push({ id: q.id, type: "question", error: e.message });
-      }
-    }
+  const auth = await requireUser(req, supabase);
+  if (auth.response) return auth.response;
+
+  if (!isPlatformAdmin(auth.user)) {
+    return authErrorResponse(403, "forbidden", "Admin role required to rebuild the search index");
   }
-  
-  // --- 6. POSTS ---
-  const { data: posts } = await supabase
-    .from("posts")
-    .select("id, body, created_at, user_id");
-  
-  if (posts) {
-    for (const post of posts) {
-      try {
-        if (!post.body || post.body.length < 10) continue; // Skip short posts
-        const content = `Type: Post\nContent: ${post.body}`;
-        const inserted = await indexItem(post.id, content, { type: "post", title: post.body.substring(0, 50) });
-        if (inserted) insertedCount++; else skippedCount++;
-      } catch (e: any) {
-        errors.push({ id: post.id, type: "post", error: e.message });
+  return null;
+}
+
+function runSummary(run: IndexRun) {
+  const { counts } = run;
+  return {
+    runId: run.id,
+    status: run.status,
+    phase: run.phase,
+    cursor: run.cursor,
+    done: run.status !== "running",
+    insertedCount: counts.inserted,
+    updatedCount: counts.updated,
+    unchangedCount: counts.unchanged,
+    removedCount: counts.removed,
+    errors: run.errors,
+    startedAt: run.started_at,
+    updatedAt: run.updated_at,
+    finishedAt: run.finished_at,
+  };
+}
+
+/**
+ * Continues the current indexing run (or starts one) for up to WORK_BUDGET_MS.
+ * Call again while `done` is false; pass `{ "restart": true }` to start over.
+ */
+export async function POST(req: Request) {
+  const startedAt = Date.now();
+
+  const denied = await authorizeAdmin(req);
+  if (denied) return denied;
+
+  const { restart } = await req.json().catch(() => ({ restart: false }));
+
+  try {
+    let run = await getIndexRun(supabase);
+    if (!run || run.status !== "running" || restart) {
+      if (run && run.status === "running") {
+        // Abandon the old run so its lease holder stops checkpointing over the new one
+        await supabase.from("search_index_runs").update({ status: "failed", locked_until: null }).eq("id", run.id);
       }
+      run = await startIndexRun(supabase);
     }
-  }
 
-  return NextResponse.json({ 
-    message: `Indexing complete. Inserted: ${insertedCount}, Skipped: ${skippedCount}.`, 
-    insertedCount,
-    skippedCount, 
-    errors 
-  });
-}
+    const claimed = await claimIndexRun(supabase, run);
+    if (!claimed) {
+      return NextResponse.json(
+        { error: "Indexing run is already in progress", ...runSummary(run) },
+        { status: 409 }
+      );
+    }
 
-async function indexItem(id: string, text: string, metadata: any) {
-  // Check if already exists to avoid duplicates and save embedding costs
-  const { data: existing } = await supabase
-    .from("search_documents")
-    .select("id")
-    .eq("metadata->>link", id)
-    .maybeSingle();
+    const result = await continueIndexRun(supabase, claimed, startedAt + WORK_BUDGET_MS);
+    const summary = runSummary(result);
 
-  if (existing) {
-    return false; // Already present, skip
+    return NextResponse.json({
+      message: summary.done
+        ? `Indexing ${result.status}. Inserted: ${summary.insertedCount}, Updated: ${summary.updatedCount}, Unchanged: ${summary.unchangedCount}, Removed: ${summary.removedCount}.`
+        : `Indexing paused at ${result.phase}. POST again to continue.`,
+      ...summary,
+    });
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: 500 });
   }
+}
 
-  const { embedding } = await embed({
-    model: openai.textEmbeddingModel("text-embedding-3-small"),
-    value: text.replaceAll("\n", " "),
-  });
-  
-  const { error } = await supabase
-    .from("search_documents")
-    .insert({
-       content: text,
-       embedding,
-       metadata: { ...metadata, link: id }
-    });
+// Progress of the latest run, or of `?runId=` when given
+export async function GET(req: Request) {
+  const denied = await authorizeAdmin(req);
+  if (denied) return denied;
 
-  if (error) throw error;
-  return true;
+  try {
+    const runId = new URL(req.url).searchParams.get("runId");
+    const run = await getIndexRun(supabase, runId);
+    if (!run) {
+      return NextResponse.json({ error: "No indexing run found" }, { status: 404 });
+    }
+    return NextResponse.json(runSummary(run));
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: 500 });
+  }
 }
@@ -0,0 +1,60 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { authErrorResponse, isPlatformAdmin, requireUser } from "../../../../lib/apiAuth";
+import { isJobLive, liveJobOrFilters } from "../../../../lib/jobLifecycle";
+import {
+  DUPLICATE_JOB_COLUMNS,
+  MAX_CLUSTERED_JOBS,
+  clusterDuplicateJobs,
+  duplicateJobFromRow,
+} from "../../../../lib/jobDuplicates";
+import { loadJobEmbeddings } from "../../../../lib/jobEmbeddings";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+/**
+ * GET /api/admin/job-duplicates
+ * Clusters of open jobs that look like the same posting, largest first.
+ */
+export async function GET(req: Request) {
+  const auth = await requireUser(req, supabase);
+  if (auth.response) return auth.response;
+
+  if (!isPlatformAdmin(auth.user)) {
+    return authErrorResponse(403, "forbidden", "Admin role required to view the duplicate report");
+  }
+
+  const now = new Date();
+  const [liveStatus, notExpired] = liveJobOrFilters(now);
+  const { data: rows, error } = await supabase
+    .from("jobs")
+    .select(DUPLICATE_JOB_COLUMNS)
+    .or(liveStatus)
+    .or(notExpired)
+    .order("created_at", { ascending: false })
+    .limit(MAX_CLUSTERED_JOBS);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const jobs = (rows || [])
+    .filter((row: any) => isJobLive(row, now))
+    .map(duplicateJobFromRow);
+
+  // Text similarity alone still produces a useful report
+  let embeddings = new Map<string, number[]>();
+  try {
+    embeddings = await loadJobEmbeddings(supabase, jobs.map((j) => j.id));
+  } catch (e) {
+    console.error("Duplicate report: could not load job embeddings", e);
+  }
+
+  return NextResponse.json({
+    clusters: clusterDuplicateJobs(jobs, embeddings),
+    jobsCompared: jobs.length,
+    withEmbeddings: embeddings.size,
+  });
+}
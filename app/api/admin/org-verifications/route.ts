@@ -0,0 +1,64 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { authErrorResponse, isPlatformAdmin, requireUser } from "../../../../lib/apiAuth";
+import { DisputedVerification } from "../../../../lib/orgVerification";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+/**
+ * GET /api/admin/org-verifications
+ * Disputed verification claims, oldest first, with the claiming org and any
+ * other org currently verified for the same domain.
+ */
+export async function GET(req: Request) {
+  const auth = await requireUser(req, supabase);
+  if (auth.response) return auth.response;
+
+  if (!isPlatformAdmin(auth.user)) {
+    return authErrorResponse(403, "forbidden", "Admin role required to review verifications");
+  }
+
+  try {
+    const { data: claims, error } = await supabase
+      .from("org_verifications")
+      .select("*")
+      .eq("status", "disputed")
+      .order("disputed_at", { ascending: true });
+
+    if (error) throw error;
+
+    const rows = claims || [];
+    const orgIds = Array.from(new Set(rows.map((c: any) => c.org_id)));
+    const domains = Array.from(new Set(rows.map((c: any) => c.domain)));
+
+    const [{ data: orgs, error: orgsError }, { data: holders, error: holdersError }] = await Promise.all([
+      orgIds.length > 0
+        ? supabase.from("organizations").select("id, name, slug, website").in("id", orgIds)
+        : Promise.resolve({ data: [], error: null }),
+      domains.length > 0
+        ? supabase.from("organizations").select("id, name, slug, verified_domain").in("verified_domain", domains)
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+
+    if (orgsError) throw orgsError;
+    if (holdersError) throw holdersError;
+
+    const orgById = new Map<string, any>((orgs || []).map((o: any) => [o.id as string, o] as [string, any]));
+    const verifications: DisputedVerification[] = rows.map((c: any) => ({
+      ...c,
+      // The token is the claimant's secret; reviewers don't need it
+      token: "",
+      org: orgById.get(c.org_id) ?? null,
+      holders: (holders || [])
+        .filter((h: any) => h.verified_domain === c.domain && h.id !== c.org_id)
+        .map((h: any) => ({ id: h.id, name: h.name, slug: h.slug })),
+    }));
+
+    return NextResponse.json({ verifications });
+  } catch (error: any) {
+    console.error("Org verification queue error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
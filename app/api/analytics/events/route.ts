@@ -0,0 +1,196 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { getBearerToken } from "../../../../lib/apiAuth";
+import {
+  DEDUPE_WINDOW_MINUTES,
+  FOLLOW_EVENT_TYPES,
+  JOB_EVENT_TYPES,
+  MAX_EVENTS_PER_REQUEST,
+  OrgEventType,
+  PRODUCT_EVENT_TYPES,
+  isOrgEventType,
+} from "../../../../lib/orgAnalytics";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+const VISITOR_ID_RE = /^[a-z0-9]{8,40}$/i;
+
+type EventRow = { org_id: string; event_type: OrgEventType; subject_id: string; visitor_id: string };
+
+// Signed-in visitors are counted by user id; an invalid session just counts as anonymous
+async function signedInUserId(req: Request) {
+  const token = getBearerToken(req);
+  if (!token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  return error || !data?.user ? null : data.user.id;
+}
+
+async function orgIdsById(table: "jobs" | "products", ids: string[]) {
+  const out = new Map<string, string>();
+  if (ids.length === 0) return out;
+  const { data, error } = await supabase.from(table).select("id, org_id").in("id", ids);
+  if (error) throw error;
+  (data || []).forEach((r: any) => {
+    if (r.org_id) out.set(String(r.id), String(r.org_id));
+  });
+  return out;
+}
+
+async function activeOrgIds(ids: string[]) {
+  if (ids.length === 0) return new Set<string>();
+  const { data, error } = await supabase.from("organizations").select("id").in("id", ids).eq("is_active", true);
+  if (error) throw error;
+  return new Set((data || []).map((o: any) => String(o.id)));
+}
+
+// Orgs the user belongs to, whose own visits would inflate their numbers
+async function memberOrgIds(userId: string, orgIds: string[]) {
+  if (orgIds.length === 0) return new Set<string>();
+  const [{ data: created, error: createdError }, { data: memberships, error: membersError }] = await Promise.all([
+    supabase.from("organizations").select("id").in("id", orgIds).eq("created_by", userId),
+    supabase.from("org_members").select("org_id").in("org_id", orgIds).eq("user_id", userId),
+  ]);
+  if (createdError) throw createdError;
+  if (membersError) throw membersError;
+  return new Set([
+    ...(created || []).map((o: any) => String(o.id)),
+    ...(memberships || []).map((m: any) => String(m.org_id)),
+  ]);
+}
+
+// A follow event only counts when org_follows agrees and it changes the state
+// the user's previous follow event left, so repeats can't inflate the count
+async function followedOrgIds(userId: string, orgIds: string[]) {
+  if (orgIds.length === 0) return new Set<string>();
+  const { data, error } = await supabase
+    .from("org_follows")
+    .select("org_id")
+    .eq("user_id", userId)
+    .in("org_id", orgIds);
+  if (error) throw error;
+  return new Set((data || []).map((f: any) => String(f.org_id)));
+}
+
+// Most recent follow/unfollow event per org already stored for this user
+async function lastFollowEvents(userId: string, orgIds: string[]) {
+  const last = new Map<string, OrgEventType>();
+  if (orgIds.length === 0) return last;
+  const { data, error } = await supabase
+    .from("org_analytics_events")
+    .select("org_id, event_type")
+    .eq("visitor_id", userId)
+    .in("event_type", FOLLOW_EVENT_TYPES)
+    .in("org_id", orgIds)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  (data || []).forEach((e: any) => {
+    if (!last.has(String(e.org_id))) last.set(String(e.org_id), e.event_type);
+  });
+  return last;
+}
+
+async function recentEventKeys(visitorId: string) {
+  const since = new Date(Date.now() - DEDUPE_WINDOW_MINUTES * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from("org_analytics_events")
+    .select("event_type, subject_id")
+    .eq("visitor_id", visitorId)
+    .gte("created_at", since);
+  if (error) throw error;
+  return new Set((data || []).map((e: any) => `${e.event_type}:${e.subject_id}`));
+}
+
+/**
+ * POST /api/analytics/events { visitorId, events: [{ type, id }] }
+ * Records org analytics events from the browser (see lib/orgAnalytics.ts).
+ * Open to anonymous visitors; events about jobs or products without an org,
+ * from the org's own members, or repeated within the dedupe window are dropped.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    const rawEvents = Array.isArray(body?.events) ? body.events.slice(0, MAX_EVENTS_PER_REQUEST) : [];
+    const events = rawEvents.filter(
+      (e: any) => e && isOrgEventType(e.type) && typeof e.id === "string" && e.id.length > 0 && e.id.length <= 64
+    ) as { type: OrgEventType; id: string }[];
+
+    const userId = await signedInUserId(req);
+    const anonId = typeof body?.visitorId === "string" && VISITOR_ID_RE.test(body.visitorId) ? body.visitorId : null;
+    const visitorId = userId || (anonId ? `anon:${anonId}` : null);
+
+    if (!visitorId) {
+      return NextResponse.json({ error: "visitorId is required" }, { status: 400 });
+    }
+    if (events.length === 0) return NextResponse.json({ recorded: 0 });
+
+    const idsOf = (types: OrgEventType[]) =>
+      Array.from(new Set(events.filter((e) => types.includes(e.type)).map((e) => e.id)));
+
+    const [jobOrgs, productOrgs] = await Promise.all([
+      orgIdsById("jobs", idsOf(JOB_EVENT_TYPES)),
+      orgIdsById("products", idsOf(PRODUCT_EVENT_TYPES)),
+    ]);
+
+    // Follow/unfollow pairs in one batch cancel out; only an odd run's last event stands
+    const follows = events.filter((e) => FOLLOW_EVENT_TYPES.includes(e.type));
+    const keptFollows = new Set(
+      follows.filter((e, i) => {
+        const sameOrg = follows.filter((f) => f.id === e.id);
+        return sameOrg.length % 2 === 1 && follows.lastIndexOf(sameOrg[sameOrg.length - 1]) === i;
+      })
+    );
+
+    const candidates: EventRow[] = [];
+    for (const e of events) {
+      // Follows need a signed-in follower
+      if (FOLLOW_EVENT_TYPES.includes(e.type) && (!userId || !keptFollows.has(e))) continue;
+
+      const orgId = JOB_EVENT_TYPES.includes(e.type)
+        ? jobOrgs.get(e.id)
+        : PRODUCT_EVENT_TYPES.includes(e.type)
+          ? productOrgs.get(e.id)
+          : e.id;
+      if (!orgId) continue;
+
+      candidates.push({ org_id: orgId, event_type: e.type, subject_id: e.id, visitor_id: visitorId });
+    }
+
+    const orgIds = Array.from(new Set(candidates.map((c) => c.org_id)));
+    const [active, members, followed, lastFollow, recent] = await Promise.all([
+      activeOrgIds(orgIds),
+      userId ? memberOrgIds(userId, orgIds) : Promise.resolve(new Set<string>()),
+      userId ? followedOrgIds(userId, orgIds) : Promise.resolve(new Set<string>()),
+      userId ? lastFollowEvents(userId, orgIds) : Promise.resolve(new Map<string, OrgEventType>()),
+      recentEventKeys(visitorId),
+    ]);
+
+    const rows: EventRow[] = [];
+    for (const row of candidates) {
+      if (!active.has(row.org_id)) continue;
+
+      if (row.event_type === "follow" || row.event_type === "unfollow") {
+        if (followed.has(row.org_id) !== (row.event_type === "follow")) continue;
+        if (lastFollow.get(row.org_id) === row.event_type) continue;
+        lastFollow.set(row.org_id, row.event_type);
+      } else {
+        const key = `${row.event_type}:${row.subject_id}`;
+        if (members.has(row.org_id) || recent.has(key)) continue;
+        recent.add(key);
+      }
+
+      rows.push(row);
+    }
+
+    if (rows.length > 0) {
+      const { error } = await supabase.from("org_analytics_events").insert(rows);
+      if (error) throw error;
+    }
+
+    return NextResponse.json({ recorded: rows.length });
+  } catch (error: any) {
+    console.error("Analytics events error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
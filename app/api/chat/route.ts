@@ -1,6 +1,7 @@
 import { createClient } from "@supabase/supabase-js";
-import { convertToModelMessages, streamText, UIMessage, embed } from "ai";
+import { convertToModelMessages, streamText, UIMessage } from "ai";
 import { openai } from "@ai-sdk/openai";
+import { filterDocumentsForProvider, getEmbeddingProvider } from "../../../lib/embeddings";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -36,11 +37,9 @@ export async function POST(req: Request) {
   }
 
   try {
-    // 1. Generate embedding using OpenAI
-    const { embedding } = await embed({
-      model: openai.textEmbeddingModel("text-embedding-3-small"),
-      value: searchInput,
-    });
+    // 1. Generate embedding with the configured provider
+    const embeddingProvider = getEmbeddingProvider();
+    const embedding = await embeddingProvider.embed(searchInput);
 
     // 2. Fetch stats for global context (parallel)
     const [
@@ -58,7 +57,7 @@ export async function POST(req: Request) {
     ]);
 
     // 3. Retrieve relevant documents
-    const { data: documents, error: searchError } = await supabase
+    const { data: matchedDocuments, error: searchError } = await supabase
       .rpc("match_documents", {
         query_embedding: embedding,
         match_threshold: 0.1,
@@ -70,8 +69,15 @@ export async function POST(req: Request) {
       return new Response(JSON.stringify({ error: searchError.message }), { status: 500 });
     }
 
+    const documents = filterDocumentsForProvider(matchedDocuments, embeddingProvider);
+
     // 4. Construct system prompt
-    const context = documents?.map((doc: any) => `${doc.content}\nID: ${doc.metadata.link}\nType: ${doc.metadata.type}`).join("\n\n---\n\n") || "No relevant documents found.";
+    // Datasheet passages are cited through the product they belong to
+    const context = documents?.map((doc: any) =>
+      doc.metadata.type === "datasheet"
+        ? `${doc.content}\nID: ${doc.metadata.product_id}\nType: product datasheet`
+        : `${doc.content}\nID: ${doc.metadata.link}\nType: ${doc.metadata.type}`
+    ).join("\n\n---\n\n") || "No relevant documents found.";
 
     // Format user profile for context
     let userContext = "User is anonymous.";
@@ -113,6 +119,7 @@ Instructions:
 - **Linking**:
   - When mentioning a Job, you MUST link to it using the format: \`[Job Title](/jobs/ID)\` (using the ID from the context).
   - When mentioning a Product, you MUST link to it using the format: \`[Product Name](/products/ID)\`.
+  - When an answer uses a product datasheet excerpt, cite it the same way, naming the pages: \`[Product Name datasheet, p. 3](/products/ID)\`.
   - When mentioning a User/Profile, you MUST link to it using the format: \`[Name](/profile/ID)\`.
   - When mentioning an Organization, you MUST link to it using the format: \`[Name](/orgs/ID)\`.
   - Do NOT create links for Q&A questions, threads, or tags.
@@ -1,7 +1,6 @@
 import { createClient } from "@supabase/supabase-js";
-import { embed } from "ai";
-import { openai } from "@ai-sdk/openai";
 import { NextResponse } from "next/server";
+import { filterDocumentsForProvider, getEmbeddingProvider } from "../../../../lib/embeddings";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -65,10 +64,8 @@ export async function POST(req: Request) {
       `.trim();
 
       if (textToEmbed) {
-        const { embedding } = await embed({
-          model: openai.textEmbeddingModel("text-embedding-3-small"),
-          value: textToEmbed,
-        });
+        const embeddingProvider = getEmbeddingProvider();
+        const embedding = await embeddingProvider.embed(textToEmbed);
 
         const { data: documents } = await supabase
           .rpc("match_documents", {
@@ -78,7 +75,7 @@ export async function POST(req: Request) {
           });
 
         if (documents) {
-           semanticPostIds = documents
+           semanticPostIds = filterDocumentsForProvider(documents, embeddingProvider)
             .filter((doc: any) => doc.metadata?.type === "post")
             .map((doc: any) => doc.metadata.link);
         }
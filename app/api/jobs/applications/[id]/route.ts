@@ -0,0 +1,84 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { authErrorResponse, canManageJob, requireUser } from "../../../../../lib/apiAuth";
+import {
+  APPLICATION_STATUS_LABELS,
+  APPLICATION_STATUS_NOTIFICATION_TYPE,
+  isApplicationStatus,
+} from "../../../../../lib/jobApplications";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+/**
+ * PATCH /api/jobs/applications/:id { status }
+ * Moves an application through the pipeline (job managers only) and tells the
+ * applicant about the new status.
+ */
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await requireUser(req, supabase);
+    if (auth.response) return auth.response;
+    const user = auth.user;
+
+    const { id } = await params;
+    const { status } = await req.json();
+    if (!isApplicationStatus(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    const { data: application, error: appError } = await supabase
+      .from("job_applications")
+      .select("id, job_id, applicant_id, status")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (appError) throw appError;
+    if (!application) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+
+    const { data: job, error: jobError } = await supabase
+      .from("jobs")
+      .select("*")
+      .eq("id", application.job_id)
+      .maybeSingle();
+
+    if (jobError) throw jobError;
+    if (!job || !(await canManageJob(supabase, job, user))) {
+      return authErrorResponse(403, "forbidden", "You cannot manage applicants for this job");
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from("job_applications")
+      .update({
+        status,
+        status_updated_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", application.id)
+      .select("id, job_id, org_id, applicant_id, cover_note, status, status_updated_at, created_at")
+      .single();
+
+    if (updateError) throw updateError;
+
+    if (application.status !== status) {
+      const company = job.company_name ?? job.organisation_name ?? null;
+      const { error: notifyError } = await supabase.from("notifications").insert({
+        user_id: application.applicant_id,
+        type: APPLICATION_STATUS_NOTIFICATION_TYPE,
+        title: `Application update: ${APPLICATION_STATUS_LABELS[status]}`,
+        message: `${job.title || "Your application"}${company ? ` at ${company}` : ""}`,
+        link_url: "/ecosystem/applications",
+        is_read: false,
+      });
+      if (notifyError) console.error("Application status notification error", notifyError);
+    }
+
+    return NextResponse.json({ success: true, application: updated });
+  } catch (error: any) {
+    console.error("Job application update error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,249 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { authErrorResponse, canManageJob, orgManagerIds, requireUser } from "../../../../lib/apiAuth";
+import {
+  APPLICATION_CV_BUCKET,
+  APPLICATION_RECEIVED_NOTIFICATION_TYPE,
+  MAX_COVER_NOTE_LENGTH,
+  MAX_CV_BYTES,
+} from "../../../../lib/jobApplications";
+import { isJobLive } from "../../../../lib/jobLifecycle";
+import { isPdf, signedFileUrl } from "../../../../lib/storageFiles";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+export const maxDuration = 30;
+
+const APPLICATION_COLUMNS =
+  "id, job_id, org_id, applicant_id, cover_note, cv_path, status, status_updated_at, created_at";
+
+type JobForApplications = {
+  id: string;
+  title: string | null;
+  company_name: string | null;
+  organisation_name?: string | null;
+  org_id: string | null;
+  owner_id: string | null;
+  is_published?: boolean | null;
+  status?: string | null;
+  publish_at?: string | null;
+  expires_at?: string | null;
+};
+
+async function loadJob(jobId: string) {
+  const { data, error } = await supabase.from("jobs").select("*").eq("id", jobId).maybeSingle();
+  if (error) throw error;
+  return data as JobForApplications | null;
+}
+
+/**
+ * POST /api/jobs/applications (multipart: jobId, coverNote, cv)
+ * Submits the caller's profile, CV PDF and cover note for a published job and
+ * notifies the people who manage it. One application per user and job.
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireUser(req, supabase);
+    if (auth.response) return auth.response;
+    const user = auth.user;
+
+    const form = await req.formData();
+    const jobId = String(form.get("jobId") || "").trim();
+    const coverNote = String(form.get("coverNote") || "").trim();
+    const cv = form.get("cv");
+
+    if (!jobId) {
+      return NextResponse.json({ error: "jobId is required" }, { status: 400 });
+    }
+    if (!(cv instanceof File) || cv.size === 0) {
+      return NextResponse.json({ error: "Please attach your CV as a PDF." }, { status: 400 });
+    }
+    if (cv.size > MAX_CV_BYTES) {
+      return NextResponse.json({ error: "CV must be 5 MB or smaller." }, { status: 400 });
+    }
+    if (!(await isPdf(cv))) {
+      return NextResponse.json({ error: "CV must be a PDF file." }, { status: 400 });
+    }
+    if (coverNote.length > MAX_COVER_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Cover note must be at most ${MAX_COVER_NOTE_LENGTH} characters.` },
+        { status: 400 }
+      );
+    }
+
+    const job = await loadJob(jobId);
+    if (!job || !isJobLive(job)) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    if (job.owner_id === user.id) {
+      return NextResponse.json({ error: "You cannot apply to your own job." }, { status: 400 });
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from("job_applications")
+      .select("id")
+      .eq("job_id", job.id)
+      .eq("applicant_id", user.id)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+    if (existing) {
+      return NextResponse.json({ error: "You have already applied to this job." }, { status: 409 });
+    }
+
+    const cvPath = `${job.id}/${user.id}-${Date.now()}.pdf`;
+    const { error: uploadError } = await supabase.storage
+      .from(APPLICATION_CV_BUCKET)
+      .upload(cvPath, cv, { contentType: "application/pdf", upsert: false });
+
+    if (uploadError) throw uploadError;
+
+    const now = new Date().toISOString();
+    const { data: application, error: insertError } = await supabase
+      .from("job_applications")
+      .insert({
+        job_id: job.id,
+        org_id: job.org_id,
+        applicant_id: user.id,
+        cover_note: coverNote || null,
+        cv_path: cvPath,
+        status: "new",
+        status_updated_at: now,
+      })
+      .select(APPLICATION_COLUMNS)
+      .single();
+
+    if (insertError) {
+      await supabase.storage.from(APPLICATION_CV_BUCKET).remove([cvPath]);
+      throw insertError;
+    }
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("full_name")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    const applicantName = profile?.full_name || user.email || "Someone";
+    const rows = (await orgManagerIds(supabase, job.owner_id, job.org_id))
+      .filter((id) => id !== user.id)
+      .map((id) => ({
+        user_id: id,
+        type: APPLICATION_RECEIVED_NOTIFICATION_TYPE,
+        title: "New job application",
+        message: `${applicantName} applied to ${job.title || "your job"}`,
+        link_url: `/jobs/${job.id}`,
+        is_read: false,
+      }));
+
+    if (rows.length > 0) {
+      const { error: notifyError } = await supabase.from("notifications").insert(rows);
+      // The application itself is stored; a missed notification is not worth failing over
+      if (notifyError) console.error("Application notification error", notifyError);
+    }
+
+    const { cv_path: _cvPath, ...publicApplication } = application as any;
+    return NextResponse.json({ success: true, application: publicApplication });
+  } catch (error: any) {
+    console.error("Job application submit error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/jobs/applications?jobId=…   applicants for a job (managers only)
+ * GET /api/jobs/applications?mine=1    the caller's own applications (optionally &jobId=…)
+ */
+export async function GET(req: Request) {
+  try {
+    const auth = await requireUser(req, supabase);
+    if (auth.response) return auth.response;
+    const user = auth.user;
+
+    const { searchParams } = new URL(req.url);
+    const jobId = searchParams.get("jobId");
+    const mine = searchParams.get("mine") === "1";
+
+    if (mine) {
+      let query = supabase
+        .from("job_applications")
+        .select(APPLICATION_COLUMNS)
+        .eq("applicant_id", user.id)
+        .order("created_at", { ascending: false });
+      if (jobId) query = query.eq("job_id", jobId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const jobIds = Array.from(new Set((data || []).map((a: any) => a.job_id)));
+      const jobsById = new Map<string, any>();
+      if (jobIds.length > 0) {
+        const { data: jobs, error: jobsError } = await supabase
+          .from("jobs")
+          .select("*")
+          .in("id", jobIds);
+        if (jobsError) throw jobsError;
+        (jobs || []).forEach((j: any) =>
+          jobsById.set(j.id, {
+            id: j.id,
+            title: j.title ?? null,
+            company_name: j.company_name ?? j.organisation_name ?? null,
+          })
+        );
+      }
+
+      const applications = (data || []).map(({ cv_path: _cvPath, ...a }: any) => ({
+        ...a,
+        job: jobsById.get(a.job_id) ?? null,
+      }));
+
+      return NextResponse.json({ applications });
+    }
+
+    if (!jobId) {
+      return NextResponse.json({ error: "jobId or mine=1 is required" }, { status: 400 });
+    }
+
+    const job = await loadJob(jobId);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    if (!(await canManageJob(supabase, job, user))) {
+      return authErrorResponse(403, "forbidden", "You cannot view applicants for this job");
+    }
+
+    const { data, error } = await supabase
+      .from("job_applications")
+      .select(APPLICATION_COLUMNS)
+      .eq("job_id", job.id)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+
+    const applicantIds = Array.from(new Set((data || []).map((a: any) => a.applicant_id)));
+    const profilesById = new Map<string, any>();
+    if (applicantIds.length > 0) {
+      const { data: profiles, error: profilesError } = await supabase
+        .from("profiles")
+        .select("id, full_name, avatar_url, email, current_title, affiliation, city, country")
+        .in("id", applicantIds);
+      if (profilesError) throw profilesError;
+      (profiles || []).forEach((p: any) => profilesById.set(p.id, p));
+    }
+
+    const applications = await Promise.all(
+      (data || []).map(async ({ cv_path, ...a }: any) => ({
+        ...a,
+        applicant: profilesById.get(a.applicant_id) ?? null,
+        cv_url: await signedFileUrl(supabase, APPLICATION_CV_BUCKET, cv_path),
+      }))
+    );
+
+    return NextResponse.json({ applications });
+  } catch (error: any) {
+    console.error("Job applications list error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
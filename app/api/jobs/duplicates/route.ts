@@ -0,0 +1,137 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { requireUser } from "../../../../lib/apiAuth";
+import { filterDocumentsForProvider, getEmbeddingProvider } from "../../../../lib/embeddings";
+import { isJobLive, liveJobOrFilters } from "../../../../lib/jobLifecycle";
+import { SEARCH_DOCUMENT_BUILDERS } from "../../../../lib/searchDocuments";
+import {
+  DUPLICATE_JOB_COLUMNS,
+  DUPLICATE_THRESHOLD,
+  DuplicateMatch,
+  MAX_DRAFT_CANDIDATES,
+  MAX_DUPLICATE_MATCHES,
+  duplicateJobFromRow,
+  scoreDuplicate,
+} from "../../../../lib/jobDuplicates";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+// Closest job documents fetched for the draft's embedding
+const EMBEDDING_CANDIDATES = 30;
+
+/**
+ * Embedding similarity between the draft and the closest job documents. The
+ * check still works on text alone when embedding fails (e.g. provider outage).
+ */
+async function draftSimilarities(draft: any): Promise<Map<string, number>> {
+  const similarities = new Map<string, number>();
+  const built = SEARCH_DOCUMENT_BUILDERS.job.build({
+    title: draft.title,
+    company_name: draft.company_name,
+    location: draft.location,
+    additional_description: draft.details,
+  });
+  if (!built) return similarities;
+
+  try {
+    const provider = getEmbeddingProvider();
+    const embedding = await provider.embed(built.content);
+    const { data, error } = await supabase.rpc("match_documents", {
+      query_embedding: embedding,
+      match_threshold: 0.5,
+      match_count: EMBEDDING_CANDIDATES,
+    });
+    if (error) throw error;
+
+    for (const doc of filterDocumentsForProvider<any>(data, provider)) {
+      if (doc.metadata?.type !== "job" || typeof doc.similarity !== "number") continue;
+      const id = String(doc.metadata.link);
+      if (doc.similarity > (similarities.get(id) ?? -1)) similarities.set(id, doc.similarity);
+    }
+  } catch (e) {
+    console.error("Duplicate check: embedding similarity unavailable", e);
+  }
+  return similarities;
+}
+
+/**
+ * POST /api/jobs/duplicates
+ * Body: { title, company_name, location, country_code?, city?, org_id?, details?, excludeId? }
+ * Open jobs that look like the same posting as the draft, best match first.
+ */
+export async function POST(req: Request) {
+  const auth = await requireUser(req, supabase);
+  if (auth.response) return auth.response;
+
+  const draft = await req.json().catch(() => null);
+  if (!draft || typeof draft.title !== "string" || !draft.title.trim()) {
+    return NextResponse.json({ error: "A job title is required" }, { status: 400 });
+  }
+
+  const similarities = await draftSimilarities(draft);
+
+  // The newest open jobs plus the closest embedding matches, however old
+  const now = new Date();
+  const [liveStatus, notExpired] = liveJobOrFilters(now);
+  const similarIds = Array.from(similarities.keys());
+  const [{ data: recent, error }, { data: similar, error: similarError }] = await Promise.all([
+    supabase
+      .from("jobs")
+      .select(DUPLICATE_JOB_COLUMNS)
+      .or(liveStatus)
+      .or(notExpired)
+      .order("created_at", { ascending: false })
+      .limit(MAX_DRAFT_CANDIDATES),
+    similarIds.length > 0
+      ? supabase.from("jobs").select(DUPLICATE_JOB_COLUMNS).in("id", similarIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (error || similarError) {
+    console.error("Duplicate check: error loading jobs", error || similarError);
+    return NextResponse.json({ error: "Could not load jobs" }, { status: 500 });
+  }
+
+  const rows = new Map<string, any>(
+    [...(recent || []), ...(similar || [])].map((row: any) => [String(row.id), row] as [string, any])
+  );
+
+  const draftFields = {
+    title: draft.title,
+    company_name: draft.company_name ?? null,
+    location: draft.location ?? null,
+    country_code: draft.country_code ?? null,
+    city: draft.city ?? null,
+  };
+  const orgId = typeof draft.org_id === "string" ? draft.org_id : null;
+
+  const matches: DuplicateMatch[] = [];
+  for (const row of Array.from(rows.values())) {
+    if (!isJobLive(row, now) || String(row.id) === draft.excludeId) continue;
+
+    const job = duplicateJobFromRow(row);
+    const result = scoreDuplicate(draftFields, job, similarities.get(job.id) ?? null);
+    if (!result || result.score < DUPLICATE_THRESHOLD) continue;
+
+    matches.push({
+      job: {
+        id: job.id,
+        title: job.title,
+        company_name: job.company_name,
+        location: job.location,
+        org_id: job.org_id ?? null,
+        created_at: job.created_at,
+      },
+      score: result.score,
+      sameOrg: !!orgId && job.org_id === orgId,
+      reasons: result.reasons,
+    });
+  }
+
+  // The org's own postings first: those are the ones the poster can fix
+  matches.sort((a, b) => Number(b.sameOrg) - Number(a.sameOrg) || b.score - a.score);
+
+  return NextResponse.json({ matches: matches.slice(0, MAX_DUPLICATE_MATCHES) });
+}
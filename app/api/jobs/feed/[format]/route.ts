@@ -0,0 +1,75 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { isJobLive, liveJobOrFilters } from "../../../../../lib/jobLifecycle";
+import { hasJobFilters } from "../../../../../lib/jobFilters";
+import { jsonLdJobFromRow } from "../../../../../lib/jobJsonLd";
+import {
+  JOB_FEED_CANDIDATE_LIMIT,
+  JOB_FEED_COLUMNS,
+  JOB_FEED_CONTENT_TYPES,
+  JOB_FEED_FACETS,
+  JOB_FEED_LIMIT,
+  JobFeedJob,
+  describeJobFeed,
+  isJobFeedFormat,
+  matchesJobFeedFilters,
+  parseJobFeedFilters,
+  renderAtom,
+  renderJsonFeed,
+  renderRss,
+} from "../../../../../lib/jobFeed";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// Feed readers poll often; let the CDN absorb it
+const CACHE_CONTROL = "public, s-maxage=900, stale-while-revalidate=3600";
+
+/**
+ * GET /api/jobs/feed/rss | atom | json
+ * Published jobs, newest first, narrowed by the query params described in
+ * lib/jobFeed (q, country, category, quantum_domain, role_track, technology_type).
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ format: string }> }) {
+  const { format } = await params;
+  if (!isJobFeedFormat(format)) {
+    return NextResponse.json({ error: "Unknown feed format. Use rss, atom or json." }, { status: 404 });
+  }
+
+  const url = new URL(req.url);
+  const siteUrl = url.origin;
+  const filters = parseJobFeedFilters(url.searchParams);
+
+  const now = new Date();
+  const [liveStatus, notExpired] = liveJobOrFilters(now);
+  let query = supabase.from("jobs").select(JOB_FEED_COLUMNS).or(liveStatus).or(notExpired);
+  for (const facet of JOB_FEED_FACETS) {
+    if (filters[facet]) query = query.ilike(facet, `%${filters[facet].replace(/[\\%_]/g, "\\$&")}%`);
+  }
+
+  // Free text, country and category are matched in code, so read more candidates for them
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .limit(hasJobFilters(filters) ? JOB_FEED_CANDIDATE_LIMIT : JOB_FEED_LIMIT);
+
+  if (error) {
+    console.error("Error loading jobs for feed", error);
+    return NextResponse.json({ error: "Could not load jobs" }, { status: 500 });
+  }
+
+  const jobs = ((data || []) as any[])
+    .filter((job) => isJobLive(job, now))
+    .map((row) => jsonLdJobFromRow(row) as JobFeedJob)
+    .filter((job) => matchesJobFeedFilters(job, filters))
+    .slice(0, JOB_FEED_LIMIT);
+
+  const meta = { title: describeJobFeed(filters), siteUrl, selfUrl: url.toString() };
+  const headers = { "Content-Type": JOB_FEED_CONTENT_TYPES[format], "Cache-Control": CACHE_CONTROL };
+
+  if (format === "json") {
+    return new NextResponse(JSON.stringify(renderJsonFeed(jobs, meta)), { headers });
+  }
+  const body = format === "atom" ? renderAtom(jobs, meta) : renderRss(jobs, meta);
+  return new NextResponse(body, { headers });
+}
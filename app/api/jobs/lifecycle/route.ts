@@ -0,0 +1,138 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { authorizeCron } from "../../../../lib/apiAuth";
+import { EXPIRY_WARNING_DAYS, JOB_EXPIRY_NOTIFICATION_TYPE } from "../../../../lib/jobLifecycle";
+import { indexSourceRows, removeSearchDocuments } from "../../../../lib/searchIndexer";
+import { sendSavedSearchAlerts } from "../../../../lib/savedSearchAlerts";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+export const maxDuration = 60;
+
+// Rows per transition per run; anything left over is picked up by the next run
+const BATCH_SIZE = 200;
+
+async function dueJobIds(status: string, dateColumn: string, now: string) {
+  const { data, error } = await supabase
+    .from("jobs")
+    .select("id")
+    .eq("status", status)
+    .lte(dateColumn, now)
+    .order(dateColumn, { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+  return (data || []).map((j: any) => j.id);
+}
+
+// scheduled -> published once publish_at has passed; indexed and announced to saved searches
+async function publishDueJobs(now: string) {
+  const due = await dueJobIds("scheduled", "publish_at", now);
+  if (due.length === 0) return { published: 0, alerted: 0 };
+
+  // Status guard: a job edited back to draft in the meantime stays a draft
+  const { data, error } = await supabase
+    .from("jobs")
+    .update({ status: "published", is_published: true })
+    .in("id", due)
+    .eq("status", "scheduled")
+    .select("*");
+
+  if (error) throw error;
+  const jobs = data || [];
+  if (jobs.length === 0) return { published: 0, alerted: 0 };
+
+  await indexSourceRows(supabase, "job", jobs);
+
+  let alerted = 0;
+  for (const job of jobs) {
+    try {
+      alerted += await sendSavedSearchAlerts(supabase, job);
+    } catch (e) {
+      // A failed alert must not undo the publish
+      console.error("Scheduled job alert error", job.id, e);
+    }
+  }
+
+  return { published: jobs.length, alerted };
+}
+
+// published -> expired once expires_at has passed; dropped from search
+async function expireJobs(now: string) {
+  const due = await dueJobIds("published", "expires_at", now);
+  if (due.length === 0) return { expired: 0, removedFromSearch: 0 };
+
+  const { data, error } = await supabase
+    .from("jobs")
+    .update({ status: "expired", is_published: false })
+    .in("id", due)
+    .eq("status", "published")
+    .select("id");
+
+  if (error) throw error;
+  const ids = (data || []).map((j: any) => String(j.id));
+  const removed = await removeSearchDocuments(supabase, "job", ids);
+  return { expired: ids.length, removedFromSearch: removed };
+}
+
+// One "expiring soon" notification per expiry date, linking to the one-click renew
+async function warnExpiringJobs(now: Date) {
+  const warnBefore = new Date(now.getTime() + EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from("jobs")
+    .select("id, title, owner_id, expires_at")
+    .eq("status", "published")
+    .is("expiry_notified_at", null)
+    .gt("expires_at", now.toISOString())
+    .lte("expires_at", warnBefore.toISOString())
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+  const jobs = (data || []).filter((j: any) => !!j.owner_id);
+  if (jobs.length === 0) return { warned: 0 };
+
+  const rows = jobs.map((job: any) => ({
+    user_id: job.owner_id,
+    type: JOB_EXPIRY_NOTIFICATION_TYPE,
+    title: "Your job posting expires soon",
+    message: `${job.title || "Your job"} expires on ${new Date(job.expires_at).toLocaleDateString("en-GB")}. Renew it to keep it listed.`,
+    link_url: `/jobs/${job.id}?renew=1`,
+    is_read: false,
+  }));
+
+  const { error: insertError } = await supabase.from("notifications").insert(rows);
+  if (insertError) throw insertError;
+
+  const { error: markError } = await supabase
+    .from("jobs")
+    .update({ expiry_notified_at: now.toISOString() })
+    .in("id", jobs.map((j: any) => j.id));
+  if (markError) throw markError;
+
+  return { warned: jobs.length };
+}
+
+/**
+ * GET /api/jobs/lifecycle
+ * Scheduled run (see vercel.json) applying date-driven job transitions:
+ * publishes due scheduled jobs, expires stale ones and warns owners ahead of expiry.
+ */
+export async function GET(req: Request) {
+  const denied = await authorizeCron(req, supabase, "Admin role required to run job lifecycle updates");
+  if (denied) return denied;
+
+  try {
+    const now = new Date();
+    const published = await publishDueJobs(now.toISOString());
+    const expired = await expireJobs(now.toISOString());
+    const warned = await warnExpiringJobs(now);
+
+    return NextResponse.json({ success: true, ...published, ...expired, ...warned });
+  } catch (e: any) {
+    console.error("Job lifecycle error", e);
+    return NextResponse.json({ error: e.message }, { status: 500 });
+  }
+}
@@ -1,15 +1,28 @@
 import { createClient } from "@supabase/supabase-js";
-import { embed } from "ai";
-import { openai } from "@ai-sdk/openai";
 import { NextResponse } from "next/server";
+import { filterDocumentsForProvider, getEmbeddingProvider } from "../../../../lib/embeddings";
+import { cosineSimilarity } from "../../../../lib/jobDuplicates";
+import { loadJobEmbeddings } from "../../../../lib/jobEmbeddings";
+import { isJobLive } from "../../../../lib/jobLifecycle";
+import { JobMatch, MAX_SCORED_JOBS, scoreJobMatch } from "../../../../lib/jobMatch";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 const supabase = createClient(supabaseUrl, supabaseKey);
 
+// Number of top matches returned as `jobIds` for the "Recommended for you" strip
+const RECOMMENDED_COUNT = 2;
+
+/**
+ * POST /api/jobs/recommend
+ * Body: { userId, jobIds? }
+ * Scores the given jobs (or the closest jobs by embedding when none are given)
+ * against the user's profile. Returns `matches` sorted by score with matched and
+ * missing skills, plus the top `jobIds`.
+ */
 export async function POST(req: Request) {
   try {
-    const { userId } = await req.json();
+    const { userId, jobIds: requestedIds } = await req.json();
 
     if (!userId) {
       return NextResponse.json({ error: "User ID is required" }, { status: 400 });
@@ -36,14 +49,12 @@ export async function POST(req: Request) {
     `.trim();
 
     if (!textToEmbed) {
-        return NextResponse.json({ jobIds: [] });
+        return NextResponse.json({ jobIds: [], matches: [] });
     }
 
     // 3. Generate embedding
-    const { embedding } = await embed({
-      model: openai.textEmbeddingModel("text-embedding-3-small"),
-      value: textToEmbed,
-    });
+    const embeddingProvider = getEmbeddingProvider();
+    const embedding = await embeddingProvider.embed(textToEmbed);
 
     // 4. Find matches
     const { data: documents, error: searchError } = await supabase
@@ -57,16 +68,52 @@ export async function POST(req: Request) {
       throw searchError;
     }
 
-    // 5. Filter for jobs and extract IDs
+    // 5. Similarity per job
     // The 'metadata' column contains { type: 'job', link: 'job_id', ... }
-    const jobIds = documents
-      ?.filter((doc: any) => doc.metadata?.type === "job")
-      .map((doc: any) => doc.metadata.link); // 'link' stores the ID for jobs
+    const similarityByJob = new Map<string, number>();
+    for (const doc of filterDocumentsForProvider<any>(documents, embeddingProvider)) {
+      if (doc.metadata?.type !== "job") continue;
+      const id = String(doc.metadata.link); // 'link' stores the ID for jobs
+      const similarity = typeof doc.similarity === "number" ? doc.similarity : null;
+      if (similarity !== null && similarity > (similarityByJob.get(id) ?? -1)) {
+        similarityByJob.set(id, similarity);
+      }
+    }
+
+    // 6. Score the requested jobs, or the embedding candidates
+    const candidateIds: string[] = Array.isArray(requestedIds)
+      ? requestedIds.map(String).slice(0, MAX_SCORED_JOBS)
+      : Array.from(similarityByJob.keys());
+
+    if (candidateIds.length === 0) {
+      return NextResponse.json({ jobIds: [], matches: [] });
+    }
+
+    // Requested jobs outside the closest documents are compared with their own
+    // search document; a job without one is scored on the other signals alone
+    const unmatchedIds = candidateIds.filter((id) => !similarityByJob.has(id));
+    if (unmatchedIds.length > 0) {
+      const jobEmbeddings = await loadJobEmbeddings(supabase, unmatchedIds);
+      jobEmbeddings.forEach((vector, id) => similarityByJob.set(id, cosineSimilarity(embedding, vector)));
+    }
+
+    const { data: jobs, error: jobsError } = await supabase
+      .from("jobs")
+      .select("id, keywords, quantum_domain, seniority_level, status, is_published, publish_at, expires_at")
+      .in("id", candidateIds);
+
+    if (jobsError) {
+      throw jobsError;
+    }
+
+    const matches: JobMatch[] = (jobs || [])
+      .filter((job: any) => isJobLive(job))
+      .map((job: any) => scoreJobMatch(profile, job, similarityByJob.get(String(job.id)) ?? null))
+      .sort((a, b) => b.score - a.score);
 
-    // Limit to top 2 recommendations
-    const topJobIds = Array.from(new Set(jobIds)).slice(0, 2);
+    const topJobIds = matches.slice(0, RECOMMENDED_COUNT).map((m) => m.jobId);
 
-    return NextResponse.json({ jobIds: topJobIds });
+    return NextResponse.json({ jobIds: topJobIds, matches });
 
   } catch (error: any) {
     console.error("Recommendation error:", error);
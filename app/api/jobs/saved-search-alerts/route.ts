@@ -0,0 +1,55 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { authErrorResponse, canManageJob, requireUser } from "../../../../lib/apiAuth";
+import { isJobLive } from "../../../../lib/jobLifecycle";
+import { sendSavedSearchAlerts } from "../../../../lib/savedSearchAlerts";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+export const maxDuration = 30;
+
+/**
+ * POST /api/jobs/saved-search-alerts { jobId }
+ * Called after a job is published. Every user with a saved search matching the
+ * job gets one notification linking to it (at most one per user and job).
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireUser(req, supabase);
+    if (auth.response) return auth.response;
+    const user = auth.user;
+
+    const { jobId } = await req.json();
+    if (!jobId) {
+      return NextResponse.json({ error: "jobId is required" }, { status: 400 });
+    }
+
+    const { data: job, error: jobError } = await supabase
+      .from("jobs")
+      .select("*")
+      .eq("id", jobId)
+      .maybeSingle();
+
+    if (jobError) throw jobError;
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    if (!(await canManageJob(supabase, job, user))) {
+      return authErrorResponse(403, "forbidden", "You cannot send alerts for this job");
+    }
+
+    // Drafts and scheduled jobs alert when they go live (see /api/jobs/lifecycle)
+    if (!isJobLive(job)) {
+      return NextResponse.json({ success: true, notified: 0, skipped: "not_live" });
+    }
+
+    const notified = await sendSavedSearchAlerts(supabase, job);
+    return NextResponse.json({ success: true, notified });
+  } catch (error: any) {
+    console.error("Saved search alerts error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
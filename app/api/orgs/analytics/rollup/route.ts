@@ -0,0 +1,40 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { authorizeCron } from "../../../../../lib/apiAuth";
+import { isoDay, shiftDay } from "../../../../../lib/orgAnalytics";
+import { pruneOrgAnalyticsEvents, rollUpOrgAnalyticsDay } from "../../../../../lib/orgAnalyticsRollup";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+export const maxDuration = 60;
+
+// Today plus the two days before it, so a few missed runs still get rolled up
+const ROLLUP_DAYS = 3;
+
+/**
+ * GET /api/orgs/analytics/rollup
+ * Scheduled run (see vercel.json) that rolls the last few days of raw org
+ * analytics events up into daily counts and prunes expired raw events.
+ */
+export async function GET(req: Request) {
+  const denied = await authorizeCron(req, supabase, "Admin role required to roll up org analytics");
+  if (denied) return denied;
+
+  try {
+    const now = new Date();
+    const today = isoDay(now);
+
+    let rows = 0;
+    for (let i = ROLLUP_DAYS - 1; i >= 0; i--) {
+      rows += await rollUpOrgAnalyticsDay(supabase, shiftDay(today, -i));
+    }
+    const pruned = await pruneOrgAnalyticsEvents(supabase, now);
+
+    return NextResponse.json({ success: true, days: ROLLUP_DAYS, rows, pruned });
+  } catch (e: any) {
+    console.error("Org analytics rollup error", e);
+    return NextResponse.json({ error: e.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,178 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import {
+  ORG_LISTING_ROLES,
+  authErrorResponse,
+  canManageOrg,
+  isPlatformAdmin,
+  requireUser,
+} from "../../../../lib/apiAuth";
+import {
+  DEFAULT_RANGE_DAYS,
+  FOLLOW_EVENT_TYPES,
+  MAX_RANGE_DAYS,
+  OrgAnalyticsDay,
+  OrgAnalyticsReport,
+  OrgTopJob,
+  OrgTopProduct,
+  daysBetween,
+  emptyEventCounts,
+  isDay,
+  isOrgEventType,
+  lastDaysRange,
+} from "../../../../lib/orgAnalytics";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+const DAILY_PAGE_SIZE = 1000;
+const TOP_CONTENT_LIMIT = 10;
+
+async function dailyRows(orgId: string, from: string, to: string) {
+  const rows: any[] = [];
+  for (let offset = 0; ; offset += DAILY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("org_analytics_daily")
+      .select("day, event_type, subject_id, count, unique_visitors")
+      .eq("org_id", orgId)
+      .gte("day", from)
+      .lte("day", to)
+      .order("day", { ascending: true })
+      .range(offset, offset + DAILY_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < DAILY_PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/**
+ * GET /api/orgs/analytics?orgId=…&from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Daily counts, follower growth and top jobs/products for an org, from the
+ * rolled-up org_analytics_daily table. Owners and co-owners only.
+ */
+export async function GET(req: Request) {
+  const auth = await requireUser(req, supabase);
+  if (auth.response) return auth.response;
+
+  const params = new URL(req.url).searchParams;
+  const orgId = params.get("orgId");
+  const fallback = lastDaysRange(DEFAULT_RANGE_DAYS);
+  const from = params.get("from") || fallback.from;
+  const to = params.get("to") || fallback.to;
+
+  if (!orgId) {
+    return NextResponse.json({ error: "orgId is required" }, { status: 400 });
+  }
+  if (!isDay(from) || !isDay(to) || from > to) {
+    return NextResponse.json({ error: "from and to must be dates (YYYY-MM-DD), from before to" }, { status: 400 });
+  }
+  const days = daysBetween(from, to);
+  if (days.length > MAX_RANGE_DAYS) {
+    return NextResponse.json({ error: `Pick a range of at most ${MAX_RANGE_DAYS} days.` }, { status: 400 });
+  }
+
+  try {
+    if (!isPlatformAdmin(auth.user) && !(await canManageOrg(supabase, orgId, auth.user.id, ORG_LISTING_ROLES))) {
+      return authErrorResponse(403, "forbidden", "Only owners and co-owners can view this organization's analytics");
+    }
+
+    const [rows, { data: laterFollows, error: laterError }, { count: followers, error: followersError }] =
+      await Promise.all([
+        dailyRows(orgId, from, to),
+        // Follow changes after the range, to walk back from today's follower count
+        supabase
+          .from("org_analytics_daily")
+          .select("event_type, count")
+          .eq("org_id", orgId)
+          .gt("day", to)
+          .in("event_type", FOLLOW_EVENT_TYPES),
+        supabase.from("org_follows").select("user_id", { count: "exact", head: true }).eq("org_id", orgId),
+      ]);
+
+    if (laterError) throw laterError;
+    if (followersError) throw followersError;
+
+    const byDay = new Map<string, OrgAnalyticsDay>(
+      days.map((day) => [day, { day, ...emptyEventCounts(), visitors: 0, followers: null }] as [string, OrgAnalyticsDay])
+    );
+    const totals = emptyEventCounts();
+    const jobs = new Map<string, OrgTopJob>();
+    const products = new Map<string, OrgTopProduct>();
+
+    for (const r of rows) {
+      const entry = byDay.get(r.day);
+      if (!entry || !isOrgEventType(r.event_type)) continue;
+
+      entry[r.event_type] += r.count;
+      totals[r.event_type] += r.count;
+      if (r.event_type === "org_view") entry.visitors += r.unique_visitors;
+
+      if (r.event_type === "job_impression" || r.event_type === "job_view" || r.event_type === "apply_click") {
+        const job = jobs.get(r.subject_id) || { id: r.subject_id, title: null, job_impression: 0, job_view: 0, apply_click: 0 };
+        job[r.event_type] += r.count;
+        jobs.set(r.subject_id, job);
+      } else if (r.event_type === "product_view") {
+        const product = products.get(r.subject_id) || { id: r.subject_id, name: null, product_view: 0 };
+        product.product_view += r.count;
+        products.set(r.subject_id, product);
+      }
+    }
+
+    // Followers at the end of each day: today's count minus every later net change
+    let running = followers || 0;
+    for (const f of laterFollows || []) {
+      running -= f.event_type === "follow" ? f.count : -f.count;
+    }
+    for (let i = days.length - 1; i >= 0; i--) {
+      const entry = byDay.get(days[i])!;
+      entry.followers = Math.max(running, 0);
+      running -= entry.follow - entry.unfollow;
+    }
+
+    const topJobs = Array.from(jobs.values())
+      .sort((a, b) => b.job_view - a.job_view || b.job_impression - a.job_impression || b.apply_click - a.apply_click)
+      .slice(0, TOP_CONTENT_LIMIT);
+    const topProducts = Array.from(products.values())
+      .sort((a, b) => b.product_view - a.product_view)
+      .slice(0, TOP_CONTENT_LIMIT);
+
+    const [{ data: jobTitles, error: jobsError }, { data: productNames, error: productsError }] = await Promise.all([
+      topJobs.length > 0
+        ? supabase.from("jobs").select("id, title").in("id", topJobs.map((j) => j.id))
+        : Promise.resolve({ data: [], error: null }),
+      topProducts.length > 0
+        ? supabase.from("products").select("id, name").in("id", topProducts.map((p) => p.id))
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+
+    if (jobsError) throw jobsError;
+    if (productsError) throw productsError;
+
+    (jobTitles || []).forEach((j: any) => {
+      const job = jobs.get(String(j.id));
+      if (job) job.title = j.title ?? null;
+    });
+    (productNames || []).forEach((p: any) => {
+      const product = products.get(String(p.id));
+      if (product) product.name = p.name ?? null;
+    });
+
+    const report: OrgAnalyticsReport = {
+      from,
+      to,
+      followers: followers || 0,
+      days: days.map((day) => byDay.get(day)!),
+      totals,
+      topJobs,
+      topProducts,
+    };
+
+    return NextResponse.json(report);
+  } catch (error: any) {
+    console.error("Org analytics error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,171 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import {
+  ORG_LISTING_ROLES,
+  authErrorResponse,
+  canManageOrg,
+  isPlatformAdmin,
+  requireUser,
+} from "../../../../../lib/apiAuth";
+import { MAX_DISPUTE_REASON_LENGTH, OrgVerification } from "../../../../../lib/orgVerification";
+import {
+  checkVerificationClaim,
+  notifyClaimant,
+  setOrgVerification,
+  settleVerificationClaim,
+} from "../../../../../lib/orgVerifier";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+// DNS lookups and the file fetch can be slow
+export const maxDuration = 30;
+
+/**
+ * PATCH /api/orgs/verification/[id]
+ *   { action: "check" }            org creator / owner / co-owner: look for the DNS record or file
+ *   { action: "approve" | "reject", note }  platform admin: decide a disputed claim
+ * Approving gives the org its badge and takes it from any other org holding the
+ * same domain; rejecting removes the badge if this claim was its source.
+ */
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await requireUser(req, supabase);
+    if (auth.response) return auth.response;
+    const user = auth.user;
+
+    const { id } = await params;
+    const { action, note } = await req.json();
+
+    const { data: claim, error: claimError } = await supabase
+      .from("org_verifications")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (claimError) throw claimError;
+    if (!claim) {
+      return NextResponse.json({ error: "Verification not found" }, { status: 404 });
+    }
+
+    const { data: org, error: orgError } = await supabase
+      .from("organizations")
+      .select("id, name, slug, verified_domain")
+      .eq("id", claim.org_id)
+      .maybeSingle();
+
+    if (orgError) throw orgError;
+    const orgLink = org ? `/orgs/${org.slug}` : "/orgs";
+    const now = new Date().toISOString();
+
+    if (action === "check") {
+      if (!isPlatformAdmin(user) && !(await canManageOrg(supabase, claim.org_id, user.id, ORG_LISTING_ROLES))) {
+        return authErrorResponse(403, "forbidden", "You cannot manage verification for this organization");
+      }
+      if (claim.status !== "pending") {
+        return NextResponse.json({ error: "Only pending claims can be checked." }, { status: 409 });
+      }
+
+      const failure = await checkVerificationClaim(claim as OrgVerification);
+      if (failure) {
+        const { data, error } = await supabase
+          .from("org_verifications")
+          .update({ last_checked_at: now, last_error: failure, updated_at: now })
+          .eq("id", claim.id)
+          .select("*")
+          .single();
+        if (error) throw error;
+        return NextResponse.json({ success: false, verification: data });
+      }
+
+      const verification = await settleVerificationClaim(supabase, claim as OrgVerification);
+      return NextResponse.json({ success: true, verification });
+    }
+
+    if (action !== "approve" && action !== "reject") {
+      return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    }
+    if (!isPlatformAdmin(user)) {
+      return authErrorResponse(403, "forbidden", "Admin role required to review verifications");
+    }
+    if (claim.status !== "disputed") {
+      return NextResponse.json({ error: "Only disputed claims can be reviewed." }, { status: 409 });
+    }
+
+    const reviewNote = typeof note === "string" ? note.trim().slice(0, MAX_DISPUTE_REASON_LENGTH) || null : null;
+    const review = { review_note: reviewNote, reviewed_by: user.id, reviewed_at: now, updated_at: now };
+
+    if (action === "approve") {
+      // The domain can only badge one org: revoke anyone else holding it
+      const { data: holders, error: holdersError } = await supabase
+        .from("organizations")
+        .select("id")
+        .eq("verified_domain", claim.domain)
+        .neq("id", claim.org_id);
+      if (holdersError) throw holdersError;
+
+      for (const holder of holders || []) {
+        const { data: revoked, error: revokeError } = await supabase
+          .from("org_verifications")
+          .update({ status: "rejected", ...review, review_note: "Domain verified for another organization." })
+          .eq("org_id", holder.id)
+          .in("status", ["verified", "disputed"])
+          .select("*");
+        if (revokeError) throw revokeError;
+        await setOrgVerification(supabase, holder.id, null);
+        for (const r of revoked || []) {
+          await notifyClaimant(
+            supabase,
+            r as OrgVerification,
+            "Organization verification removed",
+            `After review, ${claim.domain} was verified for another organization.`,
+            "/orgs"
+          );
+        }
+      }
+
+      const { data, error } = await supabase
+        .from("org_verifications")
+        .update({ status: "verified", verified_at: claim.verified_at || now, ...review })
+        .eq("id", claim.id)
+        .select("*")
+        .single();
+      if (error) throw error;
+
+      await setOrgVerification(supabase, claim.org_id, data as OrgVerification);
+      await notifyClaimant(
+        supabase,
+        data as OrgVerification,
+        "Organization verified",
+        `${org?.name || "Your organization"} is verified for ${claim.domain}.`,
+        orgLink
+      );
+      return NextResponse.json({ success: true, verification: data });
+    }
+
+    const { data, error } = await supabase
+      .from("org_verifications")
+      .update({ status: "rejected", ...review })
+      .eq("id", claim.id)
+      .select("*")
+      .single();
+    if (error) throw error;
+
+    // A reported org loses the badge this claim gave it
+    if (claim.verified_at && org?.verified_domain === claim.domain) {
+      await setOrgVerification(supabase, claim.org_id, null);
+    }
+    await notifyClaimant(
+      supabase,
+      data as OrgVerification,
+      "Organization verification rejected",
+      `The claim on ${claim.domain} for ${org?.name || "your organization"} was rejected${reviewNote ? `: ${reviewNote}` : "."}`,
+      orgLink
+    );
+    return NextResponse.json({ success: true, verification: data });
+  } catch (error: any) {
+    console.error("Org verification update error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
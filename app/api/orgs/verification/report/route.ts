@@ -0,0 +1,71 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { requireUser } from "../../../../../lib/apiAuth";
+import { MAX_DISPUTE_REASON_LENGTH } from "../../../../../lib/orgVerification";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+/**
+ * POST /api/orgs/verification/report { orgId, reason }
+ * Any signed-in user can dispute a verified org (e.g. the real holder of the
+ * domain or name). The claim moves to the admin queue; the badge stays until
+ * an admin rejects it.
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireUser(req, supabase);
+    if (auth.response) return auth.response;
+    const user = auth.user;
+
+    const { orgId, reason } = await req.json();
+    const text = typeof reason === "string" ? reason.trim() : "";
+    if (!orgId || !text) {
+      return NextResponse.json({ error: "orgId and reason are required" }, { status: 400 });
+    }
+    if (text.length > MAX_DISPUTE_REASON_LENGTH) {
+      return NextResponse.json(
+        { error: `Keep the reason under ${MAX_DISPUTE_REASON_LENGTH} characters.` },
+        { status: 400 }
+      );
+    }
+
+    const { data: claim, error: claimError } = await supabase
+      .from("org_verifications")
+      .select("id, status")
+      .eq("org_id", orgId)
+      .in("status", ["verified", "disputed"])
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (claimError) throw claimError;
+    if (!claim) {
+      return NextResponse.json({ error: "This organization is not verified." }, { status: 404 });
+    }
+    // One open dispute per claim is enough for the queue
+    if (claim.status === "disputed") {
+      return NextResponse.json({ success: true, alreadyUnderReview: true });
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from("org_verifications")
+      .update({
+        status: "disputed",
+        dispute_reason: text,
+        disputed_by: user.id,
+        disputed_at: now,
+        updated_at: now,
+      })
+      .eq("id", claim.id)
+      .eq("status", "verified");
+
+    if (error) throw error;
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Org verification report error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,174 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import {
+  ORG_LISTING_ROLES,
+  authErrorResponse,
+  canManageOrg,
+  isPlatformAdmin,
+  requireUser,
+} from "../../../../lib/apiAuth";
+import {
+  OrgVerification,
+  emailMatchesDomain,
+  isFreeEmailDomain,
+  isVerificationMethod,
+  isWithinDomain,
+  normalizeDomain,
+} from "../../../../lib/orgVerification";
+import { settleVerificationClaim } from "../../../../lib/orgVerifier";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+/**
+ * GET /api/orgs/verification?orgId=
+ * The org's latest verification claim, for its creator, owners and co-owners.
+ */
+export async function GET(req: Request) {
+  try {
+    const auth = await requireUser(req, supabase);
+    if (auth.response) return auth.response;
+    const user = auth.user;
+
+    const orgId = new URL(req.url).searchParams.get("orgId");
+    if (!orgId) {
+      return NextResponse.json({ error: "orgId is required" }, { status: 400 });
+    }
+    if (!isPlatformAdmin(user) && !(await canManageOrg(supabase, orgId, user.id, ORG_LISTING_ROLES))) {
+      return authErrorResponse(403, "forbidden", "You cannot manage verification for this organization");
+    }
+
+    const { data, error } = await supabase
+      .from("org_verifications")
+      .select("*")
+      .eq("org_id", orgId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return NextResponse.json({ verification: data ?? null });
+  } catch (error: any) {
+    console.error("Org verification fetch error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/orgs/verification { orgId, method, domain }
+ * Starts a claim on `domain`, replacing any pending one. DNS and file claims
+ * get a token to publish and are checked with PATCH /api/orgs/verification/[id];
+ * email_domain claims are decided here from the caller's confirmed sign-in email.
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireUser(req, supabase);
+    if (auth.response) return auth.response;
+    const user = auth.user;
+
+    const { orgId, method, domain: rawDomain } = await req.json();
+    if (!orgId || !isVerificationMethod(method)) {
+      return NextResponse.json({ error: "orgId and a valid method are required" }, { status: 400 });
+    }
+
+    const domain = normalizeDomain(rawDomain);
+    if (!domain) {
+      return NextResponse.json({ error: "Enter a domain such as example.com." }, { status: 400 });
+    }
+    if (!isPlatformAdmin(user) && !(await canManageOrg(supabase, orgId, user.id, ORG_LISTING_ROLES))) {
+      return authErrorResponse(403, "forbidden", "You cannot manage verification for this organization");
+    }
+
+    const { data: org, error: orgError } = await supabase
+      .from("organizations")
+      .select("id, website, verified_at, is_active")
+      .eq("id", orgId)
+      .maybeSingle();
+
+    if (orgError) throw orgError;
+    if (!org || org.is_active === false) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+    if (org.verified_at) {
+      return NextResponse.json({ error: "This organization is already verified." }, { status: 409 });
+    }
+
+    // Proof must be for the org's own website, or else any org could borrow a domain it registered
+    const websiteDomain = normalizeDomain(org.website);
+    if (!websiteDomain) {
+      return NextResponse.json(
+        { error: "Add the organization's website to its profile before verifying." },
+        { status: 400 }
+      );
+    }
+    if (!isWithinDomain(domain, websiteDomain)) {
+      return NextResponse.json(
+        { error: `The domain must be the organization's website, ${websiteDomain}, or a subdomain of it.` },
+        { status: 400 }
+      );
+    }
+
+    if (method === "email_domain") {
+      if (isFreeEmailDomain(domain)) {
+        return NextResponse.json(
+          { error: `${domain} is a public email provider; use your institution's domain.` },
+          { status: 400 }
+        );
+      }
+      if (!user.email_confirmed_at || !emailMatchesDomain(user.email, domain)) {
+        return NextResponse.json(
+          { error: `Your confirmed sign-in email must be an address at ${domain}.` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { data: disputed, error: disputedError } = await supabase
+      .from("org_verifications")
+      .select("id")
+      .eq("org_id", orgId)
+      .eq("status", "disputed")
+      .limit(1);
+
+    if (disputedError) throw disputedError;
+    if ((disputed || []).length > 0) {
+      return NextResponse.json(
+        { error: "A claim for this organization is under review; wait for the decision." },
+        { status: 409 }
+      );
+    }
+
+    const { error: clearError } = await supabase
+      .from("org_verifications")
+      .delete()
+      .eq("org_id", orgId)
+      .eq("status", "pending");
+
+    if (clearError) throw clearError;
+
+    const { data: claim, error: insertError } = await supabase
+      .from("org_verifications")
+      .insert({
+        org_id: orgId,
+        method,
+        domain,
+        token: crypto.randomUUID().replace(/-/g, ""),
+        status: "pending",
+        requested_by: user.id,
+      })
+      .select("*")
+      .single();
+
+    if (insertError) throw insertError;
+
+    // The sign-in email already proves control of the domain
+    const verification =
+      method === "email_domain" ? await settleVerificationClaim(supabase, claim as OrgVerification) : claim;
+
+    return NextResponse.json({ success: true, verification });
+  } catch (error: any) {
+    console.error("Org verification start error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
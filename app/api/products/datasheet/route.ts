@@ -0,0 +1,53 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { authErrorResponse, canManageProduct, requireUser } from "../../../../lib/apiAuth";
+import { indexProductDatasheet } from "../../../../lib/datasheetIndexer";
+import { EmbeddingDimensionError } from "../../../../lib/embeddings";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+// PDF parsing plus one batched embedding call
+export const maxDuration = 60;
+
+/**
+ * POST /api/products/datasheet { productId }
+ * Called after the product form saves. Extracts the uploaded datasheet's text
+ * and replaces the product's datasheet passages in search.
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireUser(req, supabase);
+    if (auth.response) return auth.response;
+    const user = auth.user;
+
+    const { productId } = await req.json();
+    if (!productId) {
+      return NextResponse.json({ error: "productId is required" }, { status: 400 });
+    }
+
+    const { data: product, error: productError } = await supabase
+      .from("products")
+      .select("id, name, company_name, datasheet_url, owner_id, org_id, updated_at")
+      .eq("id", productId)
+      .maybeSingle();
+
+    if (productError) throw productError;
+    if (!product) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+    if (!(await canManageProduct(supabase, product, user))) {
+      return authErrorResponse(403, "forbidden", "You cannot manage this product");
+    }
+
+    const result = await indexProductDatasheet(supabase, product);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error("Datasheet indexing error", error);
+    if (error instanceof EmbeddingDimensionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 500 });
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,205 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { ORG_LISTING_ROLES, authErrorResponse, canManageOrg, isPlatformAdmin, requireUser } from "../../../../lib/apiAuth";
+import { rowCountryCode } from "../../../../lib/locations";
+import {
+  MAX_IMPORT_ROWS,
+  ProductImportRecord,
+  ProductImportResult,
+  ProductImportRow,
+  skuKey,
+  validateProductImport,
+} from "../../../../lib/productImport";
+import { indexSourceRows } from "../../../../lib/searchIndexer";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+export const maxDuration = 120;
+
+// Keeps `.in()` filters well below URL length limits
+const SKU_CHUNK_SIZE = 200;
+// SKUs per case-insensitive lookup; each is a quoted `ilike` term in one `or` filter
+const SKU_LOOKUP_CHUNK_SIZE = 50;
+
+// What the search document builder needs (see lib/searchDocuments)
+const INDEX_COLUMNS = "id, external_sku, name, company_name, category, short_description, full_description";
+
+/**
+ * POST /api/products/import { orgId, records: ProductImportRecord[], dryRun }
+ * Creates or updates an org's products by external SKU; like listing a single
+ * product, this is for the org's creator, owners and co-owners. Every record is
+ * validated again here; with dryRun nothing is written and each row reports
+ * whether it would be created or updated. Saved products are added to search
+ * in one batch.
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireUser(req, supabase);
+    if (auth.response) return auth.response;
+    const user = auth.user;
+
+    const { orgId, records, dryRun } = (await req.json()) as {
+      orgId?: string;
+      records?: ProductImportRecord[];
+      dryRun?: boolean;
+    };
+
+    if (!orgId || !Array.isArray(records)) {
+      return NextResponse.json({ error: "orgId and records are required" }, { status: 400 });
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json({ error: `At most ${MAX_IMPORT_ROWS} products per import.` }, { status: 400 });
+    }
+    if (!isPlatformAdmin(user) && !(await canManageOrg(supabase, orgId, user.id, ORG_LISTING_ROLES))) {
+      return authErrorResponse(403, "forbidden", "You cannot import products for this organization");
+    }
+
+    const { data: org, error: orgError } = await supabase
+      .from("organizations")
+      .select("id, name, country, country_code, region, city, is_active")
+      .eq("id", orgId)
+      .maybeSingle();
+
+    if (orgError) throw orgError;
+    if (!org || org.is_active === false) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const rows = validateProductImport(
+      records.map((r) => ({ line: Number(r?.line) || 0, record: r?.record && typeof r.record === "object" ? r.record : {} }))
+    );
+
+    // Keyed by skuKey(); `ilike` without wildcards is a case-insensitive equality
+    const skus = Array.from(new Set(rows.filter((r) => r.values).map((r) => r.external_sku)));
+    const existingBySku = new Map<string, string>();
+    for (let i = 0; i < skus.length; i += SKU_LOOKUP_CHUNK_SIZE) {
+      const terms = skus.slice(i, i + SKU_LOOKUP_CHUNK_SIZE).map((sku) => {
+        const pattern = sku.replace(/[\\%_]/g, "\\$&");
+        return `external_sku.ilike."${pattern.replace(/[\\"]/g, "\\$&")}"`;
+      });
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, external_sku")
+        .eq("org_id", org.id)
+        .or(terms.join(","));
+      if (error) throw error;
+      (data || []).forEach((p: any) => existingBySku.set(skuKey(p.external_sku), p.id));
+    }
+    const existingId = (sku: string) => existingBySku.get(skuKey(sku));
+
+    // in_stock / stock_quantity of a product with variants are their rollup; stock
+    // for those is set per variant (inventory CSV), never directly here
+    const existingIds = Array.from(existingBySku.values());
+    const withVariants = new Set<string>();
+    for (let i = 0; i < existingIds.length; i += SKU_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from("product_variants")
+        .select("product_id")
+        .in("product_id", existingIds.slice(i, i + SKU_CHUNK_SIZE));
+      if (error) throw error;
+      (data || []).forEach((v: any) => withVariants.add(String(v.product_id)));
+    }
+    rows.forEach((r) => {
+      const productId = existingId(r.external_sku);
+      if (!r.values || !productId || !withVariants.has(String(productId))) return;
+      if (r.values.in_stock === undefined && r.values.stock_quantity === undefined) return;
+      r.values = null;
+      r.errors.push("This product has variants; leave in_stock and stock_quantity empty and update variant stock with the inventory CSV.");
+    });
+
+    const results: ProductImportResult[] = rows.map((r) => ({
+      line: r.line,
+      external_sku: r.external_sku,
+      name: r.name,
+      action: !r.values ? "error" : existingId(r.external_sku) ? "update" : "create",
+      product_id: existingId(r.external_sku),
+      errors: r.errors,
+    }));
+
+    if (dryRun) {
+      return NextResponse.json({ success: true, dryRun: true, results });
+    }
+
+    const now = new Date().toISOString();
+    const saved: any[] = [];
+
+    const failRow = (r: ProductImportRow, message: string) => {
+      const result = results.find((x) => x.line === r.line && x.external_sku === r.external_sku);
+      if (result) {
+        result.action = "error";
+        result.errors = [message];
+      }
+    };
+
+    // Products are located where the vendor org is, like the product form does
+    const creates = rows.filter((r) => r.values && !existingId(r.external_sku));
+    const newProduct = (r: ProductImportRow) => ({
+      price_type: "contact",
+      in_stock: true,
+      ...r.values,
+      owner_id: user.id,
+      org_id: org.id,
+      company_name: org.name,
+      country_code: rowCountryCode(org),
+      region: org.region ?? null,
+      city: org.city ?? null,
+    });
+    if (creates.length > 0) {
+      const { data, error } = await supabase.from("products").insert(creates.map(newProduct)).select(INDEX_COLUMNS);
+      if (!error) {
+        saved.push(...(data || []));
+      } else {
+        // One bad row fails the whole batch; retry row by row so only that row reports an error
+        console.error("Product import batch insert error", error);
+        for (const r of creates) {
+          const { data: created, error: createError } = await supabase
+            .from("products")
+            .insert(newProduct(r))
+            .select(INDEX_COLUMNS)
+            .single();
+          if (createError) {
+            console.error("Product import insert error", createError);
+            failRow(r, createError.message);
+            continue;
+          }
+          saved.push(created);
+        }
+      }
+    }
+
+    for (const r of rows.filter((row) => row.values && existingId(row.external_sku))) {
+      const { data, error } = await supabase
+        .from("products")
+        .update({ ...r.values, updated_at: now })
+        .eq("id", existingId(r.external_sku) as string)
+        .select(INDEX_COLUMNS)
+        .single();
+
+      if (error) {
+        console.error("Product import update error", error);
+        failRow(r, error.message);
+        continue;
+      }
+      saved.push(data);
+    }
+
+    const createdIds = new Map<string, string>(saved.map((p: any) => [skuKey(p.external_sku), p.id]));
+    results.forEach((r) => {
+      if (r.action === "create") r.product_id = createdIds.get(skuKey(r.external_sku));
+    });
+
+    try {
+      await indexSourceRows(supabase, "product", saved);
+    } catch (indexError) {
+      // Products are saved; a full reindex (/api/admin/index-search-db) picks up anything missed here
+      console.error("Product import search sync error", indexError);
+    }
+
+    return NextResponse.json({ success: true, dryRun: false, results });
+  } catch (error: any) {
+    console.error("Product import error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
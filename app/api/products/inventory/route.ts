@@ -0,0 +1,176 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { authErrorResponse, canManageOrg, isPlatformAdmin, requireUser } from "../../../../lib/apiAuth";
+import { sendLowStockAlerts } from "../../../../lib/lowStockAlerts";
+import {
+  InventoryRowResult,
+  InventoryUpdate,
+  MAX_INVENTORY_ROWS,
+  variantRollup,
+} from "../../../../lib/productVariants";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+export const maxDuration = 60;
+
+// Keeps `.in()` filters well below URL length limits
+const ID_CHUNK_SIZE = 200;
+
+const VARIANT_COLUMNS = "id, product_id, name, sku, price_value, in_stock, stock_quantity, position";
+
+async function loadOrgVariants(productIds: string[]) {
+  const variants: any[] = [];
+  for (let i = 0; i < productIds.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from("product_variants")
+      .select(VARIANT_COLUMNS)
+      .in("product_id", productIds.slice(i, i + ID_CHUNK_SIZE));
+    if (error) throw error;
+    variants.push(...(data || []));
+  }
+  return variants;
+}
+
+/**
+ * POST /api/products/inventory { orgId, updates: InventoryUpdate[], dryRun }
+ * Bulk stock / price update for an org's product variants, matched by SKU.
+ * With dryRun the per-row results are computed but nothing is written.
+ * Product stock rollups and low-stock alerts follow a real run.
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireUser(req, supabase);
+    if (auth.response) return auth.response;
+    const user = auth.user;
+
+    const { orgId, updates, dryRun } = (await req.json()) as {
+      orgId?: string;
+      updates?: InventoryUpdate[];
+      dryRun?: boolean;
+    };
+
+    if (!orgId || !Array.isArray(updates)) {
+      return NextResponse.json({ error: "orgId and updates are required" }, { status: 400 });
+    }
+    if (updates.length > MAX_INVENTORY_ROWS) {
+      return NextResponse.json({ error: `At most ${MAX_INVENTORY_ROWS} rows per upload.` }, { status: 400 });
+    }
+    if (!isPlatformAdmin(user) && !(await canManageOrg(supabase, orgId, user.id))) {
+      return authErrorResponse(403, "forbidden", "You cannot manage inventory for this organization");
+    }
+
+    const { data: products, error: productsError } = await supabase
+      .from("products")
+      .select("id, name")
+      .eq("org_id", orgId);
+
+    if (productsError) throw productsError;
+
+    const productNames = new Map<string, string | null>((products || []).map((p: any) => [p.id, p.name ?? null]));
+    const variants = await loadOrgVariants(Array.from(productNames.keys()));
+
+    const bySku = new Map<string, any[]>();
+    variants.forEach((v) => {
+      if (!v.sku) return;
+      const key = String(v.sku).trim().toLowerCase();
+      bySku.set(key, [...(bySku.get(key) || []), v]);
+    });
+
+    const results: InventoryRowResult[] = [];
+    const changed = new Map<string, any>();
+
+    for (const update of updates) {
+      const sku = String(update.sku || "").trim();
+      const line = Number(update.line) || 0;
+      const matches = bySku.get(sku.toLowerCase()) || [];
+
+      if (matches.length === 0) {
+        results.push({ line, sku, status: "error", message: "No variant with this SKU in this organization." });
+        continue;
+      }
+      if (matches.length > 1) {
+        results.push({
+          line,
+          sku,
+          status: "error",
+          message: `SKU is used by ${matches.length} variants; make it unique first.`,
+        });
+        continue;
+      }
+
+      const variant = matches[0];
+      const qty = update.stock_quantity;
+      if (qty !== undefined && (!Number.isInteger(qty) || qty < 0)) {
+        results.push({ line, sku, status: "error", message: "stock_quantity must be a whole number of 0 or more." });
+        continue;
+      }
+
+      const before = {
+        in_stock: variant.in_stock ?? null,
+        stock_quantity: variant.stock_quantity ?? null,
+        price_value: variant.price_value ?? null,
+      };
+      // A new count without an explicit flag decides availability on its own
+      const after = {
+        in_stock: typeof update.in_stock === "boolean" ? update.in_stock : qty !== undefined ? qty > 0 : before.in_stock,
+        stock_quantity: qty !== undefined ? qty : before.stock_quantity,
+        price_value: typeof update.price_value === "string" ? update.price_value.trim() || null : before.price_value,
+      };
+
+      const same =
+        after.in_stock === before.in_stock &&
+        after.stock_quantity === before.stock_quantity &&
+        after.price_value === before.price_value;
+
+      results.push({
+        line,
+        sku,
+        status: same ? "unchanged" : "updated",
+        product_id: variant.product_id,
+        product_name: productNames.get(variant.product_id) ?? null,
+        variant_name: variant.name,
+        before,
+        after,
+      });
+
+      if (!same) changed.set(variant.id, { ...variant, ...after, updated_at: new Date().toISOString() });
+    }
+
+    if (dryRun || changed.size === 0) {
+      return NextResponse.json({ success: true, dryRun: !!dryRun, results });
+    }
+
+    const { error: upsertError } = await supabase
+      .from("product_variants")
+      .upsert(Array.from(changed.values()), { onConflict: "id" });
+
+    if (upsertError) throw upsertError;
+
+    // Keep products.in_stock / stock_quantity in step with their variants
+    const touched = Array.from(new Set(Array.from(changed.values()).map((v) => v.product_id as string)));
+    for (const productId of touched) {
+      const current = variants
+        .filter((v) => v.product_id === productId)
+        .map((v) => changed.get(v.id) || v);
+      const { error: rollupError } = await supabase
+        .from("products")
+        .update(variantRollup(current))
+        .eq("id", productId);
+      if (rollupError) throw rollupError;
+    }
+
+    try {
+      await sendLowStockAlerts(supabase, touched);
+    } catch (alertError) {
+      // The stock itself is saved; a missed alert is not worth failing over
+      console.error("Low stock alerts after inventory update failed", alertError);
+    }
+
+    return NextResponse.json({ success: true, dryRun: false, results });
+  } catch (error: any) {
+    console.error("Inventory update error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { authErrorResponse, canManageProduct, requireUser } from "../../../../lib/apiAuth";
+import { sendLowStockAlerts } from "../../../../lib/lowStockAlerts";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+/**
+ * POST /api/products/low-stock { productId }
+ * Called after the product form saves stock. Managers of the product hear about
+ * items that just reached the low-stock threshold.
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireUser(req, supabase);
+    if (auth.response) return auth.response;
+    const user = auth.user;
+
+    const { productId } = await req.json();
+    if (!productId) {
+      return NextResponse.json({ error: "productId is required" }, { status: 400 });
+    }
+
+    const { data: product, error: productError } = await supabase
+      .from("products")
+      .select("id, org_id, owner_id")
+      .eq("id", productId)
+      .maybeSingle();
+
+    if (productError) throw productError;
+    if (!product) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+    if (!(await canManageProduct(supabase, product, user))) {
+      return authErrorResponse(403, "forbidden", "You cannot manage stock for this product");
+    }
+
+    const notified = await sendLowStockAlerts(supabase, [product.id]);
+    return NextResponse.json({ success: true, notified });
+  } catch (error: any) {
+    console.error("Low stock alerts error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
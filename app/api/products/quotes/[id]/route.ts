@@ -0,0 +1,155 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { authErrorResponse, canManageProduct, requireUser } from "../../../../../lib/apiAuth";
+import {
+  MAX_QUOTE_PDF_BYTES,
+  MAX_QUOTE_TEXT_LENGTH,
+  QUOTE_PDF_BUCKET,
+  QUOTE_STATUS_LABELS,
+  QUOTE_UPDATE_NOTIFICATION_TYPE,
+  QuoteStatus,
+  isQuoteStatus,
+} from "../../../../../lib/productQuotes";
+import { isPdf, signedFileUrl } from "../../../../../lib/storageFiles";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+export const maxDuration = 30;
+
+/**
+ * PATCH /api/products/quotes/:id (multipart: reply?, status?, quote? PDF)
+ * Lets the product's managers answer a request for quotation, attach a quote
+ * PDF and mark it won or lost. The buyer is notified of replies and outcomes.
+ */
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await requireUser(req, supabase);
+    if (auth.response) return auth.response;
+    const user = auth.user;
+
+    const { id } = await params;
+    const form = await req.formData();
+    const replyField = form.get("reply");
+    const reply = typeof replyField === "string" ? replyField.trim() : null;
+    const statusField = form.get("status");
+    const quotePdf = form.get("quote");
+    const hasPdf = quotePdf instanceof File && quotePdf.size > 0;
+
+    if (statusField !== null && !isQuoteStatus(statusField)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+    if (reply !== null && reply.length > MAX_QUOTE_TEXT_LENGTH) {
+      return NextResponse.json(
+        { error: `Reply must be at most ${MAX_QUOTE_TEXT_LENGTH} characters.` },
+        { status: 400 }
+      );
+    }
+    if (hasPdf && quotePdf.size > MAX_QUOTE_PDF_BYTES) {
+      return NextResponse.json({ error: "Quote PDF must be 10 MB or smaller." }, { status: 400 });
+    }
+    if (hasPdf && !(await isPdf(quotePdf))) {
+      return NextResponse.json({ error: "Quote must be a PDF file." }, { status: 400 });
+    }
+
+    const { data: quote, error: quoteError } = await supabase
+      .from("product_quotes")
+      .select("id, product_id, buyer_id, status, reply, quote_path")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (quoteError) throw quoteError;
+    if (!quote) {
+      return NextResponse.json({ error: "Quote request not found" }, { status: 404 });
+    }
+
+    const { data: product, error: productError } = await supabase
+      .from("products")
+      .select("id, name, company_name, org_id, owner_id")
+      .eq("id", quote.product_id)
+      .maybeSingle();
+
+    if (productError) throw productError;
+    if (!product || !(await canManageProduct(supabase, product, user))) {
+      return authErrorResponse(403, "forbidden", "You cannot answer quote requests for this product");
+    }
+
+    const now = new Date().toISOString();
+    const replied = (reply !== null && reply !== (quote.reply || "")) || hasPdf;
+    // Answering a new request moves it to "replied" unless a status was picked explicitly
+    const status: QuoteStatus = isQuoteStatus(statusField)
+      ? statusField
+      : replied && quote.status === "new"
+        ? "replied"
+        : quote.status;
+
+    const update: Record<string, unknown> = { updated_at: now };
+    if (reply !== null) update.reply = reply || null;
+    if (replied) update.replied_at = now;
+    if (status !== quote.status) {
+      update.status = status;
+      update.status_updated_at = now;
+    }
+
+    let quotePath: string | null = null;
+    if (hasPdf) {
+      quotePath = `${product.id}/${quote.id}-${Date.now()}.pdf`;
+      const { error: uploadError } = await supabase.storage
+        .from(QUOTE_PDF_BUCKET)
+        .upload(quotePath, quotePdf, { contentType: "application/pdf", upsert: false });
+      if (uploadError) throw uploadError;
+      update.quote_path = quotePath;
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from("product_quotes")
+      .update(update)
+      .eq("id", quote.id)
+      .select(
+        "id, product_id, org_id, buyer_id, quantity, institution, timeline, notes, status, reply, quote_path, replied_at, status_updated_at, created_at"
+      )
+      .single();
+
+    if (updateError) {
+      if (quotePath) await supabase.storage.from(QUOTE_PDF_BUCKET).remove([quotePath]);
+      throw updateError;
+    }
+    // The previous PDF is superseded once the new one is stored
+    if (quotePath && quote.quote_path) {
+      await supabase.storage.from(QUOTE_PDF_BUCKET).remove([quote.quote_path]);
+    }
+
+    // Reopening a request is internal bookkeeping; replies and outcomes reach the buyer
+    const decided = status !== quote.status && (status === "won" || status === "lost");
+    if (replied || decided) {
+      const productName = product.name || "your quote request";
+      const title = decided
+        ? `Quote request marked ${QUOTE_STATUS_LABELS[status].toLowerCase()}`
+        : hasPdf
+          ? "You received a quote"
+          : "The seller replied to your quote request";
+
+      const { error: notifyError } = await supabase.from("notifications").insert({
+        user_id: quote.buyer_id,
+        type: QUOTE_UPDATE_NOTIFICATION_TYPE,
+        title,
+        message: `${productName}${product.company_name ? ` from ${product.company_name}` : ""}`,
+        link_url: `/products/${product.id}`,
+        is_read: false,
+      });
+      if (notifyError) console.error("Quote update notification error", notifyError);
+    }
+
+    const { quote_path, ...publicQuote } = updated as any;
+    const quoteUrl = await signedFileUrl(supabase, QUOTE_PDF_BUCKET, quote_path);
+
+    return NextResponse.json({
+      success: true,
+      quote: { ...publicQuote, quote_url: quoteUrl, product: { id: product.id, name: product.name ?? null } },
+    });
+  } catch (error: any) {
+    console.error("Quote request update error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,247 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import {
+  authErrorResponse,
+  canManageOrg,
+  isPlatformAdmin,
+  manageableProductIds,
+  orgManagerIds,
+  requireUser,
+} from "../../../../lib/apiAuth";
+import {
+  MAX_QUOTE_QUANTITY,
+  MAX_QUOTE_TEXT_LENGTH,
+  QUOTE_PDF_BUCKET,
+  QUOTE_REQUEST_NOTIFICATION_TYPE,
+} from "../../../../lib/productQuotes";
+import { signedFileUrl } from "../../../../lib/storageFiles";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+const QUOTE_COLUMNS =
+  "id, product_id, org_id, buyer_id, quantity, institution, timeline, notes, status, reply, quote_path, replied_at, status_updated_at, created_at";
+
+type ProductForQuotes = {
+  id: string;
+  name: string | null;
+  org_id: string | null;
+  owner_id: string | null;
+  price_type: string | null;
+};
+
+// Replaces quote_path with a signed quote_url
+async function withQuoteUrl({ quote_path, ...quote }: any) {
+  return { ...quote, quote_url: await signedFileUrl(supabase, QUOTE_PDF_BUCKET, quote_path) };
+}
+
+async function productsById(productIds: string[]) {
+  const byId = new Map<string, { id: string; name: string | null; org_id: string | null; owner_id: string | null }>();
+  if (productIds.length === 0) return byId;
+
+  const { data, error } = await supabase.from("products").select("id, name, org_id, owner_id").in("id", productIds);
+  if (error) throw error;
+  (data || []).forEach((p: any) =>
+    byId.set(p.id, { id: p.id, name: p.name ?? null, org_id: p.org_id ?? null, owner_id: p.owner_id ?? null })
+  );
+  return byId;
+}
+
+function quoteProduct(product: { id: string; name: string | null } | undefined) {
+  return product ? { id: product.id, name: product.name } : null;
+}
+
+function cleanText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+/**
+ * POST /api/products/quotes { productId, quantity, institution, timeline, notes }
+ * Files a request for quotation on a "contact for price" product and notifies
+ * the people who manage it.
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireUser(req, supabase);
+    if (auth.response) return auth.response;
+    const user = auth.user;
+
+    const body = await req.json().catch(() => ({}));
+    const productId = cleanText(body.productId);
+    const quantity = Number(body.quantity);
+    const institution = cleanText(body.institution);
+    const timeline = cleanText(body.timeline);
+    const notes = cleanText(body.notes);
+
+    if (!productId) {
+      return NextResponse.json({ error: "productId is required" }, { status: 400 });
+    }
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_QUOTE_QUANTITY) {
+      return NextResponse.json({ error: "Quantity must be a whole number of at least 1." }, { status: 400 });
+    }
+    if (!institution) {
+      return NextResponse.json({ error: "Please tell the seller which institution you're buying for." }, { status: 400 });
+    }
+    if ([institution, timeline, notes].some((v) => v.length > MAX_QUOTE_TEXT_LENGTH)) {
+      return NextResponse.json(
+        { error: `Each field must be at most ${MAX_QUOTE_TEXT_LENGTH} characters.` },
+        { status: 400 }
+      );
+    }
+
+    const { data: product, error: productError } = await supabase
+      .from("products")
+      .select("id, name, org_id, owner_id, price_type")
+      .eq("id", productId)
+      .maybeSingle<ProductForQuotes>();
+
+    if (productError) throw productError;
+    if (!product) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+    if (product.price_type !== "contact") {
+      return NextResponse.json({ error: "This product has a listed price." }, { status: 400 });
+    }
+    if (product.owner_id === user.id) {
+      return NextResponse.json({ error: "You cannot request a quote for your own product." }, { status: 400 });
+    }
+
+    const now = new Date().toISOString();
+    const { data: quote, error: insertError } = await supabase
+      .from("product_quotes")
+      .insert({
+        product_id: product.id,
+        org_id: product.org_id,
+        buyer_id: user.id,
+        quantity,
+        institution,
+        timeline: timeline || null,
+        notes: notes || null,
+        status: "new",
+        status_updated_at: now,
+      })
+      .select(QUOTE_COLUMNS)
+      .single();
+
+    if (insertError) throw insertError;
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("full_name")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    const buyerName = profile?.full_name || user.email || "Someone";
+    const rows = (await orgManagerIds(supabase, product.owner_id, product.org_id))
+      .filter((id) => id !== user.id)
+      .map((id) => ({
+        user_id: id,
+        type: QUOTE_REQUEST_NOTIFICATION_TYPE,
+        title: "New quote request",
+        message: `${buyerName} (${institution}) asked for a quote on ${quantity} × ${product.name || "your product"}`,
+        link_url: `/products/${product.id}`,
+        is_read: false,
+      }));
+
+    if (rows.length > 0) {
+      const { error: notifyError } = await supabase.from("notifications").insert(rows);
+      // The request itself is stored; a missed notification is not worth failing over
+      if (notifyError) console.error("Quote request notification error", notifyError);
+    }
+
+    const { quote_path: _quotePath, ...publicQuote } = quote as any;
+    return NextResponse.json({
+      success: true,
+      quote: { ...publicQuote, quote_url: null, product: { id: product.id, name: product.name } },
+    });
+  } catch (error: any) {
+    console.error("Quote request submit error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/products/quotes?orgId=…   RFQ inbox for an org, limited to quotes the caller may answer
+ * GET /api/products/quotes?mine=1    the caller's own requests (optionally &productId=…)
+ */
+export async function GET(req: Request) {
+  try {
+    const auth = await requireUser(req, supabase);
+    if (auth.response) return auth.response;
+    const user = auth.user;
+
+    const { searchParams } = new URL(req.url);
+    const orgId = searchParams.get("orgId");
+    const productId = searchParams.get("productId");
+    const mine = searchParams.get("mine") === "1";
+
+    if (mine) {
+      let query = supabase
+        .from("product_quotes")
+        .select(QUOTE_COLUMNS)
+        .eq("buyer_id", user.id)
+        .order("created_at", { ascending: false });
+      if (productId) query = query.eq("product_id", productId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const products = await productsById(Array.from(new Set((data || []).map((q: any) => q.product_id))));
+      const quotes = await Promise.all(
+        (data || []).map(async (q: any) => ({
+          ...(await withQuoteUrl(q)),
+          product: quoteProduct(products.get(q.product_id)),
+        }))
+      );
+
+      return NextResponse.json({ quotes });
+    }
+
+    if (!orgId) {
+      return NextResponse.json({ error: "orgId or mine=1 is required" }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from("product_quotes")
+      .select(QUOTE_COLUMNS)
+      .eq("org_id", orgId)
+      .order("created_at", { ascending: false })
+      .limit(200);
+
+    if (error) throw error;
+
+    const products = await productsById(Array.from(new Set((data || []).map((q: any) => q.product_id))));
+    // Same rule as answering a quote (PATCH /api/products/quotes/[id]): who can manage its product
+    const answerable = await manageableProductIds(supabase, Array.from(products.values()), user);
+    const visible = (data || []).filter((q: any) => answerable.has(q.product_id));
+
+    if (visible.length === 0 && !isPlatformAdmin(user) && !(await canManageOrg(supabase, orgId, user.id))) {
+      return authErrorResponse(403, "forbidden", "You cannot view quote requests for this organization");
+    }
+
+    const buyerIds = Array.from(new Set(visible.map((q: any) => q.buyer_id)));
+    const buyersById = new Map<string, any>();
+    if (buyerIds.length > 0) {
+      const { data: profiles, error: profilesError } = await supabase
+        .from("profiles")
+        .select("id, full_name, avatar_url, email, current_title, affiliation")
+        .in("id", buyerIds);
+      if (profilesError) throw profilesError;
+      (profiles || []).forEach((p: any) => buyersById.set(p.id, p));
+    }
+
+    const quotes = await Promise.all(
+      visible.map(async (q: any) => ({
+        ...(await withQuoteUrl(q)),
+        product: quoteProduct(products.get(q.product_id)),
+        buyer: buyersById.get(q.buyer_id) ?? null,
+      }))
+    );
+
+    return NextResponse.json({ quotes });
+  } catch (error: any) {
+    console.error("Quote requests list error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,214 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { filterDocumentsForProvider, getEmbeddingProvider } from "../../../lib/embeddings";
+import {
+  KEYWORD_SOURCES,
+  SEARCH_HIT_TYPES,
+  SearchHit,
+  SearchHitType,
+  SearchResponse,
+  buildHighlights,
+  reciprocalRankFusion,
+  searchTerms,
+  termMatchCount,
+} from "../../../lib/hybridSearch";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+export const maxDuration = 30;
+
+// Candidates pulled from each leg per type before fusion
+const KEYWORD_CANDIDATES = 40;
+const VECTOR_CANDIDATES = 80;
+const VECTOR_THRESHOLD = 0.2;
+
+type RankedLists = Partial<Record<SearchHitType, string[]>>;
+
+/**
+ * GET /api/search?q=...&types=job,product&limit=10
+ * Keyword (ilike) and vector (match_documents) results fused per type with RRF.
+ * `semantic=0` skips the embedding call (typeahead suggestions).
+ */
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const query = (params.get("q") || "").trim();
+  const limit = Math.min(Math.max(Number(params.get("limit")) || 10, 1), 50);
+  const useSemantic = params.get("semantic") !== "0";
+
+  const requested = (params.get("types") || "").split(",").filter(Boolean);
+  const types = requested.length
+    ? SEARCH_HIT_TYPES.filter((t) => requested.includes(t))
+    : SEARCH_HIT_TYPES;
+
+  const empty: SearchResponse = { query, groups: {}, facets: {}, semantic: false };
+  if (!query) return NextResponse.json(empty);
+
+  try {
+    const terms = searchTerms(query);
+
+    const [keyword, vector] = await Promise.all([
+      keywordSearch(types, terms),
+      useSemantic ? vectorSearch(types, query) : Promise.resolve(null),
+    ]);
+
+    const response: SearchResponse = { ...empty, semantic: vector !== null };
+
+    await Promise.all(
+      types.map(async (type) => {
+        const keywordLinks = keyword.links[type] || [];
+        const vectorLinks = vector?.[type] || [];
+        const fused = reciprocalRankFusion([keywordLinks, vectorLinks]);
+
+        const rows = await hydrate(type, Array.from(fused.keys()), keyword.rows);
+        const source = KEYWORD_SOURCES[type];
+
+        const hits: SearchHit[] = Array.from(fused.entries())
+          .filter(([link]) => rows.has(link))
+          .sort((a, b) => b[1] - a[1])
+          .map(([link, score]) => {
+            const row = rows.get(link)!;
+            const matchedBy: SearchHit["matchedBy"] = [];
+            if (keywordLinks.includes(link)) matchedBy.push("keyword");
+            if (vectorLinks.includes(link)) matchedBy.push("vector");
+
+            return {
+              type,
+              link,
+              href: source.hrefOf(link),
+              title: source.titleOf(row),
+              score,
+              matchedBy,
+              highlights: buildHighlights(row, source.searchColumns, terms),
+              row,
+            };
+          });
+
+        if (hits.length > 0) {
+          response.facets[type] = hits.length;
+          response.groups[type] = hits.slice(0, limit);
+        }
+      })
+    );
+
+    return NextResponse.json(response);
+  } catch (error: any) {
+    console.error("Search error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+const rowKey = (type: SearchHitType, link: string) => `${type}:${link}`;
+
+async function keywordSearch(types: SearchHitType[], terms: string[]) {
+  const links: RankedLists = {};
+  const rows = new Map<string, any>();
+  if (terms.length === 0) return { links, rows };
+
+  await Promise.all(
+    types.map(async (type) => {
+      const source = KEYWORD_SOURCES[type];
+      const orFilter = source.searchColumns
+        .flatMap((col) => terms.map((t) => `${col}.ilike.%${t}%`))
+        .join(",");
+
+      let q = supabase
+        .from(source.table)
+        .select(source.select)
+        .or(orFilter)
+        .order(source.orderColumn, { ascending: source.orderColumn === "name" })
+        .limit(KEYWORD_CANDIDATES);
+      if (source.filters) q = q.match(source.filters);
+      const now = new Date();
+      for (const filter of source.liveOrFilters?.(now) || []) q = q.or(filter);
+
+      const { data, error } = await q;
+      if (error) {
+        console.error(`Keyword search error (${type})`, error);
+        return;
+      }
+
+      // Rows matching more query terms rank first; recency (query order) breaks ties
+      const ranked = ((data || []) as any[])
+        .filter((row) => !source.isLive || source.isLive(row, now))
+        .map((row, i) => ({ row, i, matches: termMatchCount(row, source.searchColumns, terms) }))
+        .sort((a, b) => b.matches - a.matches || a.i - b.i);
+
+      links[type] = ranked.map(({ row }) => String(row[source.linkColumn]));
+      ranked.forEach(({ row }) => rows.set(rowKey(type, String(row[source.linkColumn])), row));
+    })
+  );
+
+  return { links, rows };
+}
+
+// Returns null when embeddings are unavailable so the page still gets keyword hits
+async function vectorSearch(types: SearchHitType[], query: string): Promise<RankedLists | null> {
+  try {
+    const provider = getEmbeddingProvider();
+    const embedding = await provider.embed(query);
+
+    const { data, error } = await supabase.rpc("match_documents", {
+      query_embedding: embedding,
+      match_threshold: VECTOR_THRESHOLD,
+      match_count: VECTOR_CANDIDATES,
+    });
+    if (error) throw error;
+
+    const lists: RankedLists = {};
+    for (const doc of filterDocumentsForProvider(data as any[], provider)) {
+      let type = doc.metadata?.type;
+      let link = doc.metadata?.link;
+
+      // Answers surface the question they belong to, datasheet passages their product
+      if (type === "answer") {
+        type = "question";
+        link = doc.metadata?.question_id;
+      } else if (type === "datasheet") {
+        type = "product";
+        link = doc.metadata?.product_id;
+      }
+
+      if (!link || !types.includes(type)) continue;
+      const list = (lists[type as SearchHitType] ||= []);
+      if (!list.includes(String(link))) list.push(String(link));
+    }
+    return lists;
+  } catch (e) {
+    console.error("Vector search unavailable, falling back to keyword only", e);
+    return null;
+  }
+}
+
+// Loads rows for vector-only hits; also drops links whose source is gone, unpublished or no longer live
+async function hydrate(type: SearchHitType, links: string[], known: Map<string, any>) {
+  const source = KEYWORD_SOURCES[type];
+  const rows = new Map<string, any>();
+  const missing: string[] = [];
+
+  for (const link of links) {
+    const row = known.get(rowKey(type, link));
+    if (row) rows.set(link, row);
+    else missing.push(link);
+  }
+
+  if (missing.length > 0) {
+    let q = supabase.from(source.table).select(source.select).in(source.linkColumn, missing);
+    if (source.filters) q = q.match(source.filters);
+    const now = new Date();
+    for (const filter of source.liveOrFilters?.(now) || []) q = q.or(filter);
+
+    const { data, error } = await q;
+    if (error) {
+      console.error(`Search hydrate error (${type})`, error);
+    } else {
+      for (const row of (data || []) as any[]) {
+        if (source.isLive && !source.isLive(row, now)) continue;
+        rows.set(String(row[source.linkColumn]), row);
+      }
+    }
+  }
+
+  return rows;
+}
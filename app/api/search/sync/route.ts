@@ -1,8 +1,16 @@
-
-import { createClient } from "@supabase/supabase-js";
-import { embed } from "ai";
-import { openai } from "@ai-sdk/openai";
+import { createClient, User } from "@supabase/supabase-js";
 import { NextResponse } from "next/server";
+import {
+  SEARCH_DOCUMENT_BUILDERS,
+  SearchEntityType,
+  buildSearchDocument,
+  embeddingInput,
+  hashSearchContent,
+  isSearchEntityType,
+  searchDocumentLink,
+} from "../../../../lib/searchDocuments";
+import { EmbeddingDimensionError, getEmbeddingProvider } from "../../../../lib/embeddings";
+import { authErrorResponse, canManageOrg, isPlatformAdmin, requireUser } from "../../../../lib/apiAuth";
 
 export const runtime = "edge";
 
@@ -10,73 +18,160 @@ const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
 const supabase = createClient(supabaseUrl, supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
 
+// Columns that identify who may sync an entity, read from the source row
+const OWNERSHIP_COLUMNS: Record<SearchEntityType, string> = {
+  job: "owner_id, org_id",
+  product: "owner_id, org_id",
+  organization: "",
+  profile: "",
+  question: "user_id",
+  answer: "user_id",
+  post: "user_id, org_id",
+  glossary: "",
+};
+
 export async function POST(req: Request) {
   try {
+    const auth = await requireUser(req, supabase);
+    if (auth.response) return auth.response;
+    const user = auth.user;
+
     const { type, data, action } = await req.json();
 
+    if (!isSearchEntityType(type)) {
+      return NextResponse.json({ error: "Invalid type" }, { status: 400 });
+    }
+
+    const source = await loadSource(type, data);
+
+    // Determine valid link ID: strictly slug for orgs/glossary, ID for others
+    const linkId = source ? searchDocumentLink(type, source) : data ? searchDocumentLink(type, data) : null;
+
+    if (!linkId) {
+      return NextResponse.json({ error: "Missing ID/Slug for search sync" }, { status: 400 });
+    }
+
+    // A deleted source row has nothing left to protect; its document is an orphan
+    if (source && !(await canSync(type, source, user))) {
+      return authErrorResponse(403, "forbidden", "You cannot update the search entry for this item");
+    }
+
+    const removeExisting = () =>
+      supabase
+        .from("search_documents")
+        .delete()
+        .eq("metadata->>type", type)
+        .eq("metadata->>link", linkId);
+
     if (action === 'delete') {
-      const linkId = type === "organization" ? data.slug : data.id;
-      if (linkId) {
-        await supabase.from("search_documents").delete().match({ "metadata->>link": linkId });
+      await removeExisting();
+      // A deleted product's datasheet passages go with it
+      if (type === "product") {
+        await supabase
+          .from("search_documents")
+          .delete()
+          .eq("metadata->>type", "datasheet")
+          .eq("metadata->>product_id", linkId);
       }
       return NextResponse.json({ success: true });
     }
 
-    let content = "";
-    let metadata: any = { type };
-
-    switch (type) {
-      case "job":
-        content = `Type: Job\nTitle: ${data.title}\nCompany: ${data.company_name}\nLocation: ${data.location || "Remote"}\nDetails: ${data.additional_description || ""}`;
-        metadata.title = data.title;
-        break;
-      case "product":
-        content = `Type: Product\nName: ${data.name}\nCompany: ${data.company_name}\nCategory: ${data.category}\nDescription: ${data.description || ""}`;
-        metadata.title = data.name;
-        break;
-      case "organization":
-        content = `Type: Organization\nName: ${data.name}\nIndustry: ${data.industry}\nFocus: ${data.focus_areas}\nDescription: ${data.description || ""}`;
-        metadata.title = data.name;
-        break;
-      case "profile":
-        content = `Type: User Profile\nName: ${data.full_name}\nRole: ${data.role}\nAffiliation: ${data.affiliation}\nBio: ${data.short_bio}\nSkills: ${data.skills}`;
-        metadata.title = data.full_name;
-        break;
-      case "question":
-        content = `Type: Q&A Question\nTitle: ${data.title}\nBody: ${data.body}\nTags: ${data.tags?.join(", ")}`;
-        metadata.title = data.title;
-        break;
-      default:
-        return NextResponse.json({ error: "Invalid type" }, { status: 400 });
+    if (!source) {
+      return NextResponse.json({ error: "Item not found" }, { status: 404 });
     }
 
-    // Generate embedding
-    const { embedding } = await embed({
-        model: openai.textEmbeddingModel("text-embedding-3-small"),
-        value: content.replaceAll("\n", " "),
-    });
+    // Drafts, scheduled, closed and expired jobs (etc.) stay out of the index
+    const builder = SEARCH_DOCUMENT_BUILDERS[type];
+    const filters = builder.filters || {};
+    if (Object.keys(filters).some((key) => source[key] !== filters[key])) {
+      await removeExisting();
+      return NextResponse.json({ success: true, skipped: true });
+    }
 
-    // Determine valid link ID: strictly slug for orgs, ID for others
-    const linkId = type === "organization" ? data.slug : data.id;
+    // Built from the stored row only; the client's `data` just identifies it
+    const doc = buildSearchDocument(type, source);
 
-    if (!linkId) {
-      return NextResponse.json({ error: "Missing ID/Slug for search sync" }, { status: 400 });
+    // Row is no longer indexable (e.g. post shortened): make sure it's gone
+    if (!doc) {
+      await removeExisting();
+      return NextResponse.json({ success: true, skipped: true });
     }
 
+    // Generate embedding
+    const embeddingProvider = getEmbeddingProvider();
+    const embedding = await embeddingProvider.embed(embeddingInput(doc));
+
+    const contentHash = await hashSearchContent(doc.content);
+
     // 1. Delete existing document for this item (avoids duplicates)
-    await supabase.from("search_documents").delete().eq("metadata->>link", linkId);
-    
+    await removeExisting();
+
     // 2. Insert new document
     const { error: insertError } = await supabase.from("search_documents").insert({
-         content: content,
+         content: doc.content,
          embedding,
-         metadata: { ...metadata, link: linkId }
+         metadata: { ...doc.metadata, content_hash: contentHash, embedding_model: embeddingProvider.id }
     });
 
     if (insertError) throw insertError;
 
     return NextResponse.json({ success: true });
   } catch (error: any) {
+    if (error instanceof EmbeddingDimensionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 500 });
+    }
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 }
+
+// Looks up the real source row by link column (orgs may also be sent by id only),
+// with everything the document builder, ownership check and filters read
+async function loadSource(type: SearchEntityType, data: any) {
+  if (!data) return null;
+
+  const builder = SEARCH_DOCUMENT_BUILDERS[type];
+  const columns = Array.from(
+    new Set(
+      ["id", builder.linkColumn, builder.select, OWNERSHIP_COLUMNS[type], ...Object.keys(builder.filters || {})]
+        .join(",")
+        .split(",")
+        .map((c) => c.trim())
+        .filter(Boolean)
+    )
+  ).join(", ");
+
+  const lookupColumn = data[builder.linkColumn] ? builder.linkColumn : data.id ? "id" : null;
+  if (!lookupColumn) return null;
+
+  const { data: row, error } = await supabase
+    .from(builder.table)
+    .select(columns)
+    .eq(lookupColumn, data[lookupColumn])
+    .maybeSingle();
+
+  if (error) throw error;
+  return row as any;
+}
+
+async function canSync(type: SearchEntityType, source: any, user: User) {
+  if (isPlatformAdmin(user)) return true;
+
+  switch (type) {
+    case "profile":
+      return source.id === user.id;
+    case "organization":
+      return canManageOrg(supabase, source.id, user.id);
+    case "glossary":
+      // Glossary terms are curated; only platform admins publish them
+      return false;
+    case "job":
+    case "product":
+      if (source.owner_id === user.id) return true;
+      return !!source.org_id && canManageOrg(supabase, source.org_id, user.id);
+    case "post":
+      if (source.user_id === user.id) return true;
+      return !!source.org_id && canManageOrg(supabase, source.org_id, user.id);
+    default:
+      return source.user_id === user.id;
+  }
+}
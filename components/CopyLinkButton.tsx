@@ -0,0 +1,52 @@
+// components/CopyLinkButton.tsx
+import { CSSProperties, useEffect, useState } from "react";
+
+type Props = {
+  // Resolved on click so the link always reflects the latest state
+  getUrl: () => string;
+  label?: string;
+  className?: string;
+  style?: CSSProperties;
+};
+
+export default function CopyLinkButton({
+  getUrl,
+  label = "🔗 Copy link to these results",
+  className = "nav-ghost-btn",
+  style,
+}: Props) {
+  const [copied, setCopied] = useState<"ok" | "failed" | null>(null);
+
+  useEffect(() => {
+    if (!copied) return;
+    const t = setTimeout(() => setCopied(null), 2000);
+    return () => clearTimeout(t);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    const url = getUrl();
+    if (!url) return;
+
+    try {
+      if (navigator.clipboard?.writeText) {
+        await navigator.clipboard.writeText(url);
+      } else {
+        window.prompt("Copy this link", url);
+      }
+      setCopied("ok");
+    } catch {
+      setCopied("failed");
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      className={className}
+      style={{ borderRadius: 12, padding: "8px 14px", cursor: "pointer", ...style }}
+      onClick={handleCopy}
+    >
+      {copied === "ok" ? "✓ Link copied" : copied === "failed" ? "Could not copy" : label}
+    </button>
+  );
+}
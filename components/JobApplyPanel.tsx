@@ -0,0 +1,224 @@
+// components/JobApplyPanel.tsx
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { supabase } from "../lib/supabaseClient";
+import { useSupabaseUser } from "../lib/useSupabaseUser";
+import {
+  APPLICATION_STATUS_COLORS,
+  APPLICATION_STATUS_LABELS,
+  JobApplication,
+  MAX_COVER_NOTE_LENGTH,
+  MAX_CV_BYTES,
+  listMyApplications,
+  submitJobApplication,
+} from "../lib/jobApplications";
+import { trackOrgEvent } from "../lib/orgAnalytics";
+
+type ProfileSummary = {
+  full_name: string | null;
+  current_title: string | null;
+  affiliation: string | null;
+};
+
+/** "Apply on Quantum5ocial" button + form (profile, CV PDF, cover note) for a job. */
+export default function JobApplyPanel({ jobId, isOwner }: { jobId: string; isOwner: boolean }) {
+  const router = useRouter();
+  const { user } = useSupabaseUser();
+
+  const [application, setApplication] = useState<JobApplication | null>(null);
+  const [profile, setProfile] = useState<ProfileSummary | null>(null);
+  const [open, setOpen] = useState(false);
+  const [coverNote, setCoverNote] = useState("");
+  const [cvFile, setCvFile] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user || isOwner) {
+      setApplication(null);
+      return;
+    }
+
+    let cancelled = false;
+    listMyApplications(jobId)
+      .then((rows) => {
+        if (!cancelled) setApplication(rows[0] ?? null);
+      })
+      .catch((e) => console.error("Error loading your application", e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, jobId, isOwner]);
+
+  useEffect(() => {
+    if (!open || !user || profile) return;
+
+    supabase
+      .from("profiles")
+      .select("full_name, current_title, affiliation")
+      .eq("id", user.id)
+      .maybeSingle()
+      .then(({ data }) => setProfile((data as ProfileSummary) || null));
+  }, [open, user, profile]);
+
+  if (isOwner) return null;
+
+  const handleOpen = () => {
+    // Counted for the posting org even when the visitor still has to sign in
+    trackOrgEvent("apply_click", jobId);
+    if (!user) {
+      router.push(`/auth?redirect=${encodeURIComponent(router.asPath)}`);
+      return;
+    }
+    setOpen(true);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    setError(null);
+
+    if (file && file.type !== "application/pdf" && !file.name.toLowerCase().endsWith(".pdf")) {
+      setError("Please upload your CV as a PDF.");
+      setCvFile(null);
+      return;
+    }
+    if (file && file.size > MAX_CV_BYTES) {
+      setError("CV must be 5 MB or smaller.");
+      setCvFile(null);
+      return;
+    }
+    setCvFile(file);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!cvFile) {
+      setError("Please attach your CV.");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const created = await submitJobApplication({ jobId, coverNote: coverNote.trim(), cv: cvFile });
+      setApplication(created);
+      setOpen(false);
+    } catch (e: any) {
+      console.error("Error submitting application", e);
+      setError(e?.message || "Could not submit your application.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (application) {
+    const color = APPLICATION_STATUS_COLORS[application.status];
+    return (
+      <div style={{ display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap", fontSize: 13 }}>
+        <span
+          style={{
+            padding: "4px 10px",
+            borderRadius: 999,
+            border: `1px solid ${color}`,
+            background: `${color}22`,
+            color,
+            fontWeight: 700,
+          }}
+        >
+          Applied · {APPLICATION_STATUS_LABELS[application.status]}
+        </span>
+        <Link href="/ecosystem/applications" style={{ color: "#7dd3fc" }}>
+          Track your applications →
+        </Link>
+      </div>
+    );
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        className="nav-cta"
+        onClick={handleOpen}
+        style={{ padding: "6px 12px", minWidth: "unset", width: "fit-content", cursor: "pointer" }}
+      >
+        Apply on Quantum5ocial
+      </button>
+    );
+  }
+
+  const profileLine = [profile?.current_title, profile?.affiliation].filter(Boolean).join(" · ");
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{
+        width: "100%",
+        maxWidth: 640,
+        display: "flex",
+        flexDirection: "column",
+        gap: 10,
+        padding: 14,
+        borderRadius: 14,
+        border: "1px solid rgba(148,163,184,0.3)",
+        background: "rgba(2,6,23,0.55)",
+      }}
+    >
+      <div style={{ fontWeight: 800, fontSize: 15 }}>Apply on Quantum5ocial</div>
+
+      <div style={{ fontSize: 13, color: "rgba(226,232,240,0.92)" }}>
+        Your profile is shared with the hiring team:{" "}
+        <strong>{profile?.full_name || user?.email}</strong>
+        {profileLine && <span style={{ opacity: 0.75 }}> · {profileLine}</span>}{" "}
+        <Link href="/profile/edit" style={{ color: "#7dd3fc" }}>
+          Edit profile
+        </Link>
+      </div>
+
+      <label style={{ fontSize: 13, display: "flex", flexDirection: "column", gap: 4 }}>
+        CV (PDF, max 5 MB) *
+        <input type="file" accept="application/pdf,.pdf" onChange={handleFile} required />
+      </label>
+
+      <label style={{ fontSize: 13, display: "flex", flexDirection: "column", gap: 4 }}>
+        Cover note
+        <textarea
+          value={coverNote}
+          onChange={(e) => setCoverNote(e.target.value)}
+          maxLength={MAX_COVER_NOTE_LENGTH}
+          rows={5}
+          placeholder="Why are you a good fit for this role?"
+          style={{
+            width: "100%",
+            padding: "10px 12px",
+            borderRadius: 10,
+            border: "1px solid rgba(148,163,184,0.6)",
+            backgroundColor: "rgba(15,23,42,0.9)",
+            color: "#e5e7eb",
+            fontSize: 14,
+            resize: "vertical",
+          }}
+        />
+      </label>
+
+      {error && <div style={{ fontSize: 13, color: "#f87171" }}>{error}</div>}
+
+      <div style={{ display: "flex", gap: 8 }}>
+        <button type="submit" className="nav-cta" disabled={submitting} style={{ cursor: "pointer" }}>
+          {submitting ? "Submitting…" : "Submit application"}
+        </button>
+        <button
+          type="button"
+          className="nav-ghost-btn"
+          onClick={() => setOpen(false)}
+          disabled={submitting}
+          style={{ cursor: "pointer" }}
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -1,5 +1,8 @@
 // components/JobCard.tsx
 import Link from "next/link";
+import JobMatchSummary from "./JobMatchSummary";
+import { JobMatch } from "../lib/jobMatch";
+import { formatJobSalary } from "../lib/salary";
 
 export type Job = {
   id: string;
@@ -11,15 +14,21 @@ export type Job = {
   short_description: string | null;
   keywords: string | null;
   salary_display: string | null;
+  salary_min?: number | null;
+  salary_max?: number | null;
+  salary_currency?: string | null;
+  salary_period?: string | null;
 };
 
 type JobCardProps = {
   job: Job;
   isSaved: boolean;
   onToggleSave: () => void;
+  // Viewer's match score, when signed in and scored
+  match?: JobMatch | null;
 };
 
-const JobCard: React.FC<JobCardProps> = ({ job, isSaved, onToggleSave }) => {
+const JobCard: React.FC<JobCardProps> = ({ job, isSaved, onToggleSave, match }) => {
   const keywordTags =
     job.keywords
       ?.split(",")
@@ -27,6 +36,7 @@ const JobCard: React.FC<JobCardProps> = ({ job, isSaved, onToggleSave }) => {
       .filter(Boolean) || [];
 
   const title = job.title || "Untitled role";
+  const salary = formatJobSalary(job);
 
   return (
     <div className="job-card">
@@ -68,8 +78,11 @@ const JobCard: React.FC<JobCardProps> = ({ job, isSaved, onToggleSave }) => {
         <div className="job-card-meta">{job.short_description}</div>
       )}
 
+      {/* Match score replaces the plain keywords with matched / missing skills */}
+      {match && <JobMatchSummary match={match} compact />}
+
       {/* Keywords */}
-      {keywordTags.length > 0 && (
+      {!match && keywordTags.length > 0 && (
         <div
           style={{
             display: "flex",
@@ -97,8 +110,8 @@ const JobCard: React.FC<JobCardProps> = ({ job, isSaved, onToggleSave }) => {
         }}
       >
         {/* Salary on the left */}
-        {job.salary_display ? (
-          <span className="job-salary">{job.salary_display}</span>
+        {salary ? (
+          <span className="job-salary">{salary}</span>
         ) : (
           <span />
         )}
@@ -0,0 +1,322 @@
+// components/JobImportPanel.tsx
+import { useState } from "react";
+import { StructuredLocation, formatLocation } from "../lib/locations";
+import { SalaryFormValues, formatJobSalary, parseSalaryInput } from "../lib/salary";
+import {
+  ImportedJob,
+  JOB_IMPORT_FIELDS,
+  JOB_IMPORT_FIELD_LABELS,
+  JOB_IMPORT_SOURCE_LABELS,
+  JobImportField,
+  parseJobImport,
+} from "../lib/jobImport";
+
+// Largest file we read into the textarea; careers pages with inline assets can be big
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+
+type ChangeKey = JobImportField | "location" | "salary" | "expires_at";
+
+type Change = { key: ChangeKey; label: string; current: string; imported: string };
+
+export type JobImportApply = {
+  fields: Partial<Record<JobImportField, string>>;
+  location?: StructuredLocation;
+  salary?: SalaryFormValues;
+  expiresAt?: string;
+};
+
+type JobImportPanelProps = {
+  current: Record<JobImportField, string>;
+  currentLocation: StructuredLocation;
+  currentSalary: SalaryFormValues;
+  currentExpiresAt: string | null;
+  // Fields the form won't let the user change (e.g. company when posting as an org)
+  lockedFields?: JobImportField[];
+  careersUrl?: string | null;
+  onApply: (changes: JobImportApply) => void;
+};
+
+function salaryText(salary: SalaryFormValues) {
+  return formatJobSalary({
+    salary_min: parseSalaryInput(salary.salary_min),
+    salary_max: parseSalaryInput(salary.salary_max),
+    salary_currency: salary.salary_currency,
+    salary_period: salary.salary_period,
+  });
+}
+
+function dateText(iso: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleString();
+}
+
+function diffImport(job: ImportedJob, props: JobImportPanelProps): Change[] {
+  const changes: Change[] = [];
+  const locked = new Set(props.lockedFields || []);
+
+  for (const key of JOB_IMPORT_FIELDS) {
+    const imported = job.fields[key];
+    if (!imported || locked.has(key) || imported === props.current[key].trim()) continue;
+    changes.push({ key, label: JOB_IMPORT_FIELD_LABELS[key], current: props.current[key].trim(), imported });
+  }
+
+  const importedLocation = job.location ? formatLocation(job.location) : "";
+  const currentLocation = formatLocation(props.currentLocation);
+  if (importedLocation && importedLocation !== currentLocation) {
+    changes.push({ key: "location", label: "Location", current: currentLocation, imported: importedLocation });
+  }
+
+  const importedSalary = job.salary ? salaryText(job.salary) : "";
+  const currentSalary = salaryText(props.currentSalary);
+  if (importedSalary && importedSalary !== currentSalary) {
+    changes.push({ key: "salary", label: "Salary", current: currentSalary, imported: importedSalary });
+  }
+
+  if (job.expiresAt && dateText(job.expiresAt) !== dateText(props.currentExpiresAt)) {
+    changes.push({
+      key: "expires_at",
+      label: "Expires",
+      current: dateText(props.currentExpiresAt),
+      imported: dateText(job.expiresAt),
+    });
+  }
+
+  return changes;
+}
+
+const cellStyle: React.CSSProperties = {
+  padding: "8px 10px",
+  verticalAlign: "top",
+  fontSize: 12.5,
+  whiteSpace: "pre-wrap",
+  borderTop: "1px solid rgba(148,163,184,0.18)",
+};
+
+/**
+ * "Import from careers page": parses pasted or uploaded JobPosting JSON-LD,
+ * Greenhouse or Lever JSON and shows what would change in the form. Nothing is
+ * saved here; accepted changes fill the form and the user saves as usual.
+ */
+export default function JobImportPanel(props: JobImportPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const [jobs, setJobs] = useState<ImportedJob[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [rejected, setRejected] = useState<Set<ChangeKey>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [applied, setApplied] = useState<string | null>(null);
+
+  const job = jobs[selected] || null;
+  const changes = job ? diffImport(job, props) : [];
+  const accepted = changes.filter((c) => !rejected.has(c.key));
+
+  const reset = () => {
+    setJobs([]);
+    setSelected(0);
+    setRejected(new Set());
+    setApplied(null);
+  };
+
+  const handleParse = (text: string) => {
+    reset();
+    const result = parseJobImport(text);
+    setError(result.error);
+    setJobs(result.jobs);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (file.size > MAX_IMPORT_BYTES) {
+      setError("That file is too large to import (max 2 MB).");
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result || "");
+      setInput(text);
+      handleParse(text);
+    };
+    reader.onerror = () => setError("Could not read that file.");
+    reader.readAsText(file);
+  };
+
+  const toggle = (key: ChangeKey) => {
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    if (!job) return;
+    const keys = new Set(accepted.map((c) => c.key));
+
+    const fields: JobImportApply["fields"] = {};
+    for (const key of JOB_IMPORT_FIELDS) {
+      if (keys.has(key)) fields[key] = job.fields[key];
+    }
+
+    props.onApply({
+      fields,
+      location: keys.has("location") && job.location ? job.location : undefined,
+      salary: keys.has("salary") && job.salary ? job.salary : undefined,
+      expiresAt: keys.has("expires_at") && job.expiresAt ? job.expiresAt : undefined,
+    });
+
+    setApplied(`Applied ${accepted.length} change${accepted.length === 1 ? "" : "s"}. Review the form below and save when ready.`);
+    setJobs([]);
+  };
+
+  if (!open) {
+    return (
+      <div style={{ marginBottom: 14, display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+        <button type="button" className="nav-ghost-btn" onClick={() => setOpen(true)} style={{ cursor: "pointer" }}>
+          ⤓ Import from careers page
+        </button>
+        <span style={{ fontSize: 12, color: "#9ca3af" }}>
+          Paste JobPosting JSON-LD or a Greenhouse / Lever export instead of retyping.
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="products-section" style={{ marginBottom: 14 }}>
+      <div className="products-section-header">
+        <h4 className="products-section-title">Import a posting</h4>
+        <p className="products-section-sub">
+          Paste a careers page&apos;s HTML or JSON-LD, or a Greenhouse / Lever JSON export.
+          {props.careersUrl && (
+            <>
+              {" "}
+              <a href={props.careersUrl} target="_blank" rel="noreferrer" style={{ color: "#7dd3fc" }}>
+                Open your careers page ↗
+              </a>
+            </>
+          )}
+        </p>
+      </div>
+
+      <div className="products-field products-field-full">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          rows={6}
+          placeholder='<script type="application/ld+json">{ "@type": "JobPosting", … }</script>'
+          style={{ fontFamily: "monospace", fontSize: 12 }}
+        />
+      </div>
+
+      <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", marginTop: 8 }}>
+        <button type="button" className="nav-cta" onClick={() => handleParse(input)} style={{ cursor: "pointer" }}>
+          Preview import
+        </button>
+        <label style={{ fontSize: 13, display: "flex", alignItems: "center", gap: 6 }}>
+          or upload
+          <input type="file" accept=".json,.jsonld,.html,.htm,.txt,application/json,text/html" onChange={handleFile} />
+        </label>
+        <button
+          type="button"
+          className="nav-ghost-btn"
+          onClick={() => {
+            reset();
+            setError(null);
+            setOpen(false);
+          }}
+          style={{ cursor: "pointer" }}
+        >
+          Close
+        </button>
+      </div>
+
+      {error && <p className="products-status error" style={{ marginTop: 10 }}>{error}</p>}
+      {applied && <p className="products-status" style={{ marginTop: 10 }}>{applied}</p>}
+
+      {jobs.length > 1 && (
+        <div className="products-field" style={{ marginTop: 12 }}>
+          <label>{jobs.length} postings found — import</label>
+          <select
+            value={selected}
+            onChange={(e) => {
+              setSelected(Number(e.target.value));
+              setRejected(new Set());
+            }}
+          >
+            {jobs.map((j, i) => (
+              <option key={`${j.externalId || ""}-${i}`} value={i}>
+                {j.fields.title || "Untitled"}
+                {j.externalId ? ` (#${j.externalId})` : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {job && (
+        <div style={{ marginTop: 12 }}>
+          <div style={{ fontSize: 13, marginBottom: 8 }}>
+            From {JOB_IMPORT_SOURCE_LABELS[job.source]}
+            {changes.length === 0
+              ? " — the form already matches this posting."
+              : ` — ${changes.length} field${changes.length === 1 ? "" : "s"} would change. Untick anything you want to keep.`}
+          </div>
+
+          {changes.length > 0 && (
+            <>
+              <div style={{ overflowX: "auto", borderRadius: 12, border: "1px solid rgba(148,163,184,0.3)" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ textAlign: "left", fontSize: 12, color: "#9ca3af" }}>
+                      <th style={{ padding: "8px 10px", width: 32 }} />
+                      <th style={{ padding: "8px 10px", width: 160 }}>Field</th>
+                      <th style={{ padding: "8px 10px" }}>Current</th>
+                      <th style={{ padding: "8px 10px" }}>Imported</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map((c) => {
+                      const on = !rejected.has(c.key);
+                      return (
+                        <tr key={c.key} style={{ opacity: on ? 1 : 0.5 }}>
+                          <td style={cellStyle}>
+                            <input
+                              type="checkbox"
+                              checked={on}
+                              onChange={() => toggle(c.key)}
+                              aria-label={`Import ${c.label}`}
+                            />
+                          </td>
+                          <td style={{ ...cellStyle, fontWeight: 700 }}>{c.label}</td>
+                          <td style={{ ...cellStyle, color: "#fca5a5", textDecoration: c.current && on ? "line-through" : "none" }}>
+                            {c.current || <span style={{ color: "#6b7280" }}>empty</span>}
+                          </td>
+                          <td style={{ ...cellStyle, color: "#86efac" }}>{c.imported}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <button
+                type="button"
+                className="nav-cta"
+                onClick={handleApply}
+                disabled={accepted.length === 0}
+                style={{ marginTop: 10, cursor: "pointer" }}
+              >
+                Apply {accepted.length} change{accepted.length === 1 ? "" : "s"} to the form
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
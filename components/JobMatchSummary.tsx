@@ -0,0 +1,100 @@
+// components/JobMatchSummary.tsx
+import { JobMatch, MAX_MATCH_CHIPS, matchScoreColor } from "../lib/jobMatch";
+
+type JobMatchSummaryProps = {
+  match: JobMatch;
+  // Cards show the score and a few chips; the job page also lists the reasons
+  compact?: boolean;
+};
+
+function SkillChips({ skills, matched }: { skills: string[]; matched: boolean }) {
+  const shown = skills.slice(0, MAX_MATCH_CHIPS);
+  const more = skills.length - shown.length;
+
+  return (
+    <div style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
+      {shown.map((skill) => (
+        <span
+          key={skill}
+          style={{
+            fontSize: 11.5,
+            padding: "2px 8px",
+            borderRadius: 999,
+            border: matched ? "1px solid rgba(34,197,94,0.55)" : "1px dashed rgba(245,158,11,0.6)",
+            background: matched ? "rgba(34,197,94,0.12)" : "rgba(245,158,11,0.08)",
+            color: matched ? "#86efac" : "#fcd34d",
+            whiteSpace: "nowrap",
+          }}
+        >
+          {matched ? "✓ " : "+ "}
+          {skill}
+        </span>
+      ))}
+      {more > 0 && (
+        <span style={{ fontSize: 11.5, color: "rgba(148,163,184,0.9)", alignSelf: "center" }}>
+          +{more} more
+        </span>
+      )}
+    </div>
+  );
+}
+
+/** Match score with matched skills and skills to learn for the signed-in viewer. */
+export default function JobMatchSummary({ match, compact = false }: JobMatchSummaryProps) {
+  const color = matchScoreColor(match.score);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: compact ? 6 : 10, marginTop: compact ? 8 : 0 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+        <span
+          title="Based on your profile skills, focus areas and career stage"
+          style={{
+            fontSize: compact ? 12 : 13,
+            fontWeight: 700,
+            padding: "2px 10px",
+            borderRadius: 999,
+            border: `1px solid ${color}`,
+            background: `${color}22`,
+            color,
+            whiteSpace: "nowrap",
+          }}
+        >
+          {match.score}% match
+        </span>
+        {compact && match.reasons[0] && (
+          <span style={{ fontSize: 12, color: "rgba(148,163,184,0.95)" }}>{match.reasons[0]}</span>
+        )}
+      </div>
+
+      {!compact && match.reasons.length > 0 && (
+        <ul style={{ margin: 0, paddingLeft: 18, fontSize: 13, color: "rgba(226,232,240,0.92)" }}>
+          {match.reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+
+      {match.matchedSkills.length > 0 && (
+        <div>
+          {!compact && (
+            <div style={{ fontSize: 12, color: "rgba(148,163,184,0.95)", marginBottom: 4 }}>
+              Skills you have
+            </div>
+          )}
+          <SkillChips skills={match.matchedSkills} matched />
+        </div>
+      )}
+
+      {match.missingSkills.length > 0 && (
+        <div>
+          {!compact && (
+            <div style={{ fontSize: 12, color: "rgba(148,163,184,0.95)", marginBottom: 4 }}>
+              Skills to learn
+            </div>
+          )}
+          <SkillChips skills={match.missingSkills} matched={false} />
+        </div>
+      )}
+    </div>
+  );
+}
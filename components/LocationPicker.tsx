@@ -0,0 +1,84 @@
+// components/LocationPicker.tsx
+import { CSSProperties } from "react";
+import { StructuredLocation, getCountryOptions } from "../lib/locations";
+
+type Props = {
+  value: StructuredLocation;
+  onChange: (next: StructuredLocation) => void;
+  idPrefix: string;
+  // Wrapper class per field (e.g. "products-field"); fields render as siblings in the caller's grid
+  fieldClassName?: string;
+  labelStyle?: CSSProperties;
+  inputStyle?: CSSProperties;
+  required?: boolean;
+  disabled?: boolean;
+};
+
+/** Country (ISO select) + region + city inputs for jobs, products and organizations. */
+export default function LocationPicker({
+  value,
+  onChange,
+  idPrefix,
+  fieldClassName,
+  labelStyle,
+  inputStyle,
+  required,
+  disabled,
+}: Props) {
+  const update = (patch: Partial<StructuredLocation>) => onChange({ ...value, ...patch });
+
+  return (
+    <>
+      <div className={fieldClassName}>
+        <label htmlFor={`${idPrefix}-country`} style={labelStyle}>
+          Country{required ? " *" : ""}
+        </label>
+        <select
+          id={`${idPrefix}-country`}
+          value={value.country_code || ""}
+          onChange={(e) => update({ country_code: e.target.value || null })}
+          style={inputStyle}
+          required={required}
+          disabled={disabled}
+        >
+          <option value="">Select country…</option>
+          {getCountryOptions().map((c) => (
+            <option key={c.code} value={c.code}>
+              {c.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className={fieldClassName}>
+        <label htmlFor={`${idPrefix}-region`} style={labelStyle}>
+          Region / state
+        </label>
+        <input
+          id={`${idPrefix}-region`}
+          type="text"
+          value={value.region || ""}
+          onChange={(e) => update({ region: e.target.value || null })}
+          placeholder="e.g. Bavaria, California"
+          style={inputStyle}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className={fieldClassName}>
+        <label htmlFor={`${idPrefix}-city`} style={labelStyle}>
+          City
+        </label>
+        <input
+          id={`${idPrefix}-city`}
+          type="text"
+          value={value.city || ""}
+          onChange={(e) => update({ city: e.target.value || null })}
+          placeholder="e.g. Zurich"
+          style={inputStyle}
+          disabled={disabled}
+        />
+      </div>
+    </>
+  );
+}
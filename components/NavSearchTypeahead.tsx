@@ -0,0 +1,388 @@
+// components/NavSearchTypeahead.tsx
+import {
+  useState,
+  useEffect,
+  useRef,
+  CSSProperties,
+  FormEvent,
+  KeyboardEvent,
+  ReactNode,
+} from "react";
+import { useRouter } from "next/router";
+import {
+  SEARCH_HIT_LABELS,
+  SearchHit,
+  SearchHitType,
+  SearchResponse,
+} from "../lib/hybridSearch";
+
+// Entity groups shown in the dropdown, in display order
+const SUGGESTION_TYPES: SearchHitType[] = [
+  "profile",
+  "organization",
+  "job",
+  "product",
+  "glossary",
+  "question",
+];
+
+const SUGGESTIONS_PER_TYPE = 3;
+const DEBOUNCE_MS = 200;
+// Shorter terms are ignored by the keyword search anyway
+const MIN_QUERY_LENGTH = 3;
+
+const RECENT_KEY = "q5_recent_searches";
+const MAX_RECENT = 6;
+
+type Option =
+  | { kind: "hit"; hit: SearchHit }
+  | { kind: "recent"; query: string }
+  | { kind: "all"; query: string };
+
+function loadRecent(): string[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(RECENT_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed.filter((q) => typeof q === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeRecent(list: string[]) {
+  try {
+    window.localStorage.setItem(RECENT_KEY, JSON.stringify(list));
+  } catch {
+    // ignore
+  }
+}
+
+type Props = {
+  placeholder: string;
+  className?: string;
+  style?: CSSProperties;
+  inputClassName?: string;
+  inputStyle?: CSSProperties;
+  // Rendered before the input (e.g. the mobile search icon)
+  prefix?: ReactNode;
+};
+
+export default function NavSearchTypeahead({
+  placeholder,
+  className,
+  style,
+  inputClassName,
+  inputStyle,
+  prefix,
+}: Props) {
+  const router = useRouter();
+
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [groups, setGroups] = useState<SearchResponse["groups"]>({});
+  const [recent, setRecent] = useState<string[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const wrapperRef = useRef<HTMLFormElement | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  const term = query.trim();
+
+  useEffect(() => {
+    setRecent(loadRecent());
+  }, []);
+
+  // Debounced suggestions; keyword-only so typing never waits on embeddings
+  useEffect(() => {
+    if (term.length < MIN_QUERY_LENGTH) {
+      setGroups({});
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({
+          q: term,
+          types: SUGGESTION_TYPES.join(","),
+          limit: String(SUGGESTIONS_PER_TYPE),
+          semantic: "0",
+        });
+        const res = await fetch(`/api/search?${params.toString()}`, {
+          signal: controller.signal,
+        });
+        if (!res.ok) throw new Error(`Search failed (${res.status})`);
+        const data = (await res.json()) as SearchResponse;
+        setGroups(data.groups || {});
+      } catch (e: any) {
+        if (e?.name === "AbortError") return;
+        console.error("Navbar suggestions error", e);
+        setGroups({});
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [term]);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (wrapperRef.current && !wrapperRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [open]);
+
+  // Close after navigating anywhere
+  useEffect(() => {
+    const handleRoute = () => setOpen(false);
+    router.events.on("routeChangeStart", handleRoute);
+    return () => router.events.off("routeChangeStart", handleRoute);
+  }, [router.events]);
+
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [term, groups]);
+
+  const visibleGroups = SUGGESTION_TYPES.filter((t) => (groups[t] || []).length > 0);
+
+  // Flat list in render order, used for keyboard navigation
+  const options: Option[] = term
+    ? [
+        ...visibleGroups.flatMap((t) =>
+          (groups[t] || []).map((hit) => ({ kind: "hit" as const, hit }))
+        ),
+        { kind: "all", query: term },
+      ]
+    : recent.map((q) => ({ kind: "recent" as const, query: q }));
+
+  const rememberQuery = (q: string) => {
+    const value = q.trim();
+    if (!value) return;
+    const next = [value, ...recent.filter((r) => r.toLowerCase() !== value.toLowerCase())].slice(
+      0,
+      MAX_RECENT
+    );
+    setRecent(next);
+    storeRecent(next);
+  };
+
+  const clearRecent = () => {
+    setRecent([]);
+    storeRecent([]);
+  };
+
+  const selectOption = (option: Option) => {
+    setOpen(false);
+    inputRef.current?.blur();
+
+    if (option.kind === "hit") {
+      rememberQuery(term);
+      setQuery("");
+      router.push(option.hit.href);
+      return;
+    }
+
+    rememberQuery(option.query);
+    setQuery(option.query);
+    router.push(`/search?q=${encodeURIComponent(option.query)}`);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (activeIndex >= 0 && options[activeIndex]) {
+      selectOption(options[activeIndex]);
+      return;
+    }
+    if (!term) return;
+    selectOption({ kind: "all", query: term });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      if (options.length === 0) return;
+      e.preventDefault();
+      setOpen(true);
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((i) => {
+        // -1 (the input itself) sits between the last and first option
+        const next = i + step;
+        if (next < -1) return options.length - 1;
+        if (next >= options.length) return -1;
+        return next;
+      });
+    } else if (e.key === "Escape") {
+      if (open) {
+        e.preventDefault();
+        setOpen(false);
+        setActiveIndex(-1);
+      } else {
+        inputRef.current?.blur();
+      }
+    }
+  };
+
+  const showPanel =
+    open && (term ? term.length >= MIN_QUERY_LENGTH : recent.length > 0);
+
+  let optionIndex = -1;
+  const renderOption = (option: Option, key: string, content: ReactNode) => {
+    optionIndex += 1;
+    const index = optionIndex;
+    const active = index === activeIndex;
+    return (
+      <li
+        key={key}
+        id={`nav-typeahead-option-${index}`}
+        role="option"
+        aria-selected={active}
+        className={`nav-typeahead-item${option.kind === "recent" ? " is-recent" : ""}${
+          active ? " is-active" : ""
+        }`}
+        // mousedown keeps the input focused until the click resolves
+        onMouseDown={(e) => e.preventDefault()}
+        onMouseEnter={() => setActiveIndex(index)}
+        onClick={() => selectOption(option)}
+      >
+        {content}
+      </li>
+    );
+  };
+
+  return (
+    <form
+      ref={wrapperRef}
+      onSubmit={handleSubmit}
+      className={className}
+      style={{ ...style, position: "relative" }}
+      role="search"
+    >
+      {prefix}
+      <input
+        ref={inputRef}
+        type="text"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        className={inputClassName}
+        style={inputStyle}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={showPanel}
+        aria-autocomplete="list"
+        aria-controls="nav-typeahead-panel"
+        aria-activedescendant={
+          activeIndex >= 0 ? `nav-typeahead-option-${activeIndex}` : undefined
+        }
+      />
+
+      {showPanel && (
+        <div className="nav-typeahead-panel" id="nav-typeahead-panel">
+          {!term && (
+            <>
+              <div className="nav-typeahead-heading">
+                <span>Recent searches</span>
+                <button
+                  type="button"
+                  className="nav-typeahead-clear"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={clearRecent}
+                >
+                  Clear
+                </button>
+              </div>
+              <ul role="listbox" className="nav-typeahead-list">
+                {recent.map((q) =>
+                  renderOption({ kind: "recent", query: q }, `recent-${q}`, (
+                    <>
+                      <span className="nav-typeahead-icon">🕘</span>
+                      <span className="nav-typeahead-title">{q}</span>
+                    </>
+                  ))
+                )}
+              </ul>
+            </>
+          )}
+
+          {term && (
+            <>
+              {visibleGroups.map((type) => (
+                <div key={type}>
+                  <div className="nav-typeahead-heading">
+                    <span>{SEARCH_HIT_LABELS[type]}</span>
+                  </div>
+                  <ul role="listbox" className="nav-typeahead-list">
+                    {(groups[type] || []).map((hit) =>
+                      renderOption({ kind: "hit", hit }, `${type}-${hit.link}`, (
+                        <>
+                          <span className="nav-typeahead-title">{hit.title}</span>
+                          {suggestionSubtitle(hit) && (
+                            <span className="nav-typeahead-subtitle">
+                              {suggestionSubtitle(hit)}
+                            </span>
+                          )}
+                        </>
+                      ))
+                    )}
+                  </ul>
+                </div>
+              ))}
+
+              {visibleGroups.length === 0 && (
+                <div className="nav-typeahead-empty">
+                  {loading ? "Searching…" : "No quick matches"}
+                </div>
+              )}
+
+              <ul role="listbox" className="nav-typeahead-list nav-typeahead-footer">
+                {renderOption({ kind: "all", query: term }, "all", (
+                  <span className="nav-typeahead-title">
+                    See all results for “{term}”
+                  </span>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </form>
+  );
+}
+
+// One short line of context under each suggestion
+function suggestionSubtitle(hit: SearchHit): string {
+  const row = hit.row || {};
+  switch (hit.type) {
+    case "profile":
+      return [row.role, row.affiliation].filter(Boolean).join(" · ");
+    case "organization":
+      return [row.kind === "company" ? row.industry : row.institution, row.city, row.country]
+        .filter(Boolean)
+        .join(" · ");
+    case "job":
+      return [row.company_name, row.location].filter(Boolean).join(" · ");
+    case "product":
+      return [row.company_name, row.category].filter(Boolean).join(" · ");
+    case "glossary":
+      return row.one_line || "";
+    default:
+      return "";
+  }
+}
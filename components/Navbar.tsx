@@ -4,12 +4,12 @@ import {
   useEffect,
   useRef,
   KeyboardEvent,
-  FormEvent,
 } from "react";
 import Link from "next/link";
 import { useRouter } from "next/router";
 import { supabase } from "../lib/supabaseClient";
 import { useSupabaseUser } from "../lib/useSupabaseUser";
+import NavSearchTypeahead from "./NavSearchTypeahead";
 
 type Theme = "dark" | "light";
 
@@ -35,16 +35,6 @@ export default function Navbar() {
   // notifications count
   const [notificationsCount, setNotificationsCount] = useState(0);
 
-  // global search in navbar
-  const [globalSearch, setGlobalSearch] = useState("");
-
-  const handleGlobalSearchSubmit = (e: FormEvent) => {
-    e.preventDefault();
-    const term = globalSearch.trim();
-    if (!term) return;
-    router.push(`/search?q=${encodeURIComponent(term)}`);
-  };
-
   // ----- THEME HANDLING -----
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -294,18 +284,11 @@ export default function Navbar() {
           </Link>
 
           {/* Global search – desktop only */}
-          <form
-  onSubmit={handleGlobalSearchSubmit}
-  className="nav-search-desktop"
->
-  <input
-    type="text"
-    value={globalSearch}
-    onChange={(e) => setGlobalSearch(e.target.value)}
-    placeholder="Search jobs, products, people, organizations…"
-    className="nav-search-input"
-  />
-</form>
+          <NavSearchTypeahead
+            className="nav-search-desktop"
+            inputClassName="nav-search-input"
+            placeholder="Search jobs, products, people, organizations…"
+          />
         </div>
 
         {/* RIGHT: nav links + theme + user + hamburger */}
@@ -526,6 +509,16 @@ export default function Navbar() {
                           >
                             Saved jobs
                           </Link>
+                          <Link
+                            href="/dashboard/saved-searches"
+                            className="nav-dropdown-item nav-dropdown-subitem"
+                            onClick={() => {
+                              setIsUserMenuOpen(false);
+                              setIsDashboardOpen(false);
+                            }}
+                          >
+                            Saved searches
+                          </Link>
                           <Link
                             href="/dashboard/saved-products"
                             className="nav-dropdown-item nav-dropdown-subitem"
@@ -673,6 +666,13 @@ export default function Navbar() {
               >
                 Saved jobs
               </Link>
+              <Link
+                href="/dashboard/saved-searches"
+                className="nav-link"
+                onClick={closeMobileMenu}
+              >
+                Saved searches
+              </Link>
               <Link
                 href="/dashboard/saved-products"
                 className="nav-link"
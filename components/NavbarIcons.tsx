@@ -1,9 +1,10 @@
 // components/NavbarIcons.tsx
-import { useState, useEffect, useRef, useCallback, FormEvent } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import Link from "next/link";
 import { useRouter } from "next/router";
 import { supabase } from "../lib/supabaseClient";
 import { useSupabaseUser } from "../lib/useSupabaseUser";
+import NavSearchTypeahead from "./NavSearchTypeahead";
 
 type Theme = "dark" | "light";
 
@@ -45,16 +46,6 @@ export default function NavbarIcons() {
   // ✅ messages count
   const [messagesCount, setMessagesCount] = useState(0);
 
-  // global search (shared by desktop & mobile)
-  const [globalSearch, setGlobalSearch] = useState("");
-
-  const handleGlobalSearchSubmit = (e: FormEvent) => {
-    e.preventDefault();
-    const term = globalSearch.trim();
-    if (!term) return;
-    router.push(`/search?q=${encodeURIComponent(term)}`);
-  };
-
   // ✅ unified unread-count loader (used by route-change + custom event)
   const loadUnreadCount = useCallback(async () => {
     if (!user) {
@@ -526,8 +517,9 @@ export default function NavbarIcons() {
 
             {/* MOBILE SEARCH PILL */}
             {isMobile && (
-              <form
-                onSubmit={handleGlobalSearchSubmit}
+              <NavSearchTypeahead
+                placeholder="Search"
+                prefix={<span style={{ opacity: 0.85, flexShrink: 0 }}>🔍</span>}
                 style={{
                   flex: 1,
                   minWidth: 0,
@@ -540,36 +532,24 @@ export default function NavbarIcons() {
                   background: "rgba(15,23,42,0.55)",
                   height: 38,
                 }}
-              >
-                <span style={{ opacity: 0.85, flexShrink: 0 }}>🔍</span>
-                <input
-                  type="text"
-                  value={globalSearch}
-                  onChange={(e) => setGlobalSearch(e.target.value)}
-                  placeholder="Search"
-                  style={{
-                    width: "100%",
-                    border: "none",
-                    outline: "none",
-                    background: "transparent",
-                    color: "#e5e7eb",
-                    fontSize: 14,
-                  }}
-                />
-              </form>
+                inputStyle={{
+                  width: "100%",
+                  border: "none",
+                  outline: "none",
+                  background: "transparent",
+                  color: "#e5e7eb",
+                  fontSize: 14,
+                }}
+              />
             )}
 
             {/* Global search – desktop only */}
             {!isMobile && (
-              <form onSubmit={handleGlobalSearchSubmit} className="nav-search-desktop">
-                <input
-                  type="text"
-                  value={globalSearch}
-                  onChange={(e) => setGlobalSearch(e.target.value)}
-                  placeholder="Search jobs, products, people, organizations…"
-                  className="nav-search-input"
-                />
-              </form>
+              <NavSearchTypeahead
+                className="nav-search-desktop"
+                inputClassName="nav-search-input"
+                placeholder="Search jobs, products, people, organizations…"
+              />
             )}
           </div>
 
@@ -0,0 +1,45 @@
+// components/OrgVerifiedBadge.tsx
+import React from "react";
+import { VERIFICATION_METHOD_LABELS, VerifiedOrgFields, isOrgVerified } from "../lib/orgVerification";
+
+export default function OrgVerifiedBadge({
+  org,
+  size = "sm",
+}: {
+  org: VerifiedOrgFields | null | undefined;
+  size?: "sm" | "md";
+}) {
+  if (!org || !isOrgVerified(org)) return null;
+
+  const method = org.verification_method ? VERIFICATION_METHOD_LABELS[org.verification_method] : null;
+  const title = [
+    org.verified_domain ? `Controls ${org.verified_domain}` : "Verified organization",
+    method ? `checked by ${method.toLowerCase()}` : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  return (
+    <span
+      title={title}
+      style={{
+        display: "inline-flex",
+        alignItems: "center",
+        gap: 4,
+        fontSize: size === "md" ? 12 : 10,
+        fontWeight: 800,
+        borderRadius: 999,
+        padding: size === "md" ? "3px 10px" : "2px 7px",
+        border: "1px solid rgba(56,189,248,0.7)",
+        background: "rgba(56,189,248,0.14)",
+        color: "#bae6fd",
+        whiteSpace: "nowrap",
+        lineHeight: size === "md" ? "16px" : "14px",
+        verticalAlign: "middle",
+      }}
+    >
+      <span aria-hidden="true">✓</span>
+      Verified
+    </span>
+  );
+}
@@ -0,0 +1,87 @@
+// components/ProductCompareTray.tsx
+import Link from "next/link";
+import { MAX_COMPARE_PRODUCTS, compareHref } from "../lib/productCompare";
+
+type Props = {
+  ids: string[];
+  // Names for the chips; ids not found (e.g. deleted products) show as "Product"
+  names: Record<string, string>;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+};
+
+/** Bottom bar with the products picked for comparison. Hidden while empty. */
+export default function ProductCompareTray({ ids, names, onRemove, onClear }: Props) {
+  if (ids.length === 0) return null;
+
+  return (
+    <div
+      role="region"
+      aria-label="Compare products"
+      style={{
+        position: "sticky",
+        bottom: 12,
+        zIndex: 40,
+        marginTop: 16,
+        padding: "10px 12px",
+        borderRadius: 16,
+        border: "1px solid rgba(56,189,248,0.45)",
+        background: "rgba(2,6,23,0.92)",
+        backdropFilter: "blur(10px)",
+        WebkitBackdropFilter: "blur(10px)",
+        boxShadow: "0 10px 30px rgba(0,0,0,0.35)",
+        display: "flex",
+        alignItems: "center",
+        gap: 10,
+        flexWrap: "wrap",
+      }}
+    >
+      <span style={{ fontSize: 12, color: "#7dd3fc", fontWeight: 700 }}>
+        Compare {ids.length}/{MAX_COMPARE_PRODUCTS}
+      </span>
+
+      {ids.map((id) => (
+        <span
+          key={id}
+          style={{
+            display: "inline-flex",
+            alignItems: "center",
+            gap: 6,
+            fontSize: 12,
+            padding: "4px 8px",
+            borderRadius: 999,
+            border: "1px solid rgba(148,163,184,0.35)",
+            maxWidth: 200,
+          }}
+        >
+          <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+            {names[id] || "Product"}
+          </span>
+          <button
+            type="button"
+            onClick={() => onRemove(id)}
+            aria-label={`Remove ${names[id] || "product"} from comparison`}
+            style={{ background: "none", border: "none", color: "#9ca3af", cursor: "pointer", padding: 0 }}
+          >
+            ✕
+          </button>
+        </span>
+      ))}
+
+      <div style={{ marginLeft: "auto", display: "flex", gap: 8 }}>
+        <button type="button" className="nav-ghost-btn" onClick={onClear} style={{ cursor: "pointer" }}>
+          Clear
+        </button>
+        {ids.length < 2 ? (
+          <span className="nav-cta" style={{ opacity: 0.5 }} title="Pick at least two products">
+            Compare
+          </span>
+        ) : (
+          <Link href={compareHref(ids)} className="nav-cta">
+            Compare
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
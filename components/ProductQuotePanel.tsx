@@ -0,0 +1,278 @@
+// components/ProductQuotePanel.tsx
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import { supabase } from "../lib/supabaseClient";
+import { useSupabaseUser } from "../lib/useSupabaseUser";
+import {
+  MAX_QUOTE_QUANTITY,
+  MAX_QUOTE_TEXT_LENGTH,
+  ProductQuote,
+  QUOTE_STATUS_COLORS,
+  QUOTE_STATUS_LABELS,
+  QUOTE_TIMELINES,
+  listMyQuotes,
+  requestQuote,
+} from "../lib/productQuotes";
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "8px 10px",
+  borderRadius: 10,
+  border: "1px solid rgba(148,163,184,0.6)",
+  backgroundColor: "rgba(15,23,42,0.9)",
+  color: "#e5e7eb",
+  fontSize: 14,
+};
+
+function formatDate(value: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleDateString();
+}
+
+/** "Request a quote" form for contact-priced products, plus the buyer's earlier requests and replies. */
+export default function ProductQuotePanel({ productId, isOwner }: { productId: string; isOwner: boolean }) {
+  const router = useRouter();
+  const { user } = useSupabaseUser();
+
+  const [quotes, setQuotes] = useState<ProductQuote[]>([]);
+  const [open, setOpen] = useState(false);
+  const [quantity, setQuantity] = useState("1");
+  const [institution, setInstitution] = useState("");
+  const [timeline, setTimeline] = useState(QUOTE_TIMELINES[0]);
+  const [notes, setNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user || isOwner) {
+      setQuotes([]);
+      return;
+    }
+
+    let cancelled = false;
+    listMyQuotes(productId)
+      .then((rows) => {
+        if (!cancelled) setQuotes(rows);
+      })
+      .catch((e) => console.error("Error loading your quote requests", e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, productId, isOwner]);
+
+  // Prefill the institution from the buyer's profile
+  useEffect(() => {
+    if (!open || !user || institution) return;
+
+    supabase
+      .from("profiles")
+      .select("affiliation")
+      .eq("id", user.id)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (data?.affiliation) setInstitution((current) => current || data.affiliation);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, user]);
+
+  if (isOwner) return null;
+
+  const handleOpen = () => {
+    if (!user) {
+      router.push(`/auth?redirect=${encodeURIComponent(router.asPath)}`);
+      return;
+    }
+    setOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const qty = Number(quantity);
+    if (!Number.isInteger(qty) || qty < 1) {
+      setError("Quantity must be a whole number of at least 1.");
+      return;
+    }
+    if (!institution.trim()) {
+      setError("Please enter your institution.");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const created = await requestQuote({
+        productId,
+        quantity: qty,
+        institution: institution.trim(),
+        timeline,
+        notes: notes.trim(),
+      });
+      setQuotes((prev) => [created, ...prev]);
+      setOpen(false);
+      setNotes("");
+    } catch (e: any) {
+      console.error("Error requesting quote", e);
+      setError(e?.message || "Could not send your request.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
+      {quotes.map((q) => {
+        const color = QUOTE_STATUS_COLORS[q.status];
+        return (
+          <div
+            key={q.id}
+            style={{
+              padding: 12,
+              borderRadius: 12,
+              border: "1px solid rgba(148,163,184,0.25)",
+              background: "rgba(2,6,23,0.45)",
+              fontSize: 13,
+            }}
+          >
+            <div style={{ display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+              <span
+                style={{
+                  padding: "3px 10px",
+                  borderRadius: 999,
+                  border: `1px solid ${color}`,
+                  background: `${color}22`,
+                  color,
+                  fontWeight: 700,
+                  fontSize: 12,
+                }}
+              >
+                Quote · {QUOTE_STATUS_LABELS[q.status]}
+              </span>
+              <span style={{ color: "rgba(148,163,184,0.95)" }}>
+                {q.quantity} pcs · {q.institution}
+                {q.timeline ? ` · ${q.timeline}` : ""} · requested {formatDate(q.created_at)}
+              </span>
+            </div>
+
+            {q.reply && (
+              <div style={{ marginTop: 8, whiteSpace: "pre-wrap", lineHeight: 1.45, color: "rgba(226,232,240,0.92)" }}>
+                <span style={{ fontWeight: 700 }}>Seller reply: </span>
+                {q.reply}
+              </div>
+            )}
+            {q.quote_url && (
+              <a
+                href={q.quote_url}
+                target="_blank"
+                rel="noreferrer"
+                style={{ display: "inline-block", marginTop: 8, color: "#7dd3fc" }}
+              >
+                📄 Download quote (PDF)
+              </a>
+            )}
+          </div>
+        );
+      })}
+
+      {!open ? (
+        <button
+          type="button"
+          className="nav-cta"
+          onClick={handleOpen}
+          style={{ padding: "6px 12px", minWidth: "unset", width: "fit-content", cursor: "pointer" }}
+        >
+          {quotes.length > 0 ? "Request another quote" : "Request a quote"}
+        </button>
+      ) : (
+        <form
+          onSubmit={handleSubmit}
+          style={{
+            width: "100%",
+            maxWidth: 640,
+            display: "flex",
+            flexDirection: "column",
+            gap: 10,
+            padding: 14,
+            borderRadius: 14,
+            border: "1px solid rgba(148,163,184,0.3)",
+            background: "rgba(2,6,23,0.55)",
+          }}
+        >
+          <div style={{ fontWeight: 800, fontSize: 15 }}>Request a quote</div>
+          <div style={{ fontSize: 13, color: "rgba(148,163,184,0.95)" }}>
+            The seller gets your request and profile, and replies here. You'll be notified.
+          </div>
+
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(180px, 1fr))", gap: 10 }}>
+            <label style={{ fontSize: 13, display: "flex", flexDirection: "column", gap: 4 }}>
+              Quantity *
+              <input
+                type="number"
+                min={1}
+                max={MAX_QUOTE_QUANTITY}
+                step={1}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                required
+                style={inputStyle}
+              />
+            </label>
+
+            <label style={{ fontSize: 13, display: "flex", flexDirection: "column", gap: 4 }}>
+              Timeline
+              <select value={timeline} onChange={(e) => setTimeline(e.target.value)} style={inputStyle}>
+                {QUOTE_TIMELINES.map((t) => (
+                  <option key={t} value={t}>
+                    {t}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label style={{ fontSize: 13, display: "flex", flexDirection: "column", gap: 4 }}>
+            Institution *
+            <input
+              value={institution}
+              onChange={(e) => setInstitution(e.target.value)}
+              maxLength={MAX_QUOTE_TEXT_LENGTH}
+              placeholder="University, lab or company"
+              required
+              style={inputStyle}
+            />
+          </label>
+
+          <label style={{ fontSize: 13, display: "flex", flexDirection: "column", gap: 4 }}>
+            Notes
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={MAX_QUOTE_TEXT_LENGTH}
+              rows={4}
+              placeholder="Configuration, delivery address, budget constraints…"
+              style={{ ...inputStyle, resize: "vertical" }}
+            />
+          </label>
+
+          {error && <div style={{ fontSize: 13, color: "#f87171" }}>{error}</div>}
+
+          <div style={{ display: "flex", gap: 8 }}>
+            <button type="submit" className="nav-cta" disabled={submitting} style={{ cursor: "pointer" }}>
+              {submitting ? "Sending…" : "Send request"}
+            </button>
+            <button
+              type="button"
+              className="nav-ghost-btn"
+              onClick={() => setOpen(false)}
+              disabled={submitting}
+              style={{ cursor: "pointer" }}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,44 +1,377 @@
-import type React from "react";
+import { useEffect, useState } from "react";
 import type { CSSProperties } from "react";
+import Link from "next/link";
+import {
+  DEFAULT_RANGE_DAYS,
+  MAX_RANGE_DAYS,
+  ORG_EVENT_LABELS,
+  OrgAnalyticsDay,
+  OrgAnalyticsReport,
+  dailyReportCsv,
+  daysBetween,
+  fetchOrgAnalytics,
+  isDay,
+  lastDaysRange,
+  topContentCsv,
+} from "../../lib/orgAnalytics";
 
 type Org = {
   id: string;
   name: string;
+  slug?: string;
 };
 
+type Series = {
+  label: string;
+  color: string;
+  value: (d: OrgAnalyticsDay) => number;
+};
+
+const RANGE_PRESETS = [7, 30, 90];
+
+const card: CSSProperties = {
+  borderRadius: 16,
+  border: "1px solid rgba(148,163,184,0.18)",
+  background: "rgba(15,23,42,0.72)",
+  padding: 20,
+  color: "rgba(226,232,240,0.95)",
+};
+
+const muted: CSSProperties = {
+  fontSize: 12,
+  color: "rgba(148,163,184,0.9)",
+};
+
+const th: CSSProperties = {
+  textAlign: "left",
+  padding: "6px 8px",
+  fontSize: 11,
+  fontWeight: 700,
+  color: "rgba(148,163,184,0.95)",
+  borderBottom: "1px solid rgba(148,163,184,0.2)",
+};
+
+const td: CSSProperties = {
+  padding: "6px 8px",
+  fontSize: 13,
+  borderBottom: "1px solid rgba(148,163,184,0.1)",
+};
+
+const num: CSSProperties = { ...td, textAlign: "right", fontVariantNumeric: "tabular-nums" };
+
+function formatDay(day: string) {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+function downloadCsv(filename: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 140;
+
+/** Lines over the selected days; hovering a day shows its values. */
+function TrendChart({ title, days, series }: { title: string; days: OrgAnalyticsDay[]; series: Series[] }) {
+  const max = Math.max(1, ...days.flatMap((d) => series.map((s) => s.value(d))));
+  const step = days.length > 1 ? CHART_WIDTH / (days.length - 1) : CHART_WIDTH;
+  const x = (i: number) => (days.length > 1 ? i * step : CHART_WIDTH / 2);
+  const y = (v: number) => CHART_HEIGHT - (v / max) * (CHART_HEIGHT - 8) - 4;
+
+  return (
+    <div className="card" style={{ ...card, padding: 14 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 8, flexWrap: "wrap", marginBottom: 8 }}>
+        <div style={{ fontWeight: 700, fontSize: 14 }}>{title}</div>
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+          {series.map((s) => (
+            <span key={s.label} style={{ ...muted, display: "inline-flex", alignItems: "center", gap: 4 }}>
+              <span style={{ width: 10, height: 3, borderRadius: 2, background: s.color }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div style={{ position: "relative" }}>
+        <span style={{ ...muted, position: "absolute", top: 0, left: 0, fontSize: 10 }}>{max}</span>
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          role="img"
+          aria-label={title}
+          style={{ width: "100%", height: CHART_HEIGHT, display: "block" }}
+        >
+          <line
+            x1={0}
+            x2={CHART_WIDTH}
+            y1={CHART_HEIGHT - 4}
+            y2={CHART_HEIGHT - 4}
+            stroke="rgba(148,163,184,0.25)"
+            vectorEffect="non-scaling-stroke"
+          />
+          {series.map((s) => (
+            <polyline
+              key={s.label}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+              points={days.map((d, i) => `${x(i)},${y(s.value(d))}`).join(" ")}
+            />
+          ))}
+          {days.map((d, i) => (
+            <rect key={d.day} x={x(i) - step / 2} y={0} width={step} height={CHART_HEIGHT} fill="transparent">
+              <title>{`${formatDay(d.day)}: ${series.map((s) => `${s.label} ${s.value(d)}`).join(", ")}`}</title>
+            </rect>
+          ))}
+        </svg>
+      </div>
+
+      <div style={{ ...muted, display: "flex", justifyContent: "space-between", fontSize: 10, marginTop: 4 }}>
+        <span>{days.length > 0 ? formatDay(days[0].day) : ""}</span>
+        <span>{days.length > 0 ? formatDay(days[days.length - 1].day) : ""}</span>
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value, hint }: { label: string; value: number; hint?: string }) {
+  return (
+    <div
+      style={{
+        flex: "1 1 130px",
+        borderRadius: 12,
+        border: "1px solid rgba(148,163,184,0.18)",
+        background: "rgba(2,6,23,0.35)",
+        padding: "10px 12px",
+      }}
+    >
+      <div style={muted}>{label}</div>
+      <div style={{ fontSize: 20, fontWeight: 800 }}>{value.toLocaleString()}</div>
+      {hint && <div style={{ ...muted, fontSize: 11 }}>{hint}</div>}
+    </div>
+  );
+}
+
 export default function OrgAnalyticsTab({ org }: { org: Org }) {
-  const card: CSSProperties = {
-    borderRadius: 16,
-    border: "1px solid rgba(148,163,184,0.18)",
-    background: "rgba(15,23,42,0.72)",
-    padding: 20,
-    color: "rgba(226,232,240,0.95)",
-  };
-
-  const muted: CSSProperties = {
-    marginTop: 6,
-    fontSize: 13,
-    color: "rgba(148,163,184,0.9)",
-  };
+  const [range, setRange] = useState(() => lastDaysRange(DEFAULT_RANGE_DAYS));
+  const [report, setReport] = useState<OrgAnalyticsReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const rangeDays = isDay(range.from) && isDay(range.to) && range.from <= range.to ? daysBetween(range.from, range.to).length : 0;
+  const rangeValid = rangeDays > 0 && rangeDays <= MAX_RANGE_DAYS;
+
+  useEffect(() => {
+    if (!rangeValid) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetchOrgAnalytics(org.id, range.from, range.to)
+      .then((r) => {
+        if (!cancelled) setReport(r);
+      })
+      .catch((e) => {
+        console.error("Error loading org analytics", e);
+        if (!cancelled) setError(e?.message || "Could not load analytics.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [org.id, range.from, range.to, rangeValid]);
+
+  const filePrefix = `${org.slug || org.id}-analytics-${range.from}-to-${range.to}`;
+  const followerChange = report ? report.totals.follow - report.totals.unfollow : 0;
 
   return (
-    <div style={{ marginTop: 18 }}>
+    <div style={{ marginTop: 18, display: "grid", gap: 12 }}>
       <div className="card" style={card}>
-        <div className="section-title">Analytics</div>
-        <div className="section-sub">
-          Private insights for organization owners.
+        <div style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+          <div>
+            <div className="section-title">Analytics</div>
+            <div className="section-sub">
+              Private insights for {org.name}'s owners. Counts update hourly; visits from your own team are not counted.
+            </div>
+          </div>
+          <div style={{ display: "flex", gap: 8, alignItems: "flex-start", flexWrap: "wrap" }}>
+            <button
+              type="button"
+              className="nav-ghost-btn"
+              disabled={!report}
+              onClick={() => report && downloadCsv(`${filePrefix}-daily.csv`, dailyReportCsv(report))}
+              style={{ cursor: "pointer" }}
+            >
+              Export daily CSV
+            </button>
+            <button
+              type="button"
+              className="nav-ghost-btn"
+              disabled={!report}
+              onClick={() => report && downloadCsv(`${filePrefix}-top-content.csv`, topContentCsv(report))}
+              style={{ cursor: "pointer" }}
+            >
+              Export top content
+            </button>
+          </div>
         </div>
 
-        <div style={muted}>
-          Analytics are coming soon. This section will include:
-          <ul style={{ marginTop: 8, paddingLeft: 18 }}>
-            <li>Profile views</li>
-            <li>Follower growth</li>
-            <li>Job impressions & clicks</li>
-            <li>Product views</li>
-          </ul>
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 14 }}>
+          {RANGE_PRESETS.map((days) => {
+            const preset = lastDaysRange(days);
+            const active = preset.from === range.from && preset.to === range.to;
+            return (
+              <button
+                key={days}
+                type="button"
+                className={active ? "nav-cta" : "nav-ghost-btn"}
+                onClick={() => setRange(preset)}
+                style={{ cursor: "pointer", padding: "6px 12px", minWidth: "unset" }}
+              >
+                Last {days} days
+              </button>
+            );
+          })}
+          <label style={{ ...muted, display: "inline-flex", gap: 6, alignItems: "center" }}>
+            From
+            <input type="date" value={range.from} max={range.to} onChange={(e) => setRange({ ...range, from: e.target.value })} />
+          </label>
+          <label style={{ ...muted, display: "inline-flex", gap: 6, alignItems: "center" }}>
+            To
+            <input type="date" value={range.to} min={range.from} onChange={(e) => setRange({ ...range, to: e.target.value })} />
+          </label>
         </div>
+
+        {!rangeValid && (
+          <div className="products-status" style={{ color: "#f87171", marginTop: 8 }}>
+            Pick a start date before the end date, at most {MAX_RANGE_DAYS} days apart.
+          </div>
+        )}
       </div>
+
+      {loading && rangeValid && <div className="dashboard-status">Loading analytics…</div>}
+      {error && (
+        <div className="products-status" style={{ color: "#f87171" }}>
+          {error}
+        </div>
+      )}
+
+      {report && !error && (
+        <>
+          <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+            <Stat label={ORG_EVENT_LABELS.org_view} value={report.totals.org_view} />
+            <Stat
+              label="Followers"
+              value={report.followers}
+              hint={`${followerChange >= 0 ? "+" : ""}${followerChange} in this range`}
+            />
+            <Stat label={ORG_EVENT_LABELS.job_impression} value={report.totals.job_impression} />
+            <Stat label={ORG_EVENT_LABELS.job_view} value={report.totals.job_view} />
+            <Stat label={ORG_EVENT_LABELS.apply_click} value={report.totals.apply_click} />
+            <Stat label={ORG_EVENT_LABELS.product_view} value={report.totals.product_view} />
+          </div>
+
+          <TrendChart
+            title="Profile views"
+            days={report.days}
+            series={[
+              { label: "Views", color: "#22d3ee", value: (d) => d.org_view },
+              { label: "Unique visitors", color: "#a855f7", value: (d) => d.visitors },
+            ]}
+          />
+          <TrendChart
+            title="Follower growth"
+            days={report.days}
+            series={[{ label: "Followers", color: "#34d399", value: (d) => d.followers ?? 0 }]}
+          />
+          <TrendChart
+            title="Jobs"
+            days={report.days}
+            series={[
+              { label: ORG_EVENT_LABELS.job_impression, color: "#7dd3fc", value: (d) => d.job_impression },
+              { label: ORG_EVENT_LABELS.job_view, color: "#fbbf24", value: (d) => d.job_view },
+              { label: ORG_EVENT_LABELS.apply_click, color: "#f472b6", value: (d) => d.apply_click },
+            ]}
+          />
+          <TrendChart
+            title="Products"
+            days={report.days}
+            series={[{ label: ORG_EVENT_LABELS.product_view, color: "#a5b4fc", value: (d) => d.product_view }]}
+          />
+
+          <div className="card" style={{ ...card, padding: 14 }}>
+            <div style={{ fontWeight: 700, fontSize: 14, marginBottom: 8 }}>Top jobs</div>
+            {report.topJobs.length === 0 ? (
+              <div style={muted}>No job activity in this range.</div>
+            ) : (
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr>
+                      <th style={th}>Job</th>
+                      <th style={{ ...th, textAlign: "right" }}>Impressions</th>
+                      <th style={{ ...th, textAlign: "right" }}>Clicks</th>
+                      <th style={{ ...th, textAlign: "right" }}>Apply clicks</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.topJobs.map((j) => (
+                      <tr key={j.id}>
+                        <td style={td}>
+                          <Link href={`/jobs/${j.id}`} style={{ color: "#7dd3fc" }}>
+                            {j.title || "Untitled role"}
+                          </Link>
+                        </td>
+                        <td style={num}>{j.job_impression}</td>
+                        <td style={num}>{j.job_view}</td>
+                        <td style={num}>{j.apply_click}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="card" style={{ ...card, padding: 14 }}>
+            <div style={{ fontWeight: 700, fontSize: 14, marginBottom: 8 }}>Top products</div>
+            {report.topProducts.length === 0 ? (
+              <div style={muted}>No product views in this range.</div>
+            ) : (
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr>
+                    <th style={th}>Product</th>
+                    <th style={{ ...th, textAlign: "right" }}>Views</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.topProducts.map((p) => (
+                    <tr key={p.id}>
+                      <td style={td}>
+                        <Link href={`/products/${p.id}`} style={{ color: "#7dd3fc" }}>
+                          {p.name || "Untitled product"}
+                        </Link>
+                      </td>
+                      <td style={num}>{p.product_view}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
     </div>
   );
 }
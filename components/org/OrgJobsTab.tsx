@@ -6,6 +6,18 @@ import Link from "next/link";
 import { useRouter } from "next/router";
 import { supabase } from "../../lib/supabaseClient";
 import { useSupabaseUser } from "../../lib/useSupabaseUser";
+import {
+  APPLICATION_STATUSES,
+  APPLICATION_STATUS_COLORS,
+  APPLICATION_STATUS_LABELS,
+  ApplicationStatus,
+  JobApplication,
+  listJobApplications,
+  updateApplicationStatus,
+} from "../../lib/jobApplications";
+import { JOB_STATUS_COLORS, JOB_STATUS_LABELS, effectiveJobStatus } from "../../lib/jobLifecycle";
+import { formatJobSalary } from "../../lib/salary";
+import { useImpressions } from "../../lib/useImpressions";
 
 type Org = {
   id: string;
@@ -30,9 +42,18 @@ type JobRow = {
   remote_type: string | null;
   short_description: string | null;
   salary_display: string | null;
+  salary_min?: number | null;
+  salary_max?: number | null;
+  salary_currency?: string | null;
+  salary_period?: string | null;
   created_at?: string | null;
   owner_id?: string | null;
   org_id?: string | null;
+
+  status?: string | null;
+  is_published?: boolean | null;
+  publish_at?: string | null;
+  expires_at?: string | null;
 };
 
 function useIsMobile(maxWidth = 820) {
@@ -89,7 +110,7 @@ function formatRelativeTime(created_at: string | null | undefined) {
    ORG JOBS STRIP
    ========================= */
 
-function OrgJobsStrip({ orgId }: { orgId: string }) {
+function OrgJobsStrip({ orgId, showUnpublished }: { orgId: string; showUnpublished: boolean }) {
   const router = useRouter();
   const { user } = useSupabaseUser();
   const [loading, setLoading] = useState(true);
@@ -97,6 +118,7 @@ function OrgJobsStrip({ orgId }: { orgId: string }) {
   const [error, setError] = useState<string | null>(null);
   const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
   const scrollerRef = useRef<HTMLDivElement | null>(null);
+  const impressionRef = useImpressions("job_impression");
 
   const loadJobs = async () => {
     setLoading(true);
@@ -106,14 +128,16 @@ function OrgJobsStrip({ orgId }: { orgId: string }) {
       const { data, error: jobErr } = await supabase
         .from("jobs")
         .select(
-          "id,title,company_name,location,employment_type,remote_type,short_description,salary_display,created_at,owner_id,org_id"
+          "id,title,company_name,location,employment_type,remote_type,short_description,salary_display,salary_min,salary_max,salary_currency,salary_period,created_at,owner_id,org_id,status,is_published,publish_at,expires_at"
         )
         .eq("org_id", orgId)
         .order("created_at", { ascending: false })
         .limit(60);
 
       if (jobErr) throw jobErr;
-      setItems((data || []) as JobRow[]);
+      const rows = (data || []) as JobRow[];
+      // Owners also see their drafts, scheduled and ended postings (badged below)
+      setItems(showUnpublished ? rows : rows.filter((j) => effectiveJobStatus(j) === "published"));
     } catch (e: any) {
       console.error(e);
       setError(e?.message || "Could not load jobs.");
@@ -172,7 +196,7 @@ function OrgJobsStrip({ orgId }: { orgId: string }) {
       supabase.removeChannel(channel);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [orgId, user]);
+  }, [orgId, user, showUnpublished]);
 
   const scrollByCard = (dir: -1 | 1) => {
     const el = scrollerRef.current;
@@ -311,10 +335,12 @@ function OrgJobsStrip({ orgId }: { orgId: string }) {
           if (j.remote_type) metaBits.push(j.remote_type);
 
           const saved = savedIds.has(j.id);
+          const status = effectiveJobStatus(j);
 
           return (
             <div
               key={j.id}
+              ref={impressionRef(j.id)}
               onClick={() => openJob(j.id)}
               role="button"
               tabIndex={0}
@@ -393,6 +419,20 @@ function OrgJobsStrip({ orgId }: { orgId: string }) {
                 )}
 
                 <div style={{ marginTop: 10, display: "flex", gap: 8, flexWrap: "wrap" }}>
+                  {status !== "published" && (
+                    <span
+                      style={{
+                        fontSize: 11,
+                        fontWeight: 800,
+                        borderRadius: 999,
+                        padding: "2px 8px",
+                        border: `1px solid ${JOB_STATUS_COLORS[status]}`,
+                        color: JOB_STATUS_COLORS[status],
+                      }}
+                    >
+                      {JOB_STATUS_LABELS[status]}
+                    </span>
+                  )}
                   <span
                     style={{
                       fontSize: 12,
@@ -400,7 +440,7 @@ function OrgJobsStrip({ orgId }: { orgId: string }) {
                       color: "rgba(226,232,240,0.92)",
                     }}
                   >
-                    {j.salary_display || ""}
+                    {formatJobSalary(j)}
                   </span>
                   {j.employment_type && (
                     <span
@@ -430,6 +470,316 @@ function OrgJobsStrip({ orgId }: { orgId: string }) {
   );
 }
 
+/* =========================
+   APPLICANT PIPELINE (owner / co-owner / admin)
+   ========================= */
+
+function OrgApplicantsBoard({ orgId }: { orgId: string }) {
+  const [jobs, setJobs] = useState<Pick<JobRow, "id" | "title" | "created_at">[]>([]);
+  const [jobId, setJobId] = useState<string>("");
+  const [applications, setApplications] = useState<JobApplication[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [openNotes, setOpenNotes] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadJobs = async () => {
+      const { data, error: jobErr } = await supabase
+        .from("jobs")
+        .select("id,title,created_at")
+        .eq("org_id", orgId)
+        .order("created_at", { ascending: false })
+        .limit(60);
+
+      if (cancelled) return;
+      if (jobErr) {
+        console.error("Error loading org jobs for applicants", jobErr);
+        setError("Could not load jobs.");
+        return;
+      }
+
+      const rows = (data || []) as Pick<JobRow, "id" | "title" | "created_at">[];
+      setJobs(rows);
+      setJobId((current) => current || rows[0]?.id || "");
+    };
+
+    if (orgId) loadJobs();
+    return () => {
+      cancelled = true;
+    };
+  }, [orgId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadApplications = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const rows = await listJobApplications(jobId);
+        if (!cancelled) setApplications(rows);
+      } catch (e: any) {
+        console.error("Error loading applicants", e);
+        if (!cancelled) {
+          setError(e?.message || "Could not load applicants.");
+          setApplications([]);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    if (jobId) loadApplications();
+    else setApplications([]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId]);
+
+  const byStatus = useMemo(() => {
+    const groups = new Map<ApplicationStatus, JobApplication[]>();
+    APPLICATION_STATUSES.forEach((st) => groups.set(st, []));
+    applications.forEach((a) => groups.get(a.status)?.push(a));
+    return groups;
+  }, [applications]);
+
+  const moveTo = async (application: JobApplication, status: ApplicationStatus) => {
+    if (status === application.status) return;
+
+    const previous = application.status;
+    setUpdatingId(application.id);
+    setApplications((prev) => prev.map((a) => (a.id === application.id ? { ...a, status } : a)));
+
+    try {
+      await updateApplicationStatus(application.id, status);
+    } catch (e: any) {
+      console.error("Error updating application status", e);
+      setError(e?.message || "Could not update the application.");
+      setApplications((prev) =>
+        prev.map((a) => (a.id === application.id ? { ...a, status: previous } : a))
+      );
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const toggleNote = (id: string) => {
+    setOpenNotes((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  if (jobs.length === 0 && !error) return null;
+
+  return (
+    <div
+      className="card"
+      style={{
+        marginTop: 14,
+        padding: 14,
+        borderRadius: 16,
+        border: "1px solid rgba(148,163,184,0.22)",
+        background: "rgba(15,23,42,0.72)",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: 10,
+          flexWrap: "wrap",
+          marginBottom: 12,
+        }}
+      >
+        <div>
+          <div style={{ fontWeight: 800, fontSize: 15 }}>Applicants</div>
+          <div style={{ fontSize: 12, color: "rgba(148,163,184,0.95)", marginTop: 2 }}>
+            Applications submitted on Quantum5ocial. Only owners and admins see this.
+          </div>
+        </div>
+
+        <select
+          className="products-filters-input"
+          style={{ height: 36, borderRadius: 10, maxWidth: 320 }}
+          value={jobId}
+          onChange={(e) => setJobId(e.target.value)}
+          aria-label="Job"
+        >
+          {jobs.map((j) => (
+            <option key={j.id} value={j.id}>
+              {(j.title || "Untitled role").trim()}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="products-status" style={{ color: "#f87171", marginBottom: 10 }}>
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="products-status">Loading applicants…</div>
+      ) : applications.length === 0 ? (
+        !error && <div className="products-empty">No applications for this job yet.</div>
+      ) : (
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "repeat(auto-fit, minmax(190px, 1fr))",
+            gap: 10,
+            alignItems: "start",
+          }}
+        >
+          {APPLICATION_STATUSES.map((status) => {
+            const items = byStatus.get(status) || [];
+            const color = APPLICATION_STATUS_COLORS[status];
+
+            return (
+              <div
+                key={status}
+                style={{
+                  borderRadius: 14,
+                  border: `1px solid ${color}55`,
+                  background: "rgba(2,6,23,0.42)",
+                  padding: 10,
+                  minHeight: 80,
+                }}
+              >
+                <div
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    fontSize: 12,
+                    fontWeight: 800,
+                    letterSpacing: "0.06em",
+                    textTransform: "uppercase",
+                    color,
+                    marginBottom: 8,
+                  }}
+                >
+                  <span>{APPLICATION_STATUS_LABELS[status]}</span>
+                  <span>{items.length}</span>
+                </div>
+
+                <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+                  {items.map((a) => {
+                    const name = a.applicant?.full_name || "Quantum5ocial member";
+                    const subtitle = [a.applicant?.current_title, a.applicant?.affiliation]
+                      .filter(Boolean)
+                      .join(" · ");
+                    const noteOpen = openNotes.has(a.id);
+
+                    return (
+                      <div
+                        key={a.id}
+                        style={{
+                          borderRadius: 12,
+                          border: "1px solid rgba(148,163,184,0.18)",
+                          background: "rgba(15,23,42,0.9)",
+                          padding: 10,
+                          fontSize: 12,
+                          opacity: updatingId === a.id ? 0.6 : 1,
+                        }}
+                      >
+                        <Link
+                          href={`/profile/${a.applicant_id}`}
+                          style={{ fontWeight: 800, fontSize: 13, color: "#e5e7eb", textDecoration: "none" }}
+                        >
+                          {name}
+                        </Link>
+                        {subtitle && <div style={{ opacity: 0.72, marginTop: 2 }}>{subtitle}</div>}
+                        <div style={{ opacity: 0.6, marginTop: 2 }}>
+                          Applied {formatRelativeTime(a.created_at)}
+                        </div>
+
+                        {a.cover_note && (
+                          <div style={{ marginTop: 6 }}>
+                            <button
+                              type="button"
+                              onClick={() => toggleNote(a.id)}
+                              style={{
+                                background: "none",
+                                border: "none",
+                                padding: 0,
+                                color: "#7dd3fc",
+                                fontSize: 12,
+                                cursor: "pointer",
+                              }}
+                            >
+                              {noteOpen ? "Hide cover note" : "Show cover note"}
+                            </button>
+                            {noteOpen && (
+                              <div
+                                style={{
+                                  marginTop: 4,
+                                  whiteSpace: "pre-wrap",
+                                  lineHeight: 1.45,
+                                  color: "rgba(226,232,240,0.92)",
+                                }}
+                              >
+                                {a.cover_note}
+                              </div>
+                            )}
+                          </div>
+                        )}
+
+                        <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 8 }}>
+                          {a.cv_url && (
+                            <a
+                              href={a.cv_url}
+                              target="_blank"
+                              rel="noreferrer"
+                              style={{ color: "#7dd3fc", whiteSpace: "nowrap" }}
+                            >
+                              📄 CV
+                            </a>
+                          )}
+                          <select
+                            value={a.status}
+                            disabled={updatingId === a.id}
+                            onChange={(e) => moveTo(a, e.target.value as ApplicationStatus)}
+                            aria-label={`Status for ${name}`}
+                            style={{
+                              flex: 1,
+                              minWidth: 0,
+                              fontSize: 12,
+                              padding: "4px 6px",
+                              borderRadius: 8,
+                              border: "1px solid rgba(148,163,184,0.4)",
+                              background: "rgba(2,6,23,0.8)",
+                              color: "#e5e7eb",
+                            }}
+                          >
+                            {APPLICATION_STATUSES.map((st) => (
+                              <option key={st} value={st}>
+                                {APPLICATION_STATUS_LABELS[st]}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /* =========================
    PUBLIC EXPORT
    ========================= */
@@ -437,9 +787,11 @@ function OrgJobsStrip({ orgId }: { orgId: string }) {
 export default function OrgJobsTab({
   org,
   canListJob,
+  canManageApplicants = false,
 }: {
   org: Org;
   canListJob: boolean; // owner/co-owner only
+  canManageApplicants?: boolean; // owner/co-owner/admin
 }) {
   const router = useRouter();
   const isMobile = useIsMobile(520);
@@ -605,7 +957,9 @@ const hiringBadge = useMemo(() => {
         )}
       </div>
 
-      <OrgJobsStrip orgId={org.id} />
+      <OrgJobsStrip orgId={org.id} showUnpublished={canListJob} />
+
+      {canManageApplicants && <OrgApplicantsBoard orgId={org.id} />}
     </div>
   );
 }
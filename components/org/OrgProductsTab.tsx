@@ -1,9 +1,35 @@
 // components/org/OrgProductsTab.tsx
-import { useEffect, useRef, useState, type CSSProperties } from "react";
+import { useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
 import Link from "next/link";
 import { useRouter } from "next/router";
 import { supabase } from "../../lib/supabaseClient";
 import { useSupabaseUser } from "../../lib/useSupabaseUser";
+import {
+  MAX_QUOTE_PDF_BYTES,
+  MAX_QUOTE_TEXT_LENGTH,
+  ProductQuote,
+  QUOTE_STATUSES,
+  QUOTE_STATUS_COLORS,
+  QUOTE_STATUS_LABELS,
+  QuoteStatus,
+  listOrgQuotes,
+  updateQuote,
+} from "../../lib/productQuotes";
+import {
+  INVENTORY_CSV_COLUMNS,
+  InventoryRowResult,
+  InventoryUpdate,
+  parseInventoryCsv,
+  updateInventory,
+} from "../../lib/productVariants";
+import {
+  MAX_IMPORT_ROWS,
+  ProductImportRecord,
+  ProductImportResult,
+  importProducts,
+  parseProductImportFile,
+  validateProductImport,
+} from "../../lib/productImport";
 
 type Org = {
   id: string;
@@ -463,14 +489,658 @@ function OrgProductsStrip({
   );
 }
 
+/* ---------- RFQ inbox (owner / co-owner / admin) ---------- */
+
+function OrgQuoteCard({
+  quote,
+  onUpdated,
+}: {
+  quote: ProductQuote;
+  onUpdated: (quote: ProductQuote) => void;
+}) {
+  const [reply, setReply] = useState(quote.reply || "");
+  const [pdf, setPdf] = useState<File | null>(null);
+  const [fileKey, setFileKey] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const buyerName = quote.buyer?.full_name || "Quantum5ocial member";
+  const buyerLine = [quote.buyer?.current_title, quote.buyer?.affiliation].filter(Boolean).join(" · ");
+  const color = QUOTE_STATUS_COLORS[quote.status];
+  const closed = quote.status === "won" || quote.status === "lost";
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    setError(null);
+    if (file && file.type !== "application/pdf" && !file.name.toLowerCase().endsWith(".pdf")) {
+      setError("The quote must be a PDF.");
+      setPdf(null);
+      return;
+    }
+    if (file && file.size > MAX_QUOTE_PDF_BYTES) {
+      setError("Quote PDF must be 10 MB or smaller.");
+      setPdf(null);
+      return;
+    }
+    setPdf(file);
+  };
+
+  const save = async (input: { reply?: string; status?: QuoteStatus; quotePdf?: File | null }) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await updateQuote(quote.id, input);
+      onUpdated({ ...quote, ...updated, buyer: quote.buyer });
+      setPdf(null);
+      setFileKey((k) => k + 1);
+    } catch (e: any) {
+      console.error("Error updating quote request", e);
+      setError(e?.message || "Could not update the request.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const replyChanged = reply.trim() !== (quote.reply || "");
+
+  return (
+    <div
+      style={{
+        borderRadius: 14,
+        border: "1px solid rgba(148,163,184,0.18)",
+        background: "rgba(2,6,23,0.42)",
+        padding: 12,
+        fontSize: 13,
+        opacity: saving ? 0.7 : 1,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 10, flexWrap: "wrap" }}>
+        <div style={{ minWidth: 0 }}>
+          <Link
+            href={`/products/${quote.product_id}`}
+            style={{ fontWeight: 800, color: "#e5e7eb", textDecoration: "none" }}
+          >
+            {quote.product?.name || "Product"}
+          </Link>
+          <div style={{ marginTop: 2 }}>
+            <Link href={`/profile/${quote.buyer_id}`} style={{ color: "#7dd3fc", textDecoration: "none" }}>
+              {buyerName}
+            </Link>
+            {buyerLine && <span style={{ opacity: 0.72 }}> · {buyerLine}</span>}
+          </div>
+        </div>
+        <span
+          style={{
+            alignSelf: "flex-start",
+            padding: "3px 10px",
+            borderRadius: 999,
+            border: `1px solid ${color}`,
+            background: `${color}22`,
+            color,
+            fontWeight: 700,
+            fontSize: 12,
+            whiteSpace: "nowrap",
+          }}
+        >
+          {QUOTE_STATUS_LABELS[quote.status]}
+        </span>
+      </div>
+
+      <div style={{ marginTop: 8, color: "rgba(226,232,240,0.92)" }}>
+        <strong>{quote.quantity} pcs</strong> · {quote.institution}
+        {quote.timeline ? ` · ${quote.timeline}` : ""}
+        <span style={{ opacity: 0.6 }}> · {formatRelativeTime(quote.created_at)}</span>
+      </div>
+      {quote.notes && (
+        <div style={{ marginTop: 6, whiteSpace: "pre-wrap", lineHeight: 1.45, opacity: 0.85 }}>{quote.notes}</div>
+      )}
+
+      <textarea
+        value={reply}
+        onChange={(e) => setReply(e.target.value)}
+        maxLength={MAX_QUOTE_TEXT_LENGTH}
+        rows={3}
+        placeholder="Reply to the buyer (price, lead time, conditions…)"
+        style={{
+          marginTop: 10,
+          width: "100%",
+          padding: "8px 10px",
+          borderRadius: 10,
+          border: "1px solid rgba(148,163,184,0.4)",
+          background: "rgba(15,23,42,0.9)",
+          color: "#e5e7eb",
+          fontSize: 13,
+          resize: "vertical",
+        }}
+      />
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 8 }}>
+        <label style={{ fontSize: 12, display: "inline-flex", alignItems: "center", gap: 6 }}>
+          Quote PDF
+          <input key={fileKey} type="file" accept="application/pdf,.pdf" onChange={handleFile} />
+        </label>
+        {quote.quote_url && (
+          <a href={quote.quote_url} target="_blank" rel="noreferrer" style={{ color: "#7dd3fc", fontSize: 12 }}>
+            📄 Current quote
+          </a>
+        )}
+      </div>
+
+      {error && <div style={{ marginTop: 8, fontSize: 12, color: "#f87171" }}>{error}</div>}
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 10 }}>
+        <button
+          type="button"
+          className="nav-cta"
+          disabled={saving || (!replyChanged && !pdf)}
+          onClick={() => save({ reply: reply.trim(), quotePdf: pdf })}
+          style={{ cursor: "pointer", padding: "6px 12px", minWidth: "unset" }}
+        >
+          {saving ? "Saving…" : "Send reply"}
+        </button>
+        {!closed ? (
+          <>
+            <button
+              type="button"
+              className="nav-ghost-btn"
+              disabled={saving}
+              onClick={() => save({ status: "won" })}
+              style={{ cursor: "pointer", color: QUOTE_STATUS_COLORS.won }}
+            >
+              Mark won
+            </button>
+            <button
+              type="button"
+              className="nav-ghost-btn"
+              disabled={saving}
+              onClick={() => save({ status: "lost" })}
+              style={{ cursor: "pointer", color: QUOTE_STATUS_COLORS.lost }}
+            >
+              Mark lost
+            </button>
+          </>
+        ) : (
+          <button
+            type="button"
+            className="nav-ghost-btn"
+            disabled={saving}
+            onClick={() => save({ status: quote.reply || quote.quote_url ? "replied" : "new" })}
+            style={{ cursor: "pointer" }}
+          >
+            Reopen
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function OrgQuotesInbox({ orgId }: { orgId: string }) {
+  const [quotes, setQuotes] = useState<ProductQuote[]>([]);
+  const [filter, setFilter] = useState<QuoteStatus | "all">("all");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const rows = await listOrgQuotes(orgId);
+        if (!cancelled) setQuotes(rows);
+      } catch (e: any) {
+        console.error("Error loading quote requests", e);
+        if (!cancelled) {
+          setError(e?.message || "Could not load quote requests.");
+          setQuotes([]);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    if (orgId) load();
+    return () => {
+      cancelled = true;
+    };
+  }, [orgId]);
+
+  const counts = useMemo(() => {
+    const c: Record<string, number> = { all: quotes.length };
+    QUOTE_STATUSES.forEach((st) => (c[st] = 0));
+    quotes.forEach((q) => (c[q.status] = (c[q.status] || 0) + 1));
+    return c;
+  }, [quotes]);
+
+  const visible = filter === "all" ? quotes : quotes.filter((q) => q.status === filter);
+
+  const onUpdated = (updated: ProductQuote) => {
+    setQuotes((prev) => prev.map((q) => (q.id === updated.id ? updated : q)));
+  };
+
+  const filterBtn = (value: QuoteStatus | "all", label: string) => (
+    <button
+      key={value}
+      type="button"
+      onClick={() => setFilter(value)}
+      style={{
+        fontSize: 12,
+        padding: "4px 10px",
+        borderRadius: 999,
+        border: `1px solid ${filter === value ? "rgba(56,189,248,0.8)" : "rgba(148,163,184,0.3)"}`,
+        background: filter === value ? "rgba(56,189,248,0.15)" : "transparent",
+        color: "rgba(226,232,240,0.92)",
+        cursor: "pointer",
+      }}
+    >
+      {label} · {counts[value] || 0}
+    </button>
+  );
+
+  return (
+    <div
+      className="card"
+      style={{
+        marginTop: 14,
+        padding: 14,
+        borderRadius: 16,
+        border: "1px solid rgba(148,163,184,0.22)",
+        background: "rgba(15,23,42,0.72)",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: 10,
+          flexWrap: "wrap",
+          marginBottom: 12,
+        }}
+      >
+        <div>
+          <div style={{ fontWeight: 800, fontSize: 15 }}>Quote requests</div>
+          <div style={{ fontSize: 12, color: "rgba(148,163,184,0.95)", marginTop: 2 }}>
+            Requests for quotation on your “contact for price” products. Only owners and admins see this.
+          </div>
+        </div>
+        <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+          {filterBtn("all", "All")}
+          {QUOTE_STATUSES.map((st) => filterBtn(st, QUOTE_STATUS_LABELS[st]))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="products-status" style={{ color: "#f87171", marginBottom: 10 }}>
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="products-status">Loading quote requests…</div>
+      ) : visible.length === 0 ? (
+        !error && (
+          <div className="products-empty">
+            {quotes.length === 0 ? "No quote requests yet." : "No requests with this status."}
+          </div>
+        )
+      ) : (
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "repeat(auto-fit, minmax(300px, 1fr))",
+            gap: 10,
+            alignItems: "start",
+          }}
+        >
+          {visible.map((q) => (
+            <OrgQuoteCard key={q.id} quote={q} onUpdated={onUpdated} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ---------- bulk inventory update (owner / co-owner / admin) ---------- */
+
+function formatStockCell(v: InventoryRowResult["before"]) {
+  if (!v) return "—";
+  const stock = v.in_stock === false ? "out" : v.stock_quantity != null ? String(v.stock_quantity) : "in stock";
+  return v.price_value ? `${stock} · ${v.price_value}` : stock;
+}
+
+function OrgInventoryUpload({ orgId }: { orgId: string }) {
+  const [fileName, setFileName] = useState("");
+  const [updates, setUpdates] = useState<InventoryUpdate[]>([]);
+  const [parseErrors, setParseErrors] = useState<InventoryRowResult[]>([]);
+  const [results, setResults] = useState<InventoryRowResult[] | null>(null);
+  const [applied, setApplied] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setResults(null);
+    setApplied(false);
+    setError(null);
+    if (!file) {
+      setFileName("");
+      setUpdates([]);
+      setParseErrors([]);
+      return;
+    }
+
+    const parsed = parseInventoryCsv(await file.text());
+    setFileName(file.name);
+    setUpdates(parsed.updates);
+    setParseErrors(parsed.errors);
+  };
+
+  const run = async (dryRun: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const rows = await updateInventory(orgId, updates, dryRun);
+      setResults(rows);
+      setApplied(!dryRun);
+    } catch (e: any) {
+      console.error("Error updating inventory", e);
+      setError(e?.message || "Could not update inventory.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const rows = [...parseErrors, ...(results || [])].sort((a, b) => a.line - b.line);
+  const changes = (results || []).filter((r) => r.status === "updated").length;
+  const failures = rows.filter((r) => r.status === "error").length;
+
+  const cell: CSSProperties = {
+    padding: "6px 8px",
+    borderTop: "1px solid rgba(148,163,184,0.15)",
+    textAlign: "left",
+    verticalAlign: "top",
+  };
+
+  return (
+    <div
+      className="card"
+      style={{
+        marginTop: 14,
+        padding: 14,
+        borderRadius: 16,
+        border: "1px solid rgba(148,163,184,0.22)",
+        background: "rgba(15,23,42,0.72)",
+      }}
+    >
+      <div style={{ fontWeight: 800, fontSize: 15 }}>Bulk inventory update</div>
+      <div style={{ fontSize: 12, color: "rgba(148,163,184,0.95)", marginTop: 2 }}>
+        Upload a CSV with the columns <code>{INVENTORY_CSV_COLUMNS.join(",")}</code>. Rows are matched to your
+        product variants by SKU; empty cells leave a value as it is. Check first to preview the changes.
+      </div>
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 10 }}>
+        <input type="file" accept=".csv,text/csv" onChange={handleFile} />
+        <button
+          type="button"
+          className="nav-ghost-btn"
+          disabled={busy || updates.length === 0}
+          onClick={() => run(true)}
+          style={{ cursor: "pointer" }}
+        >
+          Check
+        </button>
+        <button
+          type="button"
+          className="nav-cta"
+          disabled={busy || !results || applied || changes === 0}
+          onClick={() => run(false)}
+          style={{ cursor: "pointer", padding: "6px 12px", minWidth: "unset" }}
+        >
+          {busy ? "Working…" : `Apply ${changes} change${changes === 1 ? "" : "s"}`}
+        </button>
+      </div>
+
+      {fileName && (
+        <div style={{ fontSize: 12, marginTop: 8, color: "rgba(226,232,240,0.85)" }}>
+          {fileName}: {updates.length} row{updates.length === 1 ? "" : "s"} to check
+          {failures > 0 ? ` · ${failures} with errors` : ""}
+          {applied ? ` · ${changes} applied` : results ? " · preview, nothing saved yet" : ""}
+        </div>
+      )}
+
+      {error && (
+        <div className="products-status" style={{ color: "#f87171", marginTop: 8 }}>
+          {error}
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div style={{ overflowX: "auto", marginTop: 10 }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 12 }}>
+            <thead>
+              <tr style={{ color: "rgba(148,163,184,0.95)" }}>
+                <th style={{ ...cell, borderTop: "none" }}>Row</th>
+                <th style={{ ...cell, borderTop: "none" }}>SKU</th>
+                <th style={{ ...cell, borderTop: "none" }}>Product</th>
+                <th style={{ ...cell, borderTop: "none" }}>Before</th>
+                <th style={{ ...cell, borderTop: "none" }}>After</th>
+                <th style={{ ...cell, borderTop: "none" }}>Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={`${r.line}-${r.sku}`}>
+                  <td style={cell}>{r.line}</td>
+                  <td style={cell}>{r.sku || "—"}</td>
+                  <td style={cell}>
+                    {r.product_name ? `${r.product_name}${r.variant_name ? ` · ${r.variant_name}` : ""}` : "—"}
+                  </td>
+                  <td style={cell}>{formatStockCell(r.before)}</td>
+                  <td style={cell}>{formatStockCell(r.after)}</td>
+                  <td
+                    style={{
+                      ...cell,
+                      color: r.status === "error" ? "#f87171" : r.status === "updated" ? "#22c55e" : "#9ca3af",
+                    }}
+                  >
+                    {r.status === "error" ? r.message : r.status === "updated" ? (applied ? "Updated" : "Will update") : "No change"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function OrgCatalogueImport({ orgId }: { orgId: string }) {
+  const [fileName, setFileName] = useState("");
+  const [records, setRecords] = useState<ProductImportRecord[]>([]);
+  const [checked, setChecked] = useState<ProductImportResult[]>([]);
+  const [results, setResults] = useState<ProductImportResult[] | null>(null);
+  const [imported, setImported] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setResults(null);
+    setImported(false);
+    setError(null);
+    setRecords([]);
+    setChecked([]);
+    if (!file) {
+      setFileName("");
+      return;
+    }
+
+    setFileName(file.name);
+    const parsed = parseProductImportFile(await file.text());
+    if (parsed.error) {
+      setError(parsed.error);
+      return;
+    }
+
+    // Rows with errors stay visible but are never sent
+    const rows = validateProductImport(parsed.records);
+    setRecords(parsed.records.filter((_, i) => rows[i].values));
+    setChecked(
+      rows
+        .filter((r) => !r.values)
+        .map((r) => ({ line: r.line, external_sku: r.external_sku, name: r.name, action: "error", errors: r.errors }))
+    );
+  };
+
+  const run = async (dryRun: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const rows = await importProducts(orgId, records, dryRun);
+      setResults(rows);
+      setImported(!dryRun);
+    } catch (e: any) {
+      console.error("Error importing products", e);
+      setError(e?.message || "Could not import products.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const rows = [...checked, ...(results || [])].sort((a, b) => a.line - b.line);
+  const ready = (results || []).filter((r) => r.action !== "error").length;
+  const creates = (results || []).filter((r) => r.action === "create").length;
+  const failures = rows.filter((r) => r.action === "error").length;
+
+  const cell: CSSProperties = {
+    padding: "6px 8px",
+    borderTop: "1px solid rgba(148,163,184,0.15)",
+    textAlign: "left",
+    verticalAlign: "top",
+  };
+
+  const actionLabel = (r: ProductImportResult) => {
+    if (r.action === "error") return r.errors.join(" ");
+    if (r.action === "create") return imported ? "Created" : "Will create";
+    return imported ? "Updated" : "Will update";
+  };
+
+  return (
+    <div
+      className="card"
+      style={{
+        marginTop: 14,
+        padding: 14,
+        borderRadius: 16,
+        border: "1px solid rgba(148,163,184,0.22)",
+        background: "rgba(15,23,42,0.72)",
+      }}
+    >
+      <div style={{ fontWeight: 800, fontSize: 15 }}>Import catalogue</div>
+      <div style={{ fontSize: 12, color: "rgba(148,163,184,0.95)", marginTop: 2 }}>
+        Upload a CSV or JSON file of up to {MAX_IMPORT_ROWS} products. Each needs an <code>external_sku</code> and a{" "}
+        <code>name</code>; products already imported with the same SKU are updated, the rest are created. Structured
+        specs go in <code>spec.&lt;key&gt;</code> columns (CSV) or a <code>specs</code> object (JSON). Check first to
+        preview the import.
+      </div>
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 10 }}>
+        <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} />
+        <button
+          type="button"
+          className="nav-ghost-btn"
+          disabled={busy || records.length === 0}
+          onClick={() => run(true)}
+          style={{ cursor: "pointer" }}
+        >
+          Check
+        </button>
+        <button
+          type="button"
+          className="nav-cta"
+          disabled={busy || !results || imported || ready === 0}
+          onClick={() => run(false)}
+          style={{ cursor: "pointer", padding: "6px 12px", minWidth: "unset" }}
+        >
+          {busy ? "Working…" : `Import ${ready} product${ready === 1 ? "" : "s"}`}
+        </button>
+      </div>
+
+      {fileName && !error && (
+        <div style={{ fontSize: 12, marginTop: 8, color: "rgba(226,232,240,0.85)" }}>
+          {fileName}: {records.length} valid row{records.length === 1 ? "" : "s"}
+          {failures > 0 ? ` · ${failures} with errors` : ""}
+          {results ? ` · ${creates} new, ${ready - creates} existing` : ""}
+          {imported ? " · imported" : results ? " · preview, nothing saved yet" : ""}
+        </div>
+      )}
+
+      {error && (
+        <div className="products-status" style={{ color: "#f87171", marginTop: 8 }}>
+          {error}
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div style={{ overflowX: "auto", marginTop: 10 }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 12 }}>
+            <thead>
+              <tr style={{ color: "rgba(148,163,184,0.95)" }}>
+                <th style={{ ...cell, borderTop: "none" }}>Row</th>
+                <th style={{ ...cell, borderTop: "none" }}>SKU</th>
+                <th style={{ ...cell, borderTop: "none" }}>Product</th>
+                <th style={{ ...cell, borderTop: "none" }}>Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={`${r.line}-${r.external_sku}`}>
+                  <td style={cell}>{r.line}</td>
+                  <td style={cell}>{r.external_sku || "—"}</td>
+                  <td style={cell}>
+                    {r.product_id && r.action !== "error" ? (
+                      <Link href={`/products/${r.product_id}`} style={{ color: "#7dd3fc", textDecoration: "none" }}>
+                        {r.name}
+                      </Link>
+                    ) : (
+                      r.name || "—"
+                    )}
+                  </td>
+                  <td
+                    style={{
+                      ...cell,
+                      color: r.action === "error" ? "#f87171" : r.action === "create" ? "#22c55e" : "#7dd3fc",
+                    }}
+                  >
+                    {actionLabel(r)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
 /* ---------- public export ---------- */
 
 export default function OrgProductsTab({
   org,
   canListProduct,
+  canManageQuotes = false,
+  canManageInventory = false,
 }: {
   org: Org;
   canListProduct: boolean;
+  canManageQuotes?: boolean; // owner/co-owner/admin
+  canManageInventory?: boolean; // owner/co-owner/admin
 }) {
   const router = useRouter();
   const { user } = useSupabaseUser();
@@ -555,6 +1225,12 @@ export default function OrgProductsTab({
 
       {/* pass slug to strip so company name can link */}
       <OrgProductsStrip orgId={org.id} orgSlug={org.slug} />
+
+      {canListProduct && <OrgCatalogueImport orgId={org.id} />}
+
+      {canManageInventory && <OrgInventoryUpload orgId={org.id} />}
+
+      {canManageQuotes && <OrgQuotesInbox orgId={org.id} />}
     </div>
   );
 }
@@ -0,0 +1,326 @@
+// components/org/OrgVerificationPanel.tsx
+import { useEffect, useState, type CSSProperties } from "react";
+import {
+  MAX_DISPUTE_REASON_LENGTH,
+  OrgVerification,
+  VERIFICATION_METHODS,
+  VERIFICATION_METHOD_LABELS,
+  VerificationMethod,
+  VerifiedOrgFields,
+  checkOrgVerification,
+  fetchOrgVerification,
+  isOrgVerified,
+  normalizeDomain,
+  reportOrgVerification,
+  startOrgVerification,
+  verificationFileUrl,
+  verificationTxtValue,
+} from "../../lib/orgVerification";
+
+type Org = VerifiedOrgFields & {
+  id: string;
+  name: string;
+  website: string | null;
+};
+
+const cardStyle: CSSProperties = {
+  borderRadius: 16,
+  border: "1px solid rgba(148,163,184,0.18)",
+  background: "rgba(15,23,42,0.62)",
+  padding: 14,
+  marginBottom: 12,
+};
+
+const mutedText: CSSProperties = { fontSize: 12, color: "rgba(148,163,184,0.95)" };
+
+const codeBox: CSSProperties = {
+  display: "block",
+  marginTop: 6,
+  padding: "8px 10px",
+  borderRadius: 10,
+  background: "rgba(2,6,23,0.6)",
+  border: "1px solid rgba(148,163,184,0.2)",
+  fontSize: 12,
+  wordBreak: "break-all",
+};
+
+function formatDate(value: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleDateString();
+}
+
+const METHOD_HINTS: Record<VerificationMethod, string> = {
+  dns_txt: "Add a TXT record to the domain's DNS.",
+  file: "Upload a small text file to the website.",
+  email_domain: "Use your confirmed sign-in email at the institution's domain.",
+};
+
+/** Verification status and steps for the org's creator, owners and co-owners. */
+function ManageVerification({ org, onVerified }: { org: Org; onVerified: (claim: OrgVerification) => void }) {
+  const [claim, setClaim] = useState<OrgVerification | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [method, setMethod] = useState<VerificationMethod>("dns_txt");
+  const [domain, setDomain] = useState(normalizeDomain(org.website) || "");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchOrgVerification(org.id)
+      .then((v) => {
+        if (!cancelled) setClaim(v);
+      })
+      .catch((e) => console.error("Error loading verification", e))
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [org.id]);
+
+  const apply = (v: OrgVerification) => {
+    setClaim(v);
+    if (v.status === "verified") onVerified(v);
+  };
+
+  const start = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      apply(await startOrgVerification(org.id, method, domain));
+    } catch (e: any) {
+      setError(e?.message || "Could not start verification.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const check = async () => {
+    if (!claim) return;
+    setBusy(true);
+    setError(null);
+    try {
+      apply(await checkOrgVerification(claim.id));
+    } catch (e: any) {
+      setError(e?.message || "Could not check verification.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!loaded) return null;
+
+  if (isOrgVerified(org)) {
+    return (
+      <div style={mutedText}>
+        Verified for <strong>{org.verified_domain}</strong>
+        {org.verification_method ? ` by ${VERIFICATION_METHOD_LABELS[org.verification_method].toLowerCase()}` : ""}
+        {org.verified_at ? ` on ${formatDate(org.verified_at)}` : ""}.
+        {claim?.status === "disputed" && " Someone disputed this verification; an admin is reviewing it."}
+      </div>
+    );
+  }
+
+  if (claim?.status === "disputed") {
+    return (
+      <div style={mutedText}>
+        Your claim on <strong>{claim.domain}</strong> is under review by the Quantum5ocial team
+        {claim.dispute_reason ? `: ${claim.dispute_reason}` : "."} You will get a notification with the decision.
+      </div>
+    );
+  }
+
+  const pending = claim?.status === "pending" ? claim : null;
+
+  return (
+    <div>
+      {claim?.status === "rejected" && (
+        <div style={{ ...mutedText, color: "#fca5a5", marginBottom: 8 }}>
+          The last claim on {claim.domain} was rejected{claim.review_note ? `: ${claim.review_note}` : "."}
+        </div>
+      )}
+
+      {pending ? (
+        <div style={{ fontSize: 13 }}>
+          {pending.method === "dns_txt" ? (
+            <>
+              Add this TXT record to <strong>{pending.domain}</strong>, then check:
+              <code style={codeBox}>{verificationTxtValue(pending.token)}</code>
+            </>
+          ) : (
+            <>
+              Publish a file at <strong>{verificationFileUrl(pending.domain)}</strong> containing:
+              <code style={codeBox}>{pending.token}</code>
+            </>
+          )}
+
+          {pending.last_error && (
+            <div style={{ ...mutedText, color: "#fca5a5", marginTop: 8 }}>
+              {pending.last_error}
+              {pending.last_checked_at ? ` (checked ${formatDate(pending.last_checked_at)})` : ""}
+            </div>
+          )}
+
+          <div style={{ display: "flex", gap: 8, marginTop: 10, flexWrap: "wrap" }}>
+            <button
+              type="button"
+              className="nav-cta"
+              disabled={busy}
+              onClick={check}
+              style={{ cursor: "pointer", padding: "6px 12px", minWidth: "unset" }}
+            >
+              {busy ? "Checking…" : "Check now"}
+            </button>
+            <button
+              type="button"
+              className="nav-ghost-btn"
+              disabled={busy}
+              onClick={() => setClaim(null)}
+              style={{ cursor: "pointer" }}
+            >
+              Use another method
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div style={{ display: "grid", gap: 8 }}>
+          <div style={{ display: "flex", gap: 12, flexWrap: "wrap", fontSize: 13 }}>
+            {VERIFICATION_METHODS.map((m) => (
+              <label key={m} style={{ display: "inline-flex", gap: 6, alignItems: "center", cursor: "pointer" }}>
+                <input type="radio" name="verification-method" checked={method === m} onChange={() => setMethod(m)} />
+                {VERIFICATION_METHOD_LABELS[m]}
+              </label>
+            ))}
+          </div>
+          <div style={mutedText}>
+            {METHOD_HINTS[method]}{" "}
+            {normalizeDomain(org.website)
+              ? `The domain must be ${normalizeDomain(org.website)} or a subdomain of it.`
+              : "Add your website to the organization profile first."}
+          </div>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+            <input
+              type="text"
+              value={domain}
+              onChange={(e) => setDomain(e.target.value)}
+              placeholder="example.com"
+              style={{ flex: "1 1 220px" }}
+            />
+            <button
+              type="button"
+              className="nav-cta"
+              disabled={busy || !normalizeDomain(domain)}
+              onClick={start}
+              style={{ cursor: "pointer", padding: "6px 12px", minWidth: "unset" }}
+            >
+              {busy ? "Working…" : method === "email_domain" ? "Verify with my email" : "Get verification token"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="products-status" style={{ color: "#f87171", marginTop: 8 }}>
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Lets a signed-in visitor dispute a verified org. */
+function ReportVerification({ org }: { org: Org }) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await reportOrgVerification(org.id, reason);
+      setSent(true);
+    } catch (e: any) {
+      setError(e?.message || "Could not send the report.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (sent) return <div style={mutedText}>Thanks, an admin will review this verification.</div>;
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        style={{ ...mutedText, background: "none", border: "none", padding: 0, cursor: "pointer", textDecoration: "underline" }}
+      >
+        Dispute this verification
+      </button>
+    );
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        maxLength={MAX_DISPUTE_REASON_LENGTH}
+        rows={3}
+        placeholder={`Why shouldn't ${org.name} be verified for ${org.verified_domain}?`}
+      />
+      <div style={{ display: "flex", gap: 8 }}>
+        <button
+          type="button"
+          className="nav-cta"
+          disabled={busy || !reason.trim()}
+          onClick={submit}
+          style={{ cursor: "pointer", padding: "6px 12px", minWidth: "unset" }}
+        >
+          {busy ? "Sending…" : "Send to admins"}
+        </button>
+        <button type="button" className="nav-ghost-btn" onClick={() => setOpen(false)} style={{ cursor: "pointer" }}>
+          Cancel
+        </button>
+      </div>
+      {error && (
+        <div className="products-status" style={{ color: "#f87171" }}>
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function OrgVerificationPanel({
+  org,
+  canManage,
+  signedIn,
+  onVerified,
+}: {
+  org: Org;
+  canManage: boolean; // creator / owner / co-owner
+  signedIn: boolean;
+  onVerified: (claim: OrgVerification) => void;
+}) {
+  if (canManage) {
+    return (
+      <div className="card" style={cardStyle}>
+        <div style={{ fontWeight: 800, fontSize: 14, marginBottom: 6 }}>Organization verification</div>
+        <ManageVerification org={org} onVerified={onVerified} />
+      </div>
+    );
+  }
+
+  if (!signedIn || !isOrgVerified(org)) return null;
+  return (
+    <div style={{ marginBottom: 12 }}>
+      <ReportVerification org={org} />
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+// lib/apiAuth.ts
+//
+// Server-side helpers for API routes that run with the service-role key and
+// therefore have to check the caller themselves.
+
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+
+export type AuthErrorCode = "unauthenticated" | "invalid_token" | "forbidden";
+
+// Org roles allowed to manage org-owned content (matches the org page permissions)
+export const ORG_MANAGER_ROLES = ["owner", "co_owner", "admin"];
+
+// Org roles allowed to act for the org as a whole: list products and jobs, verify the org
+export const ORG_LISTING_ROLES = ["owner", "co_owner"];
+
+export function authErrorResponse(status: 401 | 403, code: AuthErrorCode, message: string) {
+  return NextResponse.json({ error: message, code }, { status });
+}
+
+export function getBearerToken(req: Request): string | null {
+  const header = req.headers.get("authorization") || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Verifies the caller's Supabase JWT. Returns either the user or a ready-made
+ * 401 response the route can return as-is.
+ */
+export async function requireUser(
+  req: Request,
+  supabase: SupabaseClient
+): Promise<{ user: User; response?: undefined } | { user?: undefined; response: NextResponse }> {
+  const token = getBearerToken(req);
+  if (!token) {
+    return { response: authErrorResponse(401, "unauthenticated", "Sign in required") };
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) {
+    return { response: authErrorResponse(401, "invalid_token", "Session is invalid or expired") };
+  }
+
+  return { user: data.user };
+}
+
+// Platform admins carry `role: "admin"` in app_metadata (only settable with the service key)
+export function isPlatformAdmin(user: User | null | undefined) {
+  return user?.app_metadata?.role === "admin";
+}
+
+// Constant-time comparison for shared secrets
+export function secretMatches(provided: string | null, expected: string | undefined) {
+  if (!provided || !expected || provided.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= provided.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * For scheduled routes: Vercel Cron sends `Authorization: Bearer $CRON_SECRET`;
+ * platform admins may also trigger a run by hand. Returns null when allowed,
+ * else the response to return.
+ */
+export async function authorizeCron(req: Request, supabase: SupabaseClient, forbiddenMessage: string) {
+  if (secretMatches(getBearerToken(req), process.env.CRON_SECRET)) return null;
+
+  const auth = await requireUser(req, supabase);
+  if (auth.response) return auth.response;
+
+  if (!isPlatformAdmin(auth.user)) {
+    return authErrorResponse(403, "forbidden", forbiddenMessage);
+  }
+  return null;
+}
+
+export async function canManageOrg(
+  supabase: SupabaseClient,
+  orgId: string,
+  userId: string,
+  roles: string[] = ORG_MANAGER_ROLES
+) {
+  const [{ data: org }, { data: membership }] = await Promise.all([
+    supabase.from("organizations").select("created_by").eq("id", orgId).maybeSingle(),
+    supabase
+      .from("org_members")
+      .select("role")
+      .eq("org_id", orgId)
+      .eq("user_id", userId)
+      .maybeSingle(),
+  ]);
+
+  if (org?.created_by === userId) return true;
+  return !!membership && roles.includes(membership.role);
+}
+
+// Jobs can be managed by their poster, the owning org's managers and platform admins
+export async function canManageJob(
+  supabase: SupabaseClient,
+  job: { owner_id?: string | null; org_id?: string | null },
+  user: User
+) {
+  if (isPlatformAdmin(user) || (!!job.owner_id && job.owner_id === user.id)) return true;
+  return !!job.org_id && (await canManageOrg(supabase, job.org_id, user.id));
+}
+
+// Products follow the same rule: their lister, the owning org's managers and platform admins
+export async function canManageProduct(
+  supabase: SupabaseClient,
+  product: { owner_id?: string | null; org_id?: string | null },
+  user: User
+) {
+  if (isPlatformAdmin(user) || (!!product.owner_id && product.owner_id === user.id)) return true;
+  return !!product.org_id && (await canManageOrg(supabase, product.org_id, user.id));
+}
+
+// canManageProduct() for many products at once; each org's roles are looked up once
+export async function manageableProductIds(
+  supabase: SupabaseClient,
+  products: { id: string; owner_id?: string | null; org_id?: string | null }[],
+  user: User
+) {
+  const orgAccess = new Map<string, Promise<boolean>>();
+  const ids = new Set<string>();
+  for (const product of products) {
+    if (isPlatformAdmin(user) || (!!product.owner_id && product.owner_id === user.id)) {
+      ids.add(product.id);
+      continue;
+    }
+    if (!product.org_id) continue;
+    if (!orgAccess.has(product.org_id)) {
+      orgAccess.set(product.org_id, canManageOrg(supabase, product.org_id, user.id));
+    }
+    if (await orgAccess.get(product.org_id)) ids.add(product.id);
+  }
+  return ids;
+}
+
+// Everyone who hears about activity on a job or product: its poster plus the owning org's creator and managers
+export async function orgManagerIds(
+  supabase: SupabaseClient,
+  ownerId: string | null | undefined,
+  orgId: string | null | undefined
+) {
+  const ids = new Set<string>();
+  if (ownerId) ids.add(ownerId);
+
+  if (orgId) {
+    const [{ data: org }, { data: members, error }] = await Promise.all([
+      supabase.from("organizations").select("created_by").eq("id", orgId).maybeSingle(),
+      supabase
+        .from("org_members")
+        .select("user_id")
+        .eq("org_id", orgId)
+        .in("role", ORG_MANAGER_ROLES),
+    ]);
+    if (error) throw error;
+    if (org?.created_by) ids.add(org.created_by);
+    (members || []).forEach((m: any) => ids.add(m.user_id));
+  }
+
+  return Array.from(ids);
+}
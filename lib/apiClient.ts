@@ -0,0 +1,24 @@
+// lib/apiClient.ts
+//
+// Browser-side calls to our API routes with the user's Supabase session.
+
+import { supabase } from "./supabaseClient";
+
+export async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  const token = data?.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// For calls that back user actions: failures are thrown with the API's error message
+export async function apiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(path, {
+    ...init,
+    headers: { ...(init.headers || {}), ...(await authHeaders()) },
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(body?.error || `Request failed (${res.status})`);
+  }
+  return body as T;
+}
@@ -0,0 +1,86 @@
+// lib/csv.ts
+//
+// Minimal RFC 4180 CSV reading for spreadsheet uploads: quoted fields,
+// doubled quotes, commas and newlines inside quotes, CRLF or LF line endings.
+// Writing produces the same dialect for exports.
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Excel prefixes UTF-8 exports with a byte order mark
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+/**
+ * First row as lower-cased headers, remaining rows as records keyed by them.
+ * `line` is the 1-based record number counting the header row, for error messages.
+ */
+export function parseCsvRecords(text: string): { headers: string[]; records: { line: number; values: Record<string, string> }[] } {
+  const [head, ...body] = parseCsv(text);
+  if (!head) return { headers: [], records: [] };
+
+  const headers = head.map((h) => h.trim().toLowerCase());
+  const records = body.map((cells, i) => {
+    const values: Record<string, string> = {};
+    headers.forEach((h, col) => {
+      if (h) values[h] = (cells[col] ?? "").trim();
+    });
+    return { line: i + 2, values };
+  });
+
+  return { headers, records };
+}
+
+function csvField(value: string | number | null | undefined) {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CRLF line endings, as RFC 4180 and Excel expect
+export function formatCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
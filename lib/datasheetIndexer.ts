@@ -0,0 +1,124 @@
+// lib/datasheetIndexer.ts
+//
+// Server side of datasheet search (see lib/productDatasheets): reads the PDF
+// from storage, extracts its text with pdfjs and keeps the product's datasheet
+// passages in `search_documents` in step with the file.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  DATASHEET_BUCKET,
+  DatasheetIndexResult,
+  MAX_DATASHEET_BYTES,
+  MAX_DATASHEET_PAGES,
+  buildDatasheetDocuments,
+  chunkDatasheetText,
+  datasheetStoragePath,
+} from "./productDatasheets";
+import { indexSearchDocuments } from "./searchIndexer";
+
+type DatasheetProduct = {
+  id: string;
+  name: string | null;
+  company_name: string | null;
+  datasheet_url: string | null;
+  updated_at?: string | null;
+};
+
+/**
+ * Text of each page, up to `maxPages`. Runs pdfjs on the main thread: the
+ * worker module is registered as `globalThis.pdfjsWorker`, which pdfjs uses
+ * instead of spawning a worker.
+ */
+export async function extractPdfText(data: Uint8Array, maxPages = MAX_DATASHEET_PAGES) {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const g = globalThis as any;
+  if (!g.pdfjsWorker) g.pdfjsWorker = await import("pdfjs-dist/legacy/build/pdf.worker.mjs");
+
+  const doc = await pdfjs.getDocument({
+    data,
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: 0,
+  }).promise;
+
+  try {
+    const pages: string[] = [];
+    const count = Math.min(doc.numPages, maxPages);
+    for (let n = 1; n <= count; n++) {
+      const page = await doc.getPage(n);
+      const content = await page.getTextContent();
+      pages.push(
+        content.items
+          .map((item: any) => (typeof item.str === "string" ? item.str + (item.hasEOL ? "\n" : " ") : ""))
+          .join("")
+      );
+      page.cleanup();
+    }
+    return { pages, pageCount: doc.numPages };
+  } finally {
+    await doc.destroy();
+  }
+}
+
+// Deletes the product's datasheet passages, except the links in `keep`
+export async function removeDatasheetDocuments(supabase: SupabaseClient, productId: string, keep: string[] = []) {
+  const { data, error } = await supabase
+    .from("search_documents")
+    .select("id, metadata")
+    .eq("metadata->>type", "datasheet")
+    .eq("metadata->>product_id", productId);
+  if (error) throw error;
+
+  const keepLinks = new Set(keep);
+  const stale = (data || []).filter((row: any) => !keepLinks.has(String(row.metadata?.link))).map((row: any) => row.id);
+  if (stale.length === 0) return 0;
+
+  const { error: deleteError } = await supabase.from("search_documents").delete().in("id", stale);
+  if (deleteError) throw deleteError;
+  return stale.length;
+}
+
+/**
+ * (Re)indexes one product's datasheet. Passages whose text is unchanged keep
+ * their embeddings; passages the new file no longer has are removed. Products
+ * without an uploaded PDF, or whose PDF has no text layer, end up with none.
+ */
+export async function indexProductDatasheet(
+  supabase: SupabaseClient,
+  product: DatasheetProduct
+): Promise<DatasheetIndexResult> {
+  const skip = async (reason: string): Promise<DatasheetIndexResult> => {
+    await removeDatasheetDocuments(supabase, product.id);
+    return { status: "skipped", reason, pages: 0, chunks: 0 };
+  };
+
+  const path = datasheetStoragePath(product.datasheet_url);
+  if (!path) return skip("No uploaded datasheet.");
+
+  const { data: file, error } = await supabase.storage.from(DATASHEET_BUCKET).download(path);
+  if (error) throw error;
+  if (file.size > MAX_DATASHEET_BYTES) {
+    return skip(`Datasheets over ${MAX_DATASHEET_BYTES / (1024 * 1024)} MB are not indexed.`);
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (String.fromCharCode(...Array.from(bytes.subarray(0, 5))) !== "%PDF-") {
+    return skip("The datasheet is not a PDF.");
+  }
+
+  const { pages } = await extractPdfText(bytes);
+  const chunks = chunkDatasheetText(pages);
+  // Scanned datasheets have no text layer; OCR is out of scope here
+  if (chunks.length === 0) return skip("No text could be extracted from the datasheet.");
+
+  const docs = buildDatasheetDocuments(product, chunks);
+  await indexSearchDocuments(supabase, "datasheet", docs);
+  await removeDatasheetDocuments(
+    supabase,
+    product.id,
+    docs.map((d) => d.link)
+  );
+
+  return { status: "indexed", pages: pages.length, chunks: chunks.length };
+}
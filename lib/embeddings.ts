@@ -0,0 +1,182 @@
+// lib/embeddings.ts
+//
+// Embedding provider selected by configuration:
+//   EMBEDDING_PROVIDER    openai (default) | google | local
+//   EMBEDDING_MODEL       optional model id override for openai/google
+//   EMBEDDING_DIMENSIONS  vector size of search_documents.embedding (default 1536)
+//
+// `local` is a deterministic hashing embedder for offline development and tests:
+// no network, same text always gives the same vector.
+
+import { embed, embedMany } from "ai";
+import { openai } from "@ai-sdk/openai";
+import { google } from "@ai-sdk/google";
+
+export type EmbeddingProviderName = "openai" | "google" | "local";
+
+export type EmbeddingProvider = {
+  name: EmbeddingProviderName;
+  // Stored as metadata.embedding_model so vectors from different models never get compared
+  id: string;
+  dimensions: number;
+  embed: (value: string) => Promise<number[]>;
+  embedMany: (values: string[], options?: { maxParallelCalls?: number }) => Promise<number[][]>;
+};
+
+// Model that produced every document indexed before embedding_model was recorded
+export const LEGACY_EMBEDDING_MODEL_ID = "openai:text-embedding-3-small";
+
+const DEFAULT_DIMENSIONS = 1536;
+
+export class EmbeddingDimensionError extends Error {
+  code = "embedding_dimension_mismatch";
+
+  constructor(providerId: string, expected: number, actual: number) {
+    super(
+      `Embedding provider ${providerId} returned ${actual}-dimensional vectors but the search index expects ${expected}. ` +
+        `Set EMBEDDING_DIMENSIONS to match search_documents.embedding or pick a provider/model with that size.`
+    );
+    this.name = "EmbeddingDimensionError";
+    // Keep `instanceof` working when compiled down to ES5
+    Object.setPrototypeOf(this, EmbeddingDimensionError.prototype);
+  }
+}
+
+function checkDimensions(providerId: string, expected: number, vectors: number[][]) {
+  for (const v of vectors) {
+    if (v.length !== expected) throw new EmbeddingDimensionError(providerId, expected, v.length);
+  }
+  return vectors;
+}
+
+function configuredDimensions() {
+  const n = Number(process.env.EMBEDDING_DIMENSIONS);
+  return Number.isInteger(n) && n > 0 ? n : DEFAULT_DIMENSIONS;
+}
+
+function sdkProvider(name: "openai" | "google", dimensions: number): EmbeddingProvider {
+  const modelId =
+    process.env.EMBEDDING_MODEL || (name === "openai" ? "text-embedding-3-small" : "gemini-embedding-001");
+  const model = name === "openai" ? openai.textEmbeddingModel(modelId) : google.textEmbeddingModel(modelId);
+  // Both APIs can shorten their vectors to the index size
+  const providerOptions: Record<string, Record<string, number>> =
+    name === "openai"
+      ? { openai: { dimensions } }
+      : { google: { outputDimensionality: dimensions } };
+  const id = `${name}:${modelId}`;
+
+  return {
+    name,
+    id,
+    dimensions,
+    embed: async (value) => {
+      const { embedding } = await embed({ model, value, providerOptions });
+      return checkDimensions(id, dimensions, [embedding])[0];
+    },
+    embedMany: async (values, options) => {
+      const { embeddings } = await embedMany({
+        model,
+        values,
+        providerOptions,
+        maxParallelCalls: options?.maxParallelCalls,
+      });
+      return checkDimensions(id, dimensions, embeddings);
+    },
+  };
+}
+
+// --- Local hashing embedder ---
+
+// Very common words carry no signal; dropping them stands in for IDF weighting
+const STOP_WORDS = new Set(
+  "a an and are as at be by for from has have in is it its of on or that the this to was were will with type title name details description".split(
+    " "
+  )
+);
+
+function fnv1a(str: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function localEmbedding(text: string, dimensions: number): number[] {
+  const tokens = (text.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) || []).filter((t) => !STOP_WORDS.has(t));
+
+  const counts = new Map<string, number>();
+  const add = (feature: string) => counts.set(feature, (counts.get(feature) || 0) + 1);
+  tokens.forEach((t, i) => {
+    add(t);
+    if (i > 0) add(`${tokens[i - 1]} ${t}`);
+  });
+
+  const vector = new Array<number>(dimensions).fill(0);
+  counts.forEach((count, feature) => {
+    const h = fnv1a(feature);
+    // Sublinear TF; bigrams weigh less than the words they are made of
+    const weight = (1 + Math.log(count)) * (feature.includes(" ") ? 0.5 : 1);
+    vector[h % dimensions] += h & 0x80000000 ? -weight : weight;
+  });
+
+  const norm = Math.sqrt(vector.reduce((s, x) => s + x * x, 0));
+  return norm > 0 ? vector.map((x) => x / norm) : vector;
+}
+
+function localProvider(dimensions: number): EmbeddingProvider {
+  return {
+    name: "local",
+    id: `local:hashing-${dimensions}`,
+    dimensions,
+    embed: async (value) => localEmbedding(value, dimensions),
+    embedMany: async (values) => values.map((v) => localEmbedding(v, dimensions)),
+  };
+}
+
+let cached: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (cached) return cached;
+
+  const name = (process.env.EMBEDDING_PROVIDER || "openai").toLowerCase();
+  const dimensions = configuredDimensions();
+
+  switch (name) {
+    case "openai":
+    case "google":
+      cached = sdkProvider(name, dimensions);
+      break;
+    case "local":
+      cached = localProvider(dimensions);
+      break;
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${name}" (expected openai, google or local)`);
+  }
+
+  return cached;
+}
+
+export function documentEmbeddingModel(metadata: any): string {
+  return metadata?.embedding_model || LEGACY_EMBEDDING_MODEL_ID;
+}
+
+/**
+ * Drops match_documents results embedded by a different model than the current
+ * provider; their similarity scores are meaningless against this query vector.
+ */
+export function filterDocumentsForProvider<T extends { metadata?: any }>(
+  documents: T[] | null | undefined,
+  provider: EmbeddingProvider
+): T[] {
+  const docs = documents || [];
+  const matching = docs.filter((doc) => documentEmbeddingModel(doc.metadata) === provider.id);
+
+  if (matching.length < docs.length) {
+    console.warn(
+      `Ignoring ${docs.length - matching.length} search documents embedded with another model than ${provider.id}; re-run the admin indexer.`
+    );
+  }
+  return matching;
+}
@@ -0,0 +1,249 @@
+// lib/hybridSearch.ts
+//
+// Shared pieces of the hybrid (keyword + vector) search behind /api/search:
+// per-type keyword sources, reciprocal-rank fusion, highlighting and the hit
+// shape the search page renders.
+
+import { isJobLive, liveJobOrFilters } from "./jobLifecycle";
+
+export type SearchHitType =
+  | "job"
+  | "product"
+  | "profile"
+  | "organization"
+  | "question"
+  | "post"
+  | "glossary";
+
+export type SearchHighlight = {
+  field: string;
+  snippet: string;
+  // [start, end) offsets of matched terms inside `snippet`
+  ranges: [number, number][];
+};
+
+export type SearchHit = {
+  type: SearchHitType;
+  // Value used in the URL (slug for orgs/glossary, id otherwise)
+  link: string;
+  href: string;
+  title: string;
+  score: number;
+  matchedBy: ("keyword" | "vector")[];
+  highlights: SearchHighlight[];
+  row: Record<string, any>;
+};
+
+export type SearchResponse = {
+  query: string;
+  groups: Partial<Record<SearchHitType, SearchHit[]>>;
+  facets: Partial<Record<SearchHitType, number>>;
+  // False when the vector leg was unavailable and only keyword results were fused
+  semantic: boolean;
+};
+
+export type KeywordSource = {
+  table: string;
+  select: string;
+  filters?: Record<string, any>;
+  // Extra PostgREST `or` filters (one `.or()` each) and the same rule in JS, for
+  // visibility that depends on the time of the query, like a job's publish/expiry dates
+  liveOrFilters?: (now: Date) => string[];
+  isLive?: (row: any, now: Date) => boolean;
+  linkColumn: "id" | "slug";
+  orderColumn: string;
+  // Columns matched with ilike, also used for highlights (first match wins)
+  searchColumns: string[];
+  titleOf: (row: any) => string;
+  hrefOf: (link: string) => string;
+};
+
+export const SEARCH_HIT_TYPES: SearchHitType[] = [
+  "job",
+  "product",
+  "profile",
+  "organization",
+  "question",
+  "post",
+  "glossary",
+];
+
+export const SEARCH_HIT_LABELS: Record<SearchHitType, string> = {
+  job: "Jobs",
+  product: "Products",
+  profile: "People",
+  organization: "Organizations",
+  question: "Q&A",
+  post: "Posts",
+  glossary: "Glossary",
+};
+
+export const KEYWORD_SOURCES: Record<SearchHitType, KeywordSource> = {
+  job: {
+    table: "jobs",
+    select:
+      "id, title, company_name, location, employment_type, remote_type, short_description, status, is_published, publish_at, expires_at",
+    liveOrFilters: liveJobOrFilters,
+    isLive: isJobLive,
+    linkColumn: "id",
+    orderColumn: "created_at",
+    searchColumns: ["title", "company_name", "location", "short_description"],
+    titleOf: (row) => row.title || "Untitled role",
+    hrefOf: (link) => `/jobs/${link}`,
+  },
+  product: {
+    table: "products",
+    select: "id, name, company_name, category, short_description, price_type, price_value, in_stock, image1_url",
+    linkColumn: "id",
+    orderColumn: "created_at",
+    searchColumns: ["name", "company_name", "category", "short_description"],
+    titleOf: (row) => row.name || "Product",
+    hrefOf: (link) => `/products/${link}`,
+  },
+  profile: {
+    table: "profiles",
+    select: "id, full_name, avatar_url, highest_education, role, affiliation, short_bio",
+    linkColumn: "id",
+    orderColumn: "created_at",
+    searchColumns: ["full_name", "role", "affiliation", "short_bio"],
+    titleOf: (row) => row.full_name || "Quantum member",
+    hrefOf: (link) => `/profile/${link}`,
+  },
+  organization: {
+    table: "organizations",
+    select:
+      "id, name, slug, logo_url, kind, city, country, industry, institution, department, company_type, group_type, size_label",
+    filters: { is_active: true },
+    linkColumn: "slug",
+    orderColumn: "created_at",
+    searchColumns: ["name", "city", "country", "industry", "institution", "department"],
+    titleOf: (row) => row.name,
+    hrefOf: (link) => `/orgs/${link}`,
+  },
+  question: {
+    table: "qna_questions",
+    select: "id, title, body, tags, created_at",
+    linkColumn: "id",
+    orderColumn: "created_at",
+    searchColumns: ["title", "body"],
+    titleOf: (row) => row.title || "Question",
+    hrefOf: (link) => `/qna?open=${link}`,
+  },
+  post: {
+    table: "posts",
+    select: "id, body, created_at, user_id",
+    linkColumn: "id",
+    orderColumn: "created_at",
+    searchColumns: ["body"],
+    titleOf: (row) => (row.body || "Post").substring(0, 80),
+    hrefOf: (link) => `/posts/${link}`,
+  },
+  glossary: {
+    table: "glossary_terms",
+    select: "id, name, slug, category, level, one_line",
+    filters: { status: "published" },
+    linkColumn: "slug",
+    orderColumn: "name",
+    searchColumns: ["name", "one_line", "category"],
+    titleOf: (row) => row.name,
+    hrefOf: (link) => `/glossary/${link}`,
+  },
+};
+
+const TERM_STOP_WORDS = new Set(["and", "the", "for", "with", "from", "are", "who", "what"]);
+
+// Standard RRF constant; dampens the weight of top ranks from either list
+export const RRF_K = 60;
+
+/**
+ * Query terms used for keyword matching and highlighting. Only letters and digits
+ * survive, so terms are safe to embed in PostgREST `or=(...)` filters.
+ */
+export function searchTerms(query: string, max = 5): string[] {
+  const seen = new Set<string>();
+  for (const t of query.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) || []) {
+    if (t.length >= 3 && !TERM_STOP_WORDS.has(t)) seen.add(t);
+  }
+  // Longer terms first: they are the most selective
+  return Array.from(seen)
+    .sort((a, b) => b.length - a.length)
+    .slice(0, max);
+}
+
+/**
+ * Reciprocal-rank fusion: every ranked list contributes 1 / (k + rank) per item.
+ */
+export function reciprocalRankFusion(lists: string[][], k = RRF_K): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const list of lists) {
+    list.forEach((key, i) => {
+      scores.set(key, (scores.get(key) || 0) + 1 / (k + i + 1));
+    });
+  }
+  return scores;
+}
+
+function termRanges(text: string, terms: string[]): [number, number][] {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    let from = 0;
+    let at: number;
+    while ((at = lower.indexOf(term, from)) !== -1) {
+      ranges.push([at, at + term.length]);
+      from = at + term.length;
+    }
+  }
+
+  // Sort and merge overlaps so the UI can render ranges in order
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const r of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+    else merged.push([r[0], r[1]]);
+  }
+  return merged;
+}
+
+/**
+ * Highlights for the given fields, each trimmed to a window around the first match.
+ */
+export function buildHighlights(row: any, fields: string[], terms: string[], radius = 60): SearchHighlight[] {
+  const highlights: SearchHighlight[] = [];
+  if (terms.length === 0) return highlights;
+
+  for (const field of fields) {
+    const value = row?.[field];
+    if (typeof value !== "string" || !value) continue;
+
+    const ranges = termRanges(value, terms);
+    if (ranges.length === 0) continue;
+
+    const start = Math.max(0, ranges[0][0] - radius);
+    const end = Math.min(value.length, ranges[0][1] + radius);
+    const prefix = start > 0 ? "…" : "";
+    const suffix = end < value.length ? "…" : "";
+    const snippet = prefix + value.slice(start, end) + suffix;
+
+    highlights.push({
+      field,
+      snippet,
+      ranges: ranges
+        .filter(([s, e]) => s >= start && e <= end)
+        .map(([s, e]) => [s - start + prefix.length, e - start + prefix.length] as [number, number]),
+    });
+  }
+
+  return highlights;
+}
+
+// Number of query terms found in a row's searchable columns (keyword ranking)
+export function termMatchCount(row: any, fields: string[], terms: string[]) {
+  const text = fields
+    .map((f) => row?.[f])
+    .filter((v) => typeof v === "string")
+    .join(" ")
+    .toLowerCase();
+  return terms.filter((t) => text.includes(t)).length;
+}
@@ -0,0 +1,118 @@
+// lib/jobApplications.ts
+//
+// "Apply on Quantum5ocial": applications submitted on the platform instead of
+// through a job's external apply_url.
+//
+// job_applications: id, job_id, org_id, applicant_id, cover_note,
+// cv_path (object in the private APPLICATION_CV_BUCKET), status,
+// status_updated_at, created_at, updated_at — unique (job_id, applicant_id)
+//
+// All reads and writes go through /api/jobs/applications, which checks org
+// roles and hands out short-lived signed CV links.
+
+import { apiFetch } from "./apiClient";
+
+export const APPLICATION_STATUSES = ["new", "screening", "interview", "offer", "rejected"] as const;
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  new: "New",
+  screening: "Screening",
+  interview: "Interview",
+  offer: "Offer",
+  rejected: "Rejected",
+};
+
+export const APPLICATION_STATUS_COLORS: Record<ApplicationStatus, string> = {
+  new: "#38bdf8",
+  screening: "#a855f7",
+  interview: "#f59e0b",
+  offer: "#22c55e",
+  rejected: "#f87171",
+};
+
+export const APPLICATION_CV_BUCKET = "job-applications";
+export const MAX_CV_BYTES = 5 * 1024 * 1024;
+export const MAX_COVER_NOTE_LENGTH = 4000;
+
+export const APPLICATION_RECEIVED_NOTIFICATION_TYPE = "job_application_received";
+export const APPLICATION_STATUS_NOTIFICATION_TYPE = "job_application_status";
+
+export type ApplicantProfile = {
+  id: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  email: string | null;
+  current_title: string | null;
+  affiliation: string | null;
+  city: string | null;
+  country: string | null;
+};
+
+export type JobApplication = {
+  id: string;
+  job_id: string;
+  org_id: string | null;
+  applicant_id: string;
+  cover_note: string | null;
+  status: ApplicationStatus;
+  status_updated_at: string | null;
+  created_at: string | null;
+  // Org view only
+  applicant?: ApplicantProfile | null;
+  cv_url?: string | null;
+  // Applicant view only
+  job?: { id: string; title: string | null; company_name: string | null } | null;
+};
+
+export function isApplicationStatus(value: unknown): value is ApplicationStatus {
+  return typeof value === "string" && (APPLICATION_STATUSES as readonly string[]).includes(value);
+}
+
+export async function submitJobApplication(input: {
+  jobId: string;
+  coverNote: string;
+  cv: File;
+}): Promise<JobApplication> {
+  const form = new FormData();
+  form.append("jobId", input.jobId);
+  form.append("coverNote", input.coverNote);
+  form.append("cv", input.cv);
+
+  const body = await apiFetch<{ application: JobApplication }>("/api/jobs/applications", {
+    method: "POST",
+    body: form,
+  });
+  return body.application;
+}
+
+// Applicants for one job (org owners/admins only)
+export async function listJobApplications(jobId: string): Promise<JobApplication[]> {
+  const body = await apiFetch<{ applications: JobApplication[] }>(
+    `/api/jobs/applications?jobId=${encodeURIComponent(jobId)}`
+  );
+  return body.applications;
+}
+
+// The signed-in user's own applications, optionally for a single job
+export async function listMyApplications(jobId?: string): Promise<JobApplication[]> {
+  const body = await apiFetch<{ applications: JobApplication[] }>(
+    `/api/jobs/applications?mine=1${jobId ? `&jobId=${encodeURIComponent(jobId)}` : ""}`
+  );
+  return body.applications;
+}
+
+export async function updateApplicationStatus(
+  applicationId: string,
+  status: ApplicationStatus
+): Promise<JobApplication> {
+  const body = await apiFetch<{ application: JobApplication }>(
+    `/api/jobs/applications/${encodeURIComponent(applicationId)}`,
+    {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ status }),
+    }
+  );
+  return body.application;
+}
@@ -0,0 +1,289 @@
+// lib/jobDuplicates.ts
+//
+// Near-duplicate detection for job postings. Two postings are compared on
+// title / company / location text similarity and, when both have a search
+// document, the cosine similarity of their `search_documents` embeddings.
+// /api/jobs/duplicates checks a draft on /jobs/new before it is published;
+// /api/admin/job-duplicates clusters the open jobs for the admin report.
+
+import { apiFetch } from "./apiClient";
+import { rowCountryCode } from "./locations";
+
+export type DuplicateJobFields = {
+  id?: string;
+  title: string | null;
+  company_name: string | null;
+  location: string | null;
+  country_code?: string | null;
+  city?: string | null;
+  org_id?: string | null;
+};
+
+export type DuplicateJob = {
+  id: string;
+  title: string | null;
+  company_name: string | null;
+  location: string | null;
+  org_id: string | null;
+  created_at: string | null;
+};
+
+export type DuplicateMatch = {
+  job: DuplicateJob;
+  score: number; // 0-1
+  // Posted under the same organization as the draft
+  sameOrg: boolean;
+  reasons: string[];
+};
+
+export type DuplicateCluster = {
+  jobs: DuplicateJob[];
+  // Highest pairwise score inside the cluster
+  score: number;
+};
+
+// Combined score at which two postings are reported as likely duplicates
+export const DUPLICATE_THRESHOLD = 0.72;
+
+// Titles less alike than this are never duplicates, whatever the other signals say
+const MIN_TITLE_SIMILARITY = 0.5;
+
+// Text signal weights; the embedding (when present) is blended in afterwards
+const TEXT_WEIGHTS = { title: 0.6, company: 0.25, location: 0.15 };
+const EMBEDDING_WEIGHT = 0.45;
+
+// Duplicates returned for a draft
+export const MAX_DUPLICATE_MATCHES = 5;
+
+// Open jobs compared pairwise for the admin report
+export const MAX_CLUSTERED_JOBS = 1000;
+
+// Newest open jobs a draft is compared with, besides its closest embedding matches
+export const MAX_DRAFT_CANDIDATES = 1000;
+
+// Columns duplicateJobFromRow and isJobLive read
+export const DUPLICATE_JOB_COLUMNS =
+  "id, title, company_name, organisation_name, location, location_text, country_code, city, org_id, created_at, status, is_published, publish_at, expires_at";
+
+// Legal-form suffixes that don't distinguish companies ("Qubit Labs GmbH" = "Qubit Labs")
+const COMPANY_NOISE = new Set([
+  "the",
+  "inc",
+  "ltd",
+  "llc",
+  "gmbh",
+  "ag",
+  "bv",
+  "sa",
+  "sas",
+  "srl",
+  "plc",
+  "co",
+  "corp",
+  "corporation",
+  "limited",
+  "company",
+]);
+
+function normalize(text: string | null | undefined) {
+  return (text || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\u00c0-\u024f]+/g, " ")
+    .trim();
+}
+
+function normalizeCompany(text: string | null | undefined) {
+  return normalize(text)
+    .split(" ")
+    .filter((w) => w && !COMPANY_NOISE.has(w))
+    .join(" ");
+}
+
+function bigrams(text: string) {
+  const grams = new Map<string, number>();
+  const s = text.replace(/\s+/g, " ");
+  for (let i = 0; i < s.length - 1; i++) {
+    const g = s.slice(i, i + 2);
+    grams.set(g, (grams.get(g) || 0) + 1);
+  }
+  return grams;
+}
+
+/** Sørensen–Dice over character bigrams; 1 for identical strings, 0 when nothing is shared. */
+export function textSimilarity(a: string, b: string) {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const ga = bigrams(a);
+  const gb = bigrams(b);
+  let shared = 0;
+  let total = 0;
+  ga.forEach((count, g) => {
+    shared += Math.min(count, gb.get(g) || 0);
+    total += count;
+  });
+  gb.forEach((count) => (total += count));
+  return total > 0 ? (2 * shared) / total : 0;
+}
+
+function locationSimilarity(a: DuplicateJobFields, b: DuplicateJobFields) {
+  const ca = rowCountryCode(a);
+  const cb = rowCountryCode(b);
+  const la = normalize(a.city || a.location);
+  const lb = normalize(b.city || b.location);
+
+  // Both unspecified (typically remote) reads as the same place
+  if (!ca && !cb && !la && !lb) return 1;
+  if (ca && cb && ca !== cb) return 0;
+
+  const country = ca && cb ? 0.5 : 0;
+  return country + (1 - country) * textSimilarity(la, lb);
+}
+
+// Jobs filled by the backend importer use organisation_name / location_text
+export function duplicateJobFromRow(row: any): DuplicateJob & DuplicateJobFields {
+  return {
+    id: String(row.id),
+    title: row.title ?? null,
+    company_name: row.company_name ?? row.organisation_name ?? null,
+    location: row.location ?? row.location_text ?? null,
+    country_code: row.country_code ?? null,
+    city: row.city ?? null,
+    org_id: row.org_id ?? null,
+    created_at: row.created_at ?? null,
+  };
+}
+
+export function parseEmbedding(value: unknown): number[] | null {
+  if (Array.isArray(value)) return value.map(Number);
+  // pgvector columns come back from PostgREST as "[0.1,0.2,…]"
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.map(Number) : null;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na > 0 && nb > 0 ? dot / Math.sqrt(na * nb) : 0;
+}
+
+/**
+ * Score for one pair of postings, or null when the titles are too different to
+ * bother. `embeddingSimilarity` is null when either side has no search document.
+ */
+export function scoreDuplicate(
+  a: DuplicateJobFields,
+  b: DuplicateJobFields,
+  embeddingSimilarity: number | null
+): { score: number; reasons: string[] } | null {
+  const title = textSimilarity(normalize(a.title), normalize(b.title));
+  if (title < MIN_TITLE_SIMILARITY) return null;
+
+  const company = textSimilarity(normalizeCompany(a.company_name), normalizeCompany(b.company_name));
+  const location = locationSimilarity(a, b);
+
+  const text =
+    TEXT_WEIGHTS.title * title + TEXT_WEIGHTS.company * company + TEXT_WEIGHTS.location * location;
+  const score =
+    embeddingSimilarity === null
+      ? text
+      : (1 - EMBEDDING_WEIGHT) * text + EMBEDDING_WEIGHT * Math.max(0, embeddingSimilarity);
+
+  const reasons: string[] = [];
+  reasons.push(title === 1 ? "Same title" : `Similar title (${Math.round(title * 100)}%)`);
+  if (company >= 0.9) reasons.push("Same company");
+  if (location >= 0.9) reasons.push("Same location");
+  if (embeddingSimilarity !== null && embeddingSimilarity >= 0.85) reasons.push("Near-identical description");
+
+  return { score: Math.min(1, score), reasons };
+}
+
+/**
+ * Groups jobs whose pairwise score reaches DUPLICATE_THRESHOLD (transitively,
+ * so A~B and B~C put all three together). Single jobs are left out.
+ */
+export function clusterDuplicateJobs(
+  jobs: (DuplicateJob & DuplicateJobFields)[],
+  embeddings: Map<string, number[]>
+): DuplicateCluster[] {
+  const parent = jobs.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const best = new Map<number, number>();
+
+  for (let i = 0; i < jobs.length; i++) {
+    for (let j = i + 1; j < jobs.length; j++) {
+      const ea = embeddings.get(jobs[i].id);
+      const eb = embeddings.get(jobs[j].id);
+      const result = scoreDuplicate(jobs[i], jobs[j], ea && eb ? cosineSimilarity(ea, eb) : null);
+      if (!result || result.score < DUPLICATE_THRESHOLD) continue;
+
+      const ri = find(i);
+      const rj = find(j);
+      const score = Math.max(result.score, best.get(ri) ?? 0, best.get(rj) ?? 0);
+      parent[rj] = ri;
+      best.set(ri, score);
+    }
+  }
+
+  const groups = new Map<number, DuplicateJob[]>();
+  jobs.forEach((job, i) => {
+    const root = find(i);
+    const list = groups.get(root) || [];
+    list.push({
+      id: job.id,
+      title: job.title,
+      company_name: job.company_name,
+      location: job.location,
+      org_id: job.org_id ?? null,
+      created_at: job.created_at,
+    });
+    groups.set(root, list);
+  });
+
+  const clusters: DuplicateCluster[] = [];
+  groups.forEach((list, root) => {
+    if (list.length > 1) clusters.push({ jobs: list, score: best.get(root) ?? DUPLICATE_THRESHOLD });
+  });
+  return clusters.sort((a, b) => b.jobs.length - a.jobs.length || b.score - a.score);
+}
+
+// Draft fields sent from /jobs/new; excludeId skips the job being edited
+export type DuplicateCheckInput = DuplicateJobFields & {
+  excludeId?: string | null;
+  details?: string | null;
+};
+
+export async function checkJobDuplicates(input: DuplicateCheckInput): Promise<DuplicateMatch[]> {
+  const body = await apiFetch<{ matches: DuplicateMatch[] }>("/api/jobs/duplicates", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  return body.matches;
+}
+
+export type DuplicateReport = {
+  clusters: DuplicateCluster[];
+  jobsCompared: number;
+  // Jobs that had a search document embedded with the current model
+  withEmbeddings: number;
+};
+
+// Admin report (/admin/job-duplicates)
+export async function fetchDuplicateReport(): Promise<DuplicateReport> {
+  return apiFetch<DuplicateReport>("/api/admin/job-duplicates");
+}
@@ -0,0 +1,35 @@
+// lib/jobEmbeddings.ts
+//
+// Server-side lookup of the stored `search_documents` vectors of jobs, for
+// comparisons match_documents can't do: duplicate clusters between open jobs
+// and the match score of a job outside the profile's closest documents.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { documentEmbeddingModel, getEmbeddingProvider } from "./embeddings";
+import { parseEmbedding } from "./jobDuplicates";
+
+// Job links per search_documents request; vectors make each row large
+const EMBEDDING_BATCH = 100;
+
+// Stored vectors per job, limited to the current model so similarities are comparable
+export async function loadJobEmbeddings(supabase: SupabaseClient, jobIds: string[]) {
+  const embeddings = new Map<string, number[]>();
+  const modelId = getEmbeddingProvider().id;
+
+  for (let i = 0; i < jobIds.length; i += EMBEDDING_BATCH) {
+    const { data, error } = await supabase
+      .from("search_documents")
+      .select("metadata, embedding")
+      .eq("metadata->>type", "job")
+      .in("metadata->>link", jobIds.slice(i, i + EMBEDDING_BATCH));
+
+    if (error) throw error;
+
+    for (const doc of data || []) {
+      if (documentEmbeddingModel(doc.metadata) !== modelId) continue;
+      const vector = parseEmbedding(doc.embedding);
+      if (vector) embeddings.set(String(doc.metadata.link), vector);
+    }
+  }
+  return embeddings;
+}
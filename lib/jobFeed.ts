@@ -0,0 +1,221 @@
+// lib/jobFeed.ts
+//
+// RSS 2.0, Atom and JSON Feed renderings of the published jobs, served by
+// /api/jobs/feed/[format]. Query params narrow the feed:
+//   q, country, category       same meaning as on /jobs (see lib/jobFilters)
+//   quantum_domain, role_track, technology_type
+//                              case-insensitive match against the job's field
+// so a feed URL can be built from whatever is selected on the jobs page.
+
+import {
+  JobFilterFields,
+  JobSearchFilters,
+  hasJobFilters,
+  matchesJobFilters,
+  normalizeJobFilters,
+  describeJobFilters,
+} from "./jobFilters";
+import { JsonLdJob, jobDescriptionHtml, jobPostingJsonLd, jobUrl } from "./jobJsonLd";
+import { formatJobSalary } from "./salary";
+
+export const JOB_FEED_FORMATS = ["rss", "atom", "json"] as const;
+export type JobFeedFormat = (typeof JOB_FEED_FORMATS)[number];
+
+export const JOB_FEED_CONTENT_TYPES: Record<JobFeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+// Newest postings included in a feed
+export const JOB_FEED_LIMIT = 100;
+
+// Live jobs read per request when q/country/category still have to be matched in code
+export const JOB_FEED_CANDIDATE_LIMIT = 1000;
+
+// Everything jsonLdJobFromRow, the renderers and the filters read
+export const JOB_FEED_COLUMNS = [
+  "id, title, company_name, organisation_name, location, location_text, country_code, region, city",
+  "employment_type, remote_type, short_description, additional_description, role, key_responsibilities",
+  "must_have_qualifications, ideal_qualifications, what_we_offer, keywords, technology_type, quantum_domain",
+  "role_track, seniority_level, salary_display, salary_min, salary_max, salary_currency, salary_period",
+  "apply_url, created_at, publish_at, expires_at, status, is_published, organizations:organizations(slug, name)",
+].join(", ");
+
+export const JOB_FEED_FACETS = ["quantum_domain", "role_track", "technology_type"] as const;
+export type JobFeedFacet = (typeof JOB_FEED_FACETS)[number];
+
+export type JobFeedFilters = JobSearchFilters & Record<JobFeedFacet, string>;
+
+export type JobFeedJob = JsonLdJob &
+  JobFilterFields & {
+    status?: string | null;
+    is_published?: boolean | null;
+    salary_display?: string | null;
+  };
+
+export function isJobFeedFormat(value: unknown): value is JobFeedFormat {
+  return typeof value === "string" && (JOB_FEED_FORMATS as readonly string[]).includes(value);
+}
+
+export function parseJobFeedFilters(params: URLSearchParams): JobFeedFilters {
+  const base = normalizeJobFilters({
+    search: params.get("q") || "",
+    country: params.get("country") || "All",
+    category: params.get("category") || "All",
+  });
+
+  const facets = {} as Record<JobFeedFacet, string>;
+  for (const facet of JOB_FEED_FACETS) {
+    facets[facet] = (params.get(facet) || "").trim();
+  }
+  return { ...base, ...facets };
+}
+
+export function matchesJobFeedFilters(job: JobFeedJob, filters: JobFeedFilters) {
+  if (!matchesJobFilters(job, filters)) return false;
+  return JOB_FEED_FACETS.every((facet) => {
+    const wanted = filters[facet].toLowerCase();
+    return !wanted || (job[facet] || "").toLowerCase().includes(wanted);
+  });
+}
+
+// "/api/jobs/feed/rss?country=DE&role_track=Engineering"
+export function jobFeedHref(format: JobFeedFormat, filters: Partial<JobFeedFilters>) {
+  const params = new URLSearchParams();
+  if (filters.search?.trim()) params.set("q", filters.search.trim());
+  if (filters.country && filters.country !== "All") params.set("country", filters.country);
+  if (filters.category && filters.category !== "All") params.set("category", filters.category);
+  for (const facet of JOB_FEED_FACETS) {
+    const value = filters[facet]?.trim();
+    if (value) params.set(facet, value);
+  }
+  const qs = params.toString();
+  return `/api/jobs/feed/${format}${qs ? `?${qs}` : ""}`;
+}
+
+export function describeJobFeed(filters: JobFeedFilters) {
+  const parts = JOB_FEED_FACETS.map((f) => filters[f]).filter(Boolean);
+  if (hasJobFilters(filters)) parts.unshift(describeJobFilters(filters));
+  return parts.length > 0 ? `Quantum jobs: ${parts.join(" · ")}` : "Quantum jobs";
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function isoDate(job: JobFeedJob) {
+  const d = new Date(job.publish_at || job.created_at || 0);
+  return Number.isNaN(d.getTime()) ? new Date(0) : d;
+}
+
+function itemTitle(job: JobFeedJob) {
+  const title = job.title || "Untitled role";
+  return job.company_name ? `${title} at ${job.company_name}` : title;
+}
+
+// Short plain-text line shown by readers that don't render the HTML content
+function itemSummary(job: JobFeedJob) {
+  return [job.short_description, job.location, job.employment_type, job.remote_type, formatJobSalary(job)]
+    .map((p) => (p || "").trim())
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function itemTags(job: JobFeedJob) {
+  const tags = [job.quantum_domain, job.role_track, job.technology_type, job.seniority_level];
+  return tags.map((t) => (t || "").trim()).filter(Boolean);
+}
+
+type FeedMeta = { title: string; siteUrl: string; selfUrl: string };
+
+export function renderRss(jobs: JobFeedJob[], meta: FeedMeta) {
+  const items = jobs.map((job) => {
+    const url = jobUrl(job, meta.siteUrl);
+    return [
+      "    <item>",
+      `      <title>${escapeXml(itemTitle(job))}</title>`,
+      `      <link>${escapeXml(url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(url)}</guid>`,
+      `      <pubDate>${isoDate(job).toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(itemSummary(job))}</description>`,
+      `      <content:encoded>${escapeXml(jobDescriptionHtml(job))}</content:encoded>`,
+      ...itemTags(job).map((t) => `      <category>${escapeXml(t)}</category>`),
+      "    </item>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">',
+    "  <channel>",
+    `    <title>${escapeXml(meta.title)}</title>`,
+    `    <link>${escapeXml(`${meta.siteUrl}/jobs`)}</link>`,
+    `    <description>${escapeXml(meta.title)} on Quantum5ocial</description>`,
+    `    <atom:link href="${escapeXml(meta.selfUrl)}" rel="self" type="application/rss+xml" />`,
+    `    <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+export function renderAtom(jobs: JobFeedJob[], meta: FeedMeta) {
+  const updated = jobs.length > 0 ? isoDate(jobs[0]) : new Date();
+
+  const entries = jobs.map((job) => {
+    const url = jobUrl(job, meta.siteUrl);
+    return [
+      "  <entry>",
+      `    <title>${escapeXml(itemTitle(job))}</title>`,
+      `    <link href="${escapeXml(url)}" />`,
+      `    <id>${escapeXml(url)}</id>`,
+      `    <updated>${isoDate(job).toISOString()}</updated>`,
+      `    <author><name>${escapeXml(job.company_name || "Quantum5ocial")}</name></author>`,
+      `    <summary>${escapeXml(itemSummary(job))}</summary>`,
+      `    <content type="html">${escapeXml(jobDescriptionHtml(job))}</content>`,
+      ...itemTags(job).map((t) => `    <category term="${escapeXml(t)}" />`),
+      "  </entry>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(meta.title)}</title>`,
+    `  <link href="${escapeXml(`${meta.siteUrl}/jobs`)}" />`,
+    `  <link href="${escapeXml(meta.selfUrl)}" rel="self" />`,
+    `  <id>${escapeXml(meta.selfUrl)}</id>`,
+    `  <updated>${updated.toISOString()}</updated>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+// JSON Feed 1.1; each item carries its JobPosting under the `_job_posting` extension
+export function renderJsonFeed(jobs: JobFeedJob[], meta: FeedMeta) {
+  return {
+    version: "https://jsonfeed.org/version/1.1",
+    title: meta.title,
+    home_page_url: `${meta.siteUrl}/jobs`,
+    feed_url: meta.selfUrl,
+    items: jobs.map((job) => ({
+      id: job.id,
+      url: jobUrl(job, meta.siteUrl),
+      title: itemTitle(job),
+      summary: itemSummary(job),
+      content_html: jobDescriptionHtml(job),
+      date_published: isoDate(job).toISOString(),
+      authors: [{ name: job.company_name || "Quantum5ocial" }],
+      tags: itemTags(job),
+      _job_posting: jobPostingJsonLd(job, meta.siteUrl),
+    })),
+  };
+}
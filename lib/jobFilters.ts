@@ -0,0 +1,301 @@
+// lib/jobFilters.ts
+//
+// Job filter set used by the jobs page and by saved-search alerts, so a saved
+// search matches new jobs exactly the way the page filters them.
+
+import { countryName, inferCountryCode, isCountryCode, rowCountryCode } from "./locations";
+
+export type JobFilterFields = {
+  title: string | null;
+  company_name: string | null;
+  location: string | null;
+  country_code?: string | null;
+  short_description: string | null;
+  keywords: string | null;
+  technology_type: string | null;
+  quantum_domain: string | null;
+  role_track: string | null;
+  seniority_level: string | null;
+};
+
+export const JOB_CATEGORY_CHIPS = [
+  "All",
+  "Quantum Hardware",
+  "Quantum Software",
+  "Quantum AI & ML",
+  "Quantum Algorithms & Theory",
+  "Quantum Communication",
+  "Quantum Cryptography",
+  "Quantum Sensing",
+  "Quantum Materials",
+  "Quantum Finance & Optimization",
+  "Business & Strategy",
+  "Consulting & Policy",
+] as const;
+
+export const JOB_CATEGORY_CHIP_LABELS: Record<JobCategoryChip, string> = {
+  All: "All",
+  "Quantum Hardware": "Hardware",
+  "Quantum Software": "Software",
+  "Quantum AI & ML": "AI & ML",
+  "Quantum Algorithms & Theory": "Algorithms & Theory",
+  "Quantum Communication": "Communication",
+  "Quantum Cryptography": "Cryptography",
+  "Quantum Sensing": "Sensing",
+  "Quantum Materials": "Materials",
+  "Quantum Finance & Optimization": "Finance",
+  "Business & Strategy": "Business & Strategy",
+  "Consulting & Policy": "Consulting",
+};
+
+export type JobCategoryChip = (typeof JOB_CATEGORY_CHIPS)[number];
+
+function normalize(v: string | null | undefined) {
+  return (v || "").toLowerCase().trim();
+}
+
+// Country filter value for jobs without a known country
+export const UNKNOWN_COUNTRY = "Other";
+
+export function jobCountryCode(job: JobFilterFields): string | null {
+  return rowCountryCode(job);
+}
+
+export function matchesChip(job: JobFilterFields, chip: JobCategoryChip) {
+  if (chip === "All") return true;
+
+  const title = normalize(job.title);
+  const desc = normalize(job.short_description);
+  const keywords = normalize(job.keywords);
+  const tech = normalize(job.technology_type);
+  const domain = normalize(job.quantum_domain);
+  const role = normalize(job.role_track);
+
+  const hay = `${title} ${desc} ${keywords} ${tech} ${domain} ${role}`;
+
+  switch (chip) {
+    case "Quantum Hardware":
+      return (
+        hay.includes("hardware") ||
+        hay.includes("cryogenic") ||
+        hay.includes("electronics") ||
+        hay.includes("device") ||
+        hay.includes("fabrication")
+      );
+
+    case "Quantum Software":
+      return (
+        hay.includes("software") ||
+        hay.includes("developer") ||
+        hay.includes("backend") ||
+        hay.includes("frontend") ||
+        hay.includes("full stack") ||
+        hay.includes("platform")
+      );
+
+    case "Quantum AI & ML":
+      return (
+        hay.includes("machine learning") ||
+        hay.includes("ml") ||
+        hay.includes("ai") ||
+        hay.includes("artificial intelligence")
+      );
+
+    case "Quantum Algorithms & Theory":
+      return (
+        hay.includes("algorithm") ||
+        hay.includes("theory") ||
+        hay.includes("theoretical") ||
+        hay.includes("simulation") ||
+        hay.includes("research")
+      );
+
+    case "Quantum Communication":
+      return hay.includes("communication") || hay.includes("network");
+
+    case "Quantum Cryptography":
+      return (
+        hay.includes("cryptography") ||
+        hay.includes("security") ||
+        hay.includes("qkd")
+      );
+
+    case "Quantum Sensing":
+      return (
+        hay.includes("sensing") ||
+        hay.includes("sensor") ||
+        hay.includes("metrology")
+      );
+
+    case "Quantum Materials":
+      return (
+        hay.includes("material") ||
+        hay.includes("chemistry") ||
+        hay.includes("superconduct") ||
+        hay.includes("fabrication")
+      );
+
+    case "Quantum Finance & Optimization":
+      return (
+        hay.includes("finance") ||
+        hay.includes("optimization") ||
+        hay.includes("optimisation")
+      );
+
+    case "Business & Strategy":
+      return (
+        hay.includes("business") ||
+        hay.includes("strategy") ||
+        hay.includes("product") ||
+        hay.includes("marketing") ||
+        hay.includes("sales")
+      );
+
+    case "Consulting & Policy":
+      return (
+        hay.includes("consulting") ||
+        hay.includes("policy") ||
+        hay.includes("government") ||
+        hay.includes("public affairs")
+      );
+
+    default:
+      return true;
+  }
+}
+
+export type JobSearchFilters = {
+  search: string;
+  country: string;
+  category: JobCategoryChip;
+};
+
+export const DEFAULT_JOB_FILTERS: JobSearchFilters = {
+  search: "",
+  country: "All",
+  category: "All",
+};
+
+/**
+ * Coerces stored/untrusted filters (e.g. saved_searches.filters jsonb) into a
+ * valid filter set; unknown countries or categories fall back to "All".
+ */
+export function normalizeJobFilters(raw: any): JobSearchFilters {
+  const search = typeof raw?.search === "string" ? raw.search.trim() : "";
+  const country = normalizeCountryFilter(raw?.country);
+  const category = (JOB_CATEGORY_CHIPS as readonly string[]).includes(raw?.category)
+    ? (raw.category as JobCategoryChip)
+    : "All";
+  return { search, country, category };
+}
+
+/**
+ * "All", UNKNOWN_COUNTRY or an ISO code. Saved searches from before structured
+ * locations stored country names ("Germany", "UK"), which are mapped to codes.
+ */
+export function normalizeCountryFilter(raw: any): string {
+  if (typeof raw !== "string" || !raw.trim() || raw === "All") return "All";
+  if (raw === UNKNOWN_COUNTRY) return UNKNOWN_COUNTRY;
+  const upper = raw.trim().toUpperCase();
+  if (isCountryCode(upper)) return upper;
+  return inferCountryCode(raw) || "All";
+}
+
+export function countryFilterLabel(value: string) {
+  if (value === "All") return "All countries";
+  if (value === UNKNOWN_COUNTRY) return "Other / unspecified";
+  return countryName(value);
+}
+
+export type CountryFacet = { value: string; label: string; count: number };
+
+// Every country that has postings, most postings first; unknown locations last
+export function countryFacets(jobs: JobFilterFields[]): CountryFacet[] {
+  const counts = new Map<string, number>();
+  for (const job of jobs) {
+    const value = jobCountryCode(job) || UNKNOWN_COUNTRY;
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, label: countryFilterLabel(value), count }))
+    .sort((a, b) => {
+      if (a.value === UNKNOWN_COUNTRY) return 1;
+      if (b.value === UNKNOWN_COUNTRY) return -1;
+      return b.count - a.count || a.label.localeCompare(b.label);
+    });
+}
+
+export function hasJobFilters(filters: JobSearchFilters) {
+  return !!filters.search.trim() || filters.country !== "All" || filters.category !== "All";
+}
+
+export function matchesJobFilters(job: JobFilterFields, filters: JobSearchFilters) {
+  if (filters.country !== "All" && (jobCountryCode(job) || UNKNOWN_COUNTRY) !== filters.country) {
+    return false;
+  }
+
+  if (!matchesChip(job, filters.category)) {
+    return false;
+  }
+
+  const q = filters.search.toLowerCase().trim();
+  if (!q) return true;
+
+  const haystack = (
+    `${job.title || ""} ${job.company_name || ""} ${job.location || ""} ${
+      job.short_description || ""
+    } ${job.keywords || ""} ${job.technology_type || ""} ${
+      job.quantum_domain || ""
+    } ${job.role_track || ""} ${job.seniority_level || ""}`
+  ).toLowerCase();
+
+  return haystack.includes(q);
+}
+
+// Short human summary, e.g. "“postdoc” · Sensing · Germany"
+export function describeJobFilters(filters: JobSearchFilters) {
+  const parts: string[] = [];
+  if (filters.search.trim()) parts.push(`“${filters.search.trim()}”`);
+  if (filters.category !== "All") parts.push(JOB_CATEGORY_CHIP_LABELS[filters.category]);
+  if (filters.country !== "All") parts.push(countryFilterLabel(filters.country));
+  return parts.length > 0 ? parts.join(" · ") : "All jobs";
+}
+
+export const JOB_SORTS = ["featured", "newest"] as const;
+export type JobSort = (typeof JOB_SORTS)[number];
+
+export const JOB_SORT_LABELS: Record<JobSort, string> = {
+  featured: "Featured",
+  newest: "Newest first",
+};
+
+// Query-string params of /jobs and their defaults (omitted from the URL).
+// Salary bounds are yearly amounts in the reference currency (see lib/salary);
+// they narrow the page but are not part of saved searches.
+export const JOB_URL_DEFAULTS = {
+  q: "",
+  country: "All",
+  category: "All",
+  sort: "featured",
+  salary_min: "",
+  salary_max: "",
+  disclosed: "",
+};
+
+// country is validated with normalizeCountryFilter: the list depends on the postings
+export const JOB_URL_ALLOWED = {
+  category: JOB_CATEGORY_CHIPS,
+  sort: JOB_SORTS,
+  disclosed: ["1"],
+};
+
+// Link to /jobs with these filters applied
+export function jobFiltersHref(filters: JobSearchFilters) {
+  const params = new URLSearchParams();
+  if (filters.search.trim()) params.set("q", filters.search.trim());
+  if (filters.country !== "All") params.set("country", filters.country);
+  if (filters.category !== "All") params.set("category", filters.category);
+  const qs = params.toString();
+  return qs ? `/jobs?${qs}` : "/jobs";
+}
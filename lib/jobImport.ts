@@ -0,0 +1,516 @@
+// lib/jobImport.ts
+//
+// Turns job postings that already exist on an organization's careers page into
+// job form values. Accepted input (pasted or uploaded):
+//   - schema.org JobPosting JSON-LD, bare or inside a careers page's HTML
+//   - Greenhouse job board API JSON (`/boards/{org}/jobs?content=true` or one job)
+//   - Lever postings API JSON (`/v0/postings/{org}?mode=json` or one posting)
+// Parsing is pure (no DOM, no network) so it runs the same in the browser and
+// against the sample files in fixtures/job-import.
+
+import { StructuredLocation, EMPTY_LOCATION, inferCountryCode, parseLegacyLocation } from "./locations";
+import { EMPTY_SALARY_FORM, SalaryFormValues, isCurrencyCode } from "./salary";
+
+export type JobImportSource = "json-ld" | "greenhouse" | "lever";
+
+export const JOB_IMPORT_SOURCE_LABELS: Record<JobImportSource, string> = {
+  "json-ld": "JobPosting JSON-LD",
+  greenhouse: "Greenhouse",
+  lever: "Lever",
+};
+
+// Text columns of the job form an import can fill
+export const JOB_IMPORT_FIELDS = [
+  "title",
+  "company_name",
+  "employment_type",
+  "remote_type",
+  "short_description",
+  "role",
+  "key_responsibilities",
+  "must_have_qualifications",
+  "ideal_qualifications",
+  "what_we_offer",
+  "additional_description",
+  "keywords",
+  "apply_url",
+] as const;
+
+export type JobImportField = (typeof JOB_IMPORT_FIELDS)[number];
+
+export const JOB_IMPORT_FIELD_LABELS: Record<JobImportField, string> = {
+  title: "Job title",
+  company_name: "Company / lab",
+  employment_type: "Employment type",
+  remote_type: "Work mode",
+  short_description: "Short description",
+  role: "The role",
+  key_responsibilities: "Key responsibilities",
+  must_have_qualifications: "Must-have qualifications",
+  ideal_qualifications: "Ideal qualifications",
+  what_we_offer: "What we offer",
+  additional_description: "Additional description",
+  keywords: "Keywords",
+  apply_url: "Application URL",
+};
+
+export type ImportedJob = {
+  source: JobImportSource;
+  // Id in the source system, shown to tell several postings apart
+  externalId: string | null;
+  fields: Partial<Record<JobImportField, string>>;
+  location: StructuredLocation | null;
+  salary: SalaryFormValues | null;
+  // validThrough from JSON-LD, ISO
+  expiresAt: string | null;
+};
+
+export type JobImportResult = { jobs: ImportedJob[]; error: string | null };
+
+const SHORT_DESCRIPTION_MAX = 180;
+
+/* -------------------------------------------------------------------------- */
+/*  Text helpers                                                              */
+/* -------------------------------------------------------------------------- */
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+  bull: "•",
+};
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (whole, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCharCode(n) : whole;
+    }
+    return ENTITIES[code.toLowerCase()] ?? whole;
+  });
+}
+
+/**
+ * HTML fragment -> plain text with one line per paragraph / list item. List
+ * items keep a "- " marker so sections can tell bullets from prose.
+ */
+export function htmlToText(html: string | null | undefined): string {
+  let s = html || "";
+  // Greenhouse escapes the whole description once
+  if (/&lt;\/?[a-z]/i.test(s) && !/<\/?[a-z]/i.test(s)) s = decodeEntities(s);
+
+  s = s
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+    // A paragraph that is only bold text is a heading on most careers pages
+    .replace(/<p[^>]*>\s*<(strong|b)>([^<]*)<\/\1>\s*<\/p>/gi, "\n## $2\n")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|ul|ol|h[1-6]|section|tr)>/gi, "\n")
+    .replace(/<h[1-6][^>]*>/gi, "\n## ")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(s)
+    .split("\n")
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter((l) => l && l !== "-")
+    .join("\n");
+}
+
+function str(value: unknown): string {
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number") return String(value);
+  return "";
+}
+
+function asArray<T = any>(value: unknown): T[] {
+  if (value === null || value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]) as T[];
+}
+
+function textList(value: unknown): string {
+  return asArray(value)
+    .map((v) => (typeof v === "object" && v ? str((v as any).name) || str((v as any).description) : str(v)))
+    .filter(Boolean)
+    .join(", ");
+}
+
+function firstSentence(text: string) {
+  const line = text.split("\n").find((l) => !l.startsWith("## ") && !l.startsWith("- ")) || "";
+  if (line.length <= SHORT_DESCRIPTION_MAX) return line;
+  const cut = line.slice(0, SHORT_DESCRIPTION_MAX);
+  const stop = cut.lastIndexOf(". ");
+  return stop > 60 ? cut.slice(0, stop + 1) : `${cut.slice(0, cut.lastIndexOf(" "))}…`;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Description sections                                                      */
+/* -------------------------------------------------------------------------- */
+
+type SectionKey = "role" | "key_responsibilities" | "must_have_qualifications" | "ideal_qualifications" | "what_we_offer";
+
+// Checked in order: "preferred qualifications" is ideal, not must-have
+const SECTION_PATTERNS: [SectionKey, RegExp][] = [
+  ["ideal_qualifications", /nice to have|preferred|bonus|ideal|plus if|desirable|good to have/i],
+  ["what_we_offer", /we offer|benefit|perks|what you get|compensation|why join/i],
+  ["key_responsibilities", /responsibilit|what you.ll do|your role|your tasks|duties|day.to.day|you will/i],
+  ["must_have_qualifications", /requirement|qualification|must have|what you bring|you have|your profile|who you are|skills|experience/i],
+  ["role", /about the (role|position|job)|the role|overview|position summary|job description/i],
+];
+
+function classifyHeading(heading: string): SectionKey | null {
+  for (const [key, pattern] of SECTION_PATTERNS) {
+    if (pattern.test(heading)) return key;
+  }
+  return null;
+}
+
+// A short line ending in ":" or a "## " heading starts a section
+function headingText(line: string): string | null {
+  if (line.startsWith("## ")) return line.slice(3).replace(/:$/, "").trim();
+  if (line.length <= 80 && /:$/.test(line) && !line.startsWith("- ")) return line.slice(0, -1).trim();
+  return null;
+}
+
+/**
+ * Splits description text into the form's structured sections by heading.
+ * Text before the first recognised heading, and under unknown headings, stays
+ * in `rest` for the additional description.
+ */
+export function splitDescriptionSections(text: string): Partial<Record<SectionKey, string>> & { rest: string } {
+  const sections: Partial<Record<SectionKey, string[]>> = {};
+  const rest: string[] = [];
+  let current: SectionKey | null = null;
+
+  for (const line of text.split("\n")) {
+    const heading = headingText(line);
+    if (heading !== null) {
+      current = classifyHeading(heading);
+      if (!current) rest.push(heading);
+      continue;
+    }
+    const clean = line.replace(/^[-•]\s*/, "");
+    if (current) (sections[current] = sections[current] || []).push(clean);
+    else rest.push(clean);
+  }
+
+  const out: Partial<Record<SectionKey, string>> & { rest: string } = { rest: rest.join("\n") };
+  for (const key of Object.keys(sections) as SectionKey[]) {
+    out[key] = sections[key]!.join(key === "role" ? " " : "\n");
+  }
+  return out;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Field normalisation                                                        */
+/* -------------------------------------------------------------------------- */
+
+// Free-text / schema.org employment types onto the form's options
+export function mapEmploymentType(value: string): string {
+  const v = value.toLowerCase().replace(/[_-]+/g, " ");
+  if (!v.trim()) return "";
+  if (/intern/.test(v)) return "Internship";
+  if (/post ?doc/.test(v)) return "Postdoc";
+  if (/phd|doctoral/.test(v)) return "PhD";
+  if (/fellow/.test(v)) return "Fellowship";
+  if (/contract|contractor|temporary|freelance/.test(v)) return "Contract";
+  if (/part time/.test(v)) return "Part-time";
+  if (/full time|permanent|regular/.test(v)) return "Full-time";
+  return "Other";
+}
+
+export function mapRemoteType(value: string): string {
+  const v = value.toLowerCase();
+  if (!v.trim()) return "";
+  if (/hybrid/.test(v)) return "Hybrid";
+  if (/remote|telecommute/.test(v)) return "Remote";
+  if (/on.?site|office|in person/.test(v)) return "On-site";
+  return "";
+}
+
+function salaryFrom(
+  currency: unknown,
+  min: unknown,
+  max: unknown,
+  unit: unknown
+): SalaryFormValues | null {
+  const code = str(currency).toUpperCase();
+  const lo = str(min);
+  const hi = str(max);
+  if (!isCurrencyCode(code) || (!lo && !hi)) return null;
+
+  const u = str(unit).toLowerCase();
+  const period = /month/.test(u) ? "monthly" : /year|annual|annum/.test(u) || !u ? "annual" : null;
+  // Hourly/weekly/daily pay has no equivalent period on the form
+  if (!period) return null;
+
+  return { ...EMPTY_SALARY_FORM, salary_min: lo, salary_max: hi, salary_currency: code, salary_period: period };
+}
+
+function locationFromText(text: string): StructuredLocation | null {
+  // "Remote" is a work mode, not a place
+  if (!text.trim() || /^(fully )?remote$/i.test(text.trim())) return null;
+  const parsed = parseLegacyLocation(text);
+  return parsed.country_code ? parsed : { ...EMPTY_LOCATION, city: text.split(",")[0].trim() || null };
+}
+
+function withDescription(fields: ImportedJob["fields"], descriptionText: string) {
+  const sections = splitDescriptionSections(descriptionText);
+  const out = { ...fields };
+  if (sections.role) out.role = sections.role;
+  if (sections.key_responsibilities) out.key_responsibilities = sections.key_responsibilities;
+  if (sections.must_have_qualifications) out.must_have_qualifications = sections.must_have_qualifications;
+  if (sections.ideal_qualifications) out.ideal_qualifications = sections.ideal_qualifications;
+  if (sections.what_we_offer) out.what_we_offer = sections.what_we_offer;
+  // Intro prose describes the role unless the posting has its own section for it
+  if (sections.rest.trim()) {
+    if (out.role) out.additional_description = sections.rest.trim();
+    else out.role = sections.rest.trim().replace(/\n/g, " ");
+  }
+  if (!out.short_description) out.short_description = firstSentence(out.role || descriptionText);
+  return out;
+}
+
+function compact(fields: ImportedJob["fields"]): ImportedJob["fields"] {
+  const out: ImportedJob["fields"] = {};
+  for (const key of JOB_IMPORT_FIELDS) {
+    const v = (fields[key] || "").trim();
+    if (v) out[key] = v;
+  }
+  return out;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Formats                                                                    */
+/* -------------------------------------------------------------------------- */
+
+function isJobPosting(node: any) {
+  return asArray(node?.["@type"]).some((t) => str(t) === "JobPosting");
+}
+
+// Every JobPosting in a JSON-LD value (top level, arrays, @graph, ItemList)
+function collectJobPostings(node: any, out: any[] = []): any[] {
+  if (Array.isArray(node)) {
+    node.forEach((n) => collectJobPostings(n, out));
+  } else if (node && typeof node === "object") {
+    if (isJobPosting(node)) out.push(node);
+    else {
+      if (node["@graph"]) collectJobPostings(node["@graph"], out);
+      if (node.itemListElement) collectJobPostings(asArray(node.itemListElement).map((i: any) => i.item || i), out);
+    }
+  }
+  return out;
+}
+
+// Text or HTML property, or structured values like EducationalOccupationalCredential
+function propertyText(value: unknown): string {
+  return htmlToText(
+    asArray(value)
+      .map((v: any) => (v && typeof v === "object" ? str(v.description) || str(v.name) || str(v.credentialCategory) : str(v)))
+      .filter(Boolean)
+      .join("\n")
+  )
+    .split("\n")
+    .map((l) => l.replace(/^[-•]\s*/, ""))
+    .join("\n");
+}
+
+function jsonLdLocation(posting: any): StructuredLocation | null {
+  const place = asArray(posting.jobLocation)[0];
+  const address = place?.address;
+  if (address && typeof address === "object") {
+    const country = str(address.addressCountry?.name ?? address.addressCountry);
+    const code = country.length === 2 ? country.toUpperCase() : inferCountryCode(country);
+    return {
+      country_code: code,
+      region: str(address.addressRegion) || null,
+      city: str(address.addressLocality) || null,
+    };
+  }
+  if (typeof address === "string") return locationFromText(address);
+
+  const applicant = asArray(posting.applicantLocationRequirements)[0];
+  const name = str(applicant?.name);
+  return name ? { ...EMPTY_LOCATION, country_code: inferCountryCode(name) } : null;
+}
+
+function fromJsonLd(posting: any): ImportedJob {
+  const salaryValue = posting.baseSalary?.value;
+  const salary =
+    posting.baseSalary && typeof salaryValue === "object"
+      ? salaryFrom(
+          posting.baseSalary.currency ?? salaryValue.currency,
+          salaryValue.minValue ?? salaryValue.value,
+          salaryValue.maxValue,
+          salaryValue.unitText ?? posting.baseSalary.unitText
+        )
+      : posting.baseSalary
+      ? salaryFrom(posting.baseSalary.currency, salaryValue, null, posting.baseSalary.unitText)
+      : null;
+
+  let fields: ImportedJob["fields"] = {
+    title: str(posting.title),
+    company_name: str(posting.hiringOrganization?.name ?? posting.hiringOrganization),
+    employment_type: mapEmploymentType(asArray(posting.employmentType).map(str).join(" ")),
+    remote_type: str(posting.jobLocationType).toUpperCase() === "TELECOMMUTE" ? "Remote" : "",
+    keywords: textList(posting.skills) || str(posting.occupationalCategory),
+    apply_url: str(posting.url),
+  };
+
+  fields = withDescription(fields, htmlToText(posting.description));
+
+  // Dedicated JobPosting properties beat whatever the description headings said
+  const responsibilities = propertyText(posting.responsibilities);
+  const qualifications = [posting.qualifications, posting.experienceRequirements, posting.educationRequirements]
+    .map(propertyText)
+    .filter(Boolean)
+    .join("\n");
+  const benefits = propertyText(posting.jobBenefits);
+
+  if (responsibilities) fields.key_responsibilities = responsibilities;
+  if (qualifications) fields.must_have_qualifications = qualifications;
+  if (benefits) fields.what_we_offer = benefits;
+
+  const validThrough = str(posting.validThrough);
+  const expires = validThrough && !Number.isNaN(Date.parse(validThrough)) ? new Date(validThrough).toISOString() : null;
+
+  return {
+    source: "json-ld",
+    externalId: str(posting.identifier?.value ?? posting.identifier) || null,
+    fields: compact(fields),
+    location: jsonLdLocation(posting),
+    salary,
+    expiresAt: expires,
+  };
+}
+
+function isGreenhouseJob(node: any) {
+  return node && typeof node === "object" && "absolute_url" in node && "title" in node;
+}
+
+function fromGreenhouse(job: any): ImportedJob {
+  const metadata = asArray(job.metadata);
+  const meta = (pattern: RegExp) => {
+    const m = metadata.find((x: any) => pattern.test(str(x?.name)));
+    return m ? asArray(m.value).map(str).join(" ") : "";
+  };
+
+  let fields: ImportedJob["fields"] = {
+    title: str(job.title),
+    company_name: str(job.company_name),
+    employment_type: mapEmploymentType(meta(/employment|job type|commitment/i)),
+    remote_type: mapRemoteType(`${meta(/remote|workplace|location type/i)} ${str(job.location?.name)}`),
+    apply_url: str(job.absolute_url),
+  };
+  fields = withDescription(fields, htmlToText(job.content));
+
+  return {
+    source: "greenhouse",
+    externalId: str(job.id) || null,
+    fields: compact(fields),
+    location: locationFromText(str(job.location?.name) || str(asArray(job.offices)[0]?.location)),
+    salary: null,
+    expiresAt: null,
+  };
+}
+
+function isLeverPosting(node: any) {
+  return node && typeof node === "object" && "hostedUrl" in node && ("text" in node || "categories" in node);
+}
+
+function fromLever(posting: any): ImportedJob {
+  const categories = posting.categories || {};
+  const descriptionText = htmlToText(posting.description) || str(posting.descriptionPlain);
+
+  let fields: ImportedJob["fields"] = {
+    title: str(posting.text),
+    employment_type: mapEmploymentType(str(categories.commitment)),
+    remote_type: mapRemoteType(str(posting.workplaceType)),
+    apply_url: str(posting.applyUrl) || str(posting.hostedUrl),
+    keywords: [str(categories.team), str(categories.department)].filter(Boolean).join(", "),
+  };
+  fields = withDescription(fields, descriptionText);
+
+  // Lever keeps bulleted sections in `lists`, each with its own heading
+  for (const list of asArray(posting.lists)) {
+    const key = classifyHeading(str(list?.text));
+    const items = htmlToText(list?.content)
+      .split("\n")
+      .map((l) => l.replace(/^[-•]\s*/, ""))
+      .filter(Boolean)
+      .join("\n");
+    if (!items) continue;
+    if (key && key !== "role") fields[key] = items;
+    else fields.additional_description = [fields.additional_description, str(list?.text), items].filter(Boolean).join("\n");
+  }
+
+  const additional = htmlToText(posting.additional) || str(posting.additionalPlain);
+  if (additional) fields.additional_description = [fields.additional_description, additional].filter(Boolean).join("\n");
+
+  const range = posting.salaryRange;
+  return {
+    source: "lever",
+    externalId: str(posting.id) || null,
+    fields: compact(fields),
+    location: locationFromText(str(categories.location) || str(asArray(categories.allLocations)[0])),
+    salary: range ? salaryFrom(range.currency, range.min, range.max, range.interval) : null,
+    expiresAt: null,
+  };
+}
+
+// <script type="application/ld+json"> blocks of a careers page
+function jsonLdBlocks(html: string): any[] {
+  const blocks: any[] = [];
+  const re = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(html))) {
+    try {
+      blocks.push(JSON.parse(m[1].trim()));
+    } catch {
+      // A broken block elsewhere on the page shouldn't hide the posting
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Parses pasted or uploaded content into importable jobs. Returns an error
+ * message instead of throwing when nothing recognisable was found.
+ */
+export function parseJobImport(input: string): JobImportResult {
+  const text = (input || "").trim();
+  if (!text) return { jobs: [], error: "Paste a job posting or choose a file first." };
+
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    if (!/<script/i.test(text)) {
+      return { jobs: [], error: "This isn't JSON, and no JSON-LD script was found in it." };
+    }
+    data = jsonLdBlocks(text);
+  }
+
+  const postings = collectJobPostings(data);
+  if (postings.length > 0) return { jobs: postings.map(fromJsonLd), error: null };
+
+  const greenhouse = Array.isArray(data?.jobs) ? data.jobs.filter(isGreenhouseJob) : isGreenhouseJob(data) ? [data] : [];
+  if (greenhouse.length > 0) return { jobs: greenhouse.map(fromGreenhouse), error: null };
+
+  const lever = asArray(data).filter(isLeverPosting);
+  if (lever.length > 0) return { jobs: lever.map(fromLever), error: null };
+
+  return {
+    jobs: [],
+    error: "No JobPosting JSON-LD, Greenhouse or Lever job was found in this content.",
+  };
+}
@@ -0,0 +1,177 @@
+// lib/jobJsonLd.ts
+//
+// schema.org JobPosting for a job, embedded on /jobs/[id] and attached to JSON
+// Feed items so career offices and job search engines can pick listings up.
+// The inverse (reading other sites' JobPosting) lives in lib/jobImport.
+
+import { countryName, rowCountryCode } from "./locations";
+import { hasStructuredSalary, isSalaryPeriod } from "./salary";
+
+export type JsonLdJob = {
+  id: string;
+  title: string | null;
+  company_name: string | null;
+  org_slug?: string | null;
+  location: string | null;
+  country_code?: string | null;
+  region?: string | null;
+  city?: string | null;
+  employment_type: string | null;
+  remote_type: string | null;
+  short_description: string | null;
+  additional_description: string | null;
+  role?: string | null;
+  key_responsibilities?: string | null;
+  must_have_qualifications?: string | null;
+  ideal_qualifications?: string | null;
+  what_we_offer?: string | null;
+  keywords: string | null;
+  salary_min?: number | null;
+  salary_max?: number | null;
+  salary_currency?: string | null;
+  salary_period?: string | null;
+  apply_url?: string | null;
+  created_at?: string | null;
+  publish_at?: string | null;
+  expires_at?: string | null;
+};
+
+// Job form employment types onto schema.org's EmploymentType values
+const EMPLOYMENT_TYPE_MAP: Record<string, string> = {
+  "Full-time": "FULL_TIME",
+  "Part-time": "PART_TIME",
+  Internship: "INTERN",
+  Contract: "CONTRACTOR",
+  PhD: "FULL_TIME",
+  Postdoc: "FULL_TIME",
+  Fellowship: "OTHER",
+  Other: "OTHER",
+};
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function lines(value: string | null | undefined) {
+  return (value || "")
+    .split("\n")
+    .map((l) => l.replace(/^[-•*]\s*/, "").trim())
+    .filter(Boolean);
+}
+
+/** The job's structured sections as simple HTML (JobPosting.description allows it). */
+export function jobDescriptionHtml(job: JsonLdJob): string {
+  const parts: string[] = [];
+  const intro = (job.role || job.short_description || "").trim();
+  if (intro) parts.push(`<p>${escapeHtml(intro)}</p>`);
+
+  const sections: [string, string | null | undefined][] = [
+    ["Key responsibilities", job.key_responsibilities],
+    ["Must-have qualifications", job.must_have_qualifications],
+    ["Ideal qualifications", job.ideal_qualifications],
+    ["What we offer", job.what_we_offer],
+  ];
+  for (const [heading, value] of sections) {
+    const items = lines(value);
+    if (items.length === 0) continue;
+    parts.push(`<h3>${heading}</h3><ul>${items.map((i) => `<li>${escapeHtml(i)}</li>`).join("")}</ul>`);
+  }
+
+  const extra = (job.additional_description || "").trim();
+  if (extra) parts.push(`<p>${escapeHtml(extra).replace(/\n/g, "<br>")}</p>`);
+
+  return parts.join("\n");
+}
+
+/**
+ * Applies the same fallbacks as the job page for rows filled by the backend
+ * importer (organisation_name, location_text, description) and org-posted rows
+ * (company from the joined organizations row).
+ */
+export function jsonLdJobFromRow(row: any): JsonLdJob {
+  return {
+    ...row,
+    company_name: row.company_name ?? row.organisation_name ?? row.organizations?.name ?? null,
+    org_slug: row.organizations?.slug ?? null,
+    location: row.location ?? row.location_text ?? null,
+    additional_description: row.additional_description ?? row.description ?? null,
+  };
+}
+
+export function jobUrl(job: { id: string }, siteUrl: string) {
+  return `${siteUrl.replace(/\/$/, "")}/jobs/${encodeURIComponent(job.id)}`;
+}
+
+export function jobPostingJsonLd(job: JsonLdJob, siteUrl: string) {
+  const base = siteUrl.replace(/\/$/, "");
+  const countryCode = rowCountryCode(job);
+  const remote = (job.remote_type || "").toLowerCase() === "remote";
+
+  const posting: Record<string, any> = {
+    "@context": "https://schema.org/",
+    "@type": "JobPosting",
+    title: job.title || "Untitled role",
+    description: jobDescriptionHtml(job) || escapeHtml(job.title || ""),
+    identifier: { "@type": "PropertyValue", name: "Quantum5ocial", value: job.id },
+    url: jobUrl(job, base),
+    datePosted: job.publish_at || job.created_at || undefined,
+    validThrough: job.expires_at || undefined,
+    // Without an external apply_url candidates apply on the job page itself
+    directApply: !job.apply_url,
+    hiringOrganization: {
+      "@type": "Organization",
+      name: job.company_name || "Quantum5ocial",
+      ...(job.org_slug ? { sameAs: `${base}/orgs/${encodeURIComponent(job.org_slug)}` } : {}),
+    },
+  };
+
+  const employmentType = job.employment_type ? EMPLOYMENT_TYPE_MAP[job.employment_type] : null;
+  if (employmentType) posting.employmentType = employmentType;
+
+  if (job.keywords) {
+    posting.skills = job.keywords
+      .split(",")
+      .map((k) => k.trim())
+      .filter(Boolean)
+      .join(", ");
+  }
+
+  if (countryCode || job.city) {
+    posting.jobLocation = {
+      "@type": "Place",
+      address: {
+        "@type": "PostalAddress",
+        ...(job.city ? { addressLocality: job.city } : {}),
+        ...(job.region ? { addressRegion: job.region } : {}),
+        ...(countryCode ? { addressCountry: countryCode } : {}),
+      },
+    };
+  }
+
+  if (remote) {
+    posting.jobLocationType = "TELECOMMUTE";
+    if (countryCode) {
+      posting.applicantLocationRequirements = { "@type": "Country", name: countryName(countryCode) };
+    }
+  }
+
+  if (hasStructuredSalary(job)) {
+    posting.baseSalary = {
+      "@type": "MonetaryAmount",
+      currency: job.salary_currency,
+      value: {
+        "@type": "QuantitativeValue",
+        ...(job.salary_min != null ? { minValue: Number(job.salary_min) } : {}),
+        ...(job.salary_max != null ? { maxValue: Number(job.salary_max) } : {}),
+        unitText: isSalaryPeriod(job.salary_period) && job.salary_period !== "annual" ? "MONTH" : "YEAR",
+      },
+    };
+  }
+
+  return posting;
+}
+
+// JSON for a <script type="application/ld+json"> body; "<" is escaped so text can't close the tag
+export function jsonLdScript(data: unknown) {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
@@ -0,0 +1,177 @@
+// lib/jobLifecycle.ts
+//
+// Job posting lifecycle. Columns on `jobs`:
+//   status              draft | scheduled | published | closed | expired
+//   publish_at          when a scheduled job goes live
+//   expires_at          when a published job stops being listed
+//   expiry_notified_at  set once the owner got the "expiring soon" notification
+// `is_published` is kept in sync (true only while live) because search, chat
+// stats and older readers still filter on it. /api/jobs/lifecycle applies the
+// date-driven transitions on a schedule; effectiveJobStatus() covers the gap
+// between runs so a stale posting is never shown.
+
+export const JOB_STATUSES = ["draft", "scheduled", "published", "closed", "expired"] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  published: "Published",
+  closed: "Closed",
+  expired: "Expired",
+};
+
+export const JOB_STATUS_COLORS: Record<JobStatus, string> = {
+  draft: "#94a3b8",
+  scheduled: "#a855f7",
+  published: "#22c55e",
+  closed: "#f59e0b",
+  expired: "#f87171",
+};
+
+export const DEFAULT_JOB_LIFETIME_DAYS = 60;
+export const EXPIRY_WARNING_DAYS = 7;
+
+export const JOB_EXPIRY_NOTIFICATION_TYPE = "job_expiring";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type JobLifecycleRow = {
+  status?: string | null;
+  is_published?: boolean | null;
+  publish_at?: string | null;
+  expires_at?: string | null;
+};
+
+export function isJobStatus(value: unknown): value is JobStatus {
+  return typeof value === "string" && (JOB_STATUSES as readonly string[]).includes(value);
+}
+
+function isPast(iso: string | null | undefined, now: Date) {
+  if (!iso) return false;
+  const t = Date.parse(iso);
+  return !Number.isNaN(t) && t <= now.getTime();
+}
+
+/**
+ * Status as of `now`, applying due publish/expiry dates that the scheduled run
+ * may not have written yet. Rows from before the lifecycle fall back to is_published.
+ */
+export function effectiveJobStatus(job: JobLifecycleRow, now = new Date()): JobStatus {
+  let status: JobStatus = isJobStatus(job.status)
+    ? job.status
+    : job.is_published === false
+    ? "draft"
+    : "published";
+
+  if (status === "scheduled" && isPast(job.publish_at, now)) status = "published";
+  if (status === "published" && isPast(job.expires_at, now)) status = "expired";
+  return status;
+}
+
+export function isJobLive(job: JobLifecycleRow, now = new Date()) {
+  return effectiveJobStatus(job, now) === "published";
+}
+
+/**
+ * isJobLive() as PostgREST `or` filters, one `.or()` each, so a query only
+ * returns live jobs. Rows from before the lifecycle (no status) count as live
+ * unless is_published is false, as in effectiveJobStatus().
+ */
+export function liveJobOrFilters(now = new Date()) {
+  const at = now.toISOString();
+  return [
+    `status.eq.published,and(status.eq.scheduled,publish_at.lte.${at}),and(status.is.null,is_published.is.null),and(status.is.null,is_published.is.true)`,
+    `expires_at.is.null,expires_at.gt.${at}`,
+  ];
+}
+
+// datetime-local inputs round to the minute, so stored and edited values compare at that precision
+function sameMinute(a: string | null, b: string | null) {
+  if (!a || !b) return a === b;
+  return Math.floor(Date.parse(a) / 60000) === Math.floor(Date.parse(b) / 60000);
+}
+
+export function defaultExpiresAt(from = new Date()) {
+  return new Date(from.getTime() + DEFAULT_JOB_LIFETIME_DAYS * DAY_MS).toISOString();
+}
+
+export type PublishIntent = "draft" | "publish" | "close";
+
+/**
+ * Lifecycle columns for a save from the posting forms. "publish" with a future
+ * publish_at schedules the job; a missing expiry defaults to DEFAULT_JOB_LIFETIME_DAYS
+ * after it goes live. Pass the stored expiry when editing so the owner is only
+ * warned again when the date actually moved.
+ */
+export function jobLifecyclePayload(
+  intent: PublishIntent,
+  publishAt: string | null,
+  expiresAt: string | null,
+  previousExpiresAt: string | null = null,
+  now = new Date()
+) {
+  const scheduled = intent === "publish" && !!publishAt && !isPast(publishAt, now);
+  const liveFrom = scheduled ? new Date(publishAt!) : now;
+
+  const status: JobStatus =
+    intent === "draft" ? "draft" : intent === "close" ? "closed" : scheduled ? "scheduled" : "published";
+
+  const expires_at = expiresAt || (intent === "publish" ? defaultExpiresAt(liveFrom) : null);
+
+  return {
+    status,
+    is_published: status === "published",
+    publish_at: intent === "publish" ? publishAt || now.toISOString() : publishAt,
+    expires_at,
+    ...(sameMinute(expires_at, previousExpiresAt) ? {} : { expiry_notified_at: null }),
+  };
+}
+
+// Validation message for the posting forms, or null when the dates are usable
+export function lifecycleDateError(
+  intent: PublishIntent,
+  publishAt: string | null,
+  expiresAt: string | null,
+  now = new Date()
+) {
+  if (intent !== "publish" || !expiresAt) return null;
+  const liveFrom = Math.max(now.getTime(), publishAt ? Date.parse(publishAt) || 0 : 0);
+  return Date.parse(expiresAt) <= liveFrom
+    ? "The expiry date must be in the future and after the publish date."
+    : null;
+}
+
+// One-click renew from the expiry notification: live again for another full term
+export function jobRenewalPayload(now = new Date()) {
+  return {
+    status: "published" as JobStatus,
+    is_published: true,
+    expires_at: defaultExpiresAt(now),
+    expiry_notified_at: null,
+  };
+}
+
+export function daysUntil(iso: string | null | undefined, now = new Date()) {
+  if (!iso) return null;
+  const t = Date.parse(iso);
+  if (Number.isNaN(t)) return null;
+  return Math.ceil((t - now.getTime()) / DAY_MS);
+}
+
+// ISO timestamp <-> value of an <input type="datetime-local"> in the user's timezone
+export function toDateTimeLocal(iso: string | null | undefined) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(
+    d.getMinutes()
+  )}`;
+}
+
+export function fromDateTimeLocal(value: string) {
+  if (!value) return null;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
@@ -0,0 +1,183 @@
+// lib/jobMatch.ts
+//
+// Explainable job match score for the signed-in viewer. /api/jobs/recommend
+// combines the embedding similarity between the profile and the job's search
+// document with the overlap of profile `skills` / `focus_areas` against job
+// `keywords`, `quantum_domain` and `seniority_level`. The parts that went into
+// the score travel with it so cards can say why a role fits and what is missing.
+
+export type MatchProfile = {
+  role: string | null;
+  skills: string | null;
+  focus_areas: string | null;
+};
+
+export type MatchJob = {
+  id: string;
+  keywords: string | null;
+  quantum_domain: string | null;
+  seniority_level: string | null;
+};
+
+export type JobMatch = {
+  jobId: string;
+  score: number; // 0-100
+  similarity: number | null;
+  matchedSkills: string[];
+  missingSkills: string[];
+  reasons: string[];
+};
+
+// Relative weight of each signal; signals a job or profile has no data for are left out
+const WEIGHTS = {
+  similarity: 0.4,
+  skills: 0.4,
+  domain: 0.1,
+  seniority: 0.1,
+};
+
+// match_documents similarities for related jobs sit roughly in this band
+const SIMILARITY_FLOOR = 0.1;
+const SIMILARITY_CEIL = 0.6;
+
+// Chips shown per card; the full lists are still returned
+export const MAX_MATCH_CHIPS = 5;
+
+// How many loaded jobs one request may score
+export const MAX_SCORED_JOBS = 200;
+
+export function splitTags(value: string | null | undefined): string[] {
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  for (const raw of (value || "").split(/[,;\n]/)) {
+    const tag = raw.trim();
+    const key = normalizeTag(tag);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    tags.push(tag);
+  }
+  return tags;
+}
+
+function normalizeTag(tag: string) {
+  return tag
+    .toLowerCase()
+    .replace(/[^a-z0-9+#]+/g, " ")
+    .trim();
+}
+
+// "Qiskit" matches "Qiskit SDK", "error correction" matches "quantum error correction"
+function tagsMatch(a: string, b: string) {
+  const x = normalizeTag(a);
+  const y = normalizeTag(b);
+  if (!x || !y) return false;
+  if (x === y) return true;
+  const [short, long] = x.length <= y.length ? [x, y] : [y, x];
+  return short.length >= 3 && ` ${long} `.includes(` ${short} `);
+}
+
+// Career stage on a rough 0 (student) .. 4 (lead / executive) scale, or null when unknown
+function seniorityRank(value: string | null | undefined): number | null {
+  const v = (value || "").toLowerCase();
+  if (!v.trim()) return null;
+  if (/intern|student|bachelor|master|graduate|trainee/.test(v)) return 0;
+  if (/junior|entry|phd|associate/.test(v)) return 1;
+  if (/principal|lead|head|director|professor|founder|executive|chief|manager|architect/.test(v)) return 4;
+  if (/senior|staff/.test(v)) return 3;
+  if (/mid|postdoc|engineer|scientist|physicist|developer|researcher|professional/.test(v)) return 2;
+  return null;
+}
+
+function clamp01(n: number) {
+  return Math.max(0, Math.min(1, n));
+}
+
+export function scoreJobMatch(
+  profile: MatchProfile,
+  job: MatchJob,
+  similarity: number | null
+): JobMatch {
+  const profileTags = [...splitTags(profile.skills), ...splitTags(profile.focus_areas)];
+  const hasTag = (tag: string) => profileTags.some((p) => tagsMatch(p, tag));
+
+  const jobSkills = splitTags(job.keywords);
+  const matchedSkills = jobSkills.filter(hasTag);
+  const missingSkills = jobSkills.filter((s) => !hasTag(s));
+
+  const domains = splitTags(job.quantum_domain);
+  const matchedDomain = domains.find(hasTag) || null;
+
+  const jobRank = seniorityRank(job.seniority_level);
+  const profileRank = seniorityRank(profile.role);
+
+  const parts: { weight: number; value: number }[] = [];
+  const reasons: string[] = [];
+
+  if (similarity !== null) {
+    const value = clamp01((similarity - SIMILARITY_FLOOR) / (SIMILARITY_CEIL - SIMILARITY_FLOOR));
+    parts.push({ weight: WEIGHTS.similarity, value });
+    if (value >= 0.6) reasons.push("Your profile closely matches the role description");
+    else if (value >= 0.3) reasons.push("Your profile is related to the role description");
+  }
+
+  if (jobSkills.length > 0) {
+    parts.push({ weight: WEIGHTS.skills, value: matchedSkills.length / jobSkills.length });
+    if (matchedSkills.length > 0) {
+      reasons.push(`You have ${matchedSkills.length} of ${jobSkills.length} listed skills`);
+    }
+  }
+
+  if (domains.length > 0) {
+    parts.push({ weight: WEIGHTS.domain, value: matchedDomain ? 1 : 0 });
+    if (matchedDomain) reasons.push(`Works in ${matchedDomain}`);
+  }
+
+  if (jobRank !== null && profileRank !== null) {
+    const gap = Math.abs(jobRank - profileRank);
+    parts.push({ weight: WEIGHTS.seniority, value: gap === 0 ? 1 : gap === 1 ? 0.5 : 0 });
+    if (gap === 0) reasons.push(`${job.seniority_level} level fits your career stage`);
+  }
+
+  const totalWeight = parts.reduce((sum, p) => sum + p.weight, 0);
+  const score = totalWeight
+    ? Math.round((100 * parts.reduce((sum, p) => sum + p.weight * p.value, 0)) / totalWeight)
+    : 0;
+
+  return {
+    jobId: job.id,
+    score,
+    similarity,
+    matchedSkills,
+    missingSkills,
+    reasons,
+  };
+}
+
+export function matchScoreColor(score: number) {
+  if (score >= 70) return "#22c55e";
+  if (score >= 40) return "#f59e0b";
+  return "#94a3b8";
+}
+
+/**
+ * Match scores for the given jobs (or the best embedding matches when none are
+ * given). Scores are an enhancement, so failures are logged and yield no matches.
+ */
+export async function fetchJobMatches(userId: string, jobIds?: string[]): Promise<JobMatch[]> {
+  try {
+    const res = await fetch("/api/jobs/recommend", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ userId, jobIds: jobIds?.slice(0, MAX_SCORED_JOBS) }),
+    });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      console.error("Job match error", data?.error || res.status);
+      return [];
+    }
+    return Array.isArray(data?.matches) ? data.matches : [];
+  } catch (err) {
+    console.error("Failed to fetch job matches", err);
+    return [];
+  }
+}
@@ -0,0 +1,188 @@
+// lib/locations.ts
+//
+// Structured locations shared by jobs, products and organizations:
+//   country_code  ISO 3166-1 alpha-2, upper case (e.g. "CH")
+//   region        state / canton / province (free text)
+//   city          free text
+// The older free-text columns (jobs.location, organizations.country) are still
+// written for display; rows that predate country_code fall back to
+// inferCountryCode() on that text.
+
+export type StructuredLocation = {
+  country_code: string | null;
+  region: string | null;
+  city: string | null;
+};
+
+export const EMPTY_LOCATION: StructuredLocation = { country_code: null, region: null, city: null };
+
+// ISO 3166-1 alpha-2
+export const COUNTRY_CODES = (
+  "AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV " +
+  "BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES " +
+  "ET FI FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE " +
+  "IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY " +
+  "MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU " +
+  "NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM " +
+  "SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG UM US UY UZ VA VC VE " +
+  "VG VI VN VU WF WS YE YT ZA ZM ZW"
+).split(" ");
+
+const COUNTRY_CODE_SET = new Set(COUNTRY_CODES);
+
+// Spellings people actually type that differ from the English display names
+const COUNTRY_ALIASES: Record<string, string> = {
+  uk: "GB",
+  "u.k.": "GB",
+  "great britain": "GB",
+  britain: "GB",
+  england: "GB",
+  scotland: "GB",
+  wales: "GB",
+  "northern ireland": "GB",
+  usa: "US",
+  "u.s.": "US",
+  "u.s.a.": "US",
+  "united states of america": "US",
+  california: "US",
+  massachusetts: "US",
+  "new york": "US",
+  "new jersey": "US",
+  "new mexico": "US",
+  washington: "US",
+  colorado: "US",
+  illinois: "US",
+  maryland: "US",
+  texas: "US",
+  holland: "NL",
+  "the netherlands": "NL",
+  deutschland: "DE",
+  schweiz: "CH",
+  suisse: "CH",
+  svizzera: "CH",
+  "czech republic": "CZ",
+  turkey: "TR",
+  korea: "KR",
+  "republic of korea": "KR",
+  russia: "RU",
+  "hong kong": "HK",
+  taiwan: "TW",
+  uae: "AE",
+};
+
+let displayNames: Intl.DisplayNames | null | undefined;
+
+function regionDisplayNames() {
+  if (displayNames === undefined) {
+    try {
+      displayNames = new Intl.DisplayNames(["en"], { type: "region" });
+    } catch {
+      displayNames = null;
+    }
+  }
+  return displayNames;
+}
+
+export function isCountryCode(value: string | null | undefined): value is string {
+  return !!value && COUNTRY_CODE_SET.has(value);
+}
+
+export function countryName(code: string | null | undefined): string {
+  if (!code) return "";
+  const upper = code.toUpperCase();
+  if (!isCountryCode(upper)) return code;
+  return regionDisplayNames()?.of(upper) || upper;
+}
+
+let countryOptions: { code: string; name: string }[] | null = null;
+
+// All countries sorted by English name, for pickers
+export function getCountryOptions() {
+  if (!countryOptions) {
+    countryOptions = COUNTRY_CODES.map((code) => ({ code, name: countryName(code) })).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+  return countryOptions;
+}
+
+let nameIndex: Map<string, string> | null = null;
+
+function countryNameIndex() {
+  if (!nameIndex) {
+    nameIndex = new Map(Object.entries(COUNTRY_ALIASES));
+    for (const { code, name } of getCountryOptions()) {
+      if (name !== code) nameIndex.set(name.toLowerCase(), code);
+    }
+  }
+  return nameIndex;
+}
+
+/**
+ * Best-effort ISO code for free text like "Basel, Switzerland" or "Boston, MA, USA".
+ * Comma/slash separated parts are matched whole (last part first) before looking
+ * for a country name anywhere in the text. Returns null when nothing matches.
+ */
+export function inferCountryCode(text: string | null | undefined): string | null {
+  const value = (text || "").trim();
+  if (!value) return null;
+
+  const index = countryNameIndex();
+  const parts = value
+    .split(/[,/|()]| - /)
+    .map((p) => p.trim().toLowerCase())
+    .filter(Boolean)
+    .reverse();
+
+  for (const part of parts) {
+    const code = index.get(part);
+    if (code) return code;
+  }
+
+  // Whole-word search, longest names first so "New Mexico" wins over "Mexico"
+  const lower = ` ${value.toLowerCase().replace(/[^a-z0-9.\u00c0-\u024f]+/g, " ")} `;
+  const names = Array.from(index.keys()).sort((a, b) => b.length - a.length);
+  for (const name of names) {
+    if (lower.includes(` ${name} `)) return index.get(name)!;
+  }
+
+  return null;
+}
+
+/**
+ * Country for a row that may or may not have been migrated to country_code.
+ */
+export function rowCountryCode(row: {
+  country_code?: string | null;
+  location?: string | null;
+  country?: string | null;
+}): string | null {
+  const code = row.country_code?.toUpperCase();
+  if (isCountryCode(code)) return code;
+  return inferCountryCode(row.country) || inferCountryCode(row.location);
+}
+
+// "Basel, Basel-Stadt, Switzerland"
+export function formatLocation(loc: Partial<StructuredLocation>): string {
+  return [loc.city, loc.region, countryName(loc.country_code)]
+    .map((p) => (p || "").trim())
+    .filter(Boolean)
+    .join(", ");
+}
+
+/**
+ * Structured guess for a legacy free-text location, used to prefill pickers.
+ * Only the country is reliable; the first remaining part is taken as the city.
+ */
+export function parseLegacyLocation(text: string | null | undefined): StructuredLocation {
+  const country_code = inferCountryCode(text);
+  if (!country_code) return { ...EMPTY_LOCATION };
+
+  const index = countryNameIndex();
+  const rest = (text || "")
+    .split(",")
+    .map((p) => p.trim())
+    .filter((p) => p && index.get(p.toLowerCase()) !== country_code);
+
+  return { country_code, region: null, city: rest[0] || null };
+}
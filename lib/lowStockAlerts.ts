@@ -0,0 +1,93 @@
+// lib/lowStockAlerts.ts
+//
+// Server side of low-stock alerts, shared by /api/products/low-stock (after the
+// product form saves) and /api/products/inventory (bulk CSV updates).
+// Needs a service-role client: it notifies every manager of the owning org.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { orgManagerIds } from "./apiAuth";
+import { LOW_STOCK_NOTIFICATION_TYPE, StockFields, isLowStock, isRestocked, lowStockThreshold } from "./productVariants";
+
+type AlertItem = StockFields & { id: string; name: string; low_stock_alerted_at: string | null };
+
+/**
+ * Notifies the managers of each product whose own stock or any variant's stock
+ * has dropped to its low-stock threshold. Every item alerts once until it is
+ * restocked above the threshold. Returns the number of notifications created.
+ */
+export async function sendLowStockAlerts(supabase: SupabaseClient, productIds: string[]): Promise<number> {
+  if (productIds.length === 0) return 0;
+
+  const [{ data: products, error: productsError }, { data: variants, error: variantsError }] = await Promise.all([
+    supabase
+      .from("products")
+      .select("id, name, org_id, owner_id, in_stock, stock_quantity, low_stock_threshold, low_stock_alerted_at")
+      .in("id", productIds),
+    supabase
+      .from("product_variants")
+      .select("id, product_id, name, in_stock, stock_quantity, low_stock_alerted_at")
+      .in("product_id", productIds)
+      .order("position", { ascending: true }),
+  ]);
+
+  if (productsError) throw productsError;
+  if (variantsError) throw variantsError;
+
+  const variantsByProduct = new Map<string, AlertItem[]>();
+  (variants || []).forEach((v: any) => {
+    const list = variantsByProduct.get(v.product_id) || [];
+    list.push(v);
+    variantsByProduct.set(v.product_id, list);
+  });
+
+  const now = new Date().toISOString();
+  let notified = 0;
+
+  for (const product of products || []) {
+    const productVariants = variantsByProduct.get(product.id) || [];
+    const table = productVariants.length > 0 ? "product_variants" : "products";
+    const items: AlertItem[] = productVariants.length > 0 ? productVariants : [product];
+    const threshold = lowStockThreshold(product);
+
+    const newlyLow = items.filter((item) => isLowStock(item, threshold) && !item.low_stock_alerted_at);
+    const restocked = items.filter((item) => isRestocked(item, threshold) && item.low_stock_alerted_at);
+
+    if (restocked.length > 0) {
+      const { error } = await supabase
+        .from(table)
+        .update({ low_stock_alerted_at: null })
+        .in("id", restocked.map((item) => item.id));
+      if (error) throw error;
+    }
+
+    if (newlyLow.length === 0) continue;
+
+    const summary =
+      table === "products"
+        ? `${newlyLow[0].stock_quantity} left`
+        : newlyLow.map((v) => `${v.name}: ${v.stock_quantity} left`).join(", ");
+
+    const rows = (await orgManagerIds(supabase, product.owner_id, product.org_id)).map((id) => ({
+      user_id: id,
+      type: LOW_STOCK_NOTIFICATION_TYPE,
+      title: `Low stock: ${product.name || "product"}`,
+      message: `${summary} (threshold ${threshold})`,
+      link_url: `/products/${product.id}`,
+      is_read: false,
+    }));
+
+    if (rows.length > 0) {
+      const { error: notifyError } = await supabase.from("notifications").insert(rows);
+      if (notifyError) throw notifyError;
+      notified += rows.length;
+    }
+
+    const { error: markError } = await supabase
+      .from(table)
+      .update({ low_stock_alerted_at: now })
+      .in("id", newlyLow.map((item) => item.id));
+    if (markError) throw markError;
+  }
+
+  return notified;
+}
@@ -0,0 +1,219 @@
+// lib/orgAnalytics.ts
+//
+// First-party analytics for organization pages, kept in our own tables so org
+// owners can see how their profile, jobs and products are doing.
+//
+// org_analytics_events: id, org_id, event_type, subject_id, visitor_id, created_at
+//   One row per interaction, written only by /api/analytics/events with the
+//   service key. subject_id is the job or product id, or the org id for
+//   org-level events (views, follows). visitor_id is the signed-in user's id or
+//   `anon:<random id>` kept in the browser's localStorage. Raw rows other than
+//   follows and unfollows are pruned after RAW_EVENT_RETENTION_DAYS.
+//
+// org_analytics_daily: org_id, day, event_type, subject_id, count, unique_visitors
+//   unique (org_id, day, event_type, subject_id). Rolled up from the raw events
+//   by the hourly /api/orgs/analytics/rollup cron; the analytics tab reads only
+//   this table.
+//
+// Views, impressions and apply clicks from the org's own members are not
+// recorded, and repeats by the same visitor within DEDUPE_WINDOW_MINUTES
+// count once. Follows and unfollows are recorded as they happen, only when
+// org_follows agrees and they change the user's last recorded follow state,
+// so follower growth can be rebuilt from the current follower count.
+
+import { apiFetch, authHeaders } from "./apiClient";
+import { formatCsv } from "./csv";
+
+export const ORG_EVENT_TYPES = [
+  "org_view",
+  "job_impression",
+  "job_view",
+  "apply_click",
+  "product_view",
+  "follow",
+  "unfollow",
+] as const;
+export type OrgEventType = (typeof ORG_EVENT_TYPES)[number];
+
+export const ORG_EVENT_LABELS: Record<OrgEventType, string> = {
+  org_view: "Profile views",
+  job_impression: "Job impressions",
+  job_view: "Job clicks",
+  apply_click: "Apply clicks",
+  product_view: "Product views",
+  follow: "Follows",
+  unfollow: "Unfollows",
+};
+
+// Events about a job, a product, or the org itself
+export const JOB_EVENT_TYPES: OrgEventType[] = ["job_impression", "job_view", "apply_click"];
+export const PRODUCT_EVENT_TYPES: OrgEventType[] = ["product_view"];
+export const FOLLOW_EVENT_TYPES: OrgEventType[] = ["follow", "unfollow"];
+
+export const MAX_EVENTS_PER_REQUEST = 50;
+export const DEDUPE_WINDOW_MINUTES = 30;
+export const RAW_EVENT_RETENTION_DAYS = 35;
+export const MAX_RANGE_DAYS = 366;
+export const DEFAULT_RANGE_DAYS = 30;
+
+export type OrgEventInput = {
+  type: OrgEventType;
+  id: string; // org id for org_view/follow/unfollow, else the job or product id
+};
+
+export type OrgAnalyticsDay = { day: string } & Record<OrgEventType, number> & {
+    visitors: number; // unique visitors to the profile that day
+    followers: number | null; // follower count at the end of the day
+  };
+
+export type OrgTopJob = {
+  id: string;
+  title: string | null;
+  job_impression: number;
+  job_view: number;
+  apply_click: number;
+};
+
+export type OrgTopProduct = {
+  id: string;
+  name: string | null;
+  product_view: number;
+};
+
+export type OrgAnalyticsReport = {
+  from: string;
+  to: string;
+  followers: number;
+  days: OrgAnalyticsDay[];
+  totals: Record<OrgEventType, number>;
+  topJobs: OrgTopJob[];
+  topProducts: OrgTopProduct[];
+};
+
+export function isOrgEventType(value: unknown): value is OrgEventType {
+  return typeof value === "string" && (ORG_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+export function emptyEventCounts(): Record<OrgEventType, number> {
+  const counts = {} as Record<OrgEventType, number>;
+  ORG_EVENT_TYPES.forEach((t) => (counts[t] = 0));
+  return counts;
+}
+
+// ---------- Days (UTC, YYYY-MM-DD) ----------
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isoDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export function isDay(value: unknown): value is string {
+  return typeof value === "string" && DAY_RE.test(value) && isoDay(new Date(`${value}T00:00:00Z`)) === value;
+}
+
+export function shiftDay(day: string, days: number) {
+  const d = new Date(`${day}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return isoDay(d);
+}
+
+/** Every day from `from` to `to`, inclusive. */
+export function daysBetween(from: string, to: string) {
+  const out: string[] = [];
+  for (let day = from; day <= to; day = shiftDay(day, 1)) out.push(day);
+  return out;
+}
+
+/** The last `days` days, ending today. */
+export function lastDaysRange(days: number, today = isoDay(new Date())) {
+  return { from: shiftDay(today, -(days - 1)), to: today };
+}
+
+// ---------- Capture ----------
+
+const VISITOR_KEY = "q5_visitor_id";
+const FLUSH_DELAY_MS = 1500;
+
+let queue: OrgEventInput[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let listening = false;
+
+function visitorId() {
+  try {
+    let id = window.localStorage.getItem(VISITOR_KEY);
+    if (!id) {
+      id = Math.random().toString(36).slice(2) + Date.now().toString(36);
+      window.localStorage.setItem(VISITOR_KEY, id);
+    }
+    return id;
+  } catch {
+    // Storage blocked: count the visit without tying it to earlier ones
+    return Math.random().toString(36).slice(2) + Date.now().toString(36);
+  }
+}
+
+async function flushOrgEvents() {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (queue.length === 0) return;
+
+  const events = queue.slice(0, MAX_EVENTS_PER_REQUEST);
+  queue = queue.slice(MAX_EVENTS_PER_REQUEST);
+  if (queue.length > 0) flushTimer = setTimeout(flushOrgEvents, FLUSH_DELAY_MS);
+
+  try {
+    // keepalive lets the last batch go out while the page unloads
+    const res = await fetch("/api/analytics/events", {
+      method: "POST",
+      keepalive: true,
+      headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+      body: JSON.stringify({ visitorId: visitorId(), events }),
+    });
+    if (!res.ok) console.warn("Analytics events rejected", res.status);
+  } catch (e) {
+    console.warn("Analytics events failed", e);
+  }
+}
+
+/**
+ * Records an org analytics event. Events are batched and sent in the
+ * background; failures are logged and never reach the caller.
+ */
+export function trackOrgEvent(type: OrgEventType, id: string | null | undefined) {
+  if (typeof window === "undefined" || !id) return;
+
+  queue.push({ type, id: String(id) });
+
+  if (!listening) {
+    listening = true;
+    window.addEventListener("pagehide", () => void flushOrgEvents());
+  }
+  if (!flushTimer) flushTimer = setTimeout(flushOrgEvents, FLUSH_DELAY_MS);
+}
+
+// ---------- Report ----------
+
+/** One row per day with every metric, for the "Export CSV" button. */
+export function dailyReportCsv(report: OrgAnalyticsReport) {
+  return formatCsv([
+    ["date", "visitors", ...ORG_EVENT_TYPES, "followers"],
+    ...report.days.map((d) => [d.day, d.visitors, ...ORG_EVENT_TYPES.map((t) => d[t]), d.followers]),
+  ]);
+}
+
+/** Top jobs and products in one sheet. */
+export function topContentCsv(report: OrgAnalyticsReport) {
+  return formatCsv([
+    ["kind", "id", "title", ...JOB_EVENT_TYPES, ...PRODUCT_EVENT_TYPES],
+    ...report.topJobs.map((j) => ["job", j.id, j.title, j.job_impression, j.job_view, j.apply_click, ""]),
+    ...report.topProducts.map((p) => ["product", p.id, p.name, "", "", "", p.product_view]),
+  ]);
+}
+
+export async function fetchOrgAnalytics(orgId: string, from: string, to: string) {
+  const params = new URLSearchParams({ orgId, from, to });
+  return apiFetch<OrgAnalyticsReport>(`/api/orgs/analytics?${params.toString()}`);
+}
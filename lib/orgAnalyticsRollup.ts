@@ -0,0 +1,80 @@
+// lib/orgAnalyticsRollup.ts
+//
+// Server-side rollup of org_analytics_events into org_analytics_daily (see
+// lib/orgAnalytics.ts). Rolling up a day recomputes it from the raw events
+// and upserts, so re-running a day, including the current one, is safe.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { FOLLOW_EVENT_TYPES, RAW_EVENT_RETENTION_DAYS, isoDay, shiftDay } from "./orgAnalytics";
+
+const EVENT_PAGE_SIZE = 1000;
+const UPSERT_CHUNK_SIZE = 500;
+
+type DailyRow = {
+  org_id: string;
+  day: string;
+  event_type: string;
+  subject_id: string;
+  count: number;
+  unique_visitors: number;
+};
+
+export async function rollUpOrgAnalyticsDay(supabase: SupabaseClient, day: string) {
+  const groups = new Map<string, { row: DailyRow; visitors: Set<string> }>();
+  const start = `${day}T00:00:00.000Z`;
+  const end = `${shiftDay(day, 1)}T00:00:00.000Z`;
+
+  for (let from = 0; ; from += EVENT_PAGE_SIZE) {
+    const { data: events, error } = await supabase
+      .from("org_analytics_events")
+      .select("org_id, event_type, subject_id, visitor_id")
+      .gte("created_at", start)
+      .lt("created_at", end)
+      .order("created_at", { ascending: true })
+      // Timestamps can tie; without a unique tiebreaker pages could skip or repeat rows
+      .order("id", { ascending: true })
+      .range(from, from + EVENT_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    for (const e of events || []) {
+      const key = `${e.org_id}|${e.event_type}|${e.subject_id}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          row: { org_id: e.org_id, day, event_type: e.event_type, subject_id: e.subject_id, count: 0, unique_visitors: 0 },
+          visitors: new Set<string>(),
+        };
+        groups.set(key, group);
+      }
+      group.row.count += 1;
+      group.visitors.add(e.visitor_id);
+    }
+
+    if (!events || events.length < EVENT_PAGE_SIZE) break;
+  }
+
+  const rows = Array.from(groups.values()).map(({ row, visitors }) => ({ ...row, unique_visitors: visitors.size }));
+  for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from("org_analytics_daily")
+      .upsert(rows.slice(i, i + UPSERT_CHUNK_SIZE), { onConflict: "org_id,day,event_type,subject_id" });
+    if (error) throw error;
+  }
+
+  return rows.length;
+}
+
+// Raw events past retention; their days were rolled up long before. Follow
+// events are kept: the events API checks new ones against each user's last one
+export async function pruneOrgAnalyticsEvents(supabase: SupabaseClient, now = new Date()) {
+  const cutoff = `${shiftDay(isoDay(now), -RAW_EVENT_RETENTION_DAYS)}T00:00:00.000Z`;
+  const { count, error } = await supabase
+    .from("org_analytics_events")
+    .delete({ count: "exact" })
+    .lt("created_at", cutoff)
+    .not("event_type", "in", `(${FOLLOW_EVENT_TYPES.join(",")})`);
+
+  if (error) throw error;
+  return count || 0;
+}
@@ -0,0 +1,208 @@
+// lib/orgVerification.ts
+//
+// Organization verification. An org's creator, owners or co-owners prove
+// control of the org's website domain (or a subdomain of it) in one of three ways:
+//   dns_txt       a TXT record `quantum5ocial-verification=<token>` on the domain
+//   file          https://<domain>/.well-known/quantum5ocial-verification.txt containing the token
+//   email_domain  their own confirmed sign-in email is at the domain (or a subdomain
+//                 of it), for institutions whose DNS a research group can't touch
+//
+// org_verifications: id, org_id, method, domain, token, status, requested_by,
+// last_checked_at, last_error, verified_at, dispute_reason, disputed_by,
+// disputed_at, review_note, reviewed_by, reviewed_at, created_at, updated_at
+//
+// organizations.verified_at, verified_domain, verification_method describe the
+// current verification. Only /api/orgs/verification writes them, with the
+// service key; the organizations RLS update policy must leave them out.
+//
+// A claim on a domain another org already holds, or a report against a
+// verified org, is "disputed" and waits for a platform admin in
+// /admin/org-verifications. A reported org keeps its badge until an admin
+// rejects the claim.
+
+import { apiFetch } from "./apiClient";
+
+export const VERIFICATION_METHODS = ["dns_txt", "file", "email_domain"] as const;
+export type VerificationMethod = (typeof VERIFICATION_METHODS)[number];
+
+export const VERIFICATION_METHOD_LABELS: Record<VerificationMethod, string> = {
+  dns_txt: "DNS TXT record",
+  file: "Verification file",
+  email_domain: "Institutional email",
+};
+
+export const VERIFICATION_STATUSES = ["pending", "verified", "disputed", "rejected"] as const;
+export type VerificationStatus = (typeof VERIFICATION_STATUSES)[number];
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  pending: "Pending",
+  verified: "Verified",
+  disputed: "Under review",
+  rejected: "Rejected",
+};
+
+export const VERIFICATION_TXT_PREFIX = "quantum5ocial-verification=";
+export const VERIFICATION_FILE_PATH = "/.well-known/quantum5ocial-verification.txt";
+export const MAX_DISPUTE_REASON_LENGTH = 2000;
+export const VERIFICATION_NOTIFICATION_TYPE = "org_verification";
+
+// Webmail addresses say nothing about who runs an organization
+const FREE_EMAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "yahoo.com",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "proton.me",
+  "protonmail.com",
+  "gmx.de",
+  "gmx.net",
+  "web.de",
+  "mail.ru",
+  "yandex.ru",
+  "qq.com",
+  "163.com",
+]);
+
+export type OrgVerification = {
+  id: string;
+  org_id: string;
+  method: VerificationMethod;
+  domain: string;
+  token: string;
+  status: VerificationStatus;
+  requested_by: string | null;
+  last_checked_at: string | null;
+  last_error: string | null;
+  verified_at: string | null;
+  dispute_reason: string | null;
+  disputed_by: string | null;
+  disputed_at: string | null;
+  review_note: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string | null;
+};
+
+export type VerifiedOrgFields = {
+  verified_at?: string | null;
+  verified_domain?: string | null;
+  verification_method?: VerificationMethod | null;
+};
+
+// Admin queue entry: the disputed claim plus the orgs involved
+export type DisputedVerification = OrgVerification & {
+  org: { id: string; name: string; slug: string; website: string | null } | null;
+  // Other orgs currently verified for the same domain
+  holders: { id: string; name: string; slug: string }[];
+};
+
+export function isVerificationMethod(v: unknown): v is VerificationMethod {
+  return typeof v === "string" && (VERIFICATION_METHODS as readonly string[]).includes(v);
+}
+
+export function isOrgVerified(org: VerifiedOrgFields | null | undefined) {
+  return !!org?.verified_at;
+}
+
+/**
+ * Bare lowercase hostname from a domain, URL or email address ("https://www.Lab.org/x"
+ * → "lab.org"), or null when it isn't a public-looking hostname.
+ */
+export function normalizeDomain(input: string | null | undefined): string | null {
+  let host = (input || "").trim().toLowerCase();
+  if (!host) return null;
+  if (host.includes("@")) host = host.slice(host.lastIndexOf("@") + 1);
+  host = host.replace(/^[a-z][a-z0-9+.-]*:\/\//, "");
+  host = host.split(/[/?#]/)[0].replace(/:\d+$/, "").replace(/\.$/, "");
+  if (host.startsWith("www.")) host = host.slice(4);
+
+  const labels = host.split(".");
+  if (labels.length < 2 || host.length > 253) return null;
+  if (!labels.every((l) => /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/.test(l))) return null;
+  // IP addresses and local names can't be verified (and must never be fetched)
+  if (/^\d+$/.test(labels[labels.length - 1])) return null;
+  if (["localhost", "local", "internal", "test", "invalid"].includes(labels[labels.length - 1])) return null;
+  return host;
+}
+
+export function isFreeEmailDomain(domain: string) {
+  return FREE_EMAIL_DOMAINS.has(domain);
+}
+
+// `host` is `domain` itself or one of its subdomains
+export function isWithinDomain(host: string | null | undefined, domain: string) {
+  return !!host && (host === domain || host.endsWith(`.${domain}`));
+}
+
+// True when `email` is at `domain` or one of its subdomains
+export function emailMatchesDomain(email: string | null | undefined, domain: string) {
+  return isWithinDomain(normalizeDomain(email && email.includes("@") ? email : null), domain);
+}
+
+export function verificationTxtValue(token: string) {
+  return `${VERIFICATION_TXT_PREFIX}${token}`;
+}
+
+export function verificationFileUrl(domain: string) {
+  return `https://${domain}${VERIFICATION_FILE_PATH}`;
+}
+
+/* ---------- API calls ---------- */
+
+/** The org's latest claim (managers only). */
+export async function fetchOrgVerification(orgId: string) {
+  const body = await apiFetch<{ verification: OrgVerification | null }>(
+    `/api/orgs/verification?orgId=${encodeURIComponent(orgId)}`
+  );
+  return body.verification;
+}
+
+/** Starts a claim; email_domain claims are settled right away. */
+export async function startOrgVerification(orgId: string, method: VerificationMethod, domain: string) {
+  const body = await apiFetch<{ verification: OrgVerification }>("/api/orgs/verification", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ orgId, method, domain }),
+  });
+  return body.verification;
+}
+
+/** Looks for the DNS record or file of a pending claim. */
+export async function checkOrgVerification(id: string) {
+  const body = await apiFetch<{ verification: OrgVerification }>(`/api/orgs/verification/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action: "check" }),
+  });
+  return body.verification;
+}
+
+/** Flags a verified org for admin review. */
+export async function reportOrgVerification(orgId: string, reason: string) {
+  await apiFetch("/api/orgs/verification/report", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ orgId, reason }),
+  });
+}
+
+export async function fetchDisputedVerifications() {
+  const body = await apiFetch<{ verifications: DisputedVerification[] }>("/api/admin/org-verifications");
+  return body.verifications;
+}
+
+/** Admin decision on a disputed claim. */
+export async function reviewOrgVerification(id: string, decision: "approve" | "reject", note: string) {
+  const body = await apiFetch<{ verification: OrgVerification }>(`/api/orgs/verification/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action: decision, note }),
+  });
+  return body.verification;
+}
@@ -0,0 +1,196 @@
+// lib/orgVerifier.ts
+//
+// Server side of organization verification (see lib/orgVerification).
+//
+// DNS and file checks go through a DomainVerifier selected by configuration:
+//   DOMAIN_VERIFIER  live (default) | local
+// `local` passes every check without touching the network, for offline
+// development; callers that need specific answers pass their own verifier to
+// checkVerificationClaim.
+
+import { promises as dns } from "dns";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  OrgVerification,
+  VERIFICATION_FILE_PATH,
+  VERIFICATION_NOTIFICATION_TYPE,
+  verificationTxtValue,
+} from "./orgVerification";
+
+export type DomainVerifier = {
+  name: string;
+  // Whether the domain publishes the TXT record / serves the file for `token`
+  hasTxtRecord: (domain: string, token: string) => Promise<boolean>;
+  hasVerificationFile: (domain: string, token: string) => Promise<boolean>;
+};
+
+const FILE_TIMEOUT_MS = 8000;
+const MAX_FILE_BYTES = 4096;
+const MAX_REDIRECTS = 3;
+
+async function liveTxtRecord(domain: string, token: string) {
+  let records: string[][];
+  try {
+    records = await dns.resolveTxt(domain);
+  } catch (e: any) {
+    // No record at all is an answer, not a failure
+    if (e?.code === "ENODATA" || e?.code === "ENOTFOUND") return false;
+    throw e;
+  }
+  // Long TXT values arrive split into 255-byte strings
+  return records.some((chunks) => chunks.join("").trim() === verificationTxtValue(token));
+}
+
+// Redirects are only followed within the claimed domain (e.g. to www.), so a
+// claim can't make the server fetch other hosts
+async function liveVerificationFile(domain: string, token: string) {
+  let url = `https://${domain}${VERIFICATION_FILE_PATH}`;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const res = await fetch(url, { redirect: "manual", signal: AbortSignal.timeout(FILE_TIMEOUT_MS) });
+
+    if (res.status >= 300 && res.status < 400) {
+      const location = res.headers.get("location");
+      if (!location) return false;
+      const next = new URL(location, url);
+      if (next.protocol !== "https:" || (next.hostname !== domain && next.hostname !== `www.${domain}`)) {
+        return false;
+      }
+      url = next.toString();
+      continue;
+    }
+
+    if (!res.ok || Number(res.headers.get("content-length")) > MAX_FILE_BYTES) return false;
+    const text = await res.text();
+    return text.length <= MAX_FILE_BYTES && text.split(/\s+/).includes(token);
+  }
+  return false;
+}
+
+const liveVerifier: DomainVerifier = {
+  name: "live",
+  hasTxtRecord: liveTxtRecord,
+  hasVerificationFile: liveVerificationFile,
+};
+
+const localVerifier: DomainVerifier = {
+  name: "local",
+  hasTxtRecord: async () => true,
+  hasVerificationFile: async () => true,
+};
+
+export function getDomainVerifier(): DomainVerifier {
+  const name = (process.env.DOMAIN_VERIFIER || "live").toLowerCase();
+  switch (name) {
+    case "live":
+      return liveVerifier;
+    case "local":
+      return localVerifier;
+    default:
+      throw new Error(`Unknown DOMAIN_VERIFIER "${name}" (expected live or local)`);
+  }
+}
+
+/**
+ * Looks for the claim's TXT record or file. Returns null when it is in place,
+ * otherwise a message for the org manager.
+ */
+export async function checkVerificationClaim(
+  claim: Pick<OrgVerification, "method" | "domain" | "token">,
+  verifier: DomainVerifier = getDomainVerifier()
+): Promise<string | null> {
+  try {
+    if (claim.method === "dns_txt") {
+      return (await verifier.hasTxtRecord(claim.domain, claim.token))
+        ? null
+        : `No TXT record "${verificationTxtValue(claim.token)}" found on ${claim.domain} yet. DNS changes can take a while to appear.`;
+    }
+    if (claim.method === "file") {
+      return (await verifier.hasVerificationFile(claim.domain, claim.token))
+        ? null
+        : `https://${claim.domain}${VERIFICATION_FILE_PATH} was not found or does not contain the token.`;
+    }
+    return "Email domain claims are checked when they are made.";
+  } catch (e: any) {
+    console.error("Domain verification lookup failed", e);
+    return `Could not reach ${claim.domain}: ${e?.message || "lookup failed"}.`;
+  }
+}
+
+/**
+ * Marks a claim whose proof passed as verified and badges the org, unless
+ * another org already holds the domain: then the claim goes to admin review.
+ */
+export async function settleVerificationClaim(supabase: SupabaseClient, claim: OrgVerification) {
+  const now = new Date().toISOString();
+
+  const { data: holders, error: holdersError } = await supabase
+    .from("organizations")
+    .select("id, name")
+    .eq("verified_domain", claim.domain)
+    .neq("id", claim.org_id);
+  if (holdersError) throw holdersError;
+
+  if ((holders || []).length > 0) {
+    const names = (holders || []).map((o: any) => o.name).join(", ");
+    const { data, error } = await supabase
+      .from("org_verifications")
+      .update({
+        status: "disputed",
+        last_checked_at: now,
+        last_error: null,
+        dispute_reason: `${claim.domain} is already verified for ${names}.`,
+        disputed_by: null,
+        disputed_at: now,
+        updated_at: now,
+      })
+      .eq("id", claim.id)
+      .select("*")
+      .single();
+    if (error) throw error;
+    return data as OrgVerification;
+  }
+
+  const { data, error } = await supabase
+    .from("org_verifications")
+    .update({ status: "verified", verified_at: now, last_checked_at: now, last_error: null, updated_at: now })
+    .eq("id", claim.id)
+    .select("*")
+    .single();
+  if (error) throw error;
+
+  await setOrgVerification(supabase, claim.org_id, data as OrgVerification);
+  return data as OrgVerification;
+}
+
+// Writes (or with null, clears) the org's badge fields
+export async function setOrgVerification(supabase: SupabaseClient, orgId: string, claim: OrgVerification | null) {
+  const { error } = await supabase
+    .from("organizations")
+    .update({
+      verified_at: claim?.verified_at ?? null,
+      verified_domain: claim?.domain ?? null,
+      verification_method: claim?.method ?? null,
+    })
+    .eq("id", orgId);
+  if (error) throw error;
+}
+
+// Tells whoever made the claim how it ended; a missed notification is not worth failing over
+export async function notifyClaimant(
+  supabase: SupabaseClient,
+  claim: OrgVerification,
+  title: string,
+  message: string,
+  link_url: string
+) {
+  if (!claim.requested_by) return;
+  const { error } = await supabase.from("notifications").insert({
+    user_id: claim.requested_by,
+    type: VERIFICATION_NOTIFICATION_TYPE,
+    title,
+    message,
+    link_url,
+    is_read: false,
+  });
+  if (error) console.error("Verification notification error", error);
+}
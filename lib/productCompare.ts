@@ -0,0 +1,101 @@
+// lib/productCompare.ts
+//
+// Marketplace compare tray. The selection is kept in localStorage so it
+// survives navigating between product pages; the comparison itself lives at
+// /products/compare?ids=a,b,c so it can be shared.
+
+import { useCallback, useEffect, useState } from "react";
+
+export const MAX_COMPARE_PRODUCTS = 4;
+
+const COMPARE_KEY = "q5_compare_products";
+// Same-tab listeners; the storage event only fires in other tabs
+const COMPARE_EVENT = "q5-compare-change";
+
+export type ComparableProduct = {
+  price_type: string | null;
+  price_value: string | null;
+  in_stock: boolean | null;
+  stock_quantity: number | null;
+};
+
+export function formatProductPrice(p: ComparableProduct) {
+  if (p.price_type === "fixed" && p.price_value) return p.price_value;
+  return "Contact for price";
+}
+
+export function formatProductStock(p: ComparableProduct) {
+  if (p.in_stock) {
+    if (p.stock_quantity != null) return `In stock · ${p.stock_quantity} pcs`;
+    return "In stock";
+  }
+  if (p.in_stock === false) return "Out of stock";
+  return "Stock not specified";
+}
+
+// "a,b,c" (or repeated ?ids=) -> unique ids, at most MAX_COMPARE_PRODUCTS
+export function parseCompareIds(raw: string | string[] | undefined): string[] {
+  const parts = (Array.isArray(raw) ? raw.join(",") : raw || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return Array.from(new Set(parts)).slice(0, MAX_COMPARE_PRODUCTS);
+}
+
+export function compareHref(ids: string[]) {
+  return ids.length > 0 ? `/products/compare?ids=${ids.map(encodeURIComponent).join(",")}` : "/products/compare";
+}
+
+function loadCompareIds(): string[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(COMPARE_KEY) || "[]");
+    return Array.isArray(parsed) ? parseCompareIds(parsed.filter((id) => typeof id === "string")) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeCompareIds(ids: string[]) {
+  try {
+    window.localStorage.setItem(COMPARE_KEY, JSON.stringify(ids));
+    window.dispatchEvent(new Event(COMPARE_EVENT));
+  } catch {
+    // ignore
+  }
+}
+
+export function useCompareTray() {
+  const [ids, setIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    const sync = () => setIds(loadCompareIds());
+    sync();
+    window.addEventListener("storage", sync);
+    window.addEventListener(COMPARE_EVENT, sync);
+    return () => {
+      window.removeEventListener("storage", sync);
+      window.removeEventListener(COMPARE_EVENT, sync);
+    };
+  }, []);
+
+  const update = useCallback((next: string[]) => {
+    const clean = parseCompareIds(next);
+    setIds(clean);
+    storeCompareIds(clean);
+  }, []);
+
+  const has = (id: string) => ids.includes(id);
+  const full = ids.length >= MAX_COMPARE_PRODUCTS;
+
+  // Adding past the limit is a no-op; the UI disables the button instead
+  const toggle = (id: string) => {
+    if (has(id)) update(ids.filter((x) => x !== id));
+    else if (!full) update([...ids, id]);
+  };
+
+  const remove = (id: string) => update(ids.filter((x) => x !== id));
+  const clear = () => update([]);
+
+  return { ids, has, full, toggle, remove, clear, replace: update };
+}
@@ -0,0 +1,154 @@
+// lib/productDatasheets.ts
+//
+// Datasheet text in search. After the product form uploads a datasheet PDF,
+// /api/products/datasheet extracts its text (lib/datasheetIndexer), splits it
+// into overlapping passages and stores each one in `search_documents` with
+// metadata.type "datasheet", metadata.link "<product id>:<chunk>" and
+// metadata.product_id, so search hits and Tattva AI answers cite the product
+// page. Only files in the product-datasheets bucket are read; external
+// datasheet links (e.g. from a catalogue import) are not fetched.
+
+import { apiFetch } from "./apiClient";
+import type { SearchDocument } from "./searchDocuments";
+
+export const DATASHEET_BUCKET = "product-datasheets";
+export const MAX_DATASHEET_BYTES = 20 * 1024 * 1024;
+// Pages past this are not read; specs live near the front of a datasheet
+export const MAX_DATASHEET_PAGES = 60;
+// Bounds the embedding cost of one upload
+export const MAX_DATASHEET_CHUNKS = 80;
+
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+// Passages shorter than this (page numbers, footers) are not worth a document
+const MIN_CHUNK_LENGTH = 40;
+
+export type DatasheetChunk = {
+  index: number;
+  text: string;
+  page_from: number;
+  page_to: number;
+};
+
+export type DatasheetIndexResult = {
+  status: "indexed" | "skipped";
+  reason?: string;
+  pages: number;
+  chunks: number;
+};
+
+function cleanPageText(text: string) {
+  return text
+    .replace(/\u0000/g, "")
+    // Words hyphenated across a line break
+    .replace(/(\w)-\s*\n\s*(\w)/g, "$1$2")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Splits page texts into passages of about CHUNK_SIZE characters that overlap
+ * by CHUNK_OVERLAP, breaking at whitespace. Each passage records the (1-based)
+ * pages it spans.
+ */
+export function chunkDatasheetText(pages: string[]): DatasheetChunk[] {
+  let text = "";
+  // Offset in `text` where each page starts
+  const pageStarts: number[] = [];
+  pages.forEach((page) => {
+    pageStarts.push(text.length);
+    const cleaned = cleanPageText(page);
+    if (cleaned) text += (text ? " " : "") + cleaned;
+  });
+
+  const pageAt = (offset: number) => {
+    let page = 0;
+    while (page + 1 < pageStarts.length && pageStarts[page + 1] <= offset) page++;
+    return page + 1;
+  };
+
+  const chunks: DatasheetChunk[] = [];
+  let start = 0;
+  while (start < text.length && chunks.length < MAX_DATASHEET_CHUNKS) {
+    let end = Math.min(start + CHUNK_SIZE, text.length);
+    if (end < text.length) {
+      const space = text.lastIndexOf(" ", end);
+      if (space > start + CHUNK_SIZE / 2) end = space;
+    }
+
+    const passage = text.slice(start, end).trim();
+    if (passage.length >= MIN_CHUNK_LENGTH) {
+      chunks.push({ index: chunks.length, text: passage, page_from: pageAt(start), page_to: pageAt(end - 1) });
+    }
+    if (end >= text.length) break;
+
+    // Start the next passage on a word boundary inside the overlap
+    let next = end - CHUNK_OVERLAP;
+    const space = text.indexOf(" ", next);
+    if (space !== -1 && space < end) next = space + 1;
+    start = Math.max(next, start + 1);
+  }
+
+  return chunks;
+}
+
+// Storage path of a datasheet uploaded by the product form, or null for other URLs
+export function datasheetStoragePath(url: string | null | undefined): string | null {
+  if (!url) return null;
+  const marker = `/storage/v1/object/public/${DATASHEET_BUCKET}/`;
+  const at = url.indexOf(marker);
+  if (at === -1) return null;
+  const path = url.slice(at + marker.length).split("?")[0];
+  try {
+    return decodeURIComponent(path) || null;
+  } catch {
+    return null;
+  }
+}
+
+export function formatPageRange(from: number, to: number) {
+  return from === to ? `p. ${from}` : `pp. ${from}–${to}`;
+}
+
+/** The search documents for one product's datasheet passages. */
+export function buildDatasheetDocuments(
+  product: { id: string; name: string | null; company_name: string | null; updated_at?: string | null },
+  chunks: DatasheetChunk[]
+): SearchDocument[] {
+  const name = product.name || "Product";
+  return chunks.map((chunk) => {
+    const link = `${product.id}:${chunk.index}`;
+    const pages = formatPageRange(chunk.page_from, chunk.page_to);
+    return {
+      link,
+      content: `Type: Product Datasheet\nProduct: ${name}\nCompany: ${product.company_name || ""}\nPages: ${pages}\nExcerpt: ${chunk.text}`,
+      metadata: {
+        type: "datasheet",
+        title: `${name} datasheet (${pages})`,
+        link,
+        product_id: product.id,
+        chunk_index: chunk.index,
+        page_from: chunk.page_from,
+        page_to: chunk.page_to,
+        source_updated_at: product.updated_at ?? null,
+      },
+    };
+  });
+}
+
+/**
+ * Asks /api/products/datasheet to (re)index the product's datasheet text.
+ * Like search sync, failures are logged, never thrown.
+ */
+export async function indexDatasheet(productId: string) {
+  try {
+    return await apiFetch<DatasheetIndexResult>("/api/products/datasheet", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ productId }),
+    });
+  } catch (e) {
+    console.warn("Datasheet indexing failed", e);
+    return null;
+  }
+}
@@ -0,0 +1,44 @@
+// lib/productFields.ts
+//
+// Allowed values of the enumerated product columns, shared by the marketplace
+// filters, the product form and the catalogue import. Stored values use these
+// exact spellings; the marketplace matches them case-insensitively.
+
+export const PRODUCT_CATEGORIES = [
+  "Cryogenics",
+  "Control Electronics",
+  "Readout / Amplifiers",
+  "Fabrication Services",
+  "Qubits / Devices",
+  "Software / Simulation",
+  "Consulting",
+  "Other",
+];
+
+export const PRODUCT_TYPES = ["Hardware", "Software", "Service", "Consulting", "Other"];
+
+export const TECHNOLOGY_TYPES = [
+  "Cryogenics",
+  "Control / AWG / RF",
+  "Readout / Amplifiers",
+  "Fabrication / Foundry",
+  "Qubits / Chips / Devices",
+  "Software / Simulation",
+  "Other",
+];
+
+export const QUANTUM_DOMAINS = [
+  "Quantum computing",
+  "Quantum communication",
+  "Quantum sensing / metrology",
+  "Quantum materials / fabrication",
+  "Generic / platform",
+];
+
+export const PRICE_TYPES = ["fixed", "contact"] as const;
+
+// The listed spelling of `value`, or null when it isn't one of `allowed`
+export function canonicalOption(value: string, allowed: readonly string[]): string | null {
+  const needle = value.trim().toLowerCase();
+  return allowed.find((option) => option.toLowerCase() === needle) ?? null;
+}
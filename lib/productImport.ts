@@ -0,0 +1,304 @@
+// lib/productImport.ts
+//
+// Bulk catalogue import for an organization's products, from CSV (header row,
+// one product per row, `spec.<key>` columns for structured specs) or JSON (an
+// array of product objects, optionally under a `products` key, with `specs` as
+// an object). Rows are matched to existing products by `external_sku`
+// (products.external_sku, unique per org): matches are updated, the rest created.
+// On update, empty cells leave the stored value as it is.
+//
+// Validation is pure so the browser can show per-row errors immediately;
+// /api/products/import runs it again before writing. Sample files live in
+// fixtures/product-import.
+
+import { apiFetch } from "./apiClient";
+import { parseCsvRecords } from "./csv";
+import {
+  PRICE_TYPES,
+  PRODUCT_CATEGORIES,
+  PRODUCT_TYPES,
+  QUANTUM_DOMAINS,
+  TECHNOLOGY_TYPES,
+  canonicalOption,
+} from "./productFields";
+import { ProductSpecValues, SpecFormValues, productSpecSchema, specFormError, specPayload } from "./productSpecs";
+
+export const MAX_IMPORT_ROWS = 500;
+const MAX_SKU_LENGTH = 100;
+const MAX_NAME_LENGTH = 200;
+const MAX_TEXT_LENGTH = 10000;
+
+// Columns an import can set, besides `specs`
+export const PRODUCT_IMPORT_FIELDS = [
+  "external_sku",
+  "name",
+  "category",
+  "product_type",
+  "technology_type",
+  "quantum_domain",
+  "short_description",
+  "full_description",
+  "specifications",
+  "keywords",
+  "product_url",
+  "datasheet_url",
+  "image1_url",
+  "image2_url",
+  "image3_url",
+  "price_type",
+  "price_value",
+  "in_stock",
+  "stock_quantity",
+] as const;
+
+const ENUM_FIELDS: Record<string, readonly string[]> = {
+  category: PRODUCT_CATEGORIES,
+  product_type: PRODUCT_TYPES,
+  technology_type: TECHNOLOGY_TYPES,
+  quantum_domain: QUANTUM_DOMAINS,
+  price_type: PRICE_TYPES,
+};
+
+const URL_FIELDS = ["product_url", "datasheet_url", "image1_url", "image2_url", "image3_url"];
+const TEXT_FIELDS = ["short_description", "full_description", "specifications", "keywords", "price_value"];
+
+// Product columns written for one row; absent keys are left untouched on update
+export type ProductImportValues = {
+  external_sku: string;
+  name: string;
+  category?: string;
+  product_type?: string;
+  technology_type?: string;
+  quantum_domain?: string;
+  short_description?: string;
+  full_description?: string;
+  specifications?: string;
+  keywords?: string;
+  product_url?: string;
+  datasheet_url?: string;
+  image1_url?: string;
+  image2_url?: string;
+  image3_url?: string;
+  price_type?: "fixed" | "contact";
+  price_value?: string;
+  in_stock?: boolean;
+  stock_quantity?: number;
+  specs?: ProductSpecValues;
+};
+
+// One product as read from the file, before validation
+export type ProductImportRecord = { line: number; record: Record<string, unknown> };
+
+export type ProductImportRow = {
+  line: number;
+  external_sku: string;
+  name: string;
+  values: ProductImportValues | null;
+  errors: string[];
+};
+
+export type ProductImportAction = "create" | "update" | "error";
+
+export type ProductImportResult = {
+  line: number;
+  external_sku: string;
+  name: string;
+  action: ProductImportAction;
+  product_id?: string;
+  errors: string[];
+};
+
+function text(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(text).filter(Boolean).join(", ");
+  return String(value).trim();
+}
+
+function isHttpUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") return value;
+  const s = text(value).toLowerCase();
+  if (["yes", "y", "true", "1", "in stock"].includes(s)) return true;
+  if (["no", "n", "false", "0", "out of stock"].includes(s)) return false;
+  return undefined;
+}
+
+// `specs` object (JSON) or `spec.<key>` columns (CSV), as form strings; null when all are empty
+function specInput(record: Record<string, unknown>): SpecFormValues | null {
+  const values: SpecFormValues = {};
+  let found = false;
+
+  const nested = record.specs;
+  if (nested && typeof nested === "object" && !Array.isArray(nested)) {
+    Object.keys(nested).forEach((key) => {
+      const v = (nested as Record<string, unknown>)[key];
+      values[key] = typeof v === "boolean" ? (v ? "yes" : "no") : text(v);
+      found = found || !!values[key];
+    });
+  }
+  Object.keys(record).forEach((key) => {
+    if (!key.startsWith("spec.")) return;
+    values[key.slice(5)] = text(record[key]);
+    found = found || !!values[key.slice(5)];
+  });
+
+  return found ? values : null;
+}
+
+/** Checks one product against the product fields and enumerations. */
+export function validateProductRecord({ line, record }: ProductImportRecord): ProductImportRow {
+  const errors: string[] = [];
+  const sku = text(record.external_sku ?? record.sku);
+  const name = text(record.name);
+
+  if (!sku) errors.push("external_sku is required.");
+  else if (sku.length > MAX_SKU_LENGTH) errors.push(`external_sku must be at most ${MAX_SKU_LENGTH} characters.`);
+  if (!name) errors.push("name is required.");
+  else if (name.length > MAX_NAME_LENGTH) errors.push(`name must be at most ${MAX_NAME_LENGTH} characters.`);
+
+  const values: ProductImportValues = { external_sku: sku, name };
+  const out = values as Record<string, unknown>;
+
+  Object.keys(ENUM_FIELDS).forEach((field) => {
+    const raw = text(record[field]);
+    if (!raw) return;
+    const option = canonicalOption(raw, ENUM_FIELDS[field]);
+    if (option) out[field] = option;
+    else errors.push(`${field} “${raw}” is not one of: ${ENUM_FIELDS[field].join(", ")}.`);
+  });
+
+  TEXT_FIELDS.forEach((field) => {
+    const raw = text(record[field]);
+    if (!raw) return;
+    if (raw.length > MAX_TEXT_LENGTH) errors.push(`${field} must be at most ${MAX_TEXT_LENGTH} characters.`);
+    else out[field] = raw;
+  });
+
+  URL_FIELDS.forEach((field) => {
+    const raw = text(record[field]);
+    if (!raw) return;
+    if (isHttpUrl(raw)) out[field] = raw;
+    else errors.push(`${field} must be an http(s) URL.`);
+  });
+
+  // A price without a price type means a fixed price
+  if (values.price_value && !values.price_type) values.price_type = "fixed";
+  if (values.price_type === "fixed" && !values.price_value) {
+    errors.push("price_value is required when price_type is fixed.");
+  }
+  if (values.price_type === "contact") delete values.price_value;
+
+  const stockRaw = text(record.stock_quantity);
+  if (stockRaw) {
+    const qty = Number(stockRaw);
+    if (Number.isInteger(qty) && qty >= 0) values.stock_quantity = qty;
+    else errors.push("stock_quantity must be a whole number of 0 or more.");
+  }
+  if (text(record.in_stock)) {
+    const flag = parseBoolean(record.in_stock);
+    if (flag === undefined) errors.push("in_stock must be yes or no.");
+    else values.in_stock = flag;
+  } else if (values.stock_quantity !== undefined) {
+    values.in_stock = values.stock_quantity > 0;
+  }
+
+  const specs = specInput(record);
+  if (specs) {
+    const schema = productSpecSchema(values.category);
+    if (!values.category) {
+      errors.push("Specs need a category, so they can be checked against its attributes.");
+    } else {
+      const unknown = Object.keys(specs).filter((key) => specs[key] && !schema.some((a) => a.key === key));
+      if (unknown.length > 0) {
+        errors.push(`Unknown ${values.category} spec${unknown.length === 1 ? "" : "s"}: ${unknown.join(", ")}.`);
+      }
+      const specError = specFormError(values.category, specs);
+      if (specError) errors.push(specError);
+      const payload = specPayload(values.category, specs);
+      if (Object.keys(payload).length > 0) values.specs = payload;
+    }
+  }
+
+  return { line, external_sku: sku, name, values: errors.length === 0 ? values : null, errors };
+}
+
+/**
+ * Reads a CSV or JSON catalogue (detected from the first character) into raw
+ * records. Returns an error instead when the file itself can't be read.
+ */
+export function parseProductImportFile(input: string): { records: ProductImportRecord[]; error: string | null } {
+  const trimmed = input.trim();
+  if (!trimmed) return { records: [], error: "The file is empty." };
+
+  let records: ProductImportRecord[];
+  if (trimmed[0] === "[" || trimmed[0] === "{") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      return { records: [], error: "The file looks like JSON but could not be parsed." };
+    }
+    const list = Array.isArray(parsed) ? parsed : (parsed as any)?.products;
+    if (!Array.isArray(list)) {
+      return { records: [], error: "JSON must be an array of products or an object with a “products” array." };
+    }
+    records = list.map((item, i) => ({
+      line: i + 1,
+      record: item && typeof item === "object" && !Array.isArray(item) ? (item as Record<string, unknown>) : {},
+    }));
+  } else {
+    const { headers, records: rows } = parseCsvRecords(input);
+    if (!headers.includes("name") || !(headers.includes("external_sku") || headers.includes("sku"))) {
+      return { records: [], error: "The CSV header row must include external_sku and name." };
+    }
+    records = rows.map(({ line, values }) => ({ line, record: values }));
+  }
+
+  if (records.length === 0) return { records: [], error: "No products found in the file." };
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { records: [], error: `At most ${MAX_IMPORT_ROWS} products per import.` };
+  }
+  return { records, error: null };
+}
+
+// SKUs match ignoring case, in the file and against stored products alike
+export function skuKey(sku: string) {
+  return sku.toLowerCase();
+}
+
+/** Validates every record and flags SKUs that appear more than once. */
+export function validateProductImport(records: ProductImportRecord[]): ProductImportRow[] {
+  const rows = records.map(validateProductRecord);
+  const counts = new Map<string, number>();
+  rows.forEach((r) => {
+    const key = skuKey(r.external_sku);
+    if (key) counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return rows.map((r) =>
+    (counts.get(skuKey(r.external_sku)) || 0) > 1
+      ? { ...r, values: null, errors: [...r.errors, "This external_sku appears more than once in the file."] }
+      : r
+  );
+}
+
+/** Creates or updates (with dryRun, previews) an org's products from validated records. */
+export async function importProducts(
+  orgId: string,
+  records: ProductImportRecord[],
+  dryRun: boolean
+): Promise<ProductImportResult[]> {
+  const body = await apiFetch<{ results: ProductImportResult[] }>("/api/products/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ orgId, records, dryRun }),
+  });
+  return body.results;
+}
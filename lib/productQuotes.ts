@@ -0,0 +1,129 @@
+// lib/productQuotes.ts
+//
+// Requests for quotation on products listed with "Contact for price".
+//
+// product_quotes: id, product_id, org_id, buyer_id, quantity, institution,
+// timeline, notes, status, reply, quote_path (object in the private
+// QUOTE_PDF_BUCKET), replied_at, status_updated_at, created_at, updated_at
+//
+// Buyers submit on /products/[id]; the owning org's managers answer from the
+// RFQ inbox on the org's Products tab. All reads and writes go through
+// /api/products/quotes, which checks roles and signs the quote PDF links.
+
+import { apiFetch } from "./apiClient";
+
+export const QUOTE_STATUSES = ["new", "replied", "won", "lost"] as const;
+export type QuoteStatus = (typeof QUOTE_STATUSES)[number];
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  new: "New",
+  replied: "Replied",
+  won: "Won",
+  lost: "Lost",
+};
+
+export const QUOTE_STATUS_COLORS: Record<QuoteStatus, string> = {
+  new: "#38bdf8",
+  replied: "#a855f7",
+  won: "#22c55e",
+  lost: "#f87171",
+};
+
+export const QUOTE_TIMELINES = [
+  "As soon as possible",
+  "Within 1 month",
+  "1–3 months",
+  "3–6 months",
+  "6+ months",
+  "Just budgeting",
+];
+
+export const QUOTE_PDF_BUCKET = "product-quotes";
+export const MAX_QUOTE_PDF_BYTES = 10 * 1024 * 1024;
+export const MAX_QUOTE_QUANTITY = 1000000;
+export const MAX_QUOTE_TEXT_LENGTH = 4000;
+
+export const QUOTE_REQUEST_NOTIFICATION_TYPE = "product_quote_request";
+export const QUOTE_UPDATE_NOTIFICATION_TYPE = "product_quote_update";
+
+export type QuoteBuyer = {
+  id: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  email: string | null;
+  current_title: string | null;
+  affiliation: string | null;
+};
+
+export type ProductQuote = {
+  id: string;
+  product_id: string;
+  org_id: string | null;
+  buyer_id: string;
+  quantity: number;
+  institution: string | null;
+  timeline: string | null;
+  notes: string | null;
+  status: QuoteStatus;
+  reply: string | null;
+  replied_at: string | null;
+  status_updated_at: string | null;
+  created_at: string | null;
+  // Signed link to the attached quote PDF (buyer and org managers)
+  quote_url?: string | null;
+  product?: { id: string; name: string | null } | null;
+  // Org view only
+  buyer?: QuoteBuyer | null;
+};
+
+export function isQuoteStatus(value: unknown): value is QuoteStatus {
+  return typeof value === "string" && (QUOTE_STATUSES as readonly string[]).includes(value);
+}
+
+export async function requestQuote(input: {
+  productId: string;
+  quantity: number;
+  institution: string;
+  timeline: string;
+  notes: string;
+}): Promise<ProductQuote> {
+  const body = await apiFetch<{ quote: ProductQuote }>("/api/products/quotes", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  return body.quote;
+}
+
+// RFQ inbox for an org (owners / co-owners / admins only)
+export async function listOrgQuotes(orgId: string): Promise<ProductQuote[]> {
+  const body = await apiFetch<{ quotes: ProductQuote[] }>(
+    `/api/products/quotes?orgId=${encodeURIComponent(orgId)}`
+  );
+  return body.quotes;
+}
+
+// The signed-in user's own requests, optionally for a single product
+export async function listMyQuotes(productId?: string): Promise<ProductQuote[]> {
+  const body = await apiFetch<{ quotes: ProductQuote[] }>(
+    `/api/products/quotes?mine=1${productId ? `&productId=${encodeURIComponent(productId)}` : ""}`
+  );
+  return body.quotes;
+}
+
+/** Reply, attach a quote PDF and/or move the request to another status (org managers). */
+export async function updateQuote(
+  quoteId: string,
+  input: { reply?: string; status?: QuoteStatus; quotePdf?: File | null }
+): Promise<ProductQuote> {
+  const form = new FormData();
+  if (input.reply !== undefined) form.append("reply", input.reply);
+  if (input.status) form.append("status", input.status);
+  if (input.quotePdf) form.append("quote", input.quotePdf);
+
+  const body = await apiFetch<{ quote: ProductQuote }>(
+    `/api/products/quotes/${encodeURIComponent(quoteId)}`,
+    { method: "PATCH", body: form }
+  );
+  return body.quote;
+}
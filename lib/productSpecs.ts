@@ -0,0 +1,225 @@
+// lib/productSpecs.ts
+//
+// Structured specifications per marketplace category. Values live in
+// `products.specs` (jsonb, keyed by attribute key, e.g. { "base_temperature": 8 });
+// numbers are stored in the attribute's unit so products compare directly.
+// The free-text `specifications` one-liner stays for anything not covered here.
+//
+// The registry drives the spec inputs on /products/new, the spec table on
+// /products/[id], the comparison table and the numeric range filters on
+// /products (`spec` query param, see serializeSpecRanges).
+
+export type ProductSpecType = "number" | "text" | "boolean";
+
+export type ProductSpecAttribute = {
+  key: string;
+  label: string;
+  type: ProductSpecType;
+  unit?: string;
+  // Plausible range for number attributes; inputs outside it are rejected
+  min?: number;
+  max?: number;
+  // 1 for counts; other numbers accept any precision
+  step?: number;
+  // Shown under the input, e.g. what the value is measured at
+  hint?: string;
+};
+
+export type ProductSpecValues = Record<string, number | string | boolean | null>;
+
+export const PRODUCT_SPEC_SCHEMAS: Record<string, ProductSpecAttribute[]> = {
+  Cryogenics: [
+    { key: "base_temperature", label: "Base temperature", type: "number", unit: "mK", min: 0, max: 300000 },
+    {
+      key: "cooling_power_100mk",
+      label: "Cooling power at 100 mK",
+      type: "number",
+      unit: "µW",
+      min: 0,
+      max: 100000,
+    },
+    { key: "cooldown_time", label: "Cooldown time", type: "number", unit: "h", min: 0, max: 1000 },
+    { key: "sample_space_diameter", label: "Sample space diameter", type: "number", unit: "mm", min: 0, max: 2000 },
+    { key: "rf_lines", label: "RF lines", type: "number", min: 0, max: 10000, step: 1 },
+    { key: "cryogen_free", label: "Cryogen-free", type: "boolean" },
+  ],
+  "Control Electronics": [
+    { key: "channels", label: "Output channels", type: "number", min: 1, max: 10000, step: 1 },
+    { key: "sample_rate", label: "Sample rate", type: "number", unit: "GS/s", min: 0, max: 1000 },
+    { key: "max_frequency", label: "Max output frequency", type: "number", unit: "GHz", min: 0, max: 1000 },
+    { key: "vertical_resolution", label: "Vertical resolution", type: "number", unit: "bit", min: 1, max: 32, step: 1 },
+    { key: "feedback_latency", label: "Feedback latency", type: "number", unit: "ns", min: 0, max: 1000000 },
+    { key: "interface", label: "Control interface", type: "text", hint: "e.g. Ethernet, USB, PCIe" },
+  ],
+  "Readout / Amplifiers": [
+    { key: "gain", label: "Gain", type: "number", unit: "dB", min: -100, max: 200 },
+    { key: "bandwidth", label: "Bandwidth", type: "number", unit: "GHz", min: 0, max: 1000 },
+    { key: "noise_temperature", label: "Noise temperature", type: "number", unit: "K", min: 0, max: 10000 },
+    { key: "saturation_power", label: "Saturation power", type: "number", unit: "dBm", min: -200, max: 100 },
+    {
+      key: "detection_efficiency",
+      label: "Detection efficiency",
+      type: "number",
+      unit: "%",
+      min: 0,
+      max: 100,
+      hint: "Single-photon detectors (SNSPD, SPAD)",
+    },
+    { key: "dark_count_rate", label: "Dark count rate", type: "number", unit: "Hz", min: 0, max: 1e9 },
+    { key: "timing_jitter", label: "Timing jitter", type: "number", unit: "ps", min: 0, max: 1e6 },
+  ],
+  "Fabrication Services": [
+    { key: "min_feature_size", label: "Minimum feature size", type: "number", unit: "nm", min: 0, max: 1e6 },
+    { key: "wafer_size", label: "Wafer size", type: "number", unit: "mm", min: 0, max: 1000 },
+    { key: "lead_time", label: "Lead time", type: "number", unit: "weeks", min: 0, max: 520, step: 1 },
+    { key: "materials", label: "Materials", type: "text", hint: "e.g. Al, Nb, NbTiN on Si / sapphire" },
+  ],
+  "Qubits / Devices": [
+    { key: "qubit_count", label: "Qubits", type: "number", min: 0, max: 1e6, step: 1 },
+    { key: "t1", label: "T1", type: "number", unit: "µs", min: 0, max: 1e9 },
+    { key: "t2", label: "T2", type: "number", unit: "µs", min: 0, max: 1e9 },
+    {
+      key: "two_qubit_fidelity",
+      label: "Two-qubit gate fidelity",
+      type: "number",
+      unit: "%",
+      min: 0,
+      max: 100,
+    },
+    { key: "platform", label: "Platform", type: "text", hint: "e.g. superconducting, trapped ion, spin" },
+  ],
+  "Software / Simulation": [
+    { key: "max_qubits_simulated", label: "Max simulated qubits", type: "number", min: 0, max: 100000, step: 1 },
+    { key: "languages", label: "Languages / SDKs", type: "text" },
+    { key: "license", label: "License", type: "text" },
+    { key: "gpu_support", label: "GPU acceleration", type: "boolean" },
+  ],
+};
+
+export function productSpecSchema(category: string | null | undefined): ProductSpecAttribute[] {
+  return (category && PRODUCT_SPEC_SCHEMAS[category]) || [];
+}
+
+// jsonb may be missing on older rows or arrive as a string from some clients
+export function productSpecValues(raw: unknown): ProductSpecValues {
+  if (!raw) return {};
+  if (typeof raw === "string") {
+    try {
+      return productSpecValues(JSON.parse(raw));
+    } catch {
+      return {};
+    }
+  }
+  return typeof raw === "object" && !Array.isArray(raw) ? (raw as ProductSpecValues) : {};
+}
+
+// "8 mK", "Yes", "" when the product doesn't state it
+export function formatSpecValue(attr: ProductSpecAttribute, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "";
+  if (attr.type === "boolean") return value === true || value === "true" ? "Yes" : "No";
+  if (attr.type === "number") {
+    const n = Number(value);
+    if (!Number.isFinite(n)) return "";
+    const text = n.toLocaleString("en-US", { maximumFractionDigits: 4 });
+    return attr.unit ? `${text} ${attr.unit}` : text;
+  }
+  return String(value).trim();
+}
+
+function numberValue(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = typeof value === "number" ? value : Number(String(value).replace(/[\s,]/g, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+// One string per attribute of the category, as edited on /products/new
+export type SpecFormValues = Record<string, string>;
+
+export function specFormValues(category: string | null | undefined, raw: unknown): SpecFormValues {
+  const stored = productSpecValues(raw);
+  const values: SpecFormValues = {};
+  for (const attr of productSpecSchema(category)) {
+    const v = stored[attr.key];
+    values[attr.key] =
+      v === null || v === undefined ? "" : attr.type === "boolean" ? (v === true || v === "true" ? "yes" : "no") : String(v);
+  }
+  return values;
+}
+
+// Validation message for the product form, or null when every value is usable
+export function specFormError(category: string | null | undefined, values: SpecFormValues) {
+  for (const attr of productSpecSchema(category)) {
+    const raw = (values[attr.key] || "").trim();
+    if (!raw || attr.type !== "number") continue;
+
+    const n = numberValue(raw);
+    const unit = attr.unit ? ` ${attr.unit}` : "";
+    if (n === null) return `${attr.label} must be a number.`;
+    if (attr.step === 1 && !Number.isInteger(n)) return `${attr.label} must be a whole number.`;
+    if (attr.min !== undefined && n < attr.min) return `${attr.label} can't be below ${attr.min}${unit}.`;
+    if (attr.max !== undefined && n > attr.max) return `${attr.label} can't be above ${attr.max}${unit}.`;
+  }
+  return null;
+}
+
+// `specs` column for the products insert/update; only the category's attributes are kept
+export function specPayload(category: string | null | undefined, values: SpecFormValues): ProductSpecValues {
+  const specs: ProductSpecValues = {};
+  for (const attr of productSpecSchema(category)) {
+    const raw = (values[attr.key] || "").trim();
+    if (!raw) continue;
+    if (attr.type === "number") {
+      const n = numberValue(raw);
+      if (n !== null) specs[attr.key] = n;
+    } else if (attr.type === "boolean") {
+      specs[attr.key] = raw === "yes";
+    } else {
+      specs[attr.key] = raw;
+    }
+  }
+  return specs;
+}
+
+export type SpecRange = { min: number | null; max: number | null };
+export type SpecRanges = Record<string, SpecRange>;
+
+/**
+ * `spec` query param of /products: "base_temperature:~20,gain:30~" (min~max,
+ * either end may be empty). Unknown keys and non-number attributes are dropped.
+ */
+export function parseSpecRanges(param: string, category: string | null | undefined): SpecRanges {
+  const numeric = new Set(
+    productSpecSchema(category)
+      .filter((a) => a.type === "number")
+      .map((a) => a.key)
+  );
+  const ranges: SpecRanges = {};
+
+  for (const part of param.split(",")) {
+    const match = part.trim().match(/^([a-z0-9_]+):(-?[\d.]*)~(-?[\d.]*)$/);
+    if (!match || !numeric.has(match[1])) continue;
+    const min = numberValue(match[2]);
+    const max = numberValue(match[3]);
+    if (min !== null || max !== null) ranges[match[1]] = { min, max };
+  }
+  return ranges;
+}
+
+export function serializeSpecRanges(ranges: SpecRanges): string {
+  return Object.keys(ranges)
+    .filter((key) => ranges[key].min !== null || ranges[key].max !== null)
+    .map((key) => `${key}:${ranges[key].min ?? ""}~${ranges[key].max ?? ""}`)
+    .join(",");
+}
+
+// Products that don't state a value never match an active range on it
+export function matchesSpecRanges(rawSpecs: unknown, ranges: SpecRanges) {
+  const specs = productSpecValues(rawSpecs);
+  return Object.keys(ranges).every((key) => {
+    const { min, max } = ranges[key];
+    if (min === null && max === null) return true;
+    const n = numberValue(specs[key]);
+    if (n === null) return false;
+    return (min === null || n >= min) && (max === null || n <= max);
+  });
+}
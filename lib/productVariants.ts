@@ -0,0 +1,284 @@
+// lib/productVariants.ts
+//
+// Variants of a product (wavelength, channel count, configuration…), each with
+// its own SKU, price and stock.
+//
+// product_variants: id, product_id, name, sku, price_value, in_stock,
+// stock_quantity, position, low_stock_alerted_at, created_at, updated_at —
+// unique (product_id, sku)
+//
+// products.low_stock_threshold (null = DEFAULT_LOW_STOCK_THRESHOLD) applies to
+// the product's own stock and to each variant; products.low_stock_alerted_at and
+// product_variants.low_stock_alerted_at remember which items already alerted. When a product has variants its
+// in_stock / stock_quantity columns are a rollup of them (see variantRollup),
+// so listings that only read `products` stay accurate.
+
+import { apiFetch } from "./apiClient";
+import { parseCsvRecords } from "./csv";
+import { supabase } from "./supabaseClient";
+
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+export const MAX_VARIANTS = 50;
+export const MAX_INVENTORY_ROWS = 1000;
+
+export const LOW_STOCK_NOTIFICATION_TYPE = "product_low_stock";
+
+export type ProductVariant = {
+  id: string;
+  product_id: string;
+  name: string;
+  sku: string | null;
+  price_value: string | null;
+  in_stock: boolean | null;
+  stock_quantity: number | null;
+  position: number | null;
+};
+
+export type StockFields = { in_stock: boolean | null; stock_quantity: number | null };
+
+export function lowStockThreshold(product: { low_stock_threshold?: number | null }) {
+  const t = product.low_stock_threshold;
+  return typeof t === "number" && Number.isFinite(t) && t >= 0 ? t : DEFAULT_LOW_STOCK_THRESHOLD;
+}
+
+// Only tracked quantities can run low; "in stock" without a count never alerts.
+// A count at or below the threshold is low even once it is sold out (0, in_stock false)
+export function isLowStock(item: StockFields, threshold: number) {
+  return item.stock_quantity != null && item.stock_quantity <= threshold;
+}
+
+// Restocked means counted above the threshold again, not just no longer "low"
+export function isRestocked(item: StockFields, threshold: number) {
+  return item.stock_quantity != null && item.stock_quantity > threshold;
+}
+
+// A variant with a count of 0 is out of stock whatever its flag says
+export function variantInStock(v: StockFields) {
+  return v.in_stock !== false && v.stock_quantity !== 0;
+}
+
+/** products.in_stock / stock_quantity for a product with variants. */
+export function variantRollup(variants: StockFields[]): StockFields {
+  const available = variants.filter(variantInStock);
+  if (available.length === 0) return { in_stock: false, stock_quantity: 0 };
+
+  // Only a total when every available variant is counted
+  const counted = available.filter((v) => v.stock_quantity != null);
+  return {
+    in_stock: true,
+    stock_quantity:
+      counted.length === available.length ? counted.reduce((sum, v) => sum + (v.stock_quantity as number), 0) : null,
+  };
+}
+
+export function formatVariantStock(v: StockFields) {
+  if (!variantInStock(v)) return "Out of stock";
+  return v.stock_quantity != null ? `${v.stock_quantity} in stock` : "In stock";
+}
+
+export async function fetchProductVariants(productId: string): Promise<ProductVariant[]> {
+  const { data, error } = await supabase
+    .from("product_variants")
+    .select("id, product_id, name, sku, price_value, in_stock, stock_quantity, position")
+    .eq("product_id", productId)
+    .order("position", { ascending: true });
+  if (error) throw error;
+  return (data || []) as ProductVariant[];
+}
+
+/* ---------- product form ---------- */
+
+export type VariantFormRow = {
+  // Unset for variants added in this edit
+  id?: string;
+  name: string;
+  sku: string;
+  price_value: string;
+  in_stock: "yes" | "no";
+  stock_quantity: string;
+};
+
+export function emptyVariantRow(): VariantFormRow {
+  return { name: "", sku: "", price_value: "", in_stock: "yes", stock_quantity: "" };
+}
+
+export function variantFormRows(variants: ProductVariant[]): VariantFormRow[] {
+  return variants.map((v) => ({
+    id: v.id,
+    name: v.name || "",
+    sku: v.sku || "",
+    price_value: v.price_value || "",
+    in_stock: v.in_stock === false ? "no" : "yes",
+    stock_quantity: v.stock_quantity != null ? String(v.stock_quantity) : "",
+  }));
+}
+
+function parseQuantity(raw: string): number | null | undefined {
+  const s = raw.trim();
+  if (!s) return null;
+  const n = Number(s);
+  return Number.isInteger(n) && n >= 0 ? n : undefined;
+}
+
+// Validation message for the variant rows, or null when they can be saved
+export function variantFormError(rows: VariantFormRow[]) {
+  if (rows.length > MAX_VARIANTS) return `A product can have at most ${MAX_VARIANTS} variants.`;
+
+  const skus = new Set<string>();
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    const label = row.name.trim() || `Variant ${i + 1}`;
+    if (!row.name.trim()) return `Variant ${i + 1} needs a name.`;
+    if (parseQuantity(row.stock_quantity) === undefined) return `${label}: stock must be a whole number.`;
+
+    const sku = row.sku.trim().toLowerCase();
+    if (sku) {
+      if (skus.has(sku)) return `SKU “${row.sku.trim()}” is used by more than one variant.`;
+      skus.add(sku);
+    }
+  }
+  return null;
+}
+
+export function variantFormStock(row: VariantFormRow): StockFields {
+  const inStock = row.in_stock === "yes";
+  return { in_stock: inStock, stock_quantity: inStock ? (parseQuantity(row.stock_quantity) ?? null) : 0 };
+}
+
+/** Rows for the product_variants insert/update, in form order. */
+export function variantPayload(productId: string, rows: VariantFormRow[], pricedPerVariant: boolean) {
+  return rows.map((row, i) => ({
+    ...(row.id ? { id: row.id } : {}),
+    product_id: productId,
+    name: row.name.trim(),
+    sku: row.sku.trim() || null,
+    price_value: pricedPerVariant ? row.price_value.trim() || null : null,
+    ...variantFormStock(row),
+    position: i,
+  }));
+}
+
+/**
+ * Asks /api/products/low-stock to alert the product's managers about items at
+ * or below the threshold. Like search sync, failures are logged, never thrown.
+ */
+export async function notifyLowStock(productId: string) {
+  try {
+    await apiFetch("/api/products/low-stock", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ productId }),
+    });
+  } catch (e) {
+    console.warn("Low stock check failed", e);
+  }
+}
+
+/* ---------- bulk inventory update (CSV) ---------- */
+
+// One CSV row: the variant's SKU plus whichever of the other columns are filled in
+export type InventoryUpdate = {
+  line: number;
+  sku: string;
+  stock_quantity?: number;
+  in_stock?: boolean;
+  price_value?: string;
+};
+
+export type InventoryRowResult = {
+  line: number;
+  sku: string;
+  status: "updated" | "unchanged" | "error";
+  message?: string;
+  product_id?: string;
+  product_name?: string | null;
+  variant_name?: string;
+  before?: StockFields & { price_value: string | null };
+  after?: StockFields & { price_value: string | null };
+};
+
+export const INVENTORY_CSV_COLUMNS = ["sku", "stock_quantity", "in_stock", "price_value"];
+
+function parseBoolean(raw: string): boolean | undefined {
+  const s = raw.trim().toLowerCase();
+  if (["yes", "y", "true", "1", "in stock"].includes(s)) return true;
+  if (["no", "n", "false", "0", "out of stock"].includes(s)) return false;
+  return undefined;
+}
+
+/**
+ * Reads an inventory CSV (header row required, see INVENTORY_CSV_COLUMNS).
+ * Rows that can't be read are returned as errors with their line number.
+ */
+export function parseInventoryCsv(text: string): { updates: InventoryUpdate[]; errors: InventoryRowResult[] } {
+  const { headers, records } = parseCsvRecords(text);
+  if (!headers.includes("sku")) {
+    return { updates: [], errors: [{ line: 1, sku: "", status: "error", message: "The first row must name a “sku” column." }] };
+  }
+  if (records.length > MAX_INVENTORY_ROWS) {
+    return {
+      updates: [],
+      errors: [{ line: 1, sku: "", status: "error", message: `At most ${MAX_INVENTORY_ROWS} rows per upload.` }],
+    };
+  }
+
+  const updates: InventoryUpdate[] = [];
+  const errors: InventoryRowResult[] = [];
+  const seen = new Set<string>();
+
+  for (const { line, values } of records) {
+    const sku = values.sku || "";
+    const fail = (message: string) => errors.push({ line, sku, status: "error", message });
+
+    if (!sku) {
+      fail("SKU is missing.");
+      continue;
+    }
+    if (seen.has(sku.toLowerCase())) {
+      fail("This SKU appears more than once in the file.");
+      continue;
+    }
+    seen.add(sku.toLowerCase());
+
+    const update: InventoryUpdate = { line, sku };
+    if (values.stock_quantity) {
+      const qty = parseQuantity(values.stock_quantity);
+      if (qty === undefined || qty === null) {
+        fail("stock_quantity must be a whole number of 0 or more.");
+        continue;
+      }
+      update.stock_quantity = qty;
+    }
+    if (values.in_stock) {
+      const flag = parseBoolean(values.in_stock);
+      if (flag === undefined) {
+        fail("in_stock must be yes or no.");
+        continue;
+      }
+      update.in_stock = flag;
+    }
+    if (values.price_value) update.price_value = values.price_value;
+
+    if (update.stock_quantity === undefined && update.in_stock === undefined && update.price_value === undefined) {
+      fail("Nothing to update on this row.");
+      continue;
+    }
+    updates.push(update);
+  }
+
+  return { updates, errors };
+}
+
+/** Applies (or with dryRun, previews) stock and price updates to an org's variants by SKU. */
+export async function updateInventory(
+  orgId: string,
+  updates: InventoryUpdate[],
+  dryRun: boolean
+): Promise<InventoryRowResult[]> {
+  const body = await apiFetch<{ results: InventoryRowResult[] }>("/api/products/inventory", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ orgId, updates, dryRun }),
+  });
+  return body.results;
+}
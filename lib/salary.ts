@@ -0,0 +1,249 @@
+// lib/salary.ts
+//
+// Structured pay on `jobs`:
+//   salary_min / salary_max  numeric, either may be null (open-ended range)
+//   salary_currency          ISO 4217 code (e.g. "CHF")
+//   salary_period            annual | monthly | stipend
+// `salary_display` stays free text: older rows only have that, and it is what
+// gets rendered for any job without a structured range.
+//
+// currency_rates: currency (ISO 4217, primary key), rate_to_reference (value of
+// one unit in REFERENCE_CURRENCY), updated_at, updated_by — maintained by
+// platform admins on /admin/currency-rates via /api/admin/currency-rates.
+// Ranges are compared in REFERENCE_CURRENCY per year.
+
+import { supabase } from "./supabaseClient";
+import { apiFetch } from "./apiClient";
+
+export const REFERENCE_CURRENCY = "EUR";
+
+export const SALARY_CURRENCIES = [
+  "EUR",
+  "USD",
+  "GBP",
+  "CHF",
+  "CAD",
+  "AUD",
+  "JPY",
+  "CNY",
+  "INR",
+  "SEK",
+  "DKK",
+  "NOK",
+  "PLN",
+  "SGD",
+  "ILS",
+] as const;
+
+export const SALARY_PERIODS = ["annual", "monthly", "stipend"] as const;
+export type SalaryPeriod = (typeof SALARY_PERIODS)[number];
+
+export const SALARY_PERIOD_LABELS: Record<SalaryPeriod, string> = {
+  annual: "Per year",
+  monthly: "Per month",
+  stipend: "Stipend (per month)",
+};
+
+const PERIOD_SUFFIX: Record<SalaryPeriod, string> = {
+  annual: "/ year",
+  monthly: "/ month",
+  stipend: "/ month stipend",
+};
+
+// Payments per year; stipends are quoted monthly like academic fellowships
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+  annual: 1,
+  monthly: 12,
+  stipend: 12,
+};
+
+export type SalaryFields = {
+  salary_min?: number | null;
+  salary_max?: number | null;
+  salary_currency?: string | null;
+  salary_period?: string | null;
+  salary_display?: string | null;
+};
+
+// Value of one unit of each currency in REFERENCE_CURRENCY
+export type CurrencyRates = Record<string, number>;
+
+export type CurrencyRate = {
+  currency: string;
+  rate_to_reference: number;
+  updated_at: string | null;
+};
+
+export function isSalaryPeriod(value: unknown): value is SalaryPeriod {
+  return typeof value === "string" && (SALARY_PERIODS as readonly string[]).includes(value);
+}
+
+export function isCurrencyCode(value: unknown): value is string {
+  return typeof value === "string" && /^[A-Z]{3}$/.test(value);
+}
+
+function amount(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+export function hasStructuredSalary(job: SalaryFields) {
+  return (amount(job.salary_min) !== null || amount(job.salary_max) !== null) && isCurrencyCode(job.salary_currency);
+}
+
+// Any pay information at all, structured or free text
+export function isSalaryDisclosed(job: SalaryFields) {
+  return hasStructuredSalary(job) || !!(job.salary_display || "").trim();
+}
+
+function formatAmount(n: number) {
+  return n.toLocaleString("en-US", { maximumFractionDigits: 0 });
+}
+
+/** "CHF 80,000 – 100,000 / year", falling back to salary_display for unstructured rows. */
+export function formatJobSalary(job: SalaryFields): string {
+  if (!hasStructuredSalary(job)) return (job.salary_display || "").trim();
+
+  const min = amount(job.salary_min);
+  const max = amount(job.salary_max);
+  const range =
+    min !== null && max !== null && min !== max
+      ? `${formatAmount(min)} – ${formatAmount(max)}`
+      : min !== null && max === null
+      ? `from ${formatAmount(min)}`
+      : min === null && max !== null
+      ? `up to ${formatAmount(max)}`
+      : formatAmount((min ?? max)!);
+
+  const period = isSalaryPeriod(job.salary_period) ? ` ${PERIOD_SUFFIX[job.salary_period]}` : "";
+  return `${job.salary_currency} ${range}${period}`;
+}
+
+/**
+ * Yearly range in REFERENCE_CURRENCY, or null when the job has no structured
+ * salary or its currency has no rate yet. An open end mirrors the known one.
+ */
+export function annualReferenceSalary(
+  job: SalaryFields,
+  rates: CurrencyRates
+): { min: number; max: number } | null {
+  if (!hasStructuredSalary(job)) return null;
+
+  const currency = job.salary_currency!;
+  const rate = currency === REFERENCE_CURRENCY ? 1 : rates[currency];
+  if (!rate) return null;
+
+  const perYear = isSalaryPeriod(job.salary_period) ? PERIODS_PER_YEAR[job.salary_period] : 1;
+  const min = amount(job.salary_min) ?? amount(job.salary_max)!;
+  const max = amount(job.salary_max) ?? min;
+
+  return { min: min * perYear * rate, max: max * perYear * rate };
+}
+
+/**
+ * Range filter in REFERENCE_CURRENCY per year; a job matches when its range
+ * overlaps the filter. Jobs that can't be converted never match an active filter.
+ */
+export function matchesSalaryRange(
+  job: SalaryFields,
+  rates: CurrencyRates,
+  filterMin: number | null,
+  filterMax: number | null
+) {
+  if (filterMin === null && filterMax === null) return true;
+  const range = annualReferenceSalary(job, rates);
+  if (!range) return false;
+  if (filterMin !== null && range.max < filterMin) return false;
+  if (filterMax !== null && range.min > filterMax) return false;
+  return true;
+}
+
+// Parses a filter or form input ("80000", "80,000"); blank or invalid -> null
+export function parseSalaryInput(value: string): number | null {
+  return amount(value.replace(/[\s,']/g, ""));
+}
+
+export type SalaryFormValues = {
+  salary_min: string;
+  salary_max: string;
+  salary_currency: string;
+  salary_period: string;
+};
+
+export const EMPTY_SALARY_FORM: SalaryFormValues = {
+  salary_min: "",
+  salary_max: "",
+  salary_currency: REFERENCE_CURRENCY,
+  salary_period: "annual",
+};
+
+export function salaryFormValues(job: SalaryFields): SalaryFormValues {
+  return {
+    salary_min: amount(job.salary_min)?.toString() ?? "",
+    salary_max: amount(job.salary_max)?.toString() ?? "",
+    salary_currency: isCurrencyCode(job.salary_currency) ? job.salary_currency : REFERENCE_CURRENCY,
+    salary_period: isSalaryPeriod(job.salary_period) ? job.salary_period : "annual",
+  };
+}
+
+// Validation message for the posting forms, or null when the range is usable
+export function salaryFormError(values: SalaryFormValues) {
+  const min = parseSalaryInput(values.salary_min);
+  const max = parseSalaryInput(values.salary_max);
+  if (values.salary_min.trim() && min === null) return "Minimum salary must be a positive number.";
+  if (values.salary_max.trim() && max === null) return "Maximum salary must be a positive number.";
+  if (min !== null && max !== null && min > max) return "Minimum salary can't be above the maximum.";
+  return null;
+}
+
+// Columns for the jobs insert/update; no amounts clears the structured salary
+export function salaryPayload(values: SalaryFormValues) {
+  const min = parseSalaryInput(values.salary_min);
+  const max = parseSalaryInput(values.salary_max);
+  const hasRange = min !== null || max !== null;
+
+  return {
+    salary_min: min,
+    salary_max: max,
+    salary_currency: hasRange && isCurrencyCode(values.salary_currency) ? values.salary_currency : null,
+    salary_period: hasRange && isSalaryPeriod(values.salary_period) ? values.salary_period : null,
+  };
+}
+
+// Rate table as a lookup; missing table or rows just means no conversions
+export async function loadCurrencyRates(): Promise<CurrencyRates> {
+  const { data, error } = await supabase.from("currency_rates").select("currency, rate_to_reference");
+  if (error) {
+    console.error("Error loading currency rates", error);
+    return {};
+  }
+
+  const rates: CurrencyRates = { [REFERENCE_CURRENCY]: 1 };
+  for (const row of data || []) {
+    const rate = Number((row as any).rate_to_reference);
+    if (isCurrencyCode((row as any).currency) && rate > 0) rates[(row as any).currency] = rate;
+  }
+  return rates;
+}
+
+// Admin rate table editor (/admin/currency-rates)
+export async function listCurrencyRates(): Promise<CurrencyRate[]> {
+  const body = await apiFetch<{ rates: CurrencyRate[] }>("/api/admin/currency-rates");
+  return body.rates;
+}
+
+export async function saveCurrencyRate(currency: string, rateToReference: number): Promise<CurrencyRate> {
+  const body = await apiFetch<{ rate: CurrencyRate }>("/api/admin/currency-rates", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ currency, rate_to_reference: rateToReference }),
+  });
+  return body.rate;
+}
+
+export async function deleteCurrencyRate(currency: string): Promise<void> {
+  await apiFetch(`/api/admin/currency-rates?currency=${encodeURIComponent(currency)}`, {
+    method: "DELETE",
+  });
+}
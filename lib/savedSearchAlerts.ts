@@ -0,0 +1,92 @@
+// lib/savedSearchAlerts.ts
+//
+// Server side of saved-search alerts, shared by /api/jobs/saved-search-alerts
+// (right after a job is posted) and /api/jobs/lifecycle (scheduled jobs going live).
+// Needs a service-role client: it reads every user's saved searches.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { hasJobFilters, matchesJobFilters, normalizeJobFilters } from "./jobFilters";
+import { isJobLive } from "./jobLifecycle";
+import { SAVED_SEARCH_NOTIFICATION_TYPE } from "./savedSearches";
+
+const SEARCH_PAGE_SIZE = 1000;
+// Keeps `.in()` filters well below URL length limits
+const USER_CHUNK_SIZE = 200;
+
+/**
+ * Notifies every user with a saved search matching `job` (at most once per user
+ * and job). Returns the number of notifications created.
+ */
+export async function sendSavedSearchAlerts(supabase: SupabaseClient, job: any): Promise<number> {
+  // Expired or not-yet-live jobs never alert, whatever is_published still says
+  if (!isJobLive(job)) return 0;
+
+  // Older posting forms wrote organisation_name / location_text
+  const matchable = {
+    ...job,
+    company_name: job.company_name ?? job.organisation_name ?? null,
+    location: job.location ?? job.location_text ?? null,
+  };
+
+  // First matching search per user names the alert
+  const matches = new Map<string, string>();
+  for (let from = 0; ; from += SEARCH_PAGE_SIZE) {
+    const { data: searches, error } = await supabase
+      .from("saved_searches")
+      .select("id, user_id, name, filters")
+      .order("created_at", { ascending: true })
+      .range(from, from + SEARCH_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    for (const search of searches || []) {
+      if (search.user_id === job.owner_id || matches.has(search.user_id)) continue;
+
+      const filters = normalizeJobFilters(search.filters);
+      // A search without criteria would match every job; never alert on it
+      if (!hasJobFilters(filters)) continue;
+      if (matchesJobFilters(matchable, filters)) matches.set(search.user_id, search.name);
+    }
+
+    if (!searches || searches.length < SEARCH_PAGE_SIZE) break;
+  }
+
+  if (matches.size === 0) return 0;
+
+  const linkUrl = `/jobs/${job.id}`;
+  const userIds = Array.from(matches.keys());
+
+  // Republishing or editing must not alert the same user twice
+  const alreadyNotified = new Set<string>();
+  for (let i = 0; i < userIds.length; i += USER_CHUNK_SIZE) {
+    const { data: existing, error } = await supabase
+      .from("notifications")
+      .select("user_id")
+      .eq("type", SAVED_SEARCH_NOTIFICATION_TYPE)
+      .eq("link_url", linkUrl)
+      .in("user_id", userIds.slice(i, i + USER_CHUNK_SIZE));
+
+    if (error) throw error;
+    (existing || []).forEach((row: any) => alreadyNotified.add(row.user_id));
+  }
+
+  const title = job.title || "New role";
+  const company = matchable.company_name;
+  const rows = userIds
+    .filter((id) => !alreadyNotified.has(id))
+    .map((id) => ({
+      user_id: id,
+      type: SAVED_SEARCH_NOTIFICATION_TYPE,
+      title: `New job for “${matches.get(id)}”`,
+      message: company ? `${title} at ${company}` : title,
+      link_url: linkUrl,
+      is_read: false,
+    }));
+
+  if (rows.length > 0) {
+    const { error: insertError } = await supabase.from("notifications").insert(rows);
+    if (insertError) throw insertError;
+  }
+
+  return rows.length;
+}
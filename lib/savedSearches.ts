@@ -0,0 +1,50 @@
+// lib/savedSearches.ts
+//
+// Saved job searches and their new-match alerts.
+//
+// saved_searches: id, user_id, name, filters (jsonb JobSearchFilters),
+// created_at, updated_at
+//
+// Alerts land in the existing `notifications` table with type
+// SAVED_SEARCH_NOTIFICATION_TYPE and link_url `/jobs/<id>`.
+
+import { supabase } from "./supabaseClient";
+import type { JobSearchFilters } from "./jobFilters";
+
+export const SAVED_SEARCH_NOTIFICATION_TYPE = "saved_search_match";
+
+export type SavedSearch = {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: JobSearchFilters;
+  created_at: string | null;
+  updated_at: string | null;
+};
+
+/**
+ * Asks /api/jobs/saved-search-alerts to notify users whose saved searches match
+ * a newly published job. Like search sync, failures are logged, never thrown.
+ */
+export async function notifySavedSearchMatches(jobId: string) {
+  try {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const token = sessionData?.session?.access_token;
+
+    const res = await fetch("/api/jobs/saved-search-alerts", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ jobId }),
+    });
+
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      console.warn("Saved search alerts failed", res.status, body?.error);
+    }
+  } catch (e) {
+    console.warn("Saved search alerts crashed", e);
+  }
+}
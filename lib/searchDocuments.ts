@@ -0,0 +1,208 @@
+// lib/searchDocuments.ts
+//
+// Single source of truth for how platform rows become `search_documents` entries.
+// Both the admin indexer and /api/search/sync go through this registry, so adding
+// a searchable entity means registering one builder here.
+
+export type SearchEntityType =
+  | "job"
+  | "product"
+  | "organization"
+  | "profile"
+  | "question"
+  | "answer"
+  | "post"
+  | "glossary";
+
+// Product datasheets are indexed as several text chunks per product by
+// lib/datasheetIndexer rather than through the registry below
+export type SearchDocumentType = SearchEntityType | "datasheet";
+
+export type SearchDocumentMetadata = {
+  type: SearchDocumentType;
+  title: string;
+  link: string;
+  content_hash?: string;
+  source_updated_at?: string | null;
+  [key: string]: any;
+};
+
+export type SearchDocument = {
+  link: string;
+  content: string;
+  metadata: SearchDocumentMetadata;
+};
+
+type BuiltContent = {
+  content: string;
+  title: string;
+  // Extra metadata stored alongside type/title/link
+  extra?: Record<string, any>;
+};
+
+export type SearchDocumentBuilder = {
+  type: SearchEntityType;
+  // Source table and columns read by the full (admin) indexer
+  table: string;
+  select: string;
+  // Equality filters applied when reading the source table
+  filters?: Record<string, any>;
+  // Column stored as metadata.link (the id used in app URLs)
+  linkColumn: "id" | "slug";
+  // Returns null for rows that should not be in the index
+  build: (row: any) => BuiltContent | null;
+};
+
+export const SEARCH_DOCUMENT_BUILDERS: Record<SearchEntityType, SearchDocumentBuilder> = {
+  job: {
+    type: "job",
+    table: "jobs",
+    select: "id, title, company_name, location, employment_type, additional_description, updated_at",
+    filters: { is_published: true },
+    linkColumn: "id",
+    build: (row) => ({
+      content: `Type: Job\nTitle: ${row.title}\nCompany: ${row.company_name}\nLocation: ${row.location || "Remote"}\nDetails: ${row.additional_description || ""}`,
+      title: row.title,
+    }),
+  },
+
+  product: {
+    type: "product",
+    table: "products",
+    select: "id, name, company_name, category, short_description, full_description, updated_at",
+    linkColumn: "id",
+    build: (row) => ({
+      content: `Type: Product\nName: ${row.name}\nCompany: ${row.company_name}\nCategory: ${row.category}\nDescription: ${row.description || row.full_description || row.short_description || ""}`,
+      title: row.name,
+    }),
+  },
+
+  organization: {
+    type: "organization",
+    table: "organizations",
+    select: "id, name, slug, industry, description, focus_areas, updated_at",
+    filters: { is_active: true },
+    // Org pages are addressed by slug, not id
+    linkColumn: "slug",
+    build: (row) => ({
+      content: `Type: Organization\nName: ${row.name}\nIndustry: ${row.industry}\nFocus: ${row.focus_areas}\nDescription: ${row.description || ""}`,
+      title: row.name,
+    }),
+  },
+
+  profile: {
+    type: "profile",
+    table: "profiles",
+    select: "id, full_name, short_bio, role, affiliation, skills, updated_at",
+    linkColumn: "id",
+    build: (row) => {
+      if (!row.full_name) return null;
+      return {
+        content: `Type: User Profile\nName: ${row.full_name}\nRole: ${row.role}\nAffiliation: ${row.affiliation}\nBio: ${row.short_bio}\nSkills: ${row.skills}`,
+        title: row.full_name,
+      };
+    },
+  },
+
+  question: {
+    type: "question",
+    table: "qna_questions",
+    select: "id, title, body, tags, updated_at",
+    linkColumn: "id",
+    build: (row) => ({
+      content: `Type: Q&A Question\nTitle: ${row.title}\nBody: ${row.body}\nTags: ${row.tags?.join(", ")}`,
+      title: row.title,
+    }),
+  },
+
+  answer: {
+    type: "answer",
+    table: "qna_answers",
+    select: "id, question_id, body, created_at, updated_at",
+    linkColumn: "id",
+    build: (row) => {
+      if (!row.body || row.body.length < 10) return null;
+      return {
+        content: `Type: Q&A Answer\nAnswer: ${row.body}`,
+        title: row.body.substring(0, 50),
+        extra: { question_id: row.question_id ?? null },
+      };
+    },
+  },
+
+  post: {
+    type: "post",
+    table: "posts",
+    select: "id, body, created_at, updated_at, user_id",
+    linkColumn: "id",
+    build: (row) => {
+      if (!row.body || row.body.length < 10) return null; // Skip short posts
+      return {
+        content: `Type: Post\nContent: ${row.body}`,
+        title: row.body.substring(0, 50),
+      };
+    },
+  },
+
+  glossary: {
+    type: "glossary",
+    table: "glossary_terms",
+    select: "id, name, slug, category, level, one_line, overview, explanation, updated_at",
+    filters: { status: "published" },
+    linkColumn: "slug",
+    build: (row) => ({
+      content: `Type: Glossary Term\nName: ${row.name}\nCategory: ${row.category}\nLevel: ${row.level}\nSummary: ${row.one_line || ""}\nOverview: ${row.overview || ""}\nExplanation: ${row.explanation || ""}`,
+      title: row.name,
+    }),
+  },
+};
+
+export const SEARCH_ENTITY_TYPES = Object.keys(SEARCH_DOCUMENT_BUILDERS) as SearchEntityType[];
+
+export function isSearchEntityType(v: any): v is SearchEntityType {
+  return typeof v === "string" && Object.prototype.hasOwnProperty.call(SEARCH_DOCUMENT_BUILDERS, v);
+}
+
+export function searchDocumentLink(type: SearchEntityType, row: any): string | null {
+  const link = row?.[SEARCH_DOCUMENT_BUILDERS[type].linkColumn];
+  return link ? String(link) : null;
+}
+
+/**
+ * Turns a source row into the content + metadata stored in `search_documents`.
+ * Returns null when the row has no link or is not indexable (e.g. very short posts).
+ */
+export function buildSearchDocument(type: SearchEntityType, row: any): SearchDocument | null {
+  const builder = SEARCH_DOCUMENT_BUILDERS[type];
+  const link = searchDocumentLink(type, row);
+  if (!link) return null;
+
+  const built = builder.build(row);
+  if (!built) return null;
+
+  return {
+    link,
+    content: built.content,
+    metadata: {
+      ...(built.extra || {}),
+      type,
+      title: built.title,
+      link,
+      source_updated_at: row.updated_at ?? row.created_at ?? null,
+    },
+  };
+}
+
+// Text sent to the embedding model
+export function embeddingInput(doc: SearchDocument) {
+  return doc.content.replaceAll("\n", " ");
+}
+
+// SHA-256 of the document content; works in both the Node and Edge runtimes
+export async function hashSearchContent(text: string) {
+  const bytes = new TextEncoder().encode(text);
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -0,0 +1,413 @@
+// lib/searchIndexer.ts
+//
+// Resumable rebuild of `search_documents`. A run walks every registered entity
+// type page by page (keyset cursor on `id`), re-embeds only changed rows with
+// batched `embedMany` calls, then sweeps the index for orphans. Progress is
+// checkpointed in `search_index_runs` after every page, so a run that hits the
+// serverless time limit simply continues on the next POST.
+//
+// search_index_runs: id, status, phase, cursor, counts (jsonb), errors (jsonb),
+// locked_until, started_at, updated_at, finished_at
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  SEARCH_DOCUMENT_BUILDERS,
+  SEARCH_ENTITY_TYPES,
+  SearchDocument,
+  SearchDocumentType,
+  SearchEntityType,
+  buildSearchDocument,
+  embeddingInput,
+  hashSearchContent,
+  isSearchEntityType,
+} from "./searchDocuments";
+import { EmbeddingDimensionError, documentEmbeddingModel, getEmbeddingProvider } from "./embeddings";
+
+export type IndexPhase = SearchEntityType | "orphans";
+export type IndexRunStatus = "running" | "completed" | "failed";
+
+export type IndexCounts = {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+};
+
+export type IndexRunError = {
+  phase: IndexPhase;
+  cursor?: string | null;
+  error: string;
+};
+
+export type IndexRun = {
+  id: string;
+  status: IndexRunStatus;
+  phase: IndexPhase;
+  cursor: string | null;
+  counts: IndexCounts;
+  errors: IndexRunError[];
+  locked_until: string | null;
+  started_at: string;
+  updated_at: string | null;
+  finished_at: string | null;
+};
+
+const RUNS_TABLE = "search_index_runs";
+const PHASES: IndexPhase[] = [...SEARCH_ENTITY_TYPES, "orphans"];
+
+// Source rows per page; each page is one batched embedding call (chunked by the provider)
+const PAGE_SIZE = 100;
+const ORPHAN_PAGE_SIZE = 200;
+const EMBED_PARALLEL_CALLS = 3;
+// How long a POST owns a run before another caller may take it over
+const LEASE_MS = 2 * 60 * 1000;
+// Keep the stored error list bounded; the counts already tell the story
+const MAX_STORED_ERRORS = 50;
+// A page that keeps failing fails the run instead of blocking it forever
+const MAX_PAGE_ATTEMPTS = 3;
+
+const emptyCounts = (): IndexCounts => ({ inserted: 0, updated: 0, unchanged: 0, removed: 0 });
+
+export async function getIndexRun(supabase: SupabaseClient, runId?: string | null) {
+  let query = supabase.from(RUNS_TABLE).select("*");
+  query = runId ? query.eq("id", runId) : query.order("started_at", { ascending: false }).limit(1);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  return (data as IndexRun | null) ?? null;
+}
+
+export async function startIndexRun(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from(RUNS_TABLE)
+    .insert({
+      status: "running",
+      phase: PHASES[0],
+      cursor: null,
+      counts: emptyCounts(),
+      errors: [],
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data as IndexRun;
+}
+
+/**
+ * Takes the run's lease. Returns null when another request is still working on it.
+ */
+export async function claimIndexRun(supabase: SupabaseClient, run: IndexRun) {
+  const now = new Date();
+  const { data, error } = await supabase
+    .from(RUNS_TABLE)
+    .update({ locked_until: new Date(now.getTime() + LEASE_MS).toISOString() })
+    .eq("id", run.id)
+    .eq("status", "running")
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select("*")
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as IndexRun | null) ?? null;
+}
+
+/**
+ * Processes pages until the run completes or `deadline` (epoch ms) passes,
+ * checkpointing after each page. Always releases the lease before returning.
+ */
+export async function continueIndexRun(
+  supabase: SupabaseClient,
+  run: IndexRun,
+  deadline: number
+): Promise<IndexRun> {
+  // Counts as of the last checkpoint; a failed page is retried, so its partial counts are dropped
+  let checkpointCounts = { ...run.counts };
+
+  try {
+    while (run.status === "running" && Date.now() < deadline) {
+      const nextCursor =
+        run.phase === "orphans"
+          ? await pruneOrphanPage(supabase, run, run.cursor)
+          : await indexPage(supabase, run, run.phase, run.cursor);
+
+      if (nextCursor !== null) {
+        run.cursor = nextCursor;
+      } else {
+        const nextPhase = PHASES[PHASES.indexOf(run.phase) + 1];
+        run.cursor = null;
+        if (nextPhase) {
+          run.phase = nextPhase;
+        } else {
+          run.status = "completed";
+          run.finished_at = new Date().toISOString();
+        }
+      }
+
+      await saveCheckpoint(supabase, run, false);
+      checkpointCounts = { ...run.counts };
+    }
+  } catch (e: any) {
+    run.counts = checkpointCounts;
+    // The page is retried on the next POST unless it has already failed too often
+    pushError(run, { phase: run.phase, cursor: run.cursor, error: e.message });
+    const attempts = run.errors.filter((err) => err.phase === run.phase && err.cursor === run.cursor).length;
+    // A misconfigured provider would corrupt every page; stop right away
+    if (e instanceof EmbeddingDimensionError || attempts >= MAX_PAGE_ATTEMPTS) {
+      run.status = "failed";
+      run.finished_at = new Date().toISOString();
+    }
+  }
+
+  await saveCheckpoint(supabase, run, true);
+  return run;
+}
+
+/**
+ * Indexes specific source rows outside of a run, e.g. jobs that just went live on
+ * schedule. Rows the builder rejects are skipped; unchanged documents are not re-embedded.
+ */
+export async function indexSourceRows(supabase: SupabaseClient, type: SearchEntityType, rows: any[]) {
+  const counts = emptyCounts();
+  const docs = rows
+    .map((row) => buildSearchDocument(type, row))
+    .filter((doc): doc is SearchDocument => !!doc);
+
+  if (docs.length > 0) await syncDocuments(supabase, counts, type, docs);
+  return counts;
+}
+
+/**
+ * Indexes documents that were built outside the registry (datasheet chunks),
+ * with the same change detection and batched embedding as a run.
+ */
+export async function indexSearchDocuments(supabase: SupabaseClient, type: SearchDocumentType, docs: SearchDocument[]) {
+  const counts = emptyCounts();
+  if (docs.length > 0) await syncDocuments(supabase, counts, type, docs);
+  return counts;
+}
+
+// Drops the documents for rows that left the index (deleted, expired, unpublished)
+export async function removeSearchDocuments(supabase: SupabaseClient, type: SearchDocumentType, links: string[]) {
+  if (links.length === 0) return 0;
+  const { data, error } = await supabase
+    .from("search_documents")
+    .delete()
+    .eq("metadata->>type", type)
+    .in("metadata->>link", links)
+    .select("id");
+
+  if (error) throw error;
+  return (data || []).length;
+}
+
+function pushError(run: IndexRun, err: IndexRunError) {
+  run.errors = [...(run.errors || []), err].slice(-MAX_STORED_ERRORS);
+}
+
+async function saveCheckpoint(supabase: SupabaseClient, run: IndexRun, release: boolean) {
+  const patch: Partial<IndexRun> = {
+    status: run.status,
+    phase: run.phase,
+    cursor: run.cursor,
+    counts: run.counts,
+    errors: run.errors,
+    updated_at: new Date().toISOString(),
+    finished_at: run.finished_at,
+  };
+  if (release) patch.locked_until = null;
+
+  const { error } = await supabase.from(RUNS_TABLE).update(patch).eq("id", run.id);
+  if (error) throw error;
+}
+
+/**
+ * Indexes one page of `type` after `cursor`. Returns the next cursor, or null
+ * when the table is exhausted.
+ */
+async function indexPage(
+  supabase: SupabaseClient,
+  run: IndexRun,
+  type: SearchEntityType,
+  cursor: string | null
+): Promise<string | null> {
+  const builder = SEARCH_DOCUMENT_BUILDERS[type];
+
+  let query = supabase
+    .from(builder.table)
+    .select(builder.select)
+    .order("id", { ascending: true })
+    .limit(PAGE_SIZE);
+  if (builder.filters) query = query.match(builder.filters);
+  if (cursor) query = query.gt("id", cursor);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const rows = (data || []) as any[];
+  if (rows.length === 0) return null;
+
+  const docs = rows
+    .map((row) => buildSearchDocument(type, row))
+    .filter((doc): doc is SearchDocument => !!doc);
+
+  if (docs.length > 0) {
+    await syncDocuments(supabase, run.counts, type, docs);
+  }
+
+  return rows.length < PAGE_SIZE ? null : String(rows[rows.length - 1].id);
+}
+
+async function syncDocuments(
+  supabase: SupabaseClient,
+  counts: IndexCounts,
+  type: SearchDocumentType,
+  docs: SearchDocument[]
+) {
+  const { data: existingRows, error: existingError } = await supabase
+    .from("search_documents")
+    .select("id, metadata")
+    .eq("metadata->>type", type)
+    .in("metadata->>link", docs.map((d) => d.link))
+    .order("id", { ascending: true });
+
+  if (existingError) throw existingError;
+
+  // Lowest id wins; extra rows for the same link are duplicates from older indexers
+  const existingByLink = new Map<string, { id: any; contentHash: string | null; model: string }>();
+  const duplicateIds: any[] = [];
+  for (const row of existingRows || []) {
+    const link = String(row.metadata?.link);
+    if (existingByLink.has(link)) duplicateIds.push(row.id);
+    else
+      existingByLink.set(link, {
+        id: row.id,
+        contentHash: row.metadata?.content_hash ?? null,
+        model: documentEmbeddingModel(row.metadata),
+      });
+  }
+
+  const provider = getEmbeddingProvider();
+  const changed: { doc: SearchDocument; contentHash: string; existingId: any }[] = [];
+  for (const doc of docs) {
+    const contentHash = await hashSearchContent(doc.content);
+    const existing = existingByLink.get(doc.link);
+
+    // Same content and model as last run: skip the embedding call entirely
+    if (existing && existing.contentHash === contentHash && existing.model === provider.id) {
+      counts.unchanged++;
+    } else {
+      changed.push({ doc, contentHash, existingId: existing?.id ?? null });
+    }
+  }
+
+  if (changed.length > 0) {
+    const embeddings = await provider.embedMany(
+      changed.map((c) => embeddingInput(c.doc)),
+      { maxParallelCalls: EMBED_PARALLEL_CALLS }
+    );
+
+    const toRow = (c: (typeof changed)[number], i: number) => ({
+      content: c.doc.content,
+      embedding: embeddings[i],
+      metadata: { ...c.doc.metadata, content_hash: c.contentHash, embedding_model: provider.id },
+    });
+
+    const inserts: ReturnType<typeof toRow>[] = [];
+    const updates: (ReturnType<typeof toRow> & { id: any })[] = [];
+    changed.forEach((c, i) => {
+      if (c.existingId === null) inserts.push(toRow(c, i));
+      else updates.push({ id: c.existingId, ...toRow(c, i) });
+    });
+
+    if (inserts.length > 0) {
+      const { error } = await supabase.from("search_documents").insert(inserts);
+      if (error) throw error;
+      counts.inserted += inserts.length;
+    }
+
+    if (updates.length > 0) {
+      const { error } = await supabase.from("search_documents").upsert(updates, { onConflict: "id" });
+      if (error) throw error;
+      counts.updated += updates.length;
+    }
+  }
+
+  if (duplicateIds.length > 0) {
+    const { error } = await supabase.from("search_documents").delete().in("id", duplicateIds);
+    if (error) throw error;
+    counts.removed += duplicateIds.length;
+  }
+}
+
+/**
+ * Checks one page of the index against its source tables and deletes documents
+ * whose row is gone or no longer indexable. Returns the next cursor or null.
+ */
+async function pruneOrphanPage(
+  supabase: SupabaseClient,
+  run: IndexRun,
+  cursor: string | null
+): Promise<string | null> {
+  let query = supabase
+    .from("search_documents")
+    .select("id, metadata")
+    .order("id", { ascending: true })
+    .limit(ORPHAN_PAGE_SIZE);
+  if (cursor) query = query.gt("id", cursor);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const docs = data || [];
+  if (docs.length === 0) return null;
+
+  const linksByType = new Map<SearchEntityType, Map<string, any[]>>();
+  for (const doc of docs) {
+    const type = doc.metadata?.type;
+    const link = doc.metadata?.link;
+    // Unknown types are owned by other writers; leave them alone
+    if (!isSearchEntityType(type) || !link) continue;
+
+    const byLink = linksByType.get(type) || new Map<string, any[]>();
+    byLink.set(String(link), [...(byLink.get(String(link)) || []), doc.id]);
+    linksByType.set(type, byLink);
+  }
+
+  const orphanIds: any[] = [];
+  for (const [type, byLink] of Array.from(linksByType.entries())) {
+    const builder = SEARCH_DOCUMENT_BUILDERS[type];
+
+    let sourceQuery = supabase
+      .from(builder.table)
+      .select(builder.select)
+      .in(builder.linkColumn, Array.from(byLink.keys()));
+    if (builder.filters) sourceQuery = sourceQuery.match(builder.filters);
+
+    const { data: sourceRows, error: sourceError } = await sourceQuery;
+    if (sourceError) {
+      // Never delete on a failed lookup; the next run will try again
+      pushError(run, { phase: "orphans", error: `${type}: ${sourceError.message}` });
+      continue;
+    }
+
+    const live = new Set(
+      ((sourceRows || []) as any[])
+        .map((row) => buildSearchDocument(type, row))
+        .filter((doc): doc is SearchDocument => !!doc)
+        .map((doc) => doc.link)
+    );
+
+    byLink.forEach((ids, link) => {
+      if (!live.has(link)) orphanIds.push(...ids);
+    });
+  }
+
+  if (orphanIds.length > 0) {
+    const { error: deleteError } = await supabase.from("search_documents").delete().in("id", orphanIds);
+    if (deleteError) throw deleteError;
+    run.counts.removed += orphanIds.length;
+  }
+
+  return docs.length < ORPHAN_PAGE_SIZE ? null : String(docs[docs.length - 1].id);
+}
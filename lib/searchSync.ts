@@ -0,0 +1,35 @@
+// lib/searchSync.ts
+import { supabase } from "./supabaseClient";
+import type { SearchEntityType } from "./searchDocuments";
+
+/**
+ * Pushes a created/edited/deleted item to /api/search/sync with the current
+ * session token, which the route uses to check the caller owns the item.
+ * Failures are logged, never thrown: search sync must not block the UI flow.
+ */
+export async function syncSearchIndex(
+  type: SearchEntityType,
+  data: Record<string, any>,
+  action?: "delete"
+) {
+  try {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const token = sessionData?.session?.access_token;
+
+    const res = await fetch("/api/search/sync", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ type, data, ...(action ? { action } : {}) }),
+    });
+
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      console.warn("Search sync failed", res.status, body?.error);
+    }
+  } catch (e) {
+    console.warn("Search sync crashed", e);
+  }
+}
@@ -0,0 +1,27 @@
+// lib/storageFiles.ts
+//
+// Server-side helpers for PDFs kept in private storage buckets (job application
+// CVs, quote PDFs): checking uploads and handing out short-lived links.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Signed links are handed out per page load, so they can be short-lived
+export const SIGNED_FILE_URL_TTL_SECONDS = 60 * 10;
+
+// Real PDFs start with "%PDF-"; the browser-supplied MIME type alone is not trusted
+export async function isPdf(file: File) {
+  const head = new Uint8Array(await file.slice(0, 5).arrayBuffer());
+  return String.fromCharCode(...Array.from(head)) === "%PDF-";
+}
+
+// Null when there is no file or the link could not be signed
+export async function signedFileUrl(
+  supabase: SupabaseClient,
+  bucket: string,
+  path: string | null | undefined,
+  ttlSeconds = SIGNED_FILE_URL_TTL_SECONDS
+) {
+  if (!path) return null;
+  const { data } = await supabase.storage.from(bucket).createSignedUrl(path, ttlSeconds);
+  return data?.signedUrl ?? null;
+}
@@ -0,0 +1,57 @@
+// lib/useImpressions.ts
+import { useCallback, useEffect, useRef } from "react";
+import { OrgEventType, trackOrgEvent } from "./orgAnalytics";
+
+// Half a card on screen counts as seen
+const VISIBLE_RATIO = 0.5;
+
+/**
+ * Returns a ref factory for list cards: `ref={impressionRef(id)}` records one
+ * `type` event per id the first time the card scrolls into view on this page.
+ */
+export function useImpressions(type: OrgEventType) {
+  const seen = useRef(new Set<string>());
+  const observer = useRef<IntersectionObserver | null>(null);
+  const refs = useRef(new Map<string, (el: Element | null) => void>());
+
+  useEffect(() => {
+    if (typeof window === "undefined" || !("IntersectionObserver" in window)) return;
+
+    observer.current = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          if (!entry.isIntersecting) return;
+          const id = (entry.target as HTMLElement).dataset.impressionId;
+          observer.current?.unobserve(entry.target);
+          if (!id || seen.current.has(id)) return;
+          seen.current.add(id);
+          trackOrgEvent(type, id);
+        });
+      },
+      { threshold: VISIBLE_RATIO }
+    );
+
+    // Cards mounted before the observer existed
+    document.querySelectorAll<HTMLElement>("[data-impression-id]").forEach((el) => {
+      if (refs.current.has(el.dataset.impressionId || "")) observer.current?.observe(el);
+    });
+
+    return () => {
+      observer.current?.disconnect();
+      observer.current = null;
+    };
+  }, [type]);
+
+  return useCallback((id: string) => {
+    let ref = refs.current.get(id);
+    if (!ref) {
+      ref = (el: Element | null) => {
+        if (!el || seen.current.has(id)) return;
+        (el as HTMLElement).dataset.impressionId = id;
+        observer.current?.observe(el);
+      };
+      refs.current.set(id, ref);
+    }
+    return ref;
+  }, []);
+}
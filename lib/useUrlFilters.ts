@@ -0,0 +1,139 @@
+// lib/useUrlFilters.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter } from "next/router";
+
+type FilterValues = Record<string, string>;
+
+type UseUrlFiltersOptions<T extends FilterValues> = {
+  // Accepted values per key; anything else in the URL falls back to the default
+  allowed?: Partial<Record<keyof T, readonly string[]>>;
+  // Free-text keys are written with a debounced `replace` so typing doesn't flood history
+  textKeys?: (keyof T)[];
+  debounceMs?: number;
+};
+
+function firstValue(v: string | string[] | undefined) {
+  return Array.isArray(v) ? v[0] : v;
+}
+
+/**
+ * Filter/search/sort state mirrored in the query string. Only non-default values
+ * are written, so a page with no filters keeps a clean URL. Discrete changes
+ * push a history entry (back/forward restores them); text keys replace it.
+ */
+export function useUrlFilters<T extends FilterValues>(
+  defaults: T,
+  { allowed = {}, textKeys = [], debounceMs = 400 }: UseUrlFiltersOptions<T> = {}
+) {
+  const router = useRouter();
+  const keys = Object.keys(defaults) as (keyof T)[];
+
+  const [filters, setFilters] = useState<T>(defaults);
+  const filtersRef = useRef<T>(defaults);
+  // Serialized query we last wrote, so our own URL updates don't clobber newer typing
+  const writtenRef = useRef<string | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const parse = (query: Record<string, string | string[] | undefined>): T => {
+    const next = { ...defaults };
+    for (const key of keys) {
+      const raw = firstValue(query[key as string]);
+      if (raw == null) continue;
+      const options = allowed[key];
+      if (options && !options.includes(raw)) continue;
+      (next as FilterValues)[key as string] = raw;
+    }
+    return next;
+  };
+
+  const toQuery = (values: T) => {
+    const query: Record<string, string> = {};
+    for (const key of keys) {
+      const v = values[key].trim();
+      if (v && v !== defaults[key]) query[key as string] = v;
+    }
+    return query;
+  };
+
+  const serialize = (values: T) => new URLSearchParams(toQuery(values)).toString();
+
+  // URL -> state: first load, back/forward, links to a filtered view
+  useEffect(() => {
+    if (!router.isReady) return;
+    const next = parse(router.query);
+    const key = serialize(next);
+    if (key === writtenRef.current) return;
+
+    // History navigation wins over a pending debounced write
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    writtenRef.current = key;
+    filtersRef.current = next;
+    setFilters(next);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router.isReady, router.asPath]);
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+  }, []);
+
+  const write = useCallback(
+    (values: T, mode: "push" | "replace") => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+
+      const key = serialize(values);
+      if (key === writtenRef.current) return;
+      writtenRef.current = key;
+
+      // Keep unrelated params (e.g. ?org=) untouched
+      const query: Record<string, any> = { ...router.query };
+      keys.forEach((k) => delete query[k as string]);
+      Object.assign(query, toQuery(values));
+
+      router[mode]({ pathname: router.pathname, query }, undefined, {
+        shallow: true,
+        scroll: false,
+      });
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [router]
+  );
+
+  const setFilter = useCallback(
+    <K extends keyof T>(key: K, value: T[K]) => {
+      const next = { ...filtersRef.current, [key]: value };
+      filtersRef.current = next;
+      setFilters(next);
+
+      if (textKeys.includes(key)) {
+        if (timerRef.current) clearTimeout(timerRef.current);
+        timerRef.current = setTimeout(() => write(filtersRef.current, "replace"), debounceMs);
+      } else {
+        write(next, "push");
+      }
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [write, debounceMs]
+  );
+
+  const resetFilters = useCallback(() => {
+    filtersRef.current = defaults;
+    setFilters(defaults);
+    write(defaults, "push");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [write]);
+
+  // Absolute link to the current results, for sharing
+  const shareUrl = () => {
+    if (typeof window === "undefined") return "";
+    const qs = serialize(filtersRef.current);
+    return `${window.location.origin}${window.location.pathname}${qs ? `?${qs}` : ""}`;
+  };
+
+  return { filters, setFilter, resetFilters, shareUrl };
+}
@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // pdfjs loads its worker module at runtime; let Node resolve it instead of the bundler
+  serverExternalPackages: ["pdfjs-dist"],
 };
 
 export default nextConfig;
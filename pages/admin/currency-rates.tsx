@@ -0,0 +1,268 @@
+// pages/admin/currency-rates.tsx
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { useSupabaseUser } from "../../lib/useSupabaseUser";
+import {
+  CurrencyRate,
+  REFERENCE_CURRENCY,
+  SALARY_CURRENCIES,
+  deleteCurrencyRate,
+  listCurrencyRates,
+  saveCurrencyRate,
+} from "../../lib/salary";
+
+function formatDate(value: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleString();
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: "8px 10px",
+  borderRadius: 10,
+  border: "1px solid rgba(148,163,184,0.6)",
+  backgroundColor: "rgba(15,23,42,0.9)",
+  color: "#e5e7eb",
+  fontSize: 14,
+};
+
+export default function AdminCurrencyRatesPage() {
+  const { user, loading } = useSupabaseUser();
+  const router = useRouter();
+
+  // Same check as isPlatformAdmin(); the API enforces it again
+  const isAdmin = user?.app_metadata?.role === "admin";
+
+  const [rates, setRates] = useState<CurrencyRate[]>([]);
+  const [status, setStatus] = useState<string>("Loading rates…");
+  const [error, setError] = useState<string | null>(null);
+
+  const [currency, setCurrency] = useState("USD");
+  const [rate, setRate] = useState("");
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.replace("/auth?redirect=/admin/currency-rates");
+    }
+  }, [loading, user, router]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    listCurrencyRates()
+      .then((rows) => {
+        setRates(rows);
+        setStatus("");
+      })
+      .catch((e) => {
+        console.error("Error loading currency rates", e);
+        setError("Could not load currency rates.");
+        setStatus("");
+      });
+  }, [isAdmin]);
+
+  if (!user) return null;
+
+  if (!isAdmin) {
+    return (
+      <section className="section">
+        <div className="products-empty">This page is only available to platform admins.</div>
+      </section>
+    );
+  }
+
+  const upsertLocal = (saved: CurrencyRate) => {
+    setRates((prev) =>
+      [...prev.filter((r) => r.currency !== saved.currency), saved].sort((a, b) =>
+        a.currency.localeCompare(b.currency)
+      )
+    );
+  };
+
+  const handleSave = async (code: string, value: string) => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      setError("Rate must be a positive number.");
+      return;
+    }
+
+    setBusy(code);
+    setError(null);
+    try {
+      upsertLocal(await saveCurrencyRate(code, parsed));
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[code];
+        return next;
+      });
+      if (code === currency) setRate("");
+    } catch (e: any) {
+      setError(e?.message || "Could not save the rate.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (code: string) => {
+    if (!window.confirm(`Remove the ${code} rate? Jobs paid in ${code} drop out of salary filters.`)) return;
+
+    setBusy(code);
+    setError(null);
+    try {
+      await deleteCurrencyRate(code);
+      setRates((prev) => prev.filter((r) => r.currency !== code));
+    } catch (e: any) {
+      setError(e?.message || "Could not remove the rate.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const missing = SALARY_CURRENCIES.filter(
+    (c) => c !== REFERENCE_CURRENCY && !rates.some((r) => r.currency === c)
+  );
+
+  return (
+    <section className="section">
+      <div
+        className="card"
+        style={{
+          padding: 18,
+          marginBottom: 14,
+          background: "radial-gradient(circle at 0% 0%, rgba(34,197,94,0.16), rgba(15,23,42,0.96))",
+          border: "1px solid rgba(148,163,184,0.35)",
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", gap: 16, flexWrap: "wrap" }}>
+          <div>
+            <div className="section-title">💱 Currency rates</div>
+            <div className="section-sub" style={{ maxWidth: 560 }}>
+              Value of one unit of each currency in {REFERENCE_CURRENCY}. Job salaries are converted
+              with these rates for the salary filter on the jobs page.
+            </div>
+          </div>
+          <Link href="/jobs" className="section-link" style={{ fontSize: 13 }}>
+            Jobs →
+          </Link>
+        </div>
+      </div>
+
+      {status && <div className="dashboard-status">{status}</div>}
+      {error && (
+        <div className="products-status" style={{ color: "#f87171", marginBottom: 10 }}>
+          {error}
+        </div>
+      )}
+
+      {!status && (
+        <>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave(currency.trim().toUpperCase(), rate);
+            }}
+            className="card"
+            style={{ padding: 14, marginBottom: 14, display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}
+          >
+            <span style={{ fontSize: 13 }}>1</span>
+            <input
+              list="salary-currencies"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              maxLength={3}
+              style={{ ...inputStyle, width: 90, textTransform: "uppercase" }}
+              aria-label="Currency"
+            />
+            <datalist id="salary-currencies">
+              {missing.map((c) => (
+                <option key={c} value={c} />
+              ))}
+            </datalist>
+            <span style={{ fontSize: 13 }}>=</span>
+            <input
+              type="number"
+              step="any"
+              min="0"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              placeholder="0.92"
+              style={{ ...inputStyle, width: 140 }}
+              aria-label={`Rate in ${REFERENCE_CURRENCY}`}
+            />
+            <span style={{ fontSize: 13 }}>{REFERENCE_CURRENCY}</span>
+            <button type="submit" className="nav-cta" disabled={!!busy || !rate} style={{ cursor: "pointer" }}>
+              Save rate
+            </button>
+          </form>
+
+          {rates.length === 0 ? (
+            <div className="products-empty">
+              No rates yet. Only {REFERENCE_CURRENCY} salaries can be filtered until rates are added.
+            </div>
+          ) : (
+            <div className="card" style={{ padding: 0, overflow: "hidden" }}>
+              {rates.map((r) => {
+                const draft = drafts[r.currency];
+                return (
+                  <div
+                    key={r.currency}
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: 12,
+                      padding: "10px 14px",
+                      borderBottom: "1px solid rgba(148,163,184,0.15)",
+                      flexWrap: "wrap",
+                    }}
+                  >
+                    <strong style={{ width: 50 }}>{r.currency}</strong>
+                    <input
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={draft ?? String(r.rate_to_reference)}
+                      onChange={(e) => setDrafts((prev) => ({ ...prev, [r.currency]: e.target.value }))}
+                      style={{ ...inputStyle, width: 140 }}
+                      aria-label={`${r.currency} rate`}
+                    />
+                    <span style={{ fontSize: 12, color: "rgba(148,163,184,0.95)", flex: 1 }}>
+                      {REFERENCE_CURRENCY} · updated {formatDate(r.updated_at)}
+                    </span>
+                    {draft !== undefined && draft !== String(r.rate_to_reference) && (
+                      <button
+                        type="button"
+                        className="nav-cta"
+                        disabled={busy === r.currency}
+                        onClick={() => handleSave(r.currency, draft)}
+                        style={{ padding: "4px 12px", cursor: "pointer" }}
+                      >
+                        Save
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      className="nav-ghost-btn"
+                      disabled={busy === r.currency}
+                      onClick={() => handleDelete(r.currency)}
+                      style={{ padding: "4px 12px", cursor: "pointer" }}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
+
+(AdminCurrencyRatesPage as any).layoutProps = {
+  variant: "two-left",
+  right: null,
+};
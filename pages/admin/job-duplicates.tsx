@@ -0,0 +1,157 @@
+// pages/admin/job-duplicates.tsx
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { useSupabaseUser } from "../../lib/useSupabaseUser";
+import { DuplicateReport, fetchDuplicateReport } from "../../lib/jobDuplicates";
+
+function formatDate(value: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleDateString();
+}
+
+export default function AdminJobDuplicatesPage() {
+  const { user, loading } = useSupabaseUser();
+  const router = useRouter();
+
+  // Same check as isPlatformAdmin(); the API enforces it again
+  const isAdmin = user?.app_metadata?.role === "admin";
+
+  const [report, setReport] = useState<DuplicateReport | null>(null);
+  const [status, setStatus] = useState<string>("Comparing open jobs…");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.replace("/auth?redirect=/admin/job-duplicates");
+    }
+  }, [loading, user, router]);
+
+  const load = () => {
+    setStatus("Comparing open jobs…");
+    setError(null);
+    fetchDuplicateReport()
+      .then((r) => {
+        setReport(r);
+        setStatus("");
+      })
+      .catch((e) => {
+        console.error("Error loading duplicate report", e);
+        setError(e?.message || "Could not build the duplicate report.");
+        setStatus("");
+      });
+  };
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAdmin]);
+
+  if (!user) return null;
+
+  if (!isAdmin) {
+    return (
+      <section className="section">
+        <div className="products-empty">This page is only available to platform admins.</div>
+      </section>
+    );
+  }
+
+  return (
+    <section className="section">
+      <div
+        className="card"
+        style={{
+          padding: 18,
+          marginBottom: 14,
+          background: "radial-gradient(circle at 0% 0%, rgba(251,191,36,0.16), rgba(15,23,42,0.96))",
+          border: "1px solid rgba(148,163,184,0.35)",
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", gap: 16, flexWrap: "wrap" }}>
+          <div>
+            <div className="section-title">🧬 Duplicate jobs</div>
+            <div className="section-sub" style={{ maxWidth: 560 }}>
+              Open postings that look like the same role, grouped by title, company and location
+              similarity plus the similarity of their search embeddings.
+            </div>
+          </div>
+          <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+            <button
+              type="button"
+              className="nav-ghost-btn"
+              onClick={load}
+              disabled={!!status}
+              style={{ cursor: "pointer" }}
+            >
+              Refresh
+            </button>
+            <Link href="/jobs" className="section-link" style={{ fontSize: 13 }}>
+              Jobs →
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      {status && <div className="dashboard-status">{status}</div>}
+      {error && (
+        <div className="products-status" style={{ color: "#f87171", marginBottom: 10 }}>
+          {error}
+        </div>
+      )}
+
+      {!status && report && (
+        <>
+          <div style={{ fontSize: 13, color: "rgba(148,163,184,0.95)", marginBottom: 10 }}>
+            {report.jobsCompared} open jobs compared · {report.withEmbeddings} with embeddings ·{" "}
+            {report.clusters.length} cluster{report.clusters.length === 1 ? "" : "s"}
+          </div>
+
+          {report.clusters.length === 0 ? (
+            <div className="products-empty">No likely duplicates among the open jobs.</div>
+          ) : (
+            report.clusters.map((cluster) => (
+              <div key={cluster.jobs.map((j) => j.id).join("-")} className="card" style={{ padding: 14, marginBottom: 12 }}>
+                <div style={{ display: "flex", justifyContent: "space-between", gap: 10, marginBottom: 8 }}>
+                  <strong style={{ fontSize: 14 }}>{cluster.jobs.length} postings</strong>
+                  <span style={{ fontSize: 12, color: "#fbbf24" }}>
+                    up to {Math.round(cluster.score * 100)}% similar
+                  </span>
+                </div>
+
+                {cluster.jobs.map((job) => (
+                  <div
+                    key={job.id}
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: 12,
+                      padding: "8px 0",
+                      borderTop: "1px solid rgba(148,163,184,0.15)",
+                      flexWrap: "wrap",
+                      fontSize: 13,
+                    }}
+                  >
+                    <Link href={`/jobs/${job.id}`} style={{ color: "#7dd3fc", fontWeight: 600, flex: "1 1 220px" }}>
+                      {job.title || "Untitled role"}
+                    </Link>
+                    <span style={{ flex: "1 1 160px" }}>{job.company_name || "—"}</span>
+                    <span style={{ flex: "1 1 160px", color: "rgba(148,163,184,0.95)" }}>{job.location || "—"}</span>
+                    <span style={{ color: "rgba(148,163,184,0.95)" }}>posted {formatDate(job.created_at)}</span>
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+        </>
+      )}
+    </section>
+  );
+}
+
+(AdminJobDuplicatesPage as any).layoutProps = {
+  variant: "two-left",
+  right: null,
+};
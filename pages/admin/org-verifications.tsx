@@ -0,0 +1,242 @@
+// pages/admin/org-verifications.tsx
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { useSupabaseUser } from "../../lib/useSupabaseUser";
+import {
+  DisputedVerification,
+  MAX_DISPUTE_REASON_LENGTH,
+  VERIFICATION_METHOD_LABELS,
+  fetchDisputedVerifications,
+  reviewOrgVerification,
+} from "../../lib/orgVerification";
+
+function formatDate(value: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleDateString();
+}
+
+function DisputeCard({ claim, onDecided }: { claim: DisputedVerification; onDecided: (id: string) => void }) {
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const decide = async (decision: "approve" | "reject") => {
+    setBusy(true);
+    setError(null);
+    try {
+      await reviewOrgVerification(claim.id, decision, note);
+      onDecided(claim.id);
+    } catch (e: any) {
+      console.error("Error reviewing verification", e);
+      setError(e?.message || "Could not save the decision.");
+      setBusy(false);
+    }
+  };
+
+  // Reported after verifying vs. a new claim on a domain someone else holds
+  const reported = !!claim.disputed_by;
+
+  return (
+    <div className="card" style={{ padding: 14, marginBottom: 12 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 10, flexWrap: "wrap", marginBottom: 8 }}>
+        <div style={{ fontSize: 14 }}>
+          {claim.org ? (
+            <Link href={`/orgs/${claim.org.slug}`} style={{ color: "#7dd3fc", fontWeight: 600 }}>
+              {claim.org.name}
+            </Link>
+          ) : (
+            <strong>Deleted organization</strong>
+          )}{" "}
+          claims <strong>{claim.domain}</strong>
+        </div>
+        <span style={{ fontSize: 12, color: "#fbbf24" }}>
+          {reported ? "Reported" : "Domain conflict"} · {formatDate(claim.disputed_at)}
+        </span>
+      </div>
+
+      <div style={{ fontSize: 13, display: "grid", gap: 4, color: "rgba(226,232,240,0.9)" }}>
+        <div>
+          Proof: {VERIFICATION_METHOD_LABELS[claim.method]}
+          {claim.verified_at ? `, passed ${formatDate(claim.verified_at)}` : ""}
+        </div>
+        {claim.org?.website && (
+          <div>
+            Website:{" "}
+            <a href={claim.org.website} target="_blank" rel="noopener noreferrer" style={{ color: "#7dd3fc" }}>
+              {claim.org.website}
+            </a>
+          </div>
+        )}
+        {claim.holders.length > 0 && (
+          <div>
+            Currently verified for this domain:{" "}
+            {claim.holders.map((h, i) => (
+              <span key={h.id}>
+                {i > 0 && ", "}
+                <Link href={`/orgs/${h.slug}`} style={{ color: "#7dd3fc" }}>
+                  {h.name}
+                </Link>
+              </span>
+            ))}
+          </div>
+        )}
+        {claim.dispute_reason && (
+          <div style={{ whiteSpace: "pre-wrap", color: "rgba(148,163,184,0.95)" }}>
+            {reported ? "Report: " : ""}
+            {claim.dispute_reason}
+          </div>
+        )}
+      </div>
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 10 }}>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={MAX_DISPUTE_REASON_LENGTH}
+          placeholder="Note for the claimant (optional)"
+          style={{ flex: "1 1 260px" }}
+        />
+        <button
+          type="button"
+          className="nav-cta"
+          disabled={busy}
+          onClick={() => decide("approve")}
+          style={{ cursor: "pointer", padding: "6px 12px", minWidth: "unset" }}
+        >
+          {claim.holders.length > 0 ? "Verify this org instead" : "Keep verified"}
+        </button>
+        <button
+          type="button"
+          className="nav-ghost-btn"
+          disabled={busy}
+          onClick={() => decide("reject")}
+          style={{ cursor: "pointer" }}
+        >
+          Reject claim
+        </button>
+      </div>
+
+      {error && (
+        <div className="products-status" style={{ color: "#f87171", marginTop: 8 }}>
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function AdminOrgVerificationsPage() {
+  const { user, loading } = useSupabaseUser();
+  const router = useRouter();
+
+  // Same check as isPlatformAdmin(); the API enforces it again
+  const isAdmin = user?.app_metadata?.role === "admin";
+
+  const [claims, setClaims] = useState<DisputedVerification[] | null>(null);
+  const [status, setStatus] = useState<string>("Loading disputed claims…");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.replace("/auth?redirect=/admin/org-verifications");
+    }
+  }, [loading, user, router]);
+
+  const load = () => {
+    setStatus("Loading disputed claims…");
+    setError(null);
+    fetchDisputedVerifications()
+      .then((rows) => {
+        setClaims(rows);
+        setStatus("");
+      })
+      .catch((e) => {
+        console.error("Error loading verification queue", e);
+        setError(e?.message || "Could not load the verification queue.");
+        setStatus("");
+      });
+  };
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAdmin]);
+
+  if (!user) return null;
+
+  if (!isAdmin) {
+    return (
+      <section className="section">
+        <div className="products-empty">This page is only available to platform admins.</div>
+      </section>
+    );
+  }
+
+  return (
+    <section className="section">
+      <div
+        className="card"
+        style={{
+          padding: 18,
+          marginBottom: 14,
+          background: "radial-gradient(circle at 0% 0%, rgba(56,189,248,0.16), rgba(15,23,42,0.96))",
+          border: "1px solid rgba(148,163,184,0.35)",
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", gap: 16, flexWrap: "wrap" }}>
+          <div>
+            <div className="section-title">✓ Organization verification</div>
+            <div className="section-sub" style={{ maxWidth: 560 }}>
+              Claims on a domain another organization already holds, and verified organizations someone
+              reported. Verifying an org for a domain removes the badge from any other holder.
+            </div>
+          </div>
+          <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+            <button
+              type="button"
+              className="nav-ghost-btn"
+              onClick={load}
+              disabled={!!status}
+              style={{ cursor: "pointer" }}
+            >
+              Refresh
+            </button>
+            <Link href="/orgs" className="section-link" style={{ fontSize: 13 }}>
+              Organizations →
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      {status && <div className="dashboard-status">{status}</div>}
+      {error && (
+        <div className="products-status" style={{ color: "#f87171", marginBottom: 10 }}>
+          {error}
+        </div>
+      )}
+
+      {!status && claims && (
+        claims.length === 0 ? (
+          <div className="products-empty">No disputed claims right now.</div>
+        ) : (
+          claims.map((claim) => (
+            <DisputeCard
+              key={claim.id}
+              claim={claim}
+              onDecided={(id) => setClaims((prev) => (prev || []).filter((c) => c.id !== id))}
+            />
+          ))
+        )
+      )}
+    </section>
+  );
+}
+
+(AdminOrgVerificationsPage as any).layoutProps = {
+  variant: "two-left",
+  right: null,
+};
@@ -14,6 +14,7 @@ import { useSupabaseUser } from "../lib/useSupabaseUser";
 import { useEntanglements } from "../lib/useEntanglements";
 import Q5BadgeChips from "../components/Q5BadgeChips";
 import { computeCommunityProfileScore } from "../lib/profileCompleteness";
+import { trackOrgEvent } from "../lib/orgAnalytics";
 
 /* ========================
    TYPES
@@ -218,6 +219,7 @@ function CommunityProvider({ children }: { children: ReactNode }) {
             delete copy[orgId];
             return copy;
           });
+          trackOrgEvent("unfollow", orgId);
         }
       } else {
         const { error } = await supabase.from("org_follows").upsert(
@@ -229,6 +231,7 @@ function CommunityProvider({ children }: { children: ReactNode }) {
           console.error("Error following organization", error);
         } else {
           setOrgFollows((prev) => ({ ...prev, [orgId]: true }));
+          trackOrgEvent("follow", orgId);
         }
       }
     } catch (e) {
@@ -61,6 +61,8 @@ export default function DashboardPage() {
   const [jobsError, setJobsError] = useState<string | null>(null);
   const [productsError, setProductsError] = useState<string | null>(null);
 
+  const [savedSearchesCount, setSavedSearchesCount] = useState<number | null>(null);
+
   const [profile, setProfile] = useState<Profile | null>(null);
   const [profileLoading, setProfileLoading] = useState(true);
 
@@ -71,6 +73,27 @@ export default function DashboardPage() {
     }
   }, [loading, user, router]);
 
+  // Count saved job searches (alerts)
+  useEffect(() => {
+    if (!user) return;
+
+    const loadSavedSearches = async () => {
+      const { count, error } = await supabase
+        .from("saved_searches")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id);
+
+      if (error) {
+        console.error("Error loading saved searches", error);
+        setSavedSearchesCount(null);
+      } else {
+        setSavedSearchesCount(count ?? 0);
+      }
+    };
+
+    loadSavedSearches();
+  }, [user]);
+
   // Load saved jobs (from saved_jobs)
   useEffect(() => {
     if (!user) return;
@@ -325,6 +348,26 @@ export default function DashboardPage() {
                   </div>
                 </Link>
 
+                {/* Saved searches tile */}
+                <Link
+                  href="/dashboard/saved-searches"
+                  className="dashboard-summary-card"
+                  style={{
+                    textDecoration: "none",
+                    color: "inherit",
+                    flex: "0 0 260px",
+                    maxWidth: 260,
+                    position: "relative",
+                  }}
+                >
+                  <div className="dashboard-summary-label">Saved searches</div>
+                  <div className="dashboard-summary-value-wrapper">
+                    <div className="dashboard-summary-value">
+                      {savedSearchesCount === null ? "–" : savedSearchesCount}
+                    </div>
+                  </div>
+                </Link>
+
                 {/* Saved products tile */}
                 <Link
                   href="/dashboard/saved-products"
@@ -1,6 +1,24 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/router";
 import { supabase } from "../../lib/supabaseClient";
+import { syncSearchIndex } from "../../lib/searchSync";
+import { notifySavedSearchMatches } from "../../lib/savedSearches";
+import { inferCountryCode } from "../../lib/locations";
+import {
+  PublishIntent,
+  fromDateTimeLocal,
+  jobLifecyclePayload,
+  lifecycleDateError,
+} from "../../lib/jobLifecycle";
+import {
+  EMPTY_SALARY_FORM,
+  SALARY_CURRENCIES,
+  SALARY_PERIODS,
+  SALARY_PERIOD_LABELS,
+  SalaryFormValues,
+  salaryFormError,
+  salaryPayload,
+} from "../../lib/salary";
 
 type JobType = "internship" | "msc" | "phd" | "postdoc" | "researcher" | "engineer" | "other";
 type WorkMode = "onsite" | "hybrid" | "remote";
@@ -17,6 +35,9 @@ export default function PostJobPage() {
   const [description, setDescription] = useState("");
   const [applyUrl, setApplyUrl] = useState("");
   const [contactEmail, setContactEmail] = useState("");
+  const [salary, setSalary] = useState<SalaryFormValues>(EMPTY_SALARY_FORM);
+  const [publishAt, setPublishAt] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
   const [loading, setLoading] = useState(false);
   const [success, setSuccess] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -35,8 +56,12 @@ export default function PostJobPage() {
     check();
   }, []);
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    saveJob("publish");
+  };
+
+  const saveJob = async (intent: PublishIntent) => {
     setError(null);
     setSuccess(null);
 
@@ -50,49 +75,72 @@ export default function PostJobPage() {
       return;
     }
 
+    const salaryError = salaryFormError(salary);
+    if (salaryError) {
+      setError(salaryError);
+      return;
+    }
+
+    const publishIso = fromDateTimeLocal(publishAt);
+    const expiresIso = fromDateTimeLocal(expiresAt);
+    const dateError = lifecycleDateError(intent, publishIso, expiresIso);
+    if (dateError) {
+      setError(dateError);
+      return;
+    }
+
+    const lifecycle = jobLifecyclePayload(intent, publishIso, expiresIso);
+
     setLoading(true);
     try {
       const { data, error } = await supabase.from("jobs").insert({
         title,
         organisation_name: organisationName,
         location_text: locationText || null,
+        country_code: inferCountryCode(locationText),
         job_type: jobType,
         work_mode: workMode,
         description: description || null,
         apply_url: applyUrl || null,
         contact_email: contactEmail || null,
+        ...salaryPayload(salary),
         owner_id: userId,
-        is_published: true,
+        ...lifecycle,
       })
         .select()
         .single();
 
       if (data) {
         // Sync to search index
-        await fetch("/api/search/sync", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            type: "job",
-            data: {
-              ...data,
-              company_name: organisationName, // Map mismatch naming
-              additional_description: description,
-              location: locationText
-            }
-          })
+        await syncSearchIndex("job", {
+          ...data,
+          company_name: organisationName, // Map mismatch naming
+          additional_description: description,
+          location: locationText
         });
+        if (lifecycle.status === "published") {
+          await notifySavedSearchMatches(data.id);
+        }
       }
 
       if (error) {
         setError(error.message);
       } else {
-        setSuccess("Job posted successfully!");
+        setSuccess(
+          lifecycle.status === "draft"
+            ? "Draft saved."
+            : lifecycle.status === "scheduled"
+            ? "Job scheduled."
+            : "Job posted successfully!"
+        );
         // Reset some fields
         setTitle("");
         setDescription("");
         setApplyUrl("");
         setContactEmail("");
+        setSalary(EMPTY_SALARY_FORM);
+        setPublishAt("");
+        setExpiresAt("");
       }
     } catch (err: any) {
       setError(err.message || "Something went wrong.");
@@ -298,6 +346,100 @@ export default function PostJobPage() {
             </div>
           </div>
 
+          <div
+            style={{
+              display: "flex",
+              gap: 10,
+              marginBottom: 10,
+              flexWrap: "wrap",
+              fontSize: 13,
+            }}
+          >
+            <div style={{ flex: 1, minWidth: 110 }}>
+              <label style={{ display: "block", marginBottom: 4 }}>Salary from</label>
+              <input
+                inputMode="numeric"
+                value={salary.salary_min}
+                onChange={(e) => setSalary((prev) => ({ ...prev, salary_min: e.target.value }))}
+                placeholder="optional"
+                style={{
+                  width: "100%",
+                  padding: "7px 9px",
+                  borderRadius: 9,
+                  border: "1px solid #374151",
+                  background: "#020617",
+                  color: "#e5e7eb",
+                  fontSize: 13,
+                }}
+              />
+            </div>
+
+            <div style={{ flex: 1, minWidth: 110 }}>
+              <label style={{ display: "block", marginBottom: 4 }}>Salary to</label>
+              <input
+                inputMode="numeric"
+                value={salary.salary_max}
+                onChange={(e) => setSalary((prev) => ({ ...prev, salary_max: e.target.value }))}
+                placeholder="optional"
+                style={{
+                  width: "100%",
+                  padding: "7px 9px",
+                  borderRadius: 9,
+                  border: "1px solid #374151",
+                  background: "#020617",
+                  color: "#e5e7eb",
+                  fontSize: 13,
+                }}
+              />
+            </div>
+
+            <div style={{ flex: 1, minWidth: 90 }}>
+              <label style={{ display: "block", marginBottom: 4 }}>Currency</label>
+              <select
+                value={salary.salary_currency}
+                onChange={(e) => setSalary((prev) => ({ ...prev, salary_currency: e.target.value }))}
+                style={{
+                  width: "100%",
+                  padding: "7px 9px",
+                  borderRadius: 9,
+                  border: "1px solid #374151",
+                  background: "#020617",
+                  color: "#e5e7eb",
+                  fontSize: 13,
+                }}
+              >
+                {SALARY_CURRENCIES.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div style={{ flex: 1, minWidth: 140 }}>
+              <label style={{ display: "block", marginBottom: 4 }}>Paid</label>
+              <select
+                value={salary.salary_period}
+                onChange={(e) => setSalary((prev) => ({ ...prev, salary_period: e.target.value }))}
+                style={{
+                  width: "100%",
+                  padding: "7px 9px",
+                  borderRadius: 9,
+                  border: "1px solid #374151",
+                  background: "#020617",
+                  color: "#e5e7eb",
+                  fontSize: 13,
+                }}
+              >
+                {SALARY_PERIODS.map((p) => (
+                  <option key={p} value={p}>
+                    {SALARY_PERIOD_LABELS[p]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
           <div style={{ marginBottom: 10 }}>
             <label style={{ display: "block", fontSize: 13, marginBottom: 4 }}>
               Short description
@@ -359,6 +501,52 @@ export default function PostJobPage() {
             />
           </div>
 
+          <div
+            style={{
+              display: "flex",
+              gap: 10,
+              marginBottom: 12,
+              flexWrap: "wrap",
+              fontSize: 13,
+            }}
+          >
+            <div style={{ flex: 1, minWidth: 180 }}>
+              <label style={{ display: "block", marginBottom: 4 }}>Publish at (empty = now)</label>
+              <input
+                type="datetime-local"
+                value={publishAt}
+                onChange={(e) => setPublishAt(e.target.value)}
+                style={{
+                  width: "100%",
+                  padding: "7px 9px",
+                  borderRadius: 9,
+                  border: "1px solid #374151",
+                  background: "#020617",
+                  color: "#e5e7eb",
+                  fontSize: 13,
+                }}
+              />
+            </div>
+
+            <div style={{ flex: 1, minWidth: 180 }}>
+              <label style={{ display: "block", marginBottom: 4 }}>Expires at (default 60 days)</label>
+              <input
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                style={{
+                  width: "100%",
+                  padding: "7px 9px",
+                  borderRadius: 9,
+                  border: "1px solid #374151",
+                  background: "#020617",
+                  color: "#e5e7eb",
+                  fontSize: 13,
+                }}
+              />
+            </div>
+          </div>
+
           {error && (
             <div
               style={{
@@ -402,7 +590,29 @@ export default function PostJobPage() {
               fontSize: 14,
             }}
           >
-            {loading ? "Publishing..." : "Publish job"}
+            {loading
+              ? "Saving..."
+              : fromDateTimeLocal(publishAt) && Date.parse(fromDateTimeLocal(publishAt)!) > Date.now()
+              ? "Schedule job"
+              : "Publish job"}
+          </button>
+
+          <button
+            type="button"
+            disabled={loading}
+            onClick={() => saveJob("draft")}
+            style={{
+              marginLeft: 8,
+              padding: "8px 16px",
+              borderRadius: 999,
+              border: "1px solid #374151",
+              background: "#020617",
+              color: "#9ca3af",
+              cursor: "pointer",
+              fontSize: 14,
+            }}
+          >
+            Save as draft
           </button>
         </form>
       </div>
@@ -4,6 +4,7 @@ import Link from "next/link";
 import { useRouter } from "next/router";
 import { supabase } from "../../lib/supabaseClient";
 import { useSupabaseUser } from "../../lib/useSupabaseUser";
+import { formatJobSalary } from "../../lib/salary";
 
 // Job shape – same fields we use on jobs/index.tsx
 type Job = {
@@ -15,6 +16,10 @@ type Job = {
   remote_type: string | null;
   short_description: string | null;
   salary_display: string | null;
+  salary_min?: number | null;
+  salary_max?: number | null;
+  salary_currency?: string | null;
+  salary_period?: string | null;
   keywords: string | null;
 };
 
@@ -276,7 +281,7 @@ export default function SavedJobsPage() {
                 )}
 
                 <div className="job-card-footer">
-                  <span className="job-salary">{job.salary_display || ""}</span>
+                  <span className="job-salary">{formatJobSalary(job)}</span>
                   {job.employment_type && (
                     <span className="job-type">{job.employment_type}</span>
                   )}
@@ -0,0 +1,300 @@
+// pages/dashboard/saved-searches.tsx
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { supabase } from "../../lib/supabaseClient";
+import { useSupabaseUser } from "../../lib/useSupabaseUser";
+import LeftSidebar from "../../components/LeftSidebar";
+import { describeJobFilters, jobFiltersHref, normalizeJobFilters } from "../../lib/jobFilters";
+import type { SavedSearch } from "../../lib/savedSearches";
+
+function SavedSearchesRightSidebar() {
+  return (
+    <aside
+      className="layout-right sticky-col"
+      style={{ display: "flex", flexDirection: "column" }}
+    >
+      <div className="hero-tiles hero-tiles-vertical">
+        <div className="hero-tile">
+          <div className="hero-tile-inner">
+            <div className="tile-label">Job alerts</div>
+            <div className="tile-title-row">
+              <div className="tile-title">How alerts work</div>
+              <div className="tile-icon-orbit">🔔</div>
+            </div>
+            <p className="tile-text">
+              Whenever a newly published role matches one of your saved
+              searches, you get a notification linking straight to it.
+            </p>
+            <Link href="/jobs" className="tile-cta" style={{ textDecoration: "none" }}>
+              Browse jobs <span>›</span>
+            </Link>
+          </div>
+        </div>
+      </div>
+    </aside>
+  );
+}
+
+function formatDate(value: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleDateString();
+}
+
+export default function SavedSearchesPage() {
+  const { user, loading } = useSupabaseUser();
+  const router = useRouter();
+
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [status, setStatus] = useState<string>("Loading saved searches…");
+  const [error, setError] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // redirect if not logged in
+  useEffect(() => {
+    if (!loading && !user) {
+      router.replace("/auth?redirect=/dashboard/saved-searches");
+    }
+  }, [loading, user, router]);
+
+  useEffect(() => {
+    const loadSearches = async () => {
+      if (!user) return;
+
+      setStatus("Loading saved searches…");
+      setError(null);
+
+      const { data, error } = await supabase
+        .from("saved_searches")
+        .select("id, user_id, name, filters, created_at, updated_at")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        console.error("Error loading saved searches", error);
+        setError("Could not load saved searches.");
+        setStatus("Could not load saved searches.");
+        return;
+      }
+
+      setSearches(
+        ((data || []) as any[]).map((row) => ({
+          ...row,
+          filters: normalizeJobFilters(row.filters),
+        }))
+      );
+      setStatus("");
+    };
+
+    if (user) loadSearches();
+  }, [user]);
+
+  const startRename = (search: SavedSearch) => {
+    setEditingId(search.id);
+    setEditName(search.name);
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !editingId) return;
+
+    const name = editName.trim();
+    if (!name) return;
+
+    setBusyId(editingId);
+    try {
+      const { error } = await supabase
+        .from("saved_searches")
+        .update({ name, updated_at: new Date().toISOString() })
+        .eq("id", editingId)
+        .eq("user_id", user.id);
+
+      if (error) {
+        console.error("Error renaming saved search", error);
+        setError("Could not rename this search.");
+        return;
+      }
+
+      setSearches((prev) => prev.map((s) => (s.id === editingId ? { ...s, name } : s)));
+      setEditingId(null);
+      setError(null);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (!user) return;
+    if (!window.confirm(`Delete the saved search “${search.name}”? You will stop getting alerts for it.`)) {
+      return;
+    }
+
+    setBusyId(search.id);
+    try {
+      const { error } = await supabase
+        .from("saved_searches")
+        .delete()
+        .eq("id", search.id)
+        .eq("user_id", user.id);
+
+      if (error) {
+        console.error("Error deleting saved search", error);
+        setError("Could not delete this search.");
+        return;
+      }
+
+      setSearches((prev) => prev.filter((s) => s.id !== search.id));
+      setError(null);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!user && !loading) return null;
+
+  return (
+    <section className="section">
+      <div className="section-header">
+        <div>
+          <div className="section-title">Saved searches</div>
+          <div className="section-sub">
+            Job filters you saved from the Quantum Jobs Universe. New matching
+            roles show up in your notifications.
+          </div>
+        </div>
+
+        {!status && (
+          <div style={{ fontSize: "0.8rem", color: "var(--text-muted)" }}>
+            {searches.length} search{searches.length === 1 ? "" : "es"}
+          </div>
+        )}
+      </div>
+
+      {status && (
+        <p className={error ? "dashboard-status error" : "dashboard-status"}>
+          {status}
+        </p>
+      )}
+
+      {!status && error && <p className="dashboard-status error">{error}</p>}
+
+      {!status && searches.length === 0 && (
+        <p className="dashboard-status">
+          You haven&apos;t saved any searches yet. Filter the{" "}
+          <Link href="/jobs" style={{ color: "#7dd3fc" }}>
+            jobs page
+          </Link>{" "}
+          and tap “Save this search” to get alerts for new roles.
+        </p>
+      )}
+
+      {searches.length > 0 && (
+        <div style={{ display: "flex", flexDirection: "column", gap: 12 }}>
+          {searches.map((search) => {
+            const isEditing = editingId === search.id;
+            const busy = busyId === search.id;
+
+            return (
+              <div
+                key={search.id}
+                className="card"
+                style={{
+                  padding: 16,
+                  borderRadius: 16,
+                  border: "1px solid rgba(148,163,184,0.22)",
+                  background: "rgba(15,23,42,0.55)",
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "space-between",
+                  gap: 14,
+                  flexWrap: "wrap",
+                }}
+              >
+                {isEditing ? (
+                  <form
+                    onSubmit={handleRename}
+                    style={{ display: "flex", gap: 10, flex: 1, flexWrap: "wrap" }}
+                  >
+                    <input
+                      className="products-filters-input"
+                      style={{ flex: "1 1 220px", height: 38, borderRadius: 10 }}
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      maxLength={80}
+                      autoFocus
+                    />
+                    <button
+                      type="submit"
+                      className="nav-cta"
+                      style={{ cursor: "pointer" }}
+                      disabled={busy || !editName.trim()}
+                    >
+                      {busy ? "Saving…" : "Save"}
+                    </button>
+                    <button
+                      type="button"
+                      className="nav-ghost-btn"
+                      style={{ cursor: "pointer" }}
+                      onClick={() => setEditingId(null)}
+                    >
+                      Cancel
+                    </button>
+                  </form>
+                ) : (
+                  <>
+                    <div style={{ minWidth: 0, flex: 1 }}>
+                      <div style={{ fontWeight: 700, fontSize: 15 }}>{search.name}</div>
+                      <div style={{ fontSize: 13, color: "rgba(148,163,184,0.95)", marginTop: 4 }}>
+                        {describeJobFilters(search.filters)}
+                        {formatDate(search.created_at) && ` · saved ${formatDate(search.created_at)}`}
+                      </div>
+                    </div>
+
+                    <div style={{ display: "flex", gap: 8 }}>
+                      <Link
+                        href={jobFiltersHref(search.filters)}
+                        className="nav-ghost-btn"
+                        style={{ textDecoration: "none" }}
+                      >
+                        View jobs
+                      </Link>
+                      <button
+                        type="button"
+                        className="nav-ghost-btn"
+                        style={{ cursor: "pointer" }}
+                        onClick={() => startRename(search)}
+                        disabled={busy}
+                      >
+                        Rename
+                      </button>
+                      <button
+                        type="button"
+                        className="nav-ghost-btn"
+                        style={{ cursor: "pointer", color: "#fca5a5" }}
+                        onClick={() => handleDelete(search)}
+                        disabled={busy}
+                      >
+                        {busy ? "Deleting…" : "Delete"}
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
+
+// ✅ AppLayout config: 3 columns with right sidebar tiles
+(SavedSearchesPage as any).layoutProps = {
+  variant: "three",
+  left: <LeftSidebar />,
+  right: <SavedSearchesRightSidebar />,
+};
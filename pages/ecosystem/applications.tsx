@@ -0,0 +1,227 @@
+// pages/ecosystem/applications.tsx
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { useSupabaseUser } from "../../lib/useSupabaseUser";
+import {
+  APPLICATION_STATUSES,
+  APPLICATION_STATUS_COLORS,
+  APPLICATION_STATUS_LABELS,
+  JobApplication,
+  listMyApplications,
+} from "../../lib/jobApplications";
+
+function formatDate(value: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleDateString();
+}
+
+export default function EcosystemApplicationsPage() {
+  const { user, loading } = useSupabaseUser();
+  const router = useRouter();
+
+  const [applications, setApplications] = useState<JobApplication[]>([]);
+  const [status, setStatus] = useState<string>("Loading applications…");
+  const [error, setError] = useState<string | null>(null);
+
+  // redirect if not logged in
+  useEffect(() => {
+    if (!loading && !user) {
+      router.replace("/auth?redirect=/ecosystem/applications");
+    }
+  }, [loading, user, router]);
+
+  useEffect(() => {
+    const loadApplications = async () => {
+      setStatus("Loading applications…");
+      setError(null);
+
+      try {
+        setApplications(await listMyApplications());
+      } catch (e) {
+        console.error("Error loading applications", e);
+        setError("Could not load your applications.");
+      }
+      setStatus("");
+    };
+
+    if (user) loadApplications();
+  }, [user]);
+
+  if (!user && !loading) return null;
+
+  const total = applications.length;
+
+  return (
+    <section className="section">
+      {/* Header card — sky theme (applications tile) */}
+      <div
+        className="card"
+        style={{
+          padding: 18,
+          marginBottom: 14,
+          background:
+            "radial-gradient(circle at 0% 0%, rgba(56,189,248,0.18), rgba(15,23,42,0.96))",
+          border: "1px solid rgba(148,163,184,0.35)",
+        }}
+      >
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            gap: 16,
+            alignItems: "flex-start",
+            flexWrap: "wrap",
+          }}
+        >
+          <div>
+            <div
+              className="section-title"
+              style={{ display: "flex", gap: 10, alignItems: "center" }}
+            >
+              📨 My applications
+              {!status && !error && (
+                <span
+                  style={{
+                    fontSize: 12,
+                    padding: "2px 10px",
+                    borderRadius: 999,
+                    background: "rgba(15,23,42,0.9)",
+                    border: "1px solid rgba(56,189,248,0.55)",
+                    color: "#7dd3fc",
+                    whiteSpace: "nowrap",
+                  }}
+                >
+                  {total} total
+                </span>
+              )}
+            </div>
+
+            <div className="section-sub" style={{ maxWidth: 560 }}>
+              Jobs you applied to on Quantum5ocial and where each application stands.
+            </div>
+          </div>
+
+          <div
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              alignItems: "flex-end",
+              gap: 6,
+            }}
+          >
+            <Link href="/ecosystem" className="section-link" style={{ fontSize: 13 }}>
+              ← Back to ecosystem
+            </Link>
+            <Link href="/jobs" className="section-link" style={{ fontSize: 13 }}>
+              Discover jobs →
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      {/* States */}
+      {status && <div className="dashboard-status">{status}</div>}
+
+      {!status && error && (
+        <div className="products-status" style={{ color: "#f87171" }}>
+          {error}
+        </div>
+      )}
+
+      {!status && !error && total === 0 && (
+        <div className="products-empty">
+          You haven&apos;t applied to any roles yet. Look for “Apply on
+          Quantum5ocial” on a job page.
+        </div>
+      )}
+
+      {!status && !error && total > 0 && (
+        <div style={{ display: "flex", flexDirection: "column", gap: 12 }}>
+          {applications.map((a) => {
+            const stepIndex = APPLICATION_STATUSES.indexOf(a.status);
+            const color = APPLICATION_STATUS_COLORS[a.status];
+
+            return (
+              <Link
+                key={a.id}
+                href={`/jobs/${a.job_id}`}
+                className="card"
+                style={{
+                  textDecoration: "none",
+                  color: "inherit",
+                  padding: 16,
+                  borderRadius: 16,
+                  border: "1px solid rgba(148,163,184,0.22)",
+                  background: "rgba(15,23,42,0.55)",
+                }}
+              >
+                <div
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    gap: 12,
+                    flexWrap: "wrap",
+                  }}
+                >
+                  <div style={{ minWidth: 0 }}>
+                    <div style={{ fontWeight: 700, fontSize: 15 }}>
+                      {a.job?.title || "Job no longer available"}
+                    </div>
+                    <div style={{ fontSize: 13, color: "rgba(148,163,184,0.95)", marginTop: 4 }}>
+                      {a.job?.company_name && `${a.job.company_name} · `}
+                      Applied {formatDate(a.created_at)}
+                      {a.status_updated_at &&
+                        a.status !== "new" &&
+                        ` · updated ${formatDate(a.status_updated_at)}`}
+                    </div>
+                  </div>
+
+                  <span
+                    style={{
+                      alignSelf: "flex-start",
+                      fontSize: 12,
+                      fontWeight: 700,
+                      padding: "3px 10px",
+                      borderRadius: 999,
+                      border: `1px solid ${color}`,
+                      background: `${color}22`,
+                      color,
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    {APPLICATION_STATUS_LABELS[a.status]}
+                  </span>
+                </div>
+
+                {/* Pipeline progress; a rejection ends it wherever it happened */}
+                {a.status !== "rejected" && (
+                  <div style={{ display: "flex", gap: 4, marginTop: 12 }}>
+                    {APPLICATION_STATUSES.filter((st) => st !== "rejected").map((st, i) => (
+                      <div
+                        key={st}
+                        title={APPLICATION_STATUS_LABELS[st]}
+                        style={{
+                          flex: 1,
+                          height: 4,
+                          borderRadius: 999,
+                          background: i <= stepIndex ? color : "rgba(148,163,184,0.25)",
+                        }}
+                      />
+                    ))}
+                  </div>
+                )}
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
+
+(EcosystemApplicationsPage as any).layoutProps = {
+  variant: "two-left",
+  right: null,
+};
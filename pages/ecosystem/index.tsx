@@ -4,6 +4,7 @@ import Link from "next/link";
 import { useRouter } from "next/router";
 import { supabase } from "../../lib/supabaseClient";
 import { useSupabaseUser } from "../../lib/useSupabaseUser";
+import { listMyApplications } from "../../lib/jobApplications";
 
 export default function EcosystemIndexPage() {
   const { user, loading } = useSupabaseUser();
@@ -12,6 +13,7 @@ export default function EcosystemIndexPage() {
   const [entangledCount, setEntangledCount] = useState(0);
   const [followingCount, setFollowingCount] = useState(0);
   const [savedJobsCount, setSavedJobsCount] = useState(0);
+  const [applicationsCount, setApplicationsCount] = useState(0);
   const [savedProductsCount, setSavedProductsCount] = useState(0);
   const [savedPostsCount, setSavedPostsCount] = useState(0);
 
@@ -88,6 +90,13 @@ export default function EcosystemIndexPage() {
         if (savedJobsErr) throw savedJobsErr;
         setSavedJobsCount(savedJobs?.length || 0);
 
+        // Served by the applications API; a failure there shouldn't blank the dashboard
+        const applications = await listMyApplications().catch((e) => {
+          console.error("Ecosystem applications count error", e);
+          return [];
+        });
+        setApplicationsCount(applications.length);
+
         const { data: savedProducts, error: savedProductsErr } = await supabase
           .from("saved_products")
           .select("product_id")
@@ -221,6 +230,15 @@ export default function EcosystemIndexPage() {
             description="Roles you’ve bookmarked for later."
           />
 
+          <Tile
+            href="/ecosystem/applications"
+            label="My applications"
+            count={applicationsCount}
+            icon="📨"
+            color="#38bdf8"
+            description="Jobs you applied to and their status."
+          />
+
           <Tile
             href="/ecosystem/saved-products"
             label="Saved products"
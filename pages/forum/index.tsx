@@ -4,6 +4,7 @@ import Link from "next/link";
 import { useRouter } from "next/router";
 import { createPortal } from "react-dom";
 import { supabase } from "../../lib/supabaseClient";
+import { syncSearchIndex } from "../../lib/searchSync";
 import { useSupabaseUser } from "../../lib/useSupabaseUser";
 
 /* =========================
@@ -281,14 +282,7 @@ function QnAComposerStrip({
         onCreated(normalized);
 
         // Sync to search index
-        await fetch("/api/search/sync", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            type: "question",
-            data: normalized
-          })
-        });
+        await syncSearchIndex("question", normalized);
 
         // ✅ UX: focus the new question right away (so notifications + deep links match)
         router.replace(
@@ -2447,11 +2447,13 @@ function HomeRightSidebar() {
     const pickOne = async <T,>(
       table: string,
       select: string,
-      fallbackOrderCol: string
+      fallbackOrderCol: string,
+      filters: Record<string, any> = {}
     ): Promise<T | null> => {
       const { data: featured, error: featErr } = await supabase
         .from(table)
         .select(select)
+        .match(filters)
         .eq("is_featured", true)
         .order("featured_rank", { ascending: true, nullsFirst: false })
         .order("featured_at", { ascending: false })
@@ -2464,6 +2466,7 @@ function HomeRightSidebar() {
       const { data: latest, error: latErr } = await supabase
         .from(table)
         .select(select)
+        .match(filters)
         .order(fallbackOrderCol, { ascending: false })
         .limit(1);
 
@@ -2482,7 +2485,9 @@ function HomeRightSidebar() {
           pickOne<Job>(
             "jobs",
             "id, title, company_name, location, employment_type, remote_type, short_description",
-            "created_at"
+            "created_at",
+            // Drafts, scheduled, closed and expired jobs are not live
+            { is_published: true }
           ),
           pickOne<Product>(
             "products",
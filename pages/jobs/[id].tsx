@@ -2,8 +2,28 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/router";
 import Link from "next/link";
+import Head from "next/head";
+import { GetServerSideProps } from "next";
 import { supabase } from "../../lib/supabaseClient";
+import { syncSearchIndex } from "../../lib/searchSync";
 import { useSupabaseUser } from "../../lib/useSupabaseUser";
+import JobApplyPanel from "../../components/JobApplyPanel";
+import JobMatchSummary from "../../components/JobMatchSummary";
+import OrgVerifiedBadge from "../../components/OrgVerifiedBadge";
+import type { VerifiedOrgFields } from "../../lib/orgVerification";
+import { trackOrgEvent } from "../../lib/orgAnalytics";
+import { JobMatch, fetchJobMatches } from "../../lib/jobMatch";
+import { formatJobSalary, hasStructuredSalary } from "../../lib/salary";
+import {
+  EXPIRY_WARNING_DAYS,
+  JOB_STATUS_COLORS,
+  JOB_STATUS_LABELS,
+  daysUntil,
+  effectiveJobStatus,
+  jobRenewalPayload,
+  isJobLive,
+} from "../../lib/jobLifecycle";
+import { jobPostingJsonLd, jsonLdJobFromRow, jsonLdScript } from "../../lib/jobJsonLd";
 
 type Job = {
   id: string;
@@ -12,6 +32,8 @@ type Job = {
 
   org_id?: string | null;
   org_slug?: string | null;
+  // Verification of the posting org, when there is one
+  org_verification?: VerifiedOrgFields | null;
 
   location: string | null;
   employment_type: string | null;
@@ -28,9 +50,18 @@ type Job = {
 
   keywords: string | null;
   salary_display: string | null;
+  salary_min?: number | null;
+  salary_max?: number | null;
+  salary_currency?: string | null;
+  salary_period?: string | null;
   apply_url: string | null;
   owner_id: string | null;
   created_at?: string | null;
+
+  status?: string | null;
+  is_published?: boolean | null;
+  publish_at?: string | null;
+  expires_at?: string | null;
 };
 
 function cleanLinesToList(value?: string | null) {
@@ -70,7 +101,30 @@ function timeAgoFromISO(iso?: string | null) {
   return `${years} years ago`;
 }
 
-export default function JobDetailPage() {
+type Props = {
+  // schema.org JobPosting for search engines; null unless the job is live
+  jsonLd: string | null;
+};
+
+export const getServerSideProps: GetServerSideProps<Props> = async ({ params, req }) => {
+  const id = typeof params?.id === "string" ? params.id : null;
+  if (!id) return { props: { jsonLd: null } };
+
+  const { data, error } = await supabase
+    .from("jobs")
+    .select("*, organizations:organizations(slug, name)")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) console.error("Error loading job for JSON-LD", error);
+  if (!data || !isJobLive(data)) return { props: { jsonLd: null } };
+
+  const proto = String(req.headers["x-forwarded-proto"] || "https").split(",")[0];
+  const siteUrl = `${proto}://${req.headers.host}`;
+  return { props: { jsonLd: jsonLdScript(jobPostingJsonLd(jsonLdJobFromRow(data), siteUrl)) } };
+};
+
+export default function JobDetailPage({ jsonLd }: Props) {
   const router = useRouter();
   const { id } = router.query;
   const { user } = useSupabaseUser();
@@ -79,6 +133,8 @@ export default function JobDetailPage() {
   const [loading, setLoading] = useState(true);
   const [loadError, setLoadError] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [renewing, setRenewing] = useState(false);
+  const [match, setMatch] = useState<JobMatch | null>(null);
 
   useEffect(() => {
     const fetchJob = async () => {
@@ -94,7 +150,10 @@ export default function JobDetailPage() {
               *,
               organizations:organizations(
                 slug,
-                name
+                name,
+                verified_at,
+                verified_domain,
+                verification_method
               )
             `
           )
@@ -130,6 +189,7 @@ export default function JobDetailPage() {
               jobRow.organisations_id ??
               null,
             org_slug: orgSlug,
+            org_verification: jobRow.organizations ?? null,
 
             // ✅ Location fallback for imported jobs
             location: jobRow.location ?? jobRow.location_text ?? null,
@@ -148,9 +208,18 @@ export default function JobDetailPage() {
 
             keywords: jobRow.keywords ?? null,
             salary_display: jobRow.salary_display ?? null,
+            salary_min: jobRow.salary_min ?? null,
+            salary_max: jobRow.salary_max ?? null,
+            salary_currency: jobRow.salary_currency ?? null,
+            salary_period: jobRow.salary_period ?? null,
             apply_url: jobRow.apply_url ?? null,
             owner_id: jobRow.owner_id ?? null,
             created_at: jobRow.created_at ?? null,
+
+            status: jobRow.status ?? null,
+            is_published: jobRow.is_published ?? null,
+            publish_at: jobRow.publish_at ?? null,
+            expires_at: jobRow.expires_at ?? null,
           };
 
           setJob(jobWithOrg);
@@ -172,6 +241,80 @@ export default function JobDetailPage() {
 
   const isOwner = !!user && job?.owner_id === user.id;
 
+  const status = job ? effectiveJobStatus(job) : null;
+  // Unpublished jobs are only shown to their owner
+  const canView = isOwner || (status !== "draft" && status !== "scheduled");
+  const expiresInDays = status === "published" ? daysUntil(job?.expires_at) : null;
+
+  // Counts as a click on the job for the posting org's analytics
+  useEffect(() => {
+    if (job?.org_id && status === "published" && !isOwner) trackOrgEvent("job_view", job.id);
+  }, [job?.id, job?.org_id, status, isOwner]);
+
+  // How well the viewer's profile fits this role; not shown to the owner
+  useEffect(() => {
+    if (!user || !job || isOwner || status !== "published") {
+      setMatch(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchJobMatches(user.id, [job.id]).then((matches) => {
+      if (!cancelled) setMatch(matches[0] ?? null);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, job?.id, isOwner, status]);
+
+  // Expired, about to expire, or arriving from the expiry notification
+  const showRenew =
+    isOwner &&
+    (status === "expired" ||
+      (expiresInDays !== null && expiresInDays <= EXPIRY_WARNING_DAYS) ||
+      (router.query.renew === "1" && status === "published"));
+
+  const handleRenew = async () => {
+    if (!job || !user) return;
+    setRenewing(true);
+
+    const { data, error } = await supabase
+      .from("jobs")
+      .update(jobRenewalPayload())
+      .eq("id", job.id)
+      .eq("owner_id", user.id)
+      .select()
+      .single();
+
+    setRenewing(false);
+
+    if (error || !data) {
+      console.error("Error renewing job", error);
+      alert("Could not renew this job. Please try again.");
+      return;
+    }
+
+    setJob((prev) =>
+      prev
+        ? {
+            ...prev,
+            status: (data as any).status,
+            is_published: (data as any).is_published,
+            expires_at: (data as any).expires_at,
+          }
+        : prev
+    );
+
+    // Expired jobs were dropped from search; put it back
+    await syncSearchIndex("job", data);
+
+    if (router.query.renew) {
+      router.replace(`/jobs/${encodeURIComponent(job.id)}`, undefined, { shallow: true });
+    }
+  };
+
   const handleDelete = async () => {
     if (!job || !user) return;
     const confirmed = window.confirm(
@@ -195,15 +338,7 @@ export default function JobDetailPage() {
     }
 
     // Sync to search index
-    await fetch("/api/search/sync", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        type: "job",
-        data: { id: job.id },
-        action: "delete",
-      }),
-    });
+    await syncSearchIndex("job", { id: job.id }, "delete");
 
     router.push("/jobs");
   };
@@ -243,6 +378,11 @@ export default function JobDetailPage() {
 
   return (
     <section className="section">
+      {jsonLd && (
+        <Head>
+          <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: jsonLd }} />
+        </Head>
+      )}
       <div className="job-shell">
         <div className="top-actions">
           <button
@@ -262,6 +402,18 @@ export default function JobDetailPage() {
 
           {isOwner && (
             <div className="top-actions-right">
+              {status && (
+                <span
+                  className="statusBadge"
+                  style={{
+                    borderColor: JOB_STATUS_COLORS[status],
+                    color: JOB_STATUS_COLORS[status],
+                  }}
+                >
+                  {JOB_STATUS_LABELS[status]}
+                </span>
+              )}
+
               <button
                 type="button"
                 className="nav-ghost-btn"
@@ -303,7 +455,34 @@ export default function JobDetailPage() {
           </p>
         )}
 
-        {!loading && !loadError && job && (
+        {!loading && !loadError && job && !canView && (
+          <p className="products-status" style={{ marginTop: 8 }}>
+            This job is not published yet.
+          </p>
+        )}
+
+        {showRenew && (
+          <div className="renewBanner">
+            <span>
+              {status === "expired"
+                ? "This posting has expired and is hidden from the jobs list and search."
+                : `This posting expires ${
+                    expiresInDays !== null && expiresInDays <= 1 ? "within a day" : `in ${expiresInDays} days`
+                  }.`}
+            </span>
+            <button
+              type="button"
+              className="nav-cta"
+              onClick={handleRenew}
+              disabled={renewing}
+              style={{ padding: "4px 12px", minWidth: "unset", width: "auto", cursor: "pointer" }}
+            >
+              {renewing ? "Renewing…" : "Renew for 60 days"}
+            </button>
+          </div>
+        )}
+
+        {!loading && !loadError && job && canView && (
           <div className="job-detail-card">
             <div className="hero">
               <div className="heroTopRow">
@@ -323,6 +502,7 @@ export default function JobDetailPage() {
                     ) : (
                       <div className="heroCompany">{job.company_name}</div>
                     )}
+                    <OrgVerifiedBadge org={job.org_verification} />
                   </div>
                 )}
 
@@ -339,16 +519,37 @@ export default function JobDetailPage() {
                 </div>
               )}
 
-              {job.salary_display && <div className="heroMeta2">{job.salary_display}</div>}
+              {formatJobSalary(job) && (
+                <div className="heroMeta2">
+                  {formatJobSalary(job)}
+                  {/* The free-text note adds context next to a structured range */}
+                  {hasStructuredSalary(job) && !!(job.salary_display || "").trim() && (
+                    <span style={{ fontWeight: 400, opacity: 0.8 }}> · {job.salary_display}</span>
+                  )}
+                </div>
+              )}
 
               <div className="heroCtas">
-                {job.apply_url && (
-                  <div className="heroApplyRow">
+                <div className="heroApplyRow">
+                  {status === "published" ? (
+                    <JobApplyPanel jobId={job.id} isOwner={isOwner} />
+                  ) : (
+                    status && (
+                      <span className="heroClosed">
+                        {status === "expired" || status === "closed"
+                          ? "This posting is no longer accepting applications."
+                          : `${JOB_STATUS_LABELS[status]} — not visible to candidates yet.`}
+                      </span>
+                    )
+                  )}
+
+                  {status === "published" && job.apply_url && (
                     <a
                       href={job.apply_url}
                       target="_blank"
                       rel="noreferrer"
-                      className="nav-cta"
+                      onClick={() => job.org_id && trackOrgEvent("apply_click", job.id)}
+                      className="nav-ghost-btn"
                       style={{
                         padding: "6px 12px",
                         minWidth: "unset",
@@ -358,8 +559,8 @@ export default function JobDetailPage() {
                     >
                       Apply / learn more
                     </a>
-                  </div>
-                )}
+                  )}
+                </div>
 
                 {keywordList.length > 0 && (
                   <div className="heroTags" aria-label="Keywords">
@@ -373,6 +574,18 @@ export default function JobDetailPage() {
               </div>
 
               {job.short_description && <div className="heroSummary">{job.short_description}</div>}
+
+              {match && (
+                <div className="heroMatch">
+                  <div className="heroMatchTitle">Your match</div>
+                  <JobMatchSummary match={match} />
+                  {match.missingSkills.length > 0 && (
+                    <Link href="/profile/edit" style={{ fontSize: 12.5, color: "#7dd3fc" }}>
+                      Already have some of these? Add them to your profile →
+                    </Link>
+                  )}
+                </div>
+              )}
             </div>
 
             <div className="divider" />
@@ -474,6 +687,34 @@ export default function JobDetailPage() {
           align-items: center;
         }
 
+        .statusBadge {
+          font-size: 12px;
+          font-weight: 700;
+          padding: 3px 10px;
+          border-radius: 999px;
+          border: 1px solid;
+        }
+
+        .renewBanner {
+          margin-bottom: 10px;
+          padding: 10px 14px;
+          border-radius: 14px;
+          border: 1px solid rgba(245, 158, 11, 0.6);
+          background: rgba(245, 158, 11, 0.12);
+          color: rgba(254, 243, 199, 0.95);
+          font-size: 13px;
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 12px;
+          flex-wrap: wrap;
+        }
+
+        .heroClosed {
+          font-size: 13px;
+          color: rgba(251, 191, 36, 0.95);
+        }
+
         .delete-btn {
           border-color: rgba(248, 113, 113, 0.7);
           color: #fecaca;
@@ -593,6 +834,7 @@ export default function JobDetailPage() {
         }
 
         .heroApplyRow {
+          width: 100%;
           display: flex;
           align-items: center;
           gap: 10px;
@@ -622,6 +864,25 @@ export default function JobDetailPage() {
           line-height: 1.55;
         }
 
+        .heroMatch {
+          margin-top: 14px;
+          max-width: 860px;
+          padding: 12px 14px;
+          border-radius: 14px;
+          border: 1px solid rgba(56, 189, 248, 0.3);
+          background: rgba(2, 6, 23, 0.45);
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .heroMatchTitle {
+          font-size: 11px;
+          letter-spacing: 0.08em;
+          text-transform: uppercase;
+          color: #7dd3fc;
+        }
+
         .jobBody {
           padding: 18px 20px 22px;
           display: flex;
@@ -11,74 +11,74 @@ import Link from "next/link";
 import { useRouter } from "next/router";
 import { supabase } from "../../lib/supabaseClient";
 import { useSupabaseUser } from "../../lib/useSupabaseUser";
+import {
+  JOB_CATEGORY_CHIPS,
+  JOB_CATEGORY_CHIP_LABELS,
+  JOB_SORTS,
+  JOB_SORT_LABELS,
+  JOB_URL_ALLOWED,
+  JOB_URL_DEFAULTS,
+  JobCategoryChip,
+  JobSort,
+  CountryFacet,
+  countryFacets,
+  countryFilterLabel,
+  describeJobFilters,
+  hasJobFilters,
+  matchesJobFilters,
+  normalizeCountryFilter,
+} from "../../lib/jobFilters";
+import { JobMatch, fetchJobMatches } from "../../lib/jobMatch";
+import JobMatchSummary from "../../components/JobMatchSummary";
+import { isJobLive } from "../../lib/jobLifecycle";
+import {
+  CurrencyRates,
+  REFERENCE_CURRENCY,
+  formatJobSalary,
+  isSalaryDisclosed,
+  loadCurrencyRates,
+  matchesSalaryRange,
+  parseSalaryInput,
+} from "../../lib/salary";
+import { useUrlFilters } from "../../lib/useUrlFilters";
+import CopyLinkButton from "../../components/CopyLinkButton";
+import { jobFeedHref } from "../../lib/jobFeed";
+import { useImpressions } from "../../lib/useImpressions";
 
 type Job = {
   id: string;
   title: string | null;
   company_name: string | null;
   location: string | null;
+  country_code?: string | null;
+  region?: string | null;
+  city?: string | null;
   employment_type: string | null;
   remote_type: string | null;
   short_description: string | null;
   additional_description: string | null;
   keywords: string | null;
   salary_display: string | null;
+  salary_min?: number | null;
+  salary_max?: number | null;
+  salary_currency?: string | null;
+  salary_period?: string | null;
   created_at: string | null;
   owner_id: string | null;
+  org_id?: string | null;
 
   technology_type: string | null;
   organisation_type: string | null;
   quantum_domain: string | null;
   role_track: string | null;
   seniority_level: string | null;
-};
 
-const COUNTRY_FILTERS = [
-  "All",
-  "Switzerland",
-  "Germany",
-  "France",
-  "UK",
-  "USA",
-  "Canada",
-  "Netherlands",
-  "Finland",
-  "Australia",
-  "Other",
-];
-
-const JOB_CATEGORY_CHIPS = [
-  "All",
-  "Quantum Hardware",
-  "Quantum Software",
-  "Quantum AI & ML",
-  "Quantum Algorithms & Theory",
-  "Quantum Communication",
-  "Quantum Cryptography",
-  "Quantum Sensing",
-  "Quantum Materials",
-  "Quantum Finance & Optimization",
-  "Business & Strategy",
-  "Consulting & Policy",
-] as const;
-
-const JOB_CATEGORY_CHIP_LABELS: Record<JobCategoryChip, string> = {
-  All: "All",
-  "Quantum Hardware": "Hardware",
-  "Quantum Software": "Software",
-  "Quantum AI & ML": "AI & ML",
-  "Quantum Algorithms & Theory": "Algorithms & Theory",
-  "Quantum Communication": "Communication",
-  "Quantum Cryptography": "Cryptography",
-  "Quantum Sensing": "Sensing",
-  "Quantum Materials": "Materials",
-  "Quantum Finance & Optimization": "Finance",
-  "Business & Strategy": "Business & Strategy",
-  "Consulting & Policy": "Consulting",
+  status?: string | null;
+  is_published?: boolean | null;
+  publish_at?: string | null;
+  expires_at?: string | null;
 };
 
-type JobCategoryChip = (typeof JOB_CATEGORY_CHIPS)[number];
-
 type JobsCtx = {
   jobs: Job[];
   loading: boolean;
@@ -94,17 +94,34 @@ type JobsCtx = {
 
   countryFilter: string;
   setCountryFilter: (v: string) => void;
+  countryOptions: CountryFacet[];
 
   categoryChip: JobCategoryChip;
   setCategoryChip: (v: JobCategoryChip) => void;
 
+  sort: JobSort;
+  setSort: (v: JobSort) => void;
+  shareUrl: () => string;
+
+  salaryMin: string;
+  setSalaryMin: (v: string) => void;
+  salaryMax: string;
+  setSalaryMax: (v: string) => void;
+  disclosedOnly: boolean;
+  setDisclosedOnly: (v: boolean) => void;
+
   resetFilters: () => void;
 
+  hasActiveFilters: boolean;
+  activeFiltersLabel: string;
+  saveCurrentSearch: (name: string) => Promise<string | null>;
+
   filteredJobs: Job[];
   recommendedJobs: Job[];
   isAiRecommended: boolean;
   remainingJobs: Job[];
   missingSkills: boolean;
+  matchFor: (id: string) => JobMatch | null;
 };
 
 const JobsContext = createContext<JobsCtx | null>(null);
@@ -124,147 +141,6 @@ function shuffle<T>(arr: T[]): T[] {
   return a;
 }
 
-function normalize(v: string | null | undefined) {
-  return (v || "").toLowerCase().trim();
-}
-
-function detectCountry(location: string | null): string {
-  const loc = normalize(location);
-
-  if (!loc) return "Other";
-  if (loc.includes("switzerland")) return "Switzerland";
-  if (loc.includes("germany")) return "Germany";
-  if (loc.includes("france")) return "France";
-  if (
-    loc.includes("united kingdom") ||
-    loc.includes(" uk") ||
-    loc.endsWith("uk") ||
-    loc.includes("england") ||
-    loc.includes("scotland")
-  ) {
-    return "UK";
-  }
-  if (
-    loc.includes("united states") ||
-    loc.includes("usa") ||
-    loc.includes("u.s.") ||
-    loc.includes("california") ||
-    loc.includes("massachusetts") ||
-    loc.includes("washington") ||
-    loc.includes("new york")
-  ) {
-    return "USA";
-  }
-  if (loc.includes("canada")) return "Canada";
-  if (loc.includes("netherlands")) return "Netherlands";
-  if (loc.includes("finland")) return "Finland";
-  if (loc.includes("australia")) return "Australia";
-
-  return "Other";
-}
-
-function matchesChip(job: Job, chip: JobCategoryChip) {
-  if (chip === "All") return true;
-
-  const title = normalize(job.title);
-  const desc = normalize(job.short_description);
-  const keywords = normalize(job.keywords);
-  const tech = normalize(job.technology_type);
-  const domain = normalize(job.quantum_domain);
-  const role = normalize(job.role_track);
-
-  const hay = `${title} ${desc} ${keywords} ${tech} ${domain} ${role}`;
-
-  switch (chip) {
-    case "Quantum Hardware":
-      return (
-        hay.includes("hardware") ||
-        hay.includes("cryogenic") ||
-        hay.includes("electronics") ||
-        hay.includes("device") ||
-        hay.includes("fabrication")
-      );
-
-    case "Quantum Software":
-      return (
-        hay.includes("software") ||
-        hay.includes("developer") ||
-        hay.includes("backend") ||
-        hay.includes("frontend") ||
-        hay.includes("full stack") ||
-        hay.includes("platform")
-      );
-
-    case "Quantum AI & ML":
-      return (
-        hay.includes("machine learning") ||
-        hay.includes("ml") ||
-        hay.includes("ai") ||
-        hay.includes("artificial intelligence")
-      );
-
-    case "Quantum Algorithms & Theory":
-      return (
-        hay.includes("algorithm") ||
-        hay.includes("theory") ||
-        hay.includes("theoretical") ||
-        hay.includes("simulation") ||
-        hay.includes("research")
-      );
-
-    case "Quantum Communication":
-      return hay.includes("communication") || hay.includes("network");
-
-    case "Quantum Cryptography":
-      return (
-        hay.includes("cryptography") ||
-        hay.includes("security") ||
-        hay.includes("qkd")
-      );
-
-    case "Quantum Sensing":
-      return (
-        hay.includes("sensing") ||
-        hay.includes("sensor") ||
-        hay.includes("metrology")
-      );
-
-    case "Quantum Materials":
-      return (
-        hay.includes("material") ||
-        hay.includes("chemistry") ||
-        hay.includes("superconduct") ||
-        hay.includes("fabrication")
-      );
-
-    case "Quantum Finance & Optimization":
-      return (
-        hay.includes("finance") ||
-        hay.includes("optimization") ||
-        hay.includes("optimisation")
-      );
-
-    case "Business & Strategy":
-      return (
-        hay.includes("business") ||
-        hay.includes("strategy") ||
-        hay.includes("product") ||
-        hay.includes("marketing") ||
-        hay.includes("sales")
-      );
-
-    case "Consulting & Policy":
-      return (
-        hay.includes("consulting") ||
-        hay.includes("policy") ||
-        hay.includes("government") ||
-        hay.includes("public affairs")
-      );
-
-    default:
-      return true;
-  }
-}
 
 function JobsProvider({ children }: { children: ReactNode }) {
   const { user } = useSupabaseUser();
@@ -274,15 +150,40 @@ function JobsProvider({ children }: { children: ReactNode }) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const [search, setSearch] = useState("");
-  const [countryFilter, setCountryFilter] = useState("All");
-  const [categoryChip, setCategoryChip] = useState<JobCategoryChip>("All");
+  // Filters live in the query string so views can be shared and restored
+  const {
+    filters: urlFilters,
+    setFilter,
+    resetFilters,
+    shareUrl,
+  } = useUrlFilters(JOB_URL_DEFAULTS, {
+    allowed: JOB_URL_ALLOWED,
+    textKeys: ["q", "salary_min", "salary_max"],
+  });
+
+  const search = urlFilters.q;
+  const countryFilter = normalizeCountryFilter(urlFilters.country);
+  const categoryChip = urlFilters.category as JobCategoryChip;
+  const sort = urlFilters.sort as JobSort;
+
+  const setSearch = (v: string) => setFilter("q", v);
+  const setCountryFilter = (v: string) => setFilter("country", v);
+  const setCategoryChip = (v: JobCategoryChip) => setFilter("category", v);
+  const setSort = (v: JobSort) => setFilter("sort", v);
+
+  const salaryMin = urlFilters.salary_min;
+  const salaryMax = urlFilters.salary_max;
+  const disclosedOnly = urlFilters.disclosed === "1";
+  const setSalaryMin = (v: string) => setFilter("salary_min", v);
+  const setSalaryMax = (v: string) => setFilter("salary_max", v);
+  const setDisclosedOnly = (v: boolean) => setFilter("disclosed", v ? "1" : "");
+
+  const [currencyRates, setCurrencyRates] = useState<CurrencyRates>({});
 
   const [savedJobIds, setSavedJobIds] = useState<string[]>([]);
   const [savingId, setSavingId] = useState<string | null>(null);
 
-  const [recommendedJobIds, setRecommendedJobIds] = useState<string[]>([]);
-  const [isAiRecommended, setIsAiRecommended] = useState(false);
+  const [jobMatches, setJobMatches] = useState<Record<string, JobMatch>>({});
   const [missingSkills, setMissingSkills] = useState(false);
 
   useEffect(() => {
@@ -300,13 +201,15 @@ function JobsProvider({ children }: { children: ReactNode }) {
         setError("Could not load jobs. Please try again.");
         setJobs([]);
       } else {
-        setJobs(shuffle((data || []) as Job[]));
+        // Hide drafts, scheduled and stale postings even before the lifecycle run catches up
+        setJobs(shuffle(((data || []) as Job[]).filter((job) => isJobLive(job))));
       }
 
       setLoading(false);
     };
 
     loadJobs();
+    loadCurrencyRates().then(setCurrencyRates);
   }, []);
 
   useEffect(() => {
@@ -334,10 +237,8 @@ function JobsProvider({ children }: { children: ReactNode }) {
   }, [user]);
 
   useEffect(() => {
-    const fetchRecommendationsAndProfile = async () => {
+    const fetchProfileSkills = async () => {
       if (!user) {
-        setRecommendedJobIds([]);
-        setIsAiRecommended(false);
         setMissingSkills(false);
         return;
       }
@@ -359,26 +260,36 @@ function JobsProvider({ children }: { children: ReactNode }) {
       } catch {
         // ignore
       }
-
-      try {
-        const res = await fetch("/api/jobs/recommend", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ userId: user.id }),
-        });
-        const data = await res.json();
-        if (data.jobIds && Array.isArray(data.jobIds)) {
-          setRecommendedJobIds(data.jobIds);
-          setIsAiRecommended(data.jobIds.length > 0);
-        }
-      } catch (err) {
-        console.error("Failed to fetch recommendations", err);
-      }
     };
 
-    fetchRecommendationsAndProfile();
+    fetchProfileSkills();
   }, [user]);
 
+  // Match score for every loaded job, so each card can explain its fit
+  useEffect(() => {
+    if (!user || jobs.length === 0) {
+      setJobMatches({});
+      return;
+    }
+
+    let cancelled = false;
+    fetchJobMatches(
+      user.id,
+      jobs.map((j) => j.id)
+    ).then((matches) => {
+      if (cancelled) return;
+      const byId: Record<string, JobMatch> = {};
+      for (const m of matches) byId[m.jobId] = m;
+      setJobMatches(byId);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, jobs]);
+
+  const matchFor = (id: string) => jobMatches[id] ?? null;
+
   const isSaved = (id: string) => savedJobIds.includes(id);
 
   const handleToggleSave = async (jobId: string) => {
@@ -415,45 +326,66 @@ function JobsProvider({ children }: { children: ReactNode }) {
   };
 
   const filteredJobs = useMemo(() => {
-    const q = search.toLowerCase().trim();
+    const filters = { search, country: countryFilter, category: categoryChip };
+    const minPay = parseSalaryInput(salaryMin);
+    const maxPay = parseSalaryInput(salaryMax);
+
+    const matching = jobs.filter(
+      (job) =>
+        matchesJobFilters(job, filters) &&
+        (!disclosedOnly || isSalaryDisclosed(job)) &&
+        matchesSalaryRange(job, currencyRates, minPay, maxPay)
+    );
+    if (sort !== "newest") return matching;
+
+    return [...matching].sort(
+      (a, b) => new Date(b.created_at || 0).getTime() - new Date(a.created_at || 0).getTime()
+    );
+  }, [jobs, search, countryFilter, categoryChip, sort, salaryMin, salaryMax, disclosedOnly, currencyRates]);
+
+  // Best-scoring roles within the current filters
+  const recommendedJobs = useMemo(() => {
+    const scored = filteredJobs.filter((j) => (jobMatches[j.id]?.score ?? 0) > 0);
+    if (scored.length > 0) {
+      return [...scored]
+        .sort((a, b) => jobMatches[b.id].score - jobMatches[a.id].score)
+        .slice(0, 2);
+    }
+    return filteredJobs.slice(0, 2);
+  }, [filteredJobs, jobMatches]);
 
-    return jobs.filter((job) => {
-      if (countryFilter !== "All" && detectCountry(job.location) !== countryFilter) {
-        return false;
-      }
+  const remainingJobs = filteredJobs.filter((j) => !recommendedJobs.includes(j));
 
-      if (!matchesChip(job, categoryChip)) {
-        return false;
-      }
+  // Countries that actually have postings; a selected country with none stays listed
+  const countryOptions = useMemo(() => {
+    const facets = countryFacets(jobs);
+    if (countryFilter !== "All" && !facets.some((f) => f.value === countryFilter)) {
+      facets.push({ value: countryFilter, label: countryFilterLabel(countryFilter), count: 0 });
+    }
+    return facets;
+  }, [jobs, countryFilter]);
 
-      if (!q) return true;
+  const currentFilters = { search: search.trim(), country: countryFilter, category: categoryChip };
 
-      const haystack = (
-        `${job.title || ""} ${job.company_name || ""} ${job.location || ""} ${
-          job.short_description || ""
-        } ${job.keywords || ""} ${job.technology_type || ""} ${
-          job.quantum_domain || ""
-        } ${job.role_track || ""} ${job.seniority_level || ""}`
-      ).toLowerCase();
+  // Returns an error message, or null once the saved search exists
+  const saveCurrentSearch = async (name: string) => {
+    if (!user) {
+      router.push("/auth?redirect=/jobs");
+      return "Please sign in to save searches.";
+    }
+    if (!hasJobFilters(currentFilters)) return "Pick a filter or keyword first.";
 
-      return haystack.includes(q);
+    const { error } = await supabase.from("saved_searches").insert({
+      user_id: user.id,
+      name: name.trim() || describeJobFilters(currentFilters),
+      filters: currentFilters,
     });
-  }, [jobs, search, countryFilter, categoryChip]);
 
-  const recommendedJobs = useMemo(() => {
-    if (recommendedJobIds.length > 0) {
-      const aiJobs = filteredJobs.filter((j) => recommendedJobIds.includes(j.id));
-      if (aiJobs.length > 0) return aiJobs;
+    if (error) {
+      console.error("Error saving search", error);
+      return "Could not save this search. Please try again.";
     }
-    return filteredJobs.slice(0, 2);
-  }, [filteredJobs, recommendedJobIds]);
-
-  const remainingJobs = filteredJobs.filter((j) => !recommendedJobs.includes(j));
-
-  const resetFilters = () => {
-    setSearch("");
-    setCountryFilter("All");
-    setCategoryChip("All");
+    return null;
   };
 
   const value: JobsCtx = {
@@ -471,17 +403,34 @@ function JobsProvider({ children }: { children: ReactNode }) {
 
     countryFilter,
     setCountryFilter,
+    countryOptions,
 
     categoryChip,
     setCategoryChip,
 
+    sort,
+    setSort,
+    shareUrl,
+
+    salaryMin,
+    setSalaryMin,
+    salaryMax,
+    setSalaryMax,
+    disclosedOnly,
+    setDisclosedOnly,
+
     resetFilters,
 
+    hasActiveFilters: hasJobFilters(currentFilters),
+    activeFiltersLabel: describeJobFilters(currentFilters),
+    saveCurrentSearch,
+
     filteredJobs,
     recommendedJobs,
-    isAiRecommended: recommendedJobs.length > 0 && isAiRecommended,
+    isAiRecommended: recommendedJobs.some((j) => (jobMatches[j.id]?.score ?? 0) > 0),
     remainingJobs,
     missingSkills,
+    matchFor,
   };
 
   return <JobsContext.Provider value={value}>{children}</JobsContext.Provider>;
@@ -550,6 +499,36 @@ function JobsRightSidebar() {
 function JobsMiddle() {
   const router = useRouter();
   const ctx = useJobsCtx();
+  // Org-posted job cards seen on screen count towards the org's analytics
+  const impressionRef = useImpressions("job_impression");
+
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [saveName, setSaveName] = useState("");
+  const [saveBusy, setSaveBusy] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const openSaveSearch = () => {
+    setSaveName(ctx.activeFiltersLabel.replace(/[“”]/g, ""));
+    setSaveMessage(null);
+    setSaveError(null);
+    setSaveOpen(true);
+  };
+
+  const handleSaveSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaveBusy(true);
+    setSaveError(null);
+    const err = await ctx.saveCurrentSearch(saveName);
+    setSaveBusy(false);
+
+    if (err) {
+      setSaveError(err);
+      return;
+    }
+    setSaveOpen(false);
+    setSaveMessage("Search saved. We’ll notify you when new matching roles are published.");
+  };
 
   return (
     <section className="section">
@@ -640,9 +619,10 @@ function JobsMiddle() {
               borderRadius: 12,
             }}
           >
-            {COUNTRY_FILTERS.map((country) => (
-              <option key={country} value={country}>
-                {country === "All" ? "Where?" : country}
+            <option value="All">Where?</option>
+            {ctx.countryOptions.map((c) => (
+              <option key={c.value} value={c.value}>
+                {c.label} ({c.count})
               </option>
             ))}
           </select>
@@ -696,6 +676,151 @@ function JobsMiddle() {
           </button> 
           */}
         </div>
+
+        {!saveOpen && (
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: 12,
+              flexWrap: "wrap",
+              marginTop: 14,
+              fontSize: 13,
+              color: "rgba(226,232,240,0.85)",
+            }}
+          >
+            <select
+              className="products-filters-input"
+              value={ctx.sort}
+              onChange={(e) => ctx.setSort(e.target.value as JobSort)}
+              style={{ height: 38, borderRadius: 12, width: 170 }}
+              aria-label="Sort jobs"
+            >
+              {JOB_SORTS.map((s) => (
+                <option key={s} value={s}>
+                  {JOB_SORT_LABELS[s]}
+                </option>
+              ))}
+            </select>
+
+            <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+              <input
+                className="products-filters-input"
+                inputMode="numeric"
+                value={ctx.salaryMin}
+                onChange={(e) => ctx.setSalaryMin(e.target.value)}
+                placeholder="Min salary"
+                style={{ height: 38, borderRadius: 12, width: 110 }}
+                aria-label={`Minimum yearly salary in ${REFERENCE_CURRENCY}`}
+              />
+              <span style={{ opacity: 0.7 }}>–</span>
+              <input
+                className="products-filters-input"
+                inputMode="numeric"
+                value={ctx.salaryMax}
+                onChange={(e) => ctx.setSalaryMax(e.target.value)}
+                placeholder="Max salary"
+                style={{ height: 38, borderRadius: 12, width: 110 }}
+                aria-label={`Maximum yearly salary in ${REFERENCE_CURRENCY}`}
+              />
+              <span style={{ opacity: 0.7 }} title="Other currencies are converted with the platform rate table">
+                {REFERENCE_CURRENCY} / year
+              </span>
+            </div>
+
+            <label style={{ display: "flex", alignItems: "center", gap: 6, cursor: "pointer" }}>
+              <input
+                type="checkbox"
+                checked={ctx.disclosedOnly}
+                onChange={(e) => ctx.setDisclosedOnly(e.target.checked)}
+              />
+              Salary disclosed
+            </label>
+
+            <CopyLinkButton getUrl={ctx.shareUrl} />
+
+            <a
+              href={jobFeedHref("rss", {
+                search: ctx.search,
+                country: ctx.countryFilter,
+                category: ctx.categoryChip,
+              })}
+              target="_blank"
+              rel="noreferrer"
+              title="RSS feed of these jobs (also available as atom and json)"
+              style={{ color: "#fdba74", textDecoration: "none" }}
+            >
+              📡 RSS
+            </a>
+
+            {ctx.hasActiveFilters && (
+              <>
+                <button
+                  type="button"
+                  className="nav-ghost-btn"
+                  style={{ borderRadius: 12, padding: "8px 14px", cursor: "pointer" }}
+                  onClick={openSaveSearch}
+                >
+                  🔔 Save this search
+                </button>
+                <span style={{ opacity: 0.8 }}>
+                  Get notified when new roles match {ctx.activeFiltersLabel}
+                </span>
+              </>
+            )}
+          </div>
+        )}
+
+        {saveOpen && (
+          <form
+            onSubmit={handleSaveSearch}
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: 10,
+              flexWrap: "wrap",
+              marginTop: 14,
+            }}
+          >
+            <input
+              className="products-filters-input"
+              style={{ flex: "1 1 240px", height: 40, borderRadius: 12 }}
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder="Name this search, e.g. Quantum sensing postdocs"
+              maxLength={80}
+              autoFocus
+            />
+            <button
+              type="submit"
+              className="nav-cta"
+              style={{ cursor: "pointer" }}
+              disabled={saveBusy}
+            >
+              {saveBusy ? "Saving…" : "Save search"}
+            </button>
+            <button
+              type="button"
+              className="nav-ghost-btn"
+              style={{ borderRadius: 12, padding: "8px 14px", cursor: "pointer" }}
+              onClick={() => setSaveOpen(false)}
+            >
+              Cancel
+            </button>
+            {saveError && (
+              <span style={{ fontSize: 13, color: "#fca5a5", width: "100%" }}>{saveError}</span>
+            )}
+          </form>
+        )}
+
+        {saveMessage && !saveOpen && (
+          <div style={{ marginTop: 10, fontSize: 13, color: "#7dd3fc" }}>
+            {saveMessage}{" "}
+            <Link href="/dashboard/saved-searches" style={{ color: "#a5b4fc" }}>
+              Manage saved searches
+            </Link>
+          </div>
+        )}
       </div>
 
       {ctx.missingSkills && (
@@ -812,7 +937,7 @@ function JobsMiddle() {
                     textAlign: "right",
                   }}
                 >
-                  {ctx.isAiRecommended ? "AI-Powered Selection" : "Based on filters"}
+                  {ctx.isAiRecommended ? "Ranked by match score" : "Based on filters"}
                 </div>
               </div>
 
@@ -820,7 +945,12 @@ function JobsMiddle() {
                 {ctx.recommendedJobs.map((job) => {
                   const saved = ctx.isSaved(job.id);
                   return (
-                    <Link key={job.id} href={`/jobs/${job.id}`} className="job-card">
+                    <Link
+                      key={job.id}
+                      href={`/jobs/${job.id}`}
+                      className="job-card"
+                      ref={job.org_id ? impressionRef(job.id) : undefined}
+                    >
                       <div className="job-card-header">
                         <div>
                           <div className="job-card-title">{job.title || "Untitled role"}</div>
@@ -849,8 +979,12 @@ function JobsMiddle() {
                         <div className="job-card-description">{job.short_description}</div>
                       )}
 
+                      {ctx.matchFor(job.id) && (
+                        <JobMatchSummary match={ctx.matchFor(job.id)!} compact />
+                      )}
+
                       <div className="job-card-footer">
-                        <span className="job-salary">{job.salary_display || ""}</span>
+                        <span className="job-salary">{formatJobSalary(job)}</span>
                         {job.employment_type && (
                           <span className="job-type">{job.employment_type}</span>
                         )}
@@ -905,7 +1039,12 @@ function JobsMiddle() {
                 {ctx.remainingJobs.map((job) => {
                   const saved = ctx.isSaved(job.id);
                   return (
-                    <Link key={job.id} href={`/jobs/${job.id}`} className="job-card">
+                    <Link
+                      key={job.id}
+                      href={`/jobs/${job.id}`}
+                      className="job-card"
+                      ref={job.org_id ? impressionRef(job.id) : undefined}
+                    >
                       <div className="job-card-header">
                         <div>
                           <div className="job-card-title">{job.title || "Untitled role"}</div>
@@ -934,8 +1073,12 @@ function JobsMiddle() {
                         <div className="job-card-description">{job.short_description}</div>
                       )}
 
+                      {ctx.matchFor(job.id) && (
+                        <JobMatchSummary match={ctx.matchFor(job.id)!} compact />
+                      )}
+
                       <div className="job-card-footer">
-                        <span className="job-salary">{job.salary_display || ""}</span>
+                        <span className="job-salary">{formatJobSalary(job)}</span>
                         {job.employment_type && (
                           <span className="job-type">{job.employment_type}</span>
                         )}
@@ -4,6 +4,39 @@ import dynamic from "next/dynamic";
 import { useRouter } from "next/router";
 import { supabase } from "../../lib/supabaseClient";
 import { useSupabaseUser } from "../../lib/useSupabaseUser";
+import { notifySavedSearchMatches } from "../../lib/savedSearches";
+import { syncSearchIndex } from "../../lib/searchSync";
+import {
+  JOB_STATUS_COLORS,
+  JOB_STATUS_LABELS,
+  JobStatus,
+  PublishIntent,
+  effectiveJobStatus,
+  fromDateTimeLocal,
+  jobLifecyclePayload,
+  lifecycleDateError,
+  toDateTimeLocal,
+} from "../../lib/jobLifecycle";
+import {
+  EMPTY_LOCATION,
+  StructuredLocation,
+  formatLocation,
+  parseLegacyLocation,
+  rowCountryCode,
+} from "../../lib/locations";
+import LocationPicker from "../../components/LocationPicker";
+import JobImportPanel, { JobImportApply } from "../../components/JobImportPanel";
+import {
+  EMPTY_SALARY_FORM,
+  SALARY_CURRENCIES,
+  SALARY_PERIODS,
+  SALARY_PERIOD_LABELS,
+  SalaryFormValues,
+  salaryFormError,
+  salaryFormValues,
+  salaryPayload,
+} from "../../lib/salary";
+import { DuplicateMatch, checkJobDuplicates } from "../../lib/jobDuplicates";
 
 const Navbar = dynamic(() => import("../../components/Navbar"), { ssr: false });
 
@@ -30,6 +63,11 @@ type Org = {
   slug: string;
   created_by: string | null;
   is_active?: boolean | null;
+  country?: string | null;
+  country_code?: string | null;
+  region?: string | null;
+  city?: string | null;
+  careers_url?: string | null;
 };
 
 type OrgMemberRole = "owner" | "co_owner" | "admin" | "member";
@@ -40,6 +78,9 @@ type JobRow = {
   title: string | null;
   company_name: string | null;
   location: string | null;
+  country_code?: string | null;
+  region?: string | null;
+  city?: string | null;
   employment_type: string | null;
   remote_type: string | null;
   short_description: string | null;
@@ -48,6 +89,10 @@ type JobRow = {
 
   keywords: string | null;
   salary_display: string | null;
+  salary_min?: number | null;
+  salary_max?: number | null;
+  salary_currency?: string | null;
+  salary_period?: string | null;
   apply_url: string | null;
 
   role: string | null;
@@ -58,6 +103,11 @@ type JobRow = {
 
   created_at?: string | null;
   org_id?: string | null;
+
+  status?: string | null;
+  is_published?: boolean | null;
+  publish_at?: string | null;
+  expires_at?: string | null;
 };
 
 /* -------------------------------------------------------------------------- */
@@ -91,7 +141,6 @@ export default function NewJobPage() {
   const [form, setForm] = useState({
     title: "",
     company_name: "",
-    location: "",
     employment_type: "",
     remote_type: "",
     short_description: "",
@@ -109,9 +158,20 @@ export default function NewJobPage() {
     apply_url: "",
   });
 
+  const [location, setLocation] = useState<StructuredLocation>(EMPTY_LOCATION);
+  const [salary, setSalary] = useState<SalaryFormValues>(EMPTY_SALARY_FORM);
+
+  // datetime-local values; empty publish = now, empty expiry = default lifetime
+  const [publishAt, setPublishAt] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [currentStatus, setCurrentStatus] = useState<JobStatus | null>(null);
+  const [storedExpiresAt, setStoredExpiresAt] = useState<string | null>(null);
+
   const [saving, setSaving] = useState(false);
   const [loadError, setLoadError] = useState<string | null>(null);
   const [saveError, setSaveError] = useState<string | null>(null);
+  // Likely duplicates found when publishing; the user can still publish anyway
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
 
   /* ---------- Org / permission state ---------- */
   const [org, setOrg] = useState<Org | null>(null);
@@ -153,7 +213,7 @@ export default function NewJobPage() {
       try {
         const { data: created, error: createdErr } = await supabase
           .from("organizations")
-          .select("id,name,slug,created_by,is_active")
+          .select("id,name,slug,created_by,is_active,country,country_code,region,city,careers_url")
           .eq("is_active", true)
           .eq("created_by", user.id);
 
@@ -178,7 +238,7 @@ export default function NewJobPage() {
         const { data: memberOrgs, error: memberOrgsErr } = memberOrgIds.length
           ? await supabase
               .from("organizations")
-              .select("id,name,slug,created_by,is_active")
+              .select("id,name,slug,created_by,is_active,country,country_code,region,city,careers_url")
               .eq("is_active", true)
               .in("id", memberOrgIds)
           : { data: [], error: null as any };
@@ -257,7 +317,7 @@ export default function NewJobPage() {
         if (looksLikeUuid(orgParam)) {
           const { data, error } = await supabase
             .from("organizations")
-            .select("id,name,slug,created_by,is_active")
+            .select("id,name,slug,created_by,is_active,country,country_code,region,city,careers_url")
             .eq("id", orgParam)
             .eq("is_active", true)
             .maybeSingle();
@@ -266,7 +326,7 @@ export default function NewJobPage() {
         } else {
           const { data, error } = await supabase
             .from("organizations")
-            .select("id,name,slug,created_by,is_active")
+            .select("id,name,slug,created_by,is_active,country,country_code,region,city,careers_url")
             .eq("slug", orgParam)
             .eq("is_active", true)
             .maybeSingle();
@@ -358,7 +418,7 @@ export default function NewJobPage() {
       if (job.org_id) {
         const { data: orgRow } = await supabase
           .from("organizations")
-          .select("id,name,slug,created_by,is_active")
+          .select("id,name,slug,created_by,is_active,country,country_code,region,city,careers_url")
           .eq("id", job.org_id)
           .maybeSingle();
 
@@ -369,10 +429,20 @@ export default function NewJobPage() {
         }
       }
 
+      setCurrentStatus(effectiveJobStatus(job));
+      setPublishAt(toDateTimeLocal(job.publish_at));
+      setExpiresAt(toDateTimeLocal(job.expires_at));
+      setStoredExpiresAt(job.expires_at ?? null);
+
+      setLocation(
+        job.country_code
+          ? { country_code: job.country_code, region: job.region ?? null, city: job.city ?? null }
+          : parseLegacyLocation(job.location)
+      );
+
       setForm({
         title: job.title || "",
         company_name: job.company_name || "",
-        location: job.location || "",
         employment_type: job.employment_type || "",
         remote_type: job.remote_type || "",
         short_description: job.short_description || "",
@@ -390,11 +460,26 @@ export default function NewJobPage() {
         salary_display: job.salary_display || "",
         apply_url: job.apply_url || "",
       });
+      setSalary(salaryFormValues(job));
     };
 
     if (isEditing && user) loadJob();
   }, [jobId, user, isEditing]);
 
+  // New jobs start at the publishing organization's location
+  useEffect(() => {
+    if (isEditing || !org) return;
+    setLocation((prev) =>
+      prev.country_code || prev.city
+        ? prev
+        : {
+            country_code: rowCountryCode(org),
+            region: org.region ?? null,
+            city: org.city ?? null,
+          }
+    );
+  }, [isEditing, org]);
+
   /* ---------------------------------------------------------------------- */
   /*  Handlers                                                               */
   /* ---------------------------------------------------------------------- */
@@ -405,8 +490,20 @@ export default function NewJobPage() {
       setForm((prev) => ({ ...prev, [field]: e.target.value }));
     };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  // Accepted changes from the careers-page import; saving still goes through saveJob
+  const handleImport = (changes: JobImportApply) => {
+    setForm((prev) => ({ ...prev, ...changes.fields }));
+    if (changes.location) setLocation(changes.location);
+    if (changes.salary) setSalary(changes.salary);
+    if (changes.expiresAt) setExpiresAt(toDateTimeLocal(changes.expiresAt));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    saveJob("publish");
+  };
+
+  const saveJob = async (intent: PublishIntent, skipDuplicateCheck = false) => {
     if (!user) return;
 
     if (!isEditing) {
@@ -433,13 +530,59 @@ export default function NewJobPage() {
       return;
     }
 
+    const salaryError = salaryFormError(salary);
+    if (salaryError) {
+      setSaveError(salaryError);
+      return;
+    }
+
+    const publishIso = fromDateTimeLocal(publishAt);
+    const expiresIso = fromDateTimeLocal(expiresAt);
+    const dateError = lifecycleDateError(intent, publishIso, expiresIso);
+    if (dateError) {
+      setSaveError(dateError);
+      return;
+    }
+
     setSaving(true);
     setSaveError(null);
+    setDuplicates([]);
+
+    // Only publishing adds a posting to the grid; drafts and closing skip the check
+    if (intent === "publish" && !skipDuplicateCheck) {
+      try {
+        const found = await checkJobDuplicates({
+          title: form.title.trim(),
+          company_name: form.company_name.trim(),
+          location: formatLocation(location) || null,
+          country_code: location.country_code,
+          city: location.city?.trim() || null,
+          org_id: org ? org.id : null,
+          details: [form.short_description, form.role, form.additional_description]
+            .map((t) => t.trim())
+            .filter(Boolean)
+            .join("\n"),
+          excludeId: jobId || null,
+        });
+        if (found.length > 0) {
+          setDuplicates(found);
+          setSaving(false);
+          return;
+        }
+      } catch (e) {
+        // A failed check never blocks posting
+        console.error("Duplicate check failed", e);
+      }
+    }
 
     const payload = {
       title: form.title.trim(),
       company_name: form.company_name.trim(),
-      location: form.location.trim() || null,
+      country_code: location.country_code,
+      region: location.region?.trim() || null,
+      city: location.city?.trim() || null,
+      // Display string kept for cards, search and older readers
+      location: formatLocation(location) || null,
       employment_type: form.employment_type || null,
       remote_type: form.remote_type || null,
       short_description: form.short_description.trim() || null,
@@ -453,24 +596,34 @@ export default function NewJobPage() {
       additional_description: form.additional_description.trim() || null,
 
       keywords: form.keywords.trim() || null,
+      ...salaryPayload(salary),
       salary_display: form.salary_display.trim() || null,
       apply_url: form.apply_url.trim() || null,
 
       org_id: org ? org.id : null,
+
+      ...jobLifecyclePayload(intent, publishIso, expiresIso, storedExpiresAt),
     };
 
     try {
       if (isEditing && jobId) {
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from("jobs")
           .update(payload)
           .eq("id", jobId)
-          .eq("owner_id", user.id);
+          .eq("owner_id", user.id)
+          .select()
+          .single();
 
         if (error) {
           console.error("Error updating job", error);
           setSaveError(error.message || "Could not update job. Please try again.");
         } else {
+          // Adds, refreshes or removes the search entry depending on the new status
+          await syncSearchIndex("job", data);
+          if (payload.status === "published" && currentStatus !== "published") {
+            await notifySavedSearchMatches(jobId);
+          }
           router.push(`/jobs/${jobId}`);
         }
       } else {
@@ -484,6 +637,10 @@ export default function NewJobPage() {
           console.error("Error creating job", error);
           setSaveError(error.message || "Could not create job. Please try again.");
         } else {
+          await syncSearchIndex("job", data);
+          if (payload.status === "published") {
+            await notifySavedSearchMatches((data as any).id);
+          }
           router.push(`/jobs/${(data as any).id}`);
         }
       }
@@ -509,6 +666,12 @@ export default function NewJobPage() {
   return "/jobs";
 }, [isEditing, jobId, org?.slug]);
 
+  const saveDisabled =
+    saving || (!isEditing && (!org || !canPostAsOrg)) || loadingOrg || loading;
+
+  const publishIsoPreview = fromDateTimeLocal(publishAt);
+  const isScheduling = !!publishIsoPreview && Date.parse(publishIsoPreview) > Date.now();
+
   const showPublishAsPicker = !isEditing && isMarketplaceCreate && eligibleOrgs.length > 1;
 
   /* ---------------------------------------------------------------------- */
@@ -564,6 +727,16 @@ export default function NewJobPage() {
                   </p>
                 )}
 
+                <JobImportPanel
+                  current={form}
+                  currentLocation={location}
+                  currentSalary={salary}
+                  currentExpiresAt={fromDateTimeLocal(expiresAt)}
+                  lockedFields={lockCompanyField ? ["company_name"] : []}
+                  careersUrl={org?.careers_url}
+                  onApply={handleImport}
+                />
+
                 <form onSubmit={handleSubmit} className="products-create-form">
                   {/* Basics */}
                   <div className="products-section">
@@ -621,15 +794,12 @@ export default function NewJobPage() {
                         )}
                       </div>
 
-                      <div className="products-field">
-                        <label>Location</label>
-                        <input
-                          type="text"
-                          value={form.location}
-                          onChange={handleChange("location")}
-                          placeholder="Basel, Switzerland / Remote"
-                        />
-                      </div>
+                      <LocationPicker
+                        value={location}
+                        onChange={setLocation}
+                        idPrefix="job-location"
+                        fieldClassName="products-field"
+                      />
 
                       <div className="products-field">
                         <label>Employment type</label>
@@ -769,18 +939,71 @@ export default function NewJobPage() {
                     <div className="products-section-header">
                       <h4 className="products-section-title">Salary & application</h4>
                       <p className="products-section-sub">
-                        Optional salary information and where to apply.
+                        Optional salary range and where to apply. Roles with a range show up in salary filters.
                       </p>
                     </div>
 
                     <div className="products-grid">
                       <div className="products-field">
-                        <label>Salary information</label>
+                        <label>Salary from</label>
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          value={salary.salary_min}
+                          onChange={(e) => setSalary((prev) => ({ ...prev, salary_min: e.target.value }))}
+                          placeholder="e.g. 80000"
+                        />
+                      </div>
+
+                      <div className="products-field">
+                        <label>Salary to</label>
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          value={salary.salary_max}
+                          onChange={(e) => setSalary((prev) => ({ ...prev, salary_max: e.target.value }))}
+                          placeholder="e.g. 100000"
+                        />
+                      </div>
+
+                      <div className="products-field">
+                        <label>Currency</label>
+                        <select
+                          value={salary.salary_currency}
+                          onChange={(e) => setSalary((prev) => ({ ...prev, salary_currency: e.target.value }))}
+                        >
+                          {!(SALARY_CURRENCIES as readonly string[]).includes(salary.salary_currency) && (
+                            <option value={salary.salary_currency}>{salary.salary_currency}</option>
+                          )}
+                          {SALARY_CURRENCIES.map((c) => (
+                            <option key={c} value={c}>
+                              {c}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <div className="products-field">
+                        <label>Paid</label>
+                        <select
+                          value={salary.salary_period}
+                          onChange={(e) => setSalary((prev) => ({ ...prev, salary_period: e.target.value }))}
+                        >
+                          {SALARY_PERIODS.map((p) => (
+                            <option key={p} value={p}>
+                              {SALARY_PERIOD_LABELS[p]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <div className="products-field products-field-full">
+                        <label>Salary note</label>
                         <input
                           type="text"
                           value={form.salary_display}
                           onChange={handleChange("salary_display")}
-                          placeholder="e.g. CHF 80k–100k, based on experience"
+                          placeholder="e.g. “plus equity” or, without a range, “Competitive, based on experience”"
                         />
                       </div>
 
@@ -796,26 +1019,135 @@ export default function NewJobPage() {
                     </div>
                   </div>
 
+                  {/* Publishing */}
+                  <div className="products-section">
+                    <div className="products-section-header">
+                      <h4 className="products-section-title">
+                        Publishing
+                        {currentStatus && (
+                          <span
+                            style={{
+                              marginLeft: 10,
+                              fontSize: 12,
+                              fontWeight: 700,
+                              padding: "2px 10px",
+                              borderRadius: 999,
+                              border: `1px solid ${JOB_STATUS_COLORS[currentStatus]}`,
+                              color: JOB_STATUS_COLORS[currentStatus],
+                              verticalAlign: "middle",
+                            }}
+                          >
+                            {JOB_STATUS_LABELS[currentStatus]}
+                          </span>
+                        )}
+                      </h4>
+                      <p className="products-section-sub">
+                        Leave the publish date empty to go live right away. Jobs expire after
+                        60 days unless you pick another date.
+                      </p>
+                    </div>
+
+                    <div className="products-grid">
+                      <div className="products-field">
+                        <label>Publish at</label>
+                        <input
+                          type="datetime-local"
+                          value={publishAt}
+                          onChange={(e) => setPublishAt(e.target.value)}
+                        />
+                      </div>
+
+                      <div className="products-field">
+                        <label>Expires at</label>
+                        <input
+                          type="datetime-local"
+                          value={expiresAt}
+                          onChange={(e) => setExpiresAt(e.target.value)}
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  {duplicates.length > 0 && (
+                    <div
+                      className="products-section"
+                      style={{ border: "1px solid rgba(251,191,36,0.5)", background: "rgba(251,191,36,0.06)" }}
+                    >
+                      <div className="products-section-header">
+                        <h4 className="products-section-title">This looks like a job that is already posted</h4>
+                        <p className="products-section-sub">
+                          Duplicate postings show up twice in the jobs grid. Check these before publishing;
+                          editing or renewing the existing posting is usually better.
+                        </p>
+                      </div>
+
+                      <ul style={{ listStyle: "none", padding: 0, margin: "0 0 10px", display: "grid", gap: 8 }}>
+                        {duplicates.map((d) => (
+                          <li key={d.job.id} style={{ fontSize: 13 }}>
+                            <a href={`/jobs/${d.job.id}`} target="_blank" rel="noreferrer" style={{ color: "#7dd3fc", fontWeight: 600 }}>
+                              {d.job.title || "Untitled role"}
+                            </a>
+                            {" · "}
+                            {[d.job.company_name, d.job.location].filter(Boolean).join(" · ")}
+                            <span style={{ color: "#fbbf24", marginLeft: 8 }}>{Math.round(d.score * 100)}% similar</span>
+                            {d.sameOrg && <span style={{ color: "#fca5a5", marginLeft: 8 }}>your organization</span>}
+                            <div style={{ fontSize: 12, color: "#9ca3af" }}>{d.reasons.join(" · ")}</div>
+                          </li>
+                        ))}
+                      </ul>
+
+                      <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                        <button
+                          type="button"
+                          className="nav-cta"
+                          disabled={saveDisabled}
+                          onClick={() => saveJob("publish", true)}
+                        >
+                          Publish anyway
+                        </button>
+                        <button type="button" className="nav-ghost-btn" onClick={() => setDuplicates([])}>
+                          Keep editing
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
                   <div className="products-create-actions">
                     <button
                       type="submit"
                       className="nav-cta"
-                      disabled={
-                        saving ||
-                        (!isEditing && (!org || !canPostAsOrg)) ||
-                        loadingOrg ||
-                        loading
-                      }
+                      disabled={saveDisabled}
                     >
                       {saving
-                        ? isEditing
-                          ? "Updating…"
-                          : "Publishing…"
-                        : isEditing
+                        ? "Saving…"
+                        : isScheduling
+                        ? "Schedule job"
+                        : isEditing && currentStatus === "published"
                         ? "Save changes"
                         : "Publish job"}
                     </button>
 
+                    <button
+                      type="button"
+                      className="nav-ghost-btn"
+                      disabled={saveDisabled}
+                      onClick={() => saveJob("draft")}
+                    >
+                      Save as draft
+                    </button>
+
+                    {isEditing && (currentStatus === "published" || currentStatus === "scheduled") && (
+                      <button
+                        type="button"
+                        className="nav-ghost-btn"
+                        disabled={saveDisabled}
+                        onClick={() => saveJob("close")}
+                        style={{ color: "#fca5a5" }}
+                      >
+                        Close posting
+                      </button>
+                    )}
+
                     {saveError && <span className="products-status error">{saveError}</span>}
                   </div>
                 </form>
@@ -10,9 +10,13 @@ import OrgPostsTab from "../../components/org/OrgPostsTab";
 import OrgTeamTab from "../../components/org/OrgTeamTab";
 import OrgProductsTab from "../../components/org/OrgProductsTab";
 import OrgJobsTab from "../../components/org/OrgJobsTab"; // <-- new import
-import OrgAnalyticsTab from "../../components/org/OrgAnalyticsTab"; // <-- new import (placeholder)
+import OrgAnalyticsTab from "../../components/org/OrgAnalyticsTab";
+import OrgVerificationPanel from "../../components/org/OrgVerificationPanel";
+import OrgVerifiedBadge from "../../components/OrgVerifiedBadge";
+import type { VerifiedOrgFields } from "../../lib/orgVerification";
+import { trackOrgEvent } from "../../lib/orgAnalytics";
 
-type Org = {
+type Org = VerifiedOrgFields & {
   id: string;
   created_by: string | null;
   kind: "company" | "research_group";
@@ -125,6 +129,11 @@ const OrganizationDetailPage = () => {
     loadOrg();
   }, [slug]);
 
+  // Profile view for the owners' analytics; the API ignores the org's own members
+  useEffect(() => {
+    if (org?.id) trackOrgEvent("org_view", org.id);
+  }, [org?.id]);
+
   const kindLabel = org?.kind === "company" ? "Company" : "Research group";
 
   const metaLine = useMemo(() => {
@@ -341,8 +350,15 @@ const OrganizationDetailPage = () => {
   // ✅ Who is allowed to list jobs as the org (owner/co_owner only) — mirror products logic
   const canListJobsAsOrg = canListProductsAsOrg;
 
-  // ---------- new: who can view analytics ----------
-  const canViewAnalytics = memberRole === "owner" || memberRole === "co_owner";
+  // Applicant pipeline: owner / co-owner / admin / creator, same as posting as the org
+  const canManageApplicants = canPostAsOrg;
+
+  // RFQ inbox and bulk inventory on the products tab: same roles as the applicant pipeline
+  const canManageQuotes = canPostAsOrg;
+  const canManageInventory = canPostAsOrg;
+
+  // Analytics: owner / co-owner / creator, the same ORG_LISTING_ROLES rule the analytics API uses
+  const canViewAnalytics = canListProductsAsOrg;
 
   const handleFollowClick = async (e: React.MouseEvent<HTMLButtonElement>) => {
     e.preventDefault();
@@ -370,6 +386,7 @@ const OrganizationDetailPage = () => {
         } else {
           setIsFollowing(false);
           setFollowersCount((prev) => (prev === null ? prev : Math.max(prev - 1, 0)));
+          trackOrgEvent("unfollow", org.id);
         }
       } else {
         const { error } = await supabase.from("org_follows").insert({
@@ -382,6 +399,7 @@ const OrganizationDetailPage = () => {
         } else {
           setIsFollowing(true);
           setFollowersCount((prev) => (prev === null ? 1 : prev + 1));
+          trackOrgEvent("follow", org.id);
         }
       }
     } catch (err) {
@@ -515,6 +533,8 @@ const OrganizationDetailPage = () => {
                   </h1>
 
                   <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                    <OrgVerifiedBadge org={org} size="md" />
+
                     <span
                       style={{
                         fontSize: 12,
@@ -665,6 +685,24 @@ const OrganizationDetailPage = () => {
             </div>
           </section>
 
+          <OrgVerificationPanel
+            org={org}
+            canManage={canEditOrg}
+            signedIn={!!user}
+            onVerified={(claim) =>
+              setOrg((prev) =>
+                prev
+                  ? {
+                      ...prev,
+                      verified_at: claim.verified_at,
+                      verified_domain: claim.domain,
+                      verification_method: claim.method,
+                    }
+                  : prev
+              )
+            }
+          />
+
           {/* About (description + focus areas) */}
           {(org.description || org.focus_areas) && (
             <div className="card" style={aboutCard}>
@@ -762,12 +800,21 @@ const OrganizationDetailPage = () => {
           {activeTab === "posts" && <OrgPostsTab org={org} canPostAsOrg={canPostAsOrg} />}
 
           {activeTab === "products" && (
-            <OrgProductsTab org={org} canListProduct={canListProductsAsOrg} />
+            <OrgProductsTab
+              org={org}
+              canListProduct={canListProductsAsOrg}
+              canManageQuotes={canManageQuotes}
+              canManageInventory={canManageInventory}
+            />
           )}
 
           {activeTab === "jobs" && (
             // render jobs tab instead of coming soon
-            <OrgJobsTab org={org} canListJob={canListJobsAsOrg} />
+            <OrgJobsTab
+              org={org}
+              canListJob={canListJobsAsOrg}
+              canManageApplicants={canManageApplicants}
+            />
           )}
 
           {activeTab === "team" && (
@@ -4,6 +4,9 @@ import dynamic from "next/dynamic";
 import { useRouter } from "next/router";
 import { useSupabaseUser } from "../../../lib/useSupabaseUser";
 import { supabase } from "../../../lib/supabaseClient";
+import { syncSearchIndex } from "../../../lib/searchSync";
+import { EMPTY_LOCATION, StructuredLocation, countryName } from "../../../lib/locations";
+import LocationPicker from "../../../components/LocationPicker";
 
 const Navbar = dynamic(() => import("../../../components/Navbar"), {
   ssr: false,
@@ -53,8 +56,7 @@ export default function CreateCompanyPage() {
   const [authorized, setAuthorized] = useState(false);
 
   // 🆕 New fields
-  const [city, setCity] = useState("");
-  const [country, setCountry] = useState("");
+  const [location, setLocation] = useState<StructuredLocation>(EMPTY_LOCATION);
   const [about, setAbout] = useState("");
   const [focusAreas, setFocusAreas] = useState("");
   const [technologyType, setTechnologyType] = useState("");
@@ -144,8 +146,10 @@ export default function CreateCompanyPage() {
           tagline: tagline || null,
 
           // Existing columns
-          country: country || null,
-          city: city || null,
+          country: countryName(location.country_code) || null,
+          country_code: location.country_code,
+          region: location.region?.trim() || null,
+          city: location.city?.trim() || null,
           focus_areas: focusAreas || null,
           description: about || null,
 
@@ -166,19 +170,12 @@ export default function CreateCompanyPage() {
       }
 
       // Sync to search index
-      await fetch("/api/search/sync", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          type: "organization",
-          data: {
-            ...data,
-            name,
-            industry,
-            focus_areas: focusAreas,
-            description: about
-          }
-        })
+      await syncSearchIndex("organization", {
+        ...data,
+        name,
+        industry,
+        focus_areas: focusAreas,
+        description: about
       });
 
       // ⬇️ 2) Create membership row for creator as owner + affiliated
@@ -545,59 +542,25 @@ export default function CreateCompanyPage() {
             <div
               style={{
                 display: "grid",
-                gridTemplateColumns: "minmax(0, 1.2fr) minmax(0, 1.2fr) minmax(0, 1fr)",
+                gridTemplateColumns: "repeat(2, minmax(0, 1fr))",
                 gap: 16,
               }}
             >
-              <div>
-                <label
-                  htmlFor="org-city"
-                  style={{ display: "block", fontSize: 14, marginBottom: 4 }}
-                >
-                  City
-                </label>
-                <input
-                  id="org-city"
-                  type="text"
-                  value={city}
-                  onChange={(e) => setCity(e.target.value)}
-                  placeholder="e.g. Zurich"
-                  style={{
-                    width: "100%",
-                    padding: "10px 12px",
-                    borderRadius: 10,
-                    border: "1px solid rgba(148,163,184,0.6)",
-                    backgroundColor: "rgba(15,23,42,0.9)",
-                    color: "#e5e7eb",
-                    fontSize: 14,
-                  }}
-                />
-              </div>
-
-              <div>
-                <label
-                  htmlFor="org-country"
-                  style={{ display: "block", fontSize: 14, marginBottom: 4 }}
-                >
-                  Country
-                </label>
-                <input
-                  id="org-country"
-                  type="text"
-                  value={country}
-                  onChange={(e) => setCountry(e.target.value)}
-                  placeholder="e.g. Switzerland"
-                  style={{
-                    width: "100%",
-                    padding: "10px 12px",
-                    borderRadius: 10,
-                    border: "1px solid rgba(148,163,184,0.6)",
-                    backgroundColor: "rgba(15,23,42,0.9)",
-                    color: "#e5e7eb",
-                    fontSize: 14,
-                  }}
-                />
-              </div>
+              <LocationPicker
+                value={location}
+                onChange={setLocation}
+                idPrefix="org"
+                labelStyle={{ display: "block", fontSize: 14, marginBottom: 4 }}
+                inputStyle={{
+                  width: "100%",
+                  padding: "10px 12px",
+                  borderRadius: 10,
+                  border: "1px solid rgba(148,163,184,0.6)",
+                  backgroundColor: "rgba(15,23,42,0.9)",
+                  color: "#e5e7eb",
+                  fontSize: 14,
+                }}
+              />
 
               <div>
                 <label
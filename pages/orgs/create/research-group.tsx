@@ -4,6 +4,9 @@ import dynamic from "next/dynamic";
 import { useRouter } from "next/router";
 import { useSupabaseUser } from "../../../lib/useSupabaseUser";
 import { supabase } from "../../../lib/supabaseClient";
+import { syncSearchIndex } from "../../../lib/searchSync";
+import { EMPTY_LOCATION, StructuredLocation, countryName } from "../../../lib/locations";
+import LocationPicker from "../../../components/LocationPicker";
 
 const Navbar = dynamic(() => import("../../../components/Navbar"), {
   ssr: false,
@@ -37,6 +40,7 @@ export default function CreateResearchGroupPage() {
   const [institution, setInstitution] = useState("");
   const [department, setDepartment] = useState("");
   const [website, setWebsite] = useState("");
+  const [location, setLocation] = useState<StructuredLocation>(EMPTY_LOCATION);
   const [focusAreas, setFocusAreas] = useState("");
   const [size, setSize] = useState<GroupSize>("");
   const [groupType, setGroupType] = useState<GroupType>("");
@@ -124,6 +128,10 @@ export default function CreateResearchGroupPage() {
           institution: institution || null,
           department: department || null,
           website: website || null,
+          country: countryName(location.country_code) || null,
+          country_code: location.country_code,
+          region: location.region?.trim() || null,
+          city: location.city?.trim() || null,
           focus_areas: focusAreas || null,
           size_label: size || null,
           group_type: groupType || null,
@@ -138,19 +146,12 @@ export default function CreateResearchGroupPage() {
       }
 
       // Sync to search index
-      await fetch("/api/search/sync", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          type: "organization",
-          data: {
-            ...data,
-            name: groupName,
-            industry: "Research", // Specific for group
-            focus_areas: focusAreas,
-            description: tagline
-          }
-        })
+      await syncSearchIndex("organization", {
+        ...data,
+        name: groupName,
+        industry: "Research", // Specific for group
+        focus_areas: focusAreas,
+        description: tagline
       });
 
       // ⬇️ 2) Create membership row for creator as owner + affiliated
@@ -406,6 +407,31 @@ export default function CreateResearchGroupPage() {
               </div>
             </div>
 
+            {/* Location */}
+            <div
+              style={{
+                display: "grid",
+                gridTemplateColumns: "minmax(0, 1.1fr) minmax(0, 1fr) minmax(0, 1fr)",
+                gap: 16,
+              }}
+            >
+              <LocationPicker
+                value={location}
+                onChange={setLocation}
+                idPrefix="group"
+                labelStyle={{ display: "block", fontSize: 14, marginBottom: 4 }}
+                inputStyle={{
+                  width: "100%",
+                  padding: "10px 12px",
+                  borderRadius: 10,
+                  border: "1px solid rgba(148,163,184,0.6)",
+                  backgroundColor: "rgba(15,23,42,0.9)",
+                  color: "#e5e7eb",
+                  fontSize: 14,
+                }}
+              />
+            </div>
+
             {/* Focus areas + size + group type */}
             <div
               style={{
@@ -3,6 +3,9 @@ import { useEffect, useState, FormEvent } from "react";
 import { useRouter } from "next/router";
 import { useSupabaseUser } from "../../../../lib/useSupabaseUser";
 import { supabase } from "../../../../lib/supabaseClient";
+import { syncSearchIndex } from "../../../../lib/searchSync";
+import { EMPTY_LOCATION, StructuredLocation, countryName, rowCountryCode } from "../../../../lib/locations";
+import LocationPicker from "../../../../components/LocationPicker";
 
 type OrgSize =
   | ""
@@ -39,6 +42,8 @@ type OrgRow = {
   logo_url: string | null;
 
   country: string | null;
+  country_code: string | null;
+  region: string | null;
   city: string | null;
   description: string | null;
   focus_areas: string | null;
@@ -73,8 +78,7 @@ export default function EditCompanyPage() {
   const [logoFile, setLogoFile] = useState<File | null>(null);
 
   // extra fields
-  const [country, setCountry] = useState("");
-  const [city, setCity] = useState("");
+  const [location, setLocation] = useState<StructuredLocation>(EMPTY_LOCATION);
   const [description, setDescription] = useState("");
   const [focusAreas, setFocusAreas] = useState("");
   const [technologyType, setTechnologyType] = useState("");
@@ -131,6 +135,8 @@ export default function EditCompanyPage() {
           tagline,
           logo_url,
           country,
+          country_code,
+          region,
           city,
           description,
           focus_areas,
@@ -191,8 +197,12 @@ export default function EditCompanyPage() {
       setOrgType((data.company_type as OrgType) || "");
       setTagline(data.tagline ?? "");
 
-      setCountry(data.country ?? "");
-      setCity(data.city ?? "");
+      // Orgs saved before structured locations only have free-text country/city
+      setLocation({
+        country_code: rowCountryCode(data),
+        region: data.region ?? null,
+        city: data.city ?? null,
+      });
       setDescription(data.description ?? "");
       setFocusAreas(data.focus_areas ?? "");
       setTechnologyType(data.technology_type ?? "");
@@ -282,8 +292,10 @@ export default function EditCompanyPage() {
           size_label: size || null,
           company_type: orgType || null,
           tagline: tagline || null,
-          country: country || null,
-          city: city || null,
+          country: countryName(location.country_code) || null,
+          country_code: location.country_code,
+          region: location.region?.trim() || null,
+          city: location.city?.trim() || null,
           description: description || null,
           focus_areas: focusAreas || null,
           technology_type: technologyType || null,
@@ -299,19 +311,12 @@ export default function EditCompanyPage() {
       if (error) throw error;
 
       // Sync to search index
-      await fetch("/api/search/sync", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          type: "organization",
-          data: {
-            id: orgId,
-            name,
-            industry,
-            focus_areas: focusAreas,
-            description: description || tagline
-          }
-        })
+      await syncSearchIndex("organization", {
+        id: orgId,
+        name,
+        industry,
+        focus_areas: focusAreas,
+        description: description || tagline
       });
 
       // Decide which slug to use for redirect
@@ -497,58 +502,25 @@ export default function EditCompanyPage() {
             <div
               style={{
                 display: "grid",
-                gridTemplateColumns: "minmax(0, 1.1fr) minmax(0, 1fr)",
+                gridTemplateColumns: "minmax(0, 1.1fr) minmax(0, 1fr) minmax(0, 1fr)",
                 gap: 16,
               }}
             >
-              <div>
-                <label
-                  htmlFor="org-country"
-                  style={{ display: "block", fontSize: 14, marginBottom: 4 }}
-                >
-                  Country
-                </label>
-                <input
-                  id="org-country"
-                  type="text"
-                  value={country}
-                  onChange={(e) => setCountry(e.target.value)}
-                  placeholder="e.g. Switzerland"
-                  style={{
-                    width: "100%",
-                    padding: "10px 12px",
-                    borderRadius: 10,
-                    border: "1px solid rgba(148,163,184,0.6)",
-                    backgroundColor: "rgba(15,23,42,0.9)",
-                    color: "#e5e7eb",
-                    fontSize: 14,
-                  }}
-                />
-              </div>
-              <div>
-                <label
-                  htmlFor="org-city"
-                  style={{ display: "block", fontSize: 14, marginBottom: 4 }}
-                >
-                  City
-                </label>
-                <input
-                  id="org-city"
-                  type="text"
-                  value={city}
-                  onChange={(e) => setCity(e.target.value)}
-                  placeholder="e.g. Villigen, Zurich, Boston"
-                  style={{
-                    width: "100%",
-                    padding: "10px 12px",
-                    borderRadius: 10,
-                    border: "1px solid rgba(148,163,184,0.6)",
-                    backgroundColor: "rgba(15,23,42,0.9)",
-                    color: "#e5e7eb",
-                    fontSize: 14,
-                  }}
-                />
-              </div>
+              <LocationPicker
+                value={location}
+                onChange={setLocation}
+                idPrefix="org"
+                labelStyle={{ display: "block", fontSize: 14, marginBottom: 4 }}
+                inputStyle={{
+                  width: "100%",
+                  padding: "10px 12px",
+                  borderRadius: 10,
+                  border: "1px solid rgba(148,163,184,0.6)",
+                  backgroundColor: "rgba(15,23,42,0.9)",
+                  color: "#e5e7eb",
+                  fontSize: 14,
+                }}
+              />
             </div>
 
             {/* Industry + size + type + hiring status */}
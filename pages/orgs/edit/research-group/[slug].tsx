@@ -3,6 +3,9 @@ import { useEffect, useState, FormEvent } from "react";
 import { useRouter } from "next/router";
 import { useSupabaseUser } from "../../../../lib/useSupabaseUser";
 import { supabase } from "../../../../lib/supabaseClient";
+import { syncSearchIndex } from "../../../../lib/searchSync";
+import { EMPTY_LOCATION, StructuredLocation, countryName, rowCountryCode } from "../../../../lib/locations";
+import LocationPicker from "../../../../components/LocationPicker";
 
 type GroupSize = "" | "1-5" | "6-15" | "16-30" | "31-60" | "61+";
 
@@ -22,6 +25,10 @@ type GroupRow = {
   slug: string;
   institution: string | null;
   department: string | null;
+  country: string | null;
+  country_code: string | null;
+  region: string | null;
+  city: string | null;
   website: string | null;
   focus_areas: string | null;
   size_label: GroupSize | null;
@@ -49,6 +56,7 @@ export default function EditResearchGroupPage() {
   const [institution, setInstitution] = useState("");
   const [department, setDepartment] = useState("");
   const [website, setWebsite] = useState("");
+  const [location, setLocation] = useState<StructuredLocation>(EMPTY_LOCATION);
   const [focusAreas, setFocusAreas] = useState("");
   const [size, setSize] = useState<GroupSize>("");
   const [groupType, setGroupType] = useState<GroupType>("");
@@ -90,7 +98,7 @@ export default function EditResearchGroupPage() {
       const { data, error } = await supabase
         .from("organizations")
         .select(
-          "id, created_by, kind, name, slug, institution, department, website, focus_areas, size_label, group_type, tagline, logo_url"
+          "id, created_by, kind, name, slug, institution, department, country, country_code, region, city, website, focus_areas, size_label, group_type, tagline, logo_url"
         )
         .eq("slug", slugFromUrl)
         .eq("kind", "research_group")
@@ -137,6 +145,11 @@ export default function EditResearchGroupPage() {
       setInstitution(data.institution ?? "");
       setDepartment(data.department ?? "");
       setWebsite(data.website ?? "");
+      setLocation({
+        country_code: rowCountryCode(data),
+        region: data.region ?? null,
+        city: data.city ?? null,
+      });
       setFocusAreas(data.focus_areas ?? "");
       setSize((data.size_label as GroupSize) || "");
       setGroupType((data.group_type as GroupType) || "");
@@ -218,6 +231,10 @@ export default function EditResearchGroupPage() {
           institution: institution || null,
           department: department || null,
           website: website || null,
+          country: countryName(location.country_code) || null,
+          country_code: location.country_code,
+          region: location.region?.trim() || null,
+          city: location.city?.trim() || null,
           focus_areas: focusAreas || null,
           size_label: size || null,
           group_type: groupType || null,
@@ -231,19 +248,12 @@ export default function EditResearchGroupPage() {
       if (error) throw error;
 
       // Sync to search index
-      await fetch("/api/search/sync", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          type: "organization",
-          data: {
-            id: orgId,
-            name: groupName,
-            industry: "Research",
-            focus_areas: focusAreas,
-            description: tagline
-          }
-        })
+      await syncSearchIndex("organization", {
+        id: orgId,
+        name: groupName,
+        industry: "Research",
+        focus_areas: focusAreas,
+        description: tagline
       });
 
       setSubmitMessage("Research group page updated successfully.");
@@ -470,6 +480,31 @@ export default function EditResearchGroupPage() {
               </div>
             </div>
 
+            {/* Location */}
+            <div
+              style={{
+                display: "grid",
+                gridTemplateColumns: "minmax(0, 1.1fr) minmax(0, 1fr) minmax(0, 1fr)",
+                gap: 16,
+              }}
+            >
+              <LocationPicker
+                value={location}
+                onChange={setLocation}
+                idPrefix="group"
+                labelStyle={{ display: "block", fontSize: 14, marginBottom: 4 }}
+                inputStyle={{
+                  width: "100%",
+                  padding: "10px 12px",
+                  borderRadius: 10,
+                  border: "1px solid rgba(148,163,184,0.6)",
+                  backgroundColor: "rgba(15,23,42,0.9)",
+                  color: "#e5e7eb",
+                  fontSize: 14,
+                }}
+              />
+            </div>
+
             {/* Focus areas + size + group type */}
             <div
               style={{
@@ -4,12 +4,14 @@ import dynamic from "next/dynamic";
 import Link from "next/link";
 import { supabase } from "../../lib/supabaseClient";
 import { useSupabaseUser } from "../../lib/useSupabaseUser";
+import type { VerifiedOrgFields } from "../../lib/orgVerification";
+import OrgVerifiedBadge from "../../components/OrgVerifiedBadge";
 
 const Navbar = dynamic(() => import("../../components/NavbarIcons"), {
   ssr: false,
 });
 
-type Org = {
+type Org = VerifiedOrgFields & {
   id: string;
   kind: "company" | "research_group";
   name: string;
@@ -325,17 +327,20 @@ export default function OrganizationsDirectoryPage() {
                             >
                               {org.name}
                             </div>
-                            <span
-                              style={{
-                                fontSize: 11,
-                                borderRadius: 999,
-                                padding: "3px 8px",
-                                border: "1px solid rgba(148,163,184,0.7)",
-                                color: "rgba(226,232,240,0.95)",
-                                whiteSpace: "nowrap",
-                              }}
-                            >
-                              {kindLabel}
+                            <span style={{ display: "inline-flex", gap: 6, alignItems: "center", flexShrink: 0 }}>
+                              <OrgVerifiedBadge org={org} />
+                              <span
+                                style={{
+                                  fontSize: 11,
+                                  borderRadius: 999,
+                                  padding: "3px 8px",
+                                  border: "1px solid rgba(148,163,184,0.7)",
+                                  color: "rgba(226,232,240,0.95)",
+                                  whiteSpace: "nowrap",
+                                }}
+                              >
+                                {kindLabel}
+                              </span>
                             </span>
                           </div>
 
@@ -3,7 +3,14 @@ import { useRouter } from "next/router";
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import { supabase } from "../../lib/supabaseClient";
+import { syncSearchIndex } from "../../lib/searchSync";
 import { useSupabaseUser } from "../../lib/useSupabaseUser";
+import { formatSpecValue, productSpecSchema, productSpecValues } from "../../lib/productSpecs";
+import ProductQuotePanel from "../../components/ProductQuotePanel";
+import OrgVerifiedBadge from "../../components/OrgVerifiedBadge";
+import type { VerifiedOrgFields } from "../../lib/orgVerification";
+import { ProductVariant, fetchProductVariants, formatVariantStock } from "../../lib/productVariants";
+import { trackOrgEvent } from "../../lib/orgAnalytics";
 
 type Product = {
   id: string;
@@ -28,6 +35,7 @@ type Product = {
   image2_url: string | null;
   image3_url: string | null;
   datasheet_url: string | null;
+  specs?: unknown;
   created_at: string;
 };
 
@@ -38,6 +46,8 @@ export default function ProductDetailPage() {
   const { user, loading: userLoading } = useSupabaseUser();
   const [product, setProduct] = useState<Product | null>(null);
   const [orgSlug, setOrgSlug] = useState<string | null>(null);
+  const [orgVerification, setOrgVerification] = useState<VerifiedOrgFields | null>(null);
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
   const [loading, setLoading] = useState(true);
   const [deleting, setDeleting] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
@@ -67,11 +77,23 @@ export default function ProductDetailPage() {
         if (data && (data as any).org_id) {
           const { data: orgData, error: orgErr } = await supabase
             .from("organizations")
-            .select("slug")
+            .select("slug, verified_at, verified_domain, verification_method")
             .eq("id", (data as any).org_id)
-            .maybeSingle<{ slug: string }>();
+            .maybeSingle<{ slug: string } & VerifiedOrgFields>();
 
-          if (!orgErr && orgData) setOrgSlug(orgData.slug);
+          if (!orgErr && orgData) {
+            setOrgSlug(orgData.slug);
+            setOrgVerification(orgData);
+          }
+        }
+
+        if (data) {
+          try {
+            setVariants(await fetchProductVariants(String((data as any).id)));
+          } catch (variantErr) {
+            console.error("Error loading product variants", variantErr);
+            setVariants([]);
+          }
         }
       }
 
@@ -88,6 +110,12 @@ export default function ProductDetailPage() {
   const ownerId = product?.owner_id ?? null;
   const isOwner = !!user && !!ownerId && !userLoading && user.id === ownerId;
 
+  // Product view for the listing org's analytics; the lister's own visits don't count
+  useEffect(() => {
+    if (!product?.org_id || userLoading || isOwner) return;
+    trackOrgEvent("product_view", product.id);
+  }, [product?.id, product?.org_id, userLoading, isOwner]);
+
   const handleDelete = async () => {
     if (!product || !isOwner) return;
 
@@ -109,15 +137,7 @@ export default function ProductDetailPage() {
     }
 
     // Sync to search index
-    await fetch("/api/search/sync", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        type: "product",
-        data: { id: product.id },
-        action: "delete"
-      })
-    });
+    await syncSearchIndex("product", { id: product.id }, "delete");
 
     setDeleting(false);
     router.push("/products");
@@ -150,6 +170,8 @@ export default function ProductDetailPage() {
         : product.in_stock
           ? "In stock"
           : "Stock not specified";
+  // products.in_stock / stock_quantity already roll up the variants
+  const stockNote = variants.length > 0 ? ` across ${variants.length} variant${variants.length === 1 ? "" : "s"}` : "";
 
   const keywordList =
     product.keywords
@@ -157,6 +179,11 @@ export default function ProductDetailPage() {
       .map((k) => k.trim())
       .filter(Boolean) ?? [];
 
+  const specValues = productSpecValues(product.specs);
+  const specRows = productSpecSchema(product.category)
+    .map((attr) => ({ key: attr.key, label: attr.label, value: formatSpecValue(attr, specValues[attr.key]) }))
+    .filter((row) => row.value);
+
   const images = [product.image1_url, product.image2_url, product.image3_url].filter(
     Boolean
   ) as string[];
@@ -190,7 +217,8 @@ export default function ProductDetailPage() {
                 )
               ) : (
                 "Listed by unknown vendor"
-              )}
+              )}{" "}
+              <OrgVerifiedBadge org={orgVerification} />
             </div>
           </div>
 
@@ -292,10 +320,19 @@ export default function ProductDetailPage() {
 
                 <div>
                   <div className="profile-summary-label">Stock</div>
-                  <div className="profile-summary-text">{stockLabel}</div>
+                  <div className="profile-summary-text">
+                    {stockLabel}
+                    {stockNote}
+                  </div>
                 </div>
               </div>
 
+              {product.price_type === "contact" && (
+                <div style={{ marginTop: 14 }}>
+                  <ProductQuotePanel productId={product.id} isOwner={isOwner} />
+                </div>
+              )}
+
               {product.product_url && (
                 <div style={{ marginTop: 14 }}>
                   <a
@@ -338,6 +375,64 @@ export default function ProductDetailPage() {
           </div>
 
           <div className="product-detail-body">
+            {variants.length > 0 && (
+              <div className="product-detail-section">
+                <div className="profile-section-label">Variants</div>
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+                  <thead>
+                    <tr style={{ color: "rgba(148,163,184,0.95)", textAlign: "left" }}>
+                      <th style={{ fontWeight: 500, padding: "6px 12px 6px 0" }}>Variant</th>
+                      <th style={{ fontWeight: 500, padding: "6px 12px 6px 0" }}>SKU</th>
+                      {hasFixedPrice && <th style={{ fontWeight: 500, padding: "6px 12px 6px 0" }}>Price</th>}
+                      <th style={{ fontWeight: 500, padding: "6px 0" }}>Stock</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {variants.map((v) => (
+                      <tr key={v.id} style={{ borderTop: "1px solid rgba(148,163,184,0.15)" }}>
+                        <td style={{ padding: "6px 12px 6px 0" }}>{v.name}</td>
+                        <td style={{ padding: "6px 12px 6px 0", color: "rgba(148,163,184,0.95)" }}>{v.sku || "—"}</td>
+                        {hasFixedPrice && (
+                          <td style={{ padding: "6px 12px 6px 0" }}>{v.price_value || priceLabel}</td>
+                        )}
+                        <td style={{ padding: "6px 0" }}>{formatVariantStock(v)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {specRows.length > 0 && (
+              <div className="product-detail-section">
+                <div className="profile-section-label">Key specifications</div>
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+                  <tbody>
+                    {specRows.map((row) => (
+                      <tr key={row.key}>
+                        <th
+                          scope="row"
+                          style={{
+                            textAlign: "left",
+                            fontWeight: 500,
+                            color: "rgba(148,163,184,0.95)",
+                            padding: "6px 12px 6px 0",
+                            borderBottom: "1px solid rgba(148,163,184,0.15)",
+                            width: "45%",
+                          }}
+                        >
+                          {row.label}
+                        </th>
+                        <td style={{ padding: "6px 0", borderBottom: "1px solid rgba(148,163,184,0.15)" }}>
+                          {row.value}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
             {product.specifications && (
               <div className="product-detail-section">
                 <div className="profile-section-label">Specifications</div>
@@ -0,0 +1,250 @@
+// pages/products/compare.tsx
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { supabase } from "../../lib/supabaseClient";
+import CopyLinkButton from "../../components/CopyLinkButton";
+import {
+  compareHref,
+  formatProductPrice,
+  formatProductStock,
+  parseCompareIds,
+  useCompareTray,
+} from "../../lib/productCompare";
+import {
+  ProductSpecAttribute,
+  formatSpecValue,
+  productSpecSchema,
+  productSpecValues,
+} from "../../lib/productSpecs";
+
+type Product = {
+  id: string;
+  name: string;
+  company_name: string | null;
+  category: string | null;
+  product_type: string | null;
+  technology_type: string | null;
+  quantum_domain: string | null;
+  price_type: "fixed" | "contact" | null;
+  price_value: string | null;
+  in_stock: boolean | null;
+  stock_quantity: number | null;
+  image1_url: string | null;
+  specs?: unknown;
+};
+
+type Row = { label: string; values: string[] };
+
+const cellStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  borderTop: "1px solid rgba(148,163,184,0.18)",
+  fontSize: 13,
+  verticalAlign: "top",
+};
+
+// Spec attributes of every compared category, in first-seen order
+function specAttributes(products: Product[]): ProductSpecAttribute[] {
+  const seen = new Map<string, ProductSpecAttribute>();
+  for (const p of products) {
+    for (const attr of productSpecSchema(p.category)) {
+      if (!seen.has(attr.key)) seen.set(attr.key, attr);
+    }
+  }
+  return Array.from(seen.values());
+}
+
+export default function ProductComparePage() {
+  const router = useRouter();
+  const tray = useCompareTray();
+  const ids = useMemo(() => parseCompareIds(router.query.ids as any), [router.query.ids]);
+
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    if (ids.length === 0) {
+      setProducts([]);
+      setLoading(false);
+      return;
+    }
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: err } = await supabase.from("products").select("*").in("id", ids);
+
+      if (err) {
+        console.error("Error loading products to compare", err);
+        setError("Could not load these products.");
+        setProducts([]);
+      } else {
+        // Keep the order from the link
+        const byId = new Map(((data || []) as Product[]).map((p) => [String(p.id), p]));
+        setProducts(ids.map((id) => byId.get(id)).filter(Boolean) as Product[]);
+      }
+      setLoading(false);
+    };
+
+    load();
+  }, [router.isReady, ids]);
+
+  const removeColumn = (id: string) => {
+    const next = ids.filter((x) => x !== id);
+    tray.remove(id);
+    router.replace(compareHref(next), undefined, { shallow: true, scroll: false });
+  };
+
+  const rows: Row[] = useMemo(() => {
+    const base: Row[] = [
+      { label: "Category", values: products.map((p) => p.category || "") },
+      { label: "Product type", values: products.map((p) => p.product_type || "") },
+      { label: "Technology", values: products.map((p) => p.technology_type || "") },
+      { label: "Quantum domain", values: products.map((p) => p.quantum_domain || "") },
+      { label: "Price", values: products.map((p) => formatProductPrice(p)) },
+      { label: "Stock", values: products.map((p) => formatProductStock(p)) },
+    ];
+
+    const specs = specAttributes(products).map((attr) => ({
+      label: attr.label,
+      values: products.map((p) => {
+        // Attributes from another category's schema don't apply to this product
+        if (!productSpecSchema(p.category).some((a) => a.key === attr.key)) return "n/a";
+        return formatSpecValue(attr, productSpecValues(p.specs)[attr.key]);
+      }),
+    }));
+
+    return [...base, ...specs];
+  }, [products]);
+
+  const differs = (row: Row) => new Set(row.values).size > 1;
+  const visibleRows = onlyDifferences ? rows.filter(differs) : rows;
+  const trayMatches = tray.ids.length === ids.length && ids.every((id) => tray.has(id));
+
+  return (
+    <section className="section">
+      <div className="section-header" style={{ marginBottom: 14 }}>
+        <div>
+          <div className="section-title">⚖ Compare products</div>
+          <div className="section-sub">
+            Side by side: type, technology, price, stock and the specs defined for each category.
+          </div>
+        </div>
+        <Link href="/products" className="section-link" style={{ fontSize: 13 }}>
+          ← Marketplace
+        </Link>
+      </div>
+
+      {loading && <div className="products-status">Loading products…</div>}
+      {error && (
+        <div className="products-status" style={{ color: "#f97373" }}>
+          {error}
+        </div>
+      )}
+
+      {!loading && !error && products.length === 0 && (
+        <div className="products-empty">
+          Nothing to compare yet. Pick up to four products in the marketplace with “⚖ Compare”.
+        </div>
+      )}
+
+      {!loading && products.length > 0 && (
+        <>
+          <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", marginBottom: 12, fontSize: 13 }}>
+            <CopyLinkButton
+              getUrl={() => (typeof window === "undefined" ? "" : window.location.href)}
+              label="🔗 Copy link to this comparison"
+            />
+            {!trayMatches && (
+              <button
+                type="button"
+                className="nav-ghost-btn"
+                style={{ borderRadius: 12, padding: "8px 14px", cursor: "pointer" }}
+                onClick={() => tray.replace(ids)}
+              >
+                Use as my compare tray
+              </button>
+            )}
+            <label style={{ display: "flex", alignItems: "center", gap: 6, cursor: "pointer" }}>
+              <input
+                type="checkbox"
+                checked={onlyDifferences}
+                onChange={(e) => setOnlyDifferences(e.target.checked)}
+              />
+              Only show differences
+            </label>
+            {products.length < ids.length && (
+              <span style={{ color: "#9ca3af" }}>
+                {ids.length - products.length} product{ids.length - products.length === 1 ? " is" : "s are"} no
+                longer listed.
+              </span>
+            )}
+          </div>
+
+          <div style={{ overflowX: "auto", borderRadius: 14, border: "1px solid rgba(148,163,184,0.3)" }}>
+            <table style={{ width: "100%", borderCollapse: "collapse", minWidth: 180 + products.length * 200 }}>
+              <thead>
+                <tr>
+                  <th style={{ ...cellStyle, borderTop: "none", width: 180 }} />
+                  {products.map((p) => (
+                    <th key={p.id} style={{ ...cellStyle, borderTop: "none", textAlign: "left" }}>
+                      <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+                        {p.image1_url && (
+                          <img
+                            src={p.image1_url}
+                            alt={p.name}
+                            style={{ width: "100%", maxWidth: 180, height: 100, objectFit: "cover", borderRadius: 10 }}
+                          />
+                        )}
+                        <Link href={`/products/${p.id}`} style={{ color: "#7dd3fc", fontWeight: 700 }}>
+                          {p.name}
+                        </Link>
+                        {p.company_name && <span style={{ fontSize: 12, color: "#9ca3af" }}>{p.company_name}</span>}
+                        <button
+                          type="button"
+                          onClick={() => removeColumn(p.id)}
+                          style={{
+                            alignSelf: "flex-start",
+                            background: "none",
+                            border: "none",
+                            padding: 0,
+                            fontSize: 12,
+                            color: "#fca5a5",
+                            cursor: "pointer",
+                          }}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map((row) => (
+                  <tr key={row.label} style={{ background: differs(row) ? "rgba(56,189,248,0.05)" : "transparent" }}>
+                    <td style={{ ...cellStyle, fontWeight: 700, color: "rgba(226,232,240,0.9)" }}>{row.label}</td>
+                    {row.values.map((v, i) => (
+                      <td key={products[i].id} style={{ ...cellStyle, color: v && v !== "n/a" ? "#e5e7eb" : "#6b7280" }}>
+                        {v || "—"}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+(ProductComparePage as any).layoutProps = {
+  variant: "two-left",
+  right: null,
+};
@@ -12,30 +12,27 @@ import Link from "next/link";
 import { useRouter } from "next/router";
 import { supabase } from "../../lib/supabaseClient";
 import { useSupabaseUser } from "../../lib/useSupabaseUser";
-
-const CATEGORIES = [
-  "Cryogenics",
-  "Control Electronics",
-  "Readout / Amplifiers",
-  "Fabrication Services",
-  "Qubits / Devices",
-  "Software / Simulation",
-  "Consulting",
-  "Other",
-];
-
-const PRODUCT_TYPE_FILTERS = ["All", "Hardware", "Software", "Service", "Consulting", "Other"];
-
-const TECH_TYPE_FILTERS = [
-  "All",
-  "Cryogenics",
-  "Control / AWG / RF",
-  "Readout / Amplifiers",
-  "Fabrication / Foundry",
-  "Qubits / Chips / Devices",
-  "Software / Simulation",
-  "Other",
-];
+import { useUrlFilters } from "../../lib/useUrlFilters";
+import CopyLinkButton from "../../components/CopyLinkButton";
+import ProductCompareTray from "../../components/ProductCompareTray";
+import { formatProductPrice, formatProductStock, useCompareTray } from "../../lib/productCompare";
+import { StockFields, variantInStock } from "../../lib/productVariants";
+import {
+  ProductSpecAttribute,
+  SpecRange,
+  SpecRanges,
+  matchesSpecRanges,
+  parseSpecRanges,
+  productSpecSchema,
+  serializeSpecRanges,
+} from "../../lib/productSpecs";
+import { PRODUCT_CATEGORIES, PRODUCT_TYPES, QUANTUM_DOMAINS, TECHNOLOGY_TYPES } from "../../lib/productFields";
+
+const CATEGORIES = PRODUCT_CATEGORIES;
+
+const PRODUCT_TYPE_FILTERS = ["All", ...PRODUCT_TYPES];
+
+const TECH_TYPE_FILTERS = ["All", ...TECHNOLOGY_TYPES];
 
 const ORG_TYPE_FILTERS = [
   "All",
@@ -46,14 +43,41 @@ const ORG_TYPE_FILTERS = [
   "Other",
 ];
 
-const DOMAIN_FILTERS = [
-  "All",
-  "Quantum computing",
-  "Quantum communication",
-  "Quantum sensing / metrology",
-  "Quantum materials / fabrication",
-  "Generic / platform",
-];
+const DOMAIN_FILTERS = ["All", ...QUANTUM_DOMAINS];
+
+const PRODUCT_SORTS = ["newest", "name"] as const;
+type ProductSort = (typeof PRODUCT_SORTS)[number];
+
+const PRODUCT_SORT_LABELS: Record<ProductSort, string> = {
+  newest: "Newest first",
+  name: "Name (A–Z)",
+};
+
+// Query-string params of /products and their defaults (omitted from the URL)
+const PRODUCT_URL_DEFAULTS = {
+  q: "",
+  category: "all",
+  type: "All",
+  tech: "All",
+  org: "All",
+  domain: "All",
+  price: "all",
+  stock: "all",
+  sort: "newest",
+  // Numeric spec ranges of the selected category, see lib/productSpecs
+  spec: "",
+};
+
+const PRODUCT_URL_ALLOWED = {
+  category: ["all", ...CATEGORIES],
+  type: PRODUCT_TYPE_FILTERS,
+  tech: TECH_TYPE_FILTERS,
+  org: ORG_TYPE_FILTERS,
+  domain: DOMAIN_FILTERS,
+  price: ["all", "fixed", "contact"],
+  stock: ["all", "in", "out"],
+  sort: PRODUCT_SORTS,
+};
 
 type Product = {
   id: string;
@@ -73,6 +97,7 @@ type Product = {
   technology_type: string | null;
   organisation_type: string | null;
   quantum_domain: string | null;
+  specs?: unknown;
 };
 
 type ProductsCtx = {
@@ -107,6 +132,13 @@ type ProductsCtx = {
   stockFilter: "all" | "in" | "out";
   setStockFilter: (v: "all" | "in" | "out") => void;
 
+  sort: ProductSort;
+  setSort: (v: ProductSort) => void;
+  shareUrl: () => string;
+
+  specRanges: SpecRanges;
+  setSpecRange: (key: string, range: SpecRange) => void;
+
   filteredProducts: Product[];
   heroProducts: Product[];
   remainingProducts: Product[];
@@ -116,6 +148,8 @@ type ProductsCtx = {
 
   formatPrice: (p: Product) => string;
   formatStock: (p: Product) => string;
+
+  compare: ReturnType<typeof useCompareTray>;
 };
 
 const ProductsContext = createContext<ProductsCtx | null>(null);
@@ -131,6 +165,7 @@ function ProductsProvider({ children }: { children: ReactNode }) {
   const router = useRouter();
 
   const [products, setProducts] = useState<Product[]>([]);
+  const [variantStock, setVariantStock] = useState<Map<string, StockFields[]>>(new Map());
   const [loadingProducts, setLoadingProducts] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -138,14 +173,39 @@ function ProductsProvider({ children }: { children: ReactNode }) {
   const [loadingSaved, setLoadingSaved] = useState(false);
 
   // Filters
-  const [searchText, setSearchText] = useState("");
-  const [categoryFilter, setCategoryFilter] = useState<string>("all");
-  const [productTypeFilter, setProductTypeFilter] = useState<string>("All");
-  const [techTypeFilter, setTechTypeFilter] = useState<string>("All");
-  const [orgTypeFilter, setOrgTypeFilter] = useState<string>("All");
-  const [domainFilter, setDomainFilter] = useState<string>("All");
-  const [priceFilter, setPriceFilter] = useState<"all" | "fixed" | "contact">("all");
-  const [stockFilter, setStockFilter] = useState<"all" | "in" | "out">("all");
+  // Filters live in the query string so views can be shared and restored
+  const { filters, setFilter, resetFilters, shareUrl } = useUrlFilters(PRODUCT_URL_DEFAULTS, {
+    allowed: PRODUCT_URL_ALLOWED,
+    textKeys: ["q"],
+  });
+
+  const searchText = filters.q;
+  const categoryFilter = filters.category;
+  const productTypeFilter = filters.type;
+  const techTypeFilter = filters.tech;
+  const orgTypeFilter = filters.org;
+  const domainFilter = filters.domain;
+  const priceFilter = filters.price as "all" | "fixed" | "contact";
+  const stockFilter = filters.stock as "all" | "in" | "out";
+  const sort = filters.sort as ProductSort;
+
+  const setSearchText = (v: string) => setFilter("q", v);
+  const setCategoryFilter = (v: string) => setFilter("category", v);
+  const setProductTypeFilter = (v: string) => setFilter("type", v);
+  const setTechTypeFilter = (v: string) => setFilter("tech", v);
+  const setOrgTypeFilter = (v: string) => setFilter("org", v);
+  const setDomainFilter = (v: string) => setFilter("domain", v);
+  const setPriceFilter = (v: "all" | "fixed" | "contact") => setFilter("price", v);
+  const setStockFilter = (v: "all" | "in" | "out") => setFilter("stock", v);
+  const setSort = (v: ProductSort) => setFilter("sort", v);
+
+  // Ranges for another category stay in the URL but are ignored until it is selected again
+  const specRanges = useMemo(
+    () => parseSpecRanges(filters.spec, categoryFilter),
+    [filters.spec, categoryFilter]
+  );
+  const setSpecRange = (key: string, range: SpecRange) =>
+    setFilter("spec", serializeSpecRanges({ ...parseSpecRanges(filters.spec, categoryFilter), [key]: range }));
 
   // --- Load products ---
   useEffect(() => {
@@ -166,6 +226,22 @@ function ProductsProvider({ children }: { children: ReactNode }) {
         setProducts((data || []) as Product[]);
       }
 
+      // Variant stock for the stock filter; without it the product's own flag is used
+      const { data: variants, error: variantErr } = await supabase
+        .from("product_variants")
+        .select("product_id, in_stock, stock_quantity");
+
+      if (variantErr) {
+        console.error("Error loading product variant stock", variantErr);
+      } else {
+        const byProduct = new Map<string, StockFields[]>();
+        (variants || []).forEach((v: any) => {
+          const key = String(v.product_id);
+          byProduct.set(key, [...(byProduct.get(key) || []), v]);
+        });
+        setVariantStock(byProduct);
+      }
+
       setLoadingProducts(false);
     };
 
@@ -246,7 +322,7 @@ function ProductsProvider({ children }: { children: ReactNode }) {
   };
 
   const filteredProducts = useMemo(() => {
-    return products.filter((p) => {
+    const matching = products.filter((p) => {
       const q = searchText.trim().toLowerCase();
       if (q) {
         const haystack = [
@@ -280,13 +356,21 @@ function ProductsProvider({ children }: { children: ReactNode }) {
       }
 
       if (stockFilter !== "all") {
-        const inStock = !!p.in_stock;
+        // A product with variants is in stock while any of them is
+        const variants = variantStock.get(String(p.id));
+        const inStock = variants && variants.length > 0 ? variants.some(variantInStock) : !!p.in_stock;
         if (stockFilter === "in" && !inStock) return false;
         if (stockFilter === "out" && inStock) return false;
       }
 
+      if (!matchesSpecRanges(p.specs, specRanges)) return false;
+
       return true;
     });
+
+    // Products arrive newest first from the query
+    if (sort !== "name") return matching;
+    return [...matching].sort((a, b) => (a.name || "").localeCompare(b.name || ""));
   }, [
     products,
     searchText,
@@ -297,35 +381,15 @@ function ProductsProvider({ children }: { children: ReactNode }) {
     domainFilter,
     priceFilter,
     stockFilter,
+    variantStock,
+    specRanges,
+    sort,
   ]);
 
   const heroProducts = filteredProducts.slice(0, 2);
   const remainingProducts = filteredProducts.slice(heroProducts.length);
 
-  const resetFilters = () => {
-    setSearchText("");
-    setCategoryFilter("all");
-    setProductTypeFilter("All");
-    setTechTypeFilter("All");
-    setOrgTypeFilter("All");
-    setDomainFilter("All");
-    setPriceFilter("all");
-    setStockFilter("all");
-  };
-
-  const formatPrice = (p: Product) => {
-    if (p.price_type === "fixed" && p.price_value) return p.price_value;
-    return "Contact for price";
-  };
-
-  const formatStock = (p: Product) => {
-    if (p.in_stock) {
-      if (p.stock_quantity != null) return `In stock · ${p.stock_quantity} pcs`;
-      return "In stock";
-    }
-    if (p.in_stock === false) return "Out of stock";
-    return "Stock not specified";
-  };
+  const compare = useCompareTray();
 
   const value: ProductsCtx = {
     products,
@@ -359,6 +423,13 @@ function ProductsProvider({ children }: { children: ReactNode }) {
     stockFilter,
     setStockFilter,
 
+    sort,
+    setSort,
+    shareUrl,
+
+    specRanges,
+    setSpecRange,
+
     filteredProducts,
     heroProducts,
     remainingProducts,
@@ -366,8 +437,10 @@ function ProductsProvider({ children }: { children: ReactNode }) {
     toggleSaved,
     resetFilters,
 
-    formatPrice,
-    formatStock,
+    formatPrice: formatProductPrice,
+    formatStock: formatProductStock,
+
+    compare,
   };
 
   return <ProductsContext.Provider value={value}>{children}</ProductsContext.Provider>;
@@ -531,8 +604,81 @@ function ProductsFiltersDrawer() {
   );
 }
 
+function parseBound(v: string) {
+  if (!v.trim()) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+// Min/max inputs for one numeric spec; applied on blur or Enter so typing doesn't refilter per keystroke
+function SpecRangeFilter({
+  attr,
+  range,
+  onChange,
+}: {
+  attr: ProductSpecAttribute;
+  range: SpecRange | undefined;
+  onChange: (range: SpecRange) => void;
+}) {
+  const [min, setMin] = useState(range?.min != null ? String(range.min) : "");
+  const [max, setMax] = useState(range?.max != null ? String(range.max) : "");
+
+  // Follow the URL (back/forward, reset)
+  useEffect(() => {
+    setMin(range?.min != null ? String(range.min) : "");
+    setMax(range?.max != null ? String(range.max) : "");
+  }, [range?.min, range?.max]);
+
+  const commit = () => {
+    const next = { min: parseBound(min), max: parseBound(max) };
+    if (next.min !== (range?.min ?? null) || next.max !== (range?.max ?? null)) onChange(next);
+  };
+
+  const inputProps = {
+    className: "products-filters-input",
+    type: "number",
+    step: "any",
+    onBlur: commit,
+    onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === "Enter") commit();
+    },
+    style: { width: "100%", minWidth: 0 },
+  };
+
+  return (
+    <div style={{ marginBottom: 8 }}>
+      <div style={{ fontSize: 12, color: "rgba(226,232,240,0.85)", marginBottom: 4 }}>
+        {attr.label}
+        {attr.unit ? ` (${attr.unit})` : ""}
+      </div>
+      <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        <input
+          {...inputProps}
+          value={min}
+          min={attr.min}
+          max={attr.max}
+          onChange={(e) => setMin(e.target.value)}
+          placeholder="Min"
+          aria-label={`Minimum ${attr.label}`}
+        />
+        <span style={{ opacity: 0.7 }}>–</span>
+        <input
+          {...inputProps}
+          value={max}
+          min={attr.min}
+          max={attr.max}
+          onChange={(e) => setMax(e.target.value)}
+          placeholder="Max"
+          aria-label={`Maximum ${attr.label}`}
+        />
+      </div>
+    </div>
+  );
+}
+
 function ProductsRightSidebar() {
   const ctx = useProductsCtx();
+  const numericSpecs = productSpecSchema(ctx.categoryFilter).filter((a) => a.type === "number");
 
   return (
     <div className="sidebar-card">
@@ -552,6 +698,20 @@ function ProductsRightSidebar() {
         </select>
       </div>
 
+      {numericSpecs.length > 0 && (
+        <div className="products-filters-section">
+          <div className="products-filters-title">{ctx.categoryFilter} specs</div>
+          {numericSpecs.map((attr) => (
+            <SpecRangeFilter
+              key={attr.key}
+              attr={attr}
+              range={ctx.specRanges[attr.key]}
+              onChange={(range) => ctx.setSpecRange(attr.key, range)}
+            />
+          ))}
+        </div>
+      )}
+
       <div className="products-filters-section">
         <div className="products-filters-title">Product type</div>
         <select
@@ -650,6 +810,39 @@ function ProductsRightSidebar() {
   );
 }
 
+// Add/remove a card from the compare tray without following the card link
+function CompareToggle({ productId }: { productId: string }) {
+  const { compare } = useProductsCtx();
+  const selected = compare.has(productId);
+  const blocked = !selected && compare.full;
+
+  return (
+    <button
+      type="button"
+      aria-pressed={selected}
+      disabled={blocked}
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        compare.toggle(productId);
+      }}
+      title={blocked ? "You can compare up to 4 products" : undefined}
+      style={{
+        alignSelf: "flex-start",
+        fontSize: 11,
+        padding: "2px 8px",
+        borderRadius: 999,
+        border: `1px solid ${selected ? "rgba(56,189,248,0.6)" : "rgba(148,163,184,0.35)"}`,
+        background: selected ? "rgba(56,189,248,0.15)" : "transparent",
+        color: selected ? "#7dd3fc" : "#9ca3af",
+        cursor: blocked ? "not-allowed" : "pointer",
+      }}
+    >
+      {selected ? "✓ Comparing" : "⚖ Compare"}
+    </button>
+  );
+}
+
 function ProductsMiddle() {
   const router = useRouter();
   const ctx = useProductsCtx();
@@ -732,13 +925,31 @@ function ProductsMiddle() {
         </div>
       </div>
 
-      <div className="products-results-header">
+      <div className="products-results-header products-results-header--with-button" style={{ flexWrap: "wrap" }}>
         <div className="products-status">
           {ctx.loadingProducts
             ? "Loading products…"
             : `${ctx.filteredProducts.length} product${ctx.filteredProducts.length === 1 ? "" : "s"}`}
           {ctx.loadingSaved && " · updating saved…"}
         </div>
+
+        <div style={{ display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+          <select
+            className="products-filters-input"
+            value={ctx.sort}
+            onChange={(e) => ctx.setSort(e.target.value as ProductSort)}
+            style={{ height: 36, borderRadius: 12, width: 160 }}
+            aria-label="Sort products"
+          >
+            {PRODUCT_SORTS.map((s) => (
+              <option key={s} value={s}>
+                {PRODUCT_SORT_LABELS[s]}
+              </option>
+            ))}
+          </select>
+
+          <CopyLinkButton getUrl={ctx.shareUrl} style={{ fontSize: 13 }} />
+        </div>
       </div>
 
       {ctx.error && (
@@ -836,6 +1047,8 @@ function ProductsMiddle() {
                           </button>
                         </div>
 
+                        <CompareToggle productId={p.id} />
+
                         {p.short_description && (
                           <div className="products-card-description">{p.short_description}</div>
                         )}
@@ -925,6 +1138,8 @@ function ProductsMiddle() {
                           </button>
                         </div>
 
+                        <CompareToggle productId={p.id} />
+
                         {p.short_description && (
                           <div className="products-card-description">{p.short_description}</div>
                         )}
@@ -944,6 +1159,13 @@ function ProductsMiddle() {
           )}
         </>
       )}
+
+      <ProductCompareTray
+        ids={ctx.compare.ids}
+        names={Object.fromEntries(ctx.products.map((p) => [p.id, p.name]))}
+        onRemove={ctx.compare.remove}
+        onClear={ctx.compare.clear}
+      />
     </section>
   );
 }
@@ -3,20 +3,34 @@ import { useEffect, useMemo, useState } from "react";
 import dynamic from "next/dynamic";
 import { useRouter } from "next/router";
 import { supabase } from "../../lib/supabaseClient";
+import { syncSearchIndex } from "../../lib/searchSync";
+import { rowCountryCode } from "../../lib/locations";
 import { useSupabaseUser } from "../../lib/useSupabaseUser";
+import {
+  SpecFormValues,
+  productSpecSchema,
+  specFormError,
+  specFormValues,
+  specPayload,
+} from "../../lib/productSpecs";
+import {
+  DEFAULT_LOW_STOCK_THRESHOLD,
+  VariantFormRow,
+  emptyVariantRow,
+  fetchProductVariants,
+  notifyLowStock,
+  variantFormError,
+  variantFormRows,
+  variantFormStock,
+  variantPayload,
+  variantRollup,
+} from "../../lib/productVariants";
+import { PRODUCT_CATEGORIES } from "../../lib/productFields";
+import { MAX_DATASHEET_PAGES, indexDatasheet } from "../../lib/productDatasheets";
 
 const Navbar = dynamic(() => import("../../components/Navbar"), { ssr: false });
 
-const CATEGORIES = [
-  "Cryogenics",
-  "Control Electronics",
-  "Readout / Amplifiers",
-  "Fabrication Services",
-  "Qubits / Devices",
-  "Software / Simulation",
-  "Consulting",
-  "Other",
-];
+const CATEGORIES = PRODUCT_CATEGORIES;
 
 type Org = {
   id: string;
@@ -24,6 +38,10 @@ type Org = {
   slug: string;
   created_by: string | null;
   is_active?: boolean | null;
+  country?: string | null;
+  country_code?: string | null;
+  region?: string | null;
+  city?: string | null;
 };
 
 type OrgMemberRole = "owner" | "co_owner" | "admin" | "member";
@@ -52,6 +70,8 @@ type ProductRow = {
   image2_url: string | null;
   image3_url: string | null;
   datasheet_url: string | null;
+  specs?: unknown;
+  low_stock_threshold?: number | null;
 };
 
 function firstQueryValue(v: string | string[] | undefined) {
@@ -95,8 +115,17 @@ export default function NewProductPage() {
     price_value: "",
     in_stock: "yes",
     stock_quantity: "",
+    low_stock_threshold: "",
   });
 
+  // Structured specs for the selected category (lib/productSpecs); kept across
+  // category switches so flipping back doesn't lose input
+  const [specValues, setSpecValues] = useState<SpecFormValues>({});
+
+  // Variants (lib/productVariants); ids loaded for editing, so removed rows can be deleted
+  const [variants, setVariants] = useState<VariantFormRow[]>([]);
+  const [loadedVariantIds, setLoadedVariantIds] = useState<string[]>([]);
+
   const [existingImages, setExistingImages] = useState<(string | null)[]>([null, null, null]);
   const [existingDatasheetUrl, setExistingDatasheetUrl] = useState<string | null>(null);
 
@@ -136,7 +165,7 @@ export default function NewProductPage() {
       try {
         const { data: created, error: createdErr } = await supabase
           .from("organizations")
-          .select("id,name,slug,created_by,is_active")
+          .select("id,name,slug,created_by,is_active,country,country_code,region,city")
           .eq("is_active", true)
           .eq("created_by", user.id);
 
@@ -157,7 +186,7 @@ export default function NewProductPage() {
         const { data: memberOrgs, error: memberOrgsErr } = memberOrgIds.length
           ? await supabase
             .from("organizations")
-            .select("id,name,slug,created_by,is_active")
+            .select("id,name,slug,created_by,is_active,country,country_code,region,city")
             .eq("is_active", true)
             .in("id", memberOrgIds)
           : { data: [], error: null as any };
@@ -232,7 +261,7 @@ export default function NewProductPage() {
         if (looksLikeUuid(orgParam)) {
           const { data, error } = await supabase
             .from("organizations")
-            .select("id,name,slug,created_by,is_active")
+            .select("id,name,slug,created_by,is_active,country,country_code,region,city")
             .eq("id", orgParam)
             .eq("is_active", true)
             .maybeSingle();
@@ -241,7 +270,7 @@ export default function NewProductPage() {
         } else {
           const { data, error } = await supabase
             .from("organizations")
-            .select("id,name,slug,created_by,is_active")
+            .select("id,name,slug,created_by,is_active,country,country_code,region,city")
             .eq("slug", orgParam)
             .eq("is_active", true)
             .maybeSingle();
@@ -337,8 +366,18 @@ export default function NewProductPage() {
         price_value: product.price_value ? String(product.price_value) : "",
         in_stock: product.in_stock === false ? "no" : "yes",
         stock_quantity: product.stock_quantity != null ? String(product.stock_quantity) : "",
+        low_stock_threshold: product.low_stock_threshold != null ? String(product.low_stock_threshold) : "",
       });
 
+      setSpecValues(specFormValues(product.category, product.specs));
+
+      try {
+        const existingVariants = await fetchProductVariants(product.id);
+        setVariants(variantFormRows(existingVariants));
+        setLoadedVariantIds(existingVariants.map((v) => v.id));
+      } catch (variantError) {
+        console.error("Error loading product variants", variantError);
+      }
       setExistingImages([product.image1_url, product.image2_url, product.image3_url]);
       setExistingDatasheetUrl(product.datasheet_url);
 
@@ -347,7 +386,7 @@ export default function NewProductPage() {
 
         const { data: o } = await supabase
           .from("organizations")
-          .select("id,name,slug,created_by,is_active")
+          .select("id,name,slug,created_by,is_active,country,country_code,region,city")
           .eq("id", product.org_id)
           .eq("is_active", true)
           .maybeSingle();
@@ -436,10 +475,36 @@ export default function NewProductPage() {
       return;
     }
 
-    const inStock = form.in_stock === "yes";
+    const specError = specFormError(form.category, specValues);
+    if (specError) {
+      setCreateError(specError);
+      setCreating(false);
+      return;
+    }
+    const specs = specPayload(form.category, specValues);
+
+    const variantError = variantFormError(variants);
+    if (variantError) {
+      setCreateError(variantError);
+      setCreating(false);
+      return;
+    }
+
+    const threshold = form.low_stock_threshold.trim() === "" ? null : Number(form.low_stock_threshold);
+    if (threshold !== null && (!Number.isInteger(threshold) || threshold < 0)) {
+      setCreateError("Low-stock threshold must be a whole number of 0 or more.");
+      setCreating(false);
+      return;
+    }
+
+    // With variants, the product's own stock is their rollup
+    const variantStock = variants.length > 0 ? variantRollup(variants.map(variantFormStock)) : null;
+
+    const inStock = variantStock ? !!variantStock.in_stock : form.in_stock === "yes";
 
-    const stockQty =
-      form.stock_quantity.trim() === ""
+    const stockQty = variantStock
+      ? variantStock.stock_quantity
+      : form.stock_quantity.trim() === ""
         ? null
         : Number.isNaN(Number(form.stock_quantity))
           ? null
@@ -462,12 +527,14 @@ export default function NewProductPage() {
             short_description: form.short_description.trim() || null,
             full_description: form.full_description.trim() || null,
             specifications: form.specifications.trim() || null,
+            specs,
             product_url: form.product_url.trim() || null,
             keywords: form.keywords.trim() || null,
             price_type: priceType,
             price_value: priceValue,
             in_stock: inStock,
             stock_quantity: stockQty,
+            low_stock_threshold: threshold,
           })
           .eq("id", id)
           .eq("owner_id", user.id);
@@ -488,16 +555,22 @@ export default function NewProductPage() {
             org_id: org!.id,
             name: form.name.trim(),
             company_name: org!.name,
+            // Products are located where the vendor org is
+            country_code: rowCountryCode(org!),
+            region: org!.region ?? null,
+            city: org!.city ?? null,
             category: form.category || null,
             short_description: form.short_description.trim() || null,
             full_description: form.full_description.trim() || null,
             specifications: form.specifications.trim() || null,
+            specs,
             product_url: form.product_url.trim() || null,
             keywords: form.keywords.trim() || null,
             price_type: priceType,
             price_value: priceValue,
             in_stock: inStock,
             stock_quantity: stockQty,
+            low_stock_threshold: threshold,
           })
           .select()
           .single();
@@ -547,22 +620,60 @@ export default function NewProductPage() {
         console.error("Error updating product with file URLs", updateFilesError);
       }
 
+      const variantRows = variantPayload(productId, variants, priceType === "fixed");
+      const keptIds = new Set(variantRows.map((v) => v.id).filter(Boolean));
+      const removedIds = loadedVariantIds.filter((vid) => !keptIds.has(vid));
+
+      let variantsSaved = true;
+      if (removedIds.length > 0) {
+        const { error: deleteError } = await supabase.from("product_variants").delete().in("id", removedIds);
+        if (deleteError) {
+          console.error("Error removing product variants", deleteError);
+          variantsSaved = false;
+        }
+      }
+      for (const { id: variantId, ...row } of variantRows.filter((v) => v.id)) {
+        const { error: variantUpdateError } = await supabase
+          .from("product_variants")
+          .update(row)
+          .eq("id", variantId as string);
+        if (variantUpdateError) {
+          console.error("Error updating product variant", variantUpdateError);
+          variantsSaved = false;
+        }
+      }
+      const newVariants = variantRows.filter((v) => !v.id);
+      if (newVariants.length > 0) {
+        const { error: variantInsertError } = await supabase.from("product_variants").insert(newVariants);
+        if (variantInsertError) {
+          console.error("Error creating product variants", variantInsertError);
+          variantsSaved = false;
+        }
+      }
+
+      await notifyLowStock(productId);
+
       // Sync to search index
-      await fetch("/api/search/sync", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          type: "product",
-          data: {
-            id: productId,
-            name: form.name.trim(),
-            company_name: isEditMode ? form.company_name : org!.name,
-            category: form.category,
-            description: form.full_description || form.short_description
-          }
-        })
+      await syncSearchIndex("product", {
+        id: productId,
+        name: form.name.trim(),
+        company_name: isEditMode ? form.company_name : org!.name,
+        category: form.category,
+        description: form.full_description || form.short_description
       });
 
+      // Datasheet text goes into search as well. Parsing a long PDF takes a
+      // while, so this is not awaited; client-side navigation doesn't cancel it.
+      if (datasheetFile || (isEditMode && datasheetUrl)) {
+        void indexDatasheet(productId);
+      }
+
+      if (!variantsSaved) {
+        setCreateError("The product was saved, but some variants could not be. Please check them and save again.");
+        if (!isEditMode) router.replace(`/products/new?id=${encodeURIComponent(productId)}`);
+        return;
+      }
+
       router.push(`/products/${productId}`);
     } catch (err) {
       console.error("Unexpected error", err);
@@ -579,6 +690,13 @@ export default function NewProductPage() {
 
   const lockCompanyField = !!org;
 
+  const specSchema = productSpecSchema(form.category);
+  const setSpec = (key: string, value: string) => setSpecValues((prev) => ({ ...prev, [key]: value }));
+
+  const setVariant = (index: number, field: keyof VariantFormRow, value: string) =>
+    setVariants((prev) => prev.map((v, i) => (i === index ? { ...v, [field]: value } : v)));
+  const hasVariants = variants.length > 0;
+
   const backTarget = useMemo(() => {
     // ✅ If editing: always go back to the product detail page
     if (isEditMode) return id ? `/products/${id}` : "/products";
@@ -775,6 +893,49 @@ export default function NewProductPage() {
                       </div>
                     </div>
 
+                    {specSchema.length > 0 && (
+                      <div className="products-section">
+                        <div className="products-section-header">
+                          <h4 className="products-section-title">{form.category} specifications</h4>
+                          <p className="products-section-sub">
+                            Buyers can filter and compare on these. Leave anything that doesn&apos;t apply empty.
+                          </p>
+                        </div>
+
+                        <div className="products-grid">
+                          {specSchema.map((attr) => (
+                            <div key={attr.key} className="products-field">
+                              <label>
+                                {attr.label}
+                                {attr.unit ? ` (${attr.unit})` : ""}
+                              </label>
+                              {attr.type === "boolean" ? (
+                                <select
+                                  value={specValues[attr.key] || ""}
+                                  onChange={(e) => setSpec(attr.key, e.target.value)}
+                                >
+                                  <option value="">Not specified</option>
+                                  <option value="yes">Yes</option>
+                                  <option value="no">No</option>
+                                </select>
+                              ) : (
+                                <input
+                                  type={attr.type === "number" ? "number" : "text"}
+                                  inputMode={attr.type === "number" ? "decimal" : undefined}
+                                  min={attr.min}
+                                  max={attr.max}
+                                  step={attr.step ?? "any"}
+                                  value={specValues[attr.key] || ""}
+                                  onChange={(e) => setSpec(attr.key, e.target.value)}
+                                />
+                              )}
+                              {attr.hint && <span style={{ fontSize: 12, color: "#9ca3af" }}>{attr.hint}</span>}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Price & stock */}
                     <div className="products-section">
                       <div className="products-section-header">
@@ -826,7 +987,11 @@ export default function NewProductPage() {
 
                         <div className="products-field">
                           <label>In stock?</label>
-                          <select value={form.in_stock} onChange={handleFormChange("in_stock")}>
+                          <select
+                            value={form.in_stock}
+                            onChange={handleFormChange("in_stock")}
+                            disabled={hasVariants}
+                          >
                             <option value="yes">In stock</option>
                             <option value="no">Out of stock</option>
                           </select>
@@ -840,12 +1005,119 @@ export default function NewProductPage() {
                             value={form.stock_quantity}
                             onChange={handleFormChange("stock_quantity")}
                             placeholder="Optional"
-                            disabled={form.in_stock !== "yes"}
+                            disabled={hasVariants || form.in_stock !== "yes"}
+                          />
+                          {hasVariants && (
+                            <span style={{ fontSize: 12, color: "#9ca3af" }}>
+                              Worked out from the variants below.
+                            </span>
+                          )}
+                        </div>
+
+                        <div className="products-field">
+                          <label>Low-stock alert at</label>
+                          <input
+                            type="number"
+                            min={0}
+                            step={1}
+                            value={form.low_stock_threshold}
+                            onChange={handleFormChange("low_stock_threshold")}
+                            placeholder={`${DEFAULT_LOW_STOCK_THRESHOLD} pcs`}
                           />
+                          <span style={{ fontSize: 12, color: "#9ca3af" }}>
+                            Org owners and admins are notified when counted stock drops to this level.
+                          </span>
                         </div>
                       </div>
                     </div>
 
+                    {/* Variants */}
+                    <div className="products-section">
+                      <div className="products-section-header">
+                        <h4 className="products-section-title">Variants</h4>
+                        <p className="products-section-sub">
+                          Wavelengths, channel counts or configurations sold as separate items, each with its own
+                          SKU{form.price_type === "fixed" ? ", price" : ""} and stock. SKUs are used by the bulk
+                          inventory upload on your organization page.
+                        </p>
+                      </div>
+
+                      {variants.map((v, i) => (
+                        <div
+                          key={v.id || `new-${i}`}
+                          className="products-grid"
+                          style={{
+                            marginBottom: 10,
+                            paddingBottom: 10,
+                            borderBottom: "1px solid rgba(148,163,184,0.15)",
+                          }}
+                        >
+                          <div className="products-field">
+                            <label>Variant name *</label>
+                            <input
+                              type="text"
+                              value={v.name}
+                              onChange={(e) => setVariant(i, "name", e.target.value)}
+                              placeholder="e.g. 1550 nm, 8 channels"
+                            />
+                          </div>
+                          <div className="products-field">
+                            <label>SKU</label>
+                            <input type="text" value={v.sku} onChange={(e) => setVariant(i, "sku", e.target.value)} />
+                          </div>
+                          {form.price_type === "fixed" && (
+                            <div className="products-field">
+                              <label>Price</label>
+                              <input
+                                type="text"
+                                value={v.price_value}
+                                onChange={(e) => setVariant(i, "price_value", e.target.value)}
+                                placeholder={form.price_value || "Same as product"}
+                              />
+                            </div>
+                          )}
+                          <div className="products-field">
+                            <label>In stock?</label>
+                            <select value={v.in_stock} onChange={(e) => setVariant(i, "in_stock", e.target.value)}>
+                              <option value="yes">In stock</option>
+                              <option value="no">Out of stock</option>
+                            </select>
+                          </div>
+                          <div className="products-field">
+                            <label>Stock quantity</label>
+                            <input
+                              type="number"
+                              min={0}
+                              step={1}
+                              value={v.stock_quantity}
+                              onChange={(e) => setVariant(i, "stock_quantity", e.target.value)}
+                              placeholder="Optional"
+                              disabled={v.in_stock !== "yes"}
+                            />
+                          </div>
+                          <div className="products-field" style={{ justifyContent: "flex-end" }}>
+                            <button
+                              type="button"
+                              className="nav-ghost-btn"
+                              onClick={() => setVariants((prev) => prev.filter((_, j) => j !== i))}
+                              style={{ cursor: "pointer", color: "#fca5a5" }}
+                            >
+                              Remove variant
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+
+                      <button
+                        type="button"
+                        className="nav-ghost-btn"
+                        onClick={() => setVariants((prev) => [...prev, emptyVariantRow()])}
+                        style={{ cursor: "pointer" }}
+                      >
+                        + Add variant
+                      </button>
+                    </div>
+
                     {/* Media */}
                     <div className="products-section">
                       <div className="products-section-header">
@@ -897,6 +1169,10 @@ export default function NewProductPage() {
                               </span>
                             )
                           )}
+                          <span style={{ fontSize: 12, color: "#9ca3af" }}>
+                            The datasheet&apos;s text (first {MAX_DATASHEET_PAGES} pages) becomes searchable and
+                            Tattva AI can quote it. Scanned PDFs without a text layer are not indexed.
+                          </span>
                         </div>
                       </div>
                     </div>
@@ -3,6 +3,7 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/router";
 import Link from "next/link";
 import { supabase } from "../../lib/supabaseClient";
+import { syncSearchIndex } from "../../lib/searchSync";
 import { useSupabaseUser } from "../../lib/useSupabaseUser";
 
 type ProfilePublic = {
@@ -302,14 +303,7 @@ export default function ProfileEditPage() {
     }
 
     // Sync to search index
-    await fetch("/api/search/sync", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        type: "profile",
-        data: payloadPublic
-      })
-    });
+    await syncSearchIndex("profile", payloadPublic);
 
     setSaveMessage("Profile updated ✅");
     setSaving(false);
@@ -2,8 +2,15 @@
 import { useEffect, useState, FormEvent } from "react";
 import Link from "next/link";
 import { useRouter } from "next/router";
-import { supabase } from "../lib/supabaseClient";
 import { useSupabaseUser } from "../lib/useSupabaseUser";
+import {
+  SEARCH_HIT_LABELS,
+  SEARCH_HIT_TYPES,
+  SearchHighlight,
+  SearchHit,
+  SearchHitType,
+  SearchResponse,
+} from "../lib/hybridSearch";
 
 type Job = {
   id: string;
@@ -53,6 +60,27 @@ type Org = {
   size_label: string | null;
 };
 
+function HighlightText({ highlight }: { highlight: SearchHighlight }) {
+  const parts: JSX.Element[] = [];
+  let pos = 0;
+  highlight.ranges.forEach(([start, end], i) => {
+    if (start > pos) parts.push(<span key={`t${i}`}>{highlight.snippet.slice(pos, start)}</span>);
+    parts.push(
+      <mark key={`m${i}`} style={{ background: "rgba(59,199,243,0.25)", color: "inherit", borderRadius: 3 }}>
+        {highlight.snippet.slice(start, end)}
+      </mark>
+    );
+    pos = end;
+  });
+  if (pos < highlight.snippet.length) parts.push(<span key="rest">{highlight.snippet.slice(pos)}</span>);
+  return <>{parts}</>;
+}
+
+// Best snippet to show under a hit: prefer descriptive fields over the title match
+function pickHighlight(hit: SearchHit, titleFields: string[]) {
+  return hit.highlights.find((h) => !titleFields.includes(h.field)) || null;
+}
+
 export default function SearchPage() {
   const { user } = useSupabaseUser();
   const router = useRouter();
@@ -60,10 +88,8 @@ export default function SearchPage() {
   const [searchInput, setSearchInput] = useState("");
   const [query, setQuery] = useState("");
 
-  const [jobs, setJobs] = useState<Job[]>([]);
-  const [products, setProducts] = useState<Product[]>([]);
-  const [members, setMembers] = useState<CommunityProfile[]>([]);
-  const [orgs, setOrgs] = useState<Org[]>([]);
+  const [results, setResults] = useState<SearchResponse | null>(null);
+  const [activeType, setActiveType] = useState<SearchHitType | "all">("all");
 
   const [loadingSearch, setLoadingSearch] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
@@ -82,92 +108,53 @@ export default function SearchPage() {
 
   // --- Run search whenever query changes ---
   useEffect(() => {
+    let cancelled = false;
+
     const runSearch = async () => {
       const term = query.trim();
       if (!term) {
-        setJobs([]);
-        setProducts([]);
-        setMembers([]);
-        setOrgs([]);
+        setResults(null);
         setHasSearched(false);
         return;
       }
 
       setLoadingSearch(true);
       setHasSearched(true);
-
-      const pattern = `%${term}%`;
+      setActiveType("all");
 
       try {
-        const [
-          { data: jobData, error: jobErr },
-          { data: prodData, error: prodErr },
-          { data: memberData, error: memberErr },
-          { data: orgData, error: orgErr },
-        ] = await Promise.all([
-          supabase
-            .from("jobs")
-            .select("id, title, company_name, location, employment_type, remote_type, short_description")
-            .or(
-              `title.ilike.${pattern},company_name.ilike.${pattern},location.ilike.${pattern},short_description.ilike.${pattern}`
-            )
-            .order("created_at", { ascending: false })
-            .limit(20),
-
-          supabase
-            .from("products")
-            .select("id, name, company_name, category, short_description, price_type, price_value, in_stock, image1_url")
-            .or(
-              `name.ilike.${pattern},company_name.ilike.${pattern},category.ilike.${pattern},short_description.ilike.${pattern}`
-            )
-            .order("created_at", { ascending: false })
-            .limit(20),
-
-          supabase
-            .from("profiles")
-            .select("id, full_name, avatar_url, highest_education, role, affiliation, short_bio")
-            .or(
-              `full_name.ilike.${pattern},role.ilike.${pattern},affiliation.ilike.${pattern},short_bio.ilike.${pattern}`
-            )
-            .order("created_at", { ascending: false })
-            .limit(20),
-
-          supabase
-            .from("organizations")
-            .select("id, name, slug, logo_url, kind, city, country, industry, institution, department, company_type, group_type, size_label")
-            .eq("is_active", true)
-            .or(
-              `name.ilike.${pattern},city.ilike.${pattern},country.ilike.${pattern},industry.ilike.${pattern},institution.ilike.${pattern},department.ilike.${pattern}`
-            )
-            .order("created_at", { ascending: false })
-            .limit(20),
-        ]);
-
-        if (!jobErr && jobData) setJobs(jobData as Job[]);
-        else setJobs([]);
-
-        if (!prodErr && prodData) setProducts(prodData as Product[]);
-        else setProducts([]);
-
-        if (!memberErr && memberData) setMembers(memberData as CommunityProfile[]);
-        else setMembers([]);
-
-        if (!orgErr && orgData) setOrgs(orgData as Org[]);
-        else setOrgs([]);
+        const res = await fetch(`/api/search?q=${encodeURIComponent(term)}&limit=20`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "Search failed");
+        if (!cancelled) setResults(data as SearchResponse);
       } catch (e) {
         console.error("Global search error", e);
-        setJobs([]);
-        setProducts([]);
-        setMembers([]);
-        setOrgs([]);
+        if (!cancelled) setResults(null);
       } finally {
-        setLoadingSearch(false);
+        if (!cancelled) setLoadingSearch(false);
       }
     };
 
     runSearch();
+    return () => {
+      cancelled = true;
+    };
   }, [query]);
 
+  const hitsFor = (type: SearchHitType): SearchHit[] =>
+    activeType === "all" || activeType === type ? results?.groups[type] || [] : [];
+
+  const jobHits = hitsFor("job");
+  const productHits = hitsFor("product");
+  const memberHits = hitsFor("profile");
+  const orgHits = hitsFor("organization");
+  const questionHits = hitsFor("question");
+  const postHits = hitsFor("post");
+  const glossaryHits = hitsFor("glossary");
+
+  const facetTypes = SEARCH_HIT_TYPES.filter((t) => (results?.facets[t] || 0) > 0);
+  const totalHits = facetTypes.reduce((sum, t) => sum + (results?.facets[t] || 0), 0);
+
   // --- Submit from search bar on this page ---
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
@@ -223,15 +210,26 @@ export default function SearchPage() {
     return bits.join(" · ");
   };
 
-  const anyResults =
-    jobs.length > 0 || products.length > 0 || members.length > 0 || orgs.length > 0;
+  const anyResults = facetTypes.length > 0;
+
+  const facetChipStyle = (active: boolean): React.CSSProperties => ({
+    padding: "6px 12px",
+    borderRadius: 999,
+    border: active ? "1px solid rgba(59,199,243,0.9)" : "1px solid rgba(148,163,184,0.4)",
+    background: active ? "rgba(59,199,243,0.15)" : "rgba(15,23,42,0.8)",
+    color: active ? "#e0f2fe" : "#cbd5f5",
+    fontSize: 12,
+    cursor: "pointer",
+  });
 
   return (
     <section className="section" style={{ paddingTop: 24 }}>
       <div className="section-header" style={{ marginBottom: 16 }}>
         <div>
           <div className="section-title">Global search</div>
-          <div className="section-sub">Search across jobs, products, people, and organizations.</div>
+          <div className="section-sub">
+            Search across jobs, products, people, organizations, Q&amp;A, posts and the glossary.
+          </div>
         </div>
       </div>
 
@@ -249,7 +247,7 @@ export default function SearchPage() {
           type="text"
           value={searchInput}
           onChange={(e) => setSearchInput(e.target.value)}
-          placeholder="Search jobs, products, people, organizations…"
+          placeholder="Try “superconducting qubit roles in Zurich”…"
           style={{
             flex: 1,
             padding: "10px 14px",
@@ -281,6 +279,19 @@ export default function SearchPage() {
 
       {loadingSearch && <div className="products-status">Searching…</div>}
 
+      {!loadingSearch && anyResults && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 8, marginBottom: 20 }}>
+          <button type="button" style={facetChipStyle(activeType === "all")} onClick={() => setActiveType("all")}>
+            All · {totalHits}
+          </button>
+          {facetTypes.map((t) => (
+            <button key={t} type="button" style={facetChipStyle(activeType === t)} onClick={() => setActiveType(t)}>
+              {SEARCH_HIT_LABELS[t]} · {results?.facets[t]}
+            </button>
+          ))}
+        </div>
+      )}
+
       {!loadingSearch && hasSearched && !anyResults && (
         <div className="products-empty">
           No results matched <span style={{ fontWeight: 600 }}>"{query}"</span>.
@@ -288,7 +299,7 @@ export default function SearchPage() {
       )}
 
       {/* Jobs */}
-      {!loadingSearch && jobs.length > 0 && (
+      {!loadingSearch && jobHits.length > 0 && (
         <section style={{ marginBottom: 24 }}>
           <div className="section-subtitle" style={{ marginBottom: 8 }}>
             Jobs
@@ -301,37 +312,48 @@ export default function SearchPage() {
               gap: 16,
             }}
           >
-            {jobs.map((job) => (
-              <Link
-                key={job.id}
-                href={`/jobs/${job.id}`}
-                className="card"
-                style={{ textDecoration: "none", color: "#e5e7eb" }}
-              >
-                <div className="card-inner">
-                  <div className="card-top-row">
-                    <div className="card-title">{job.title || "Untitled role"}</div>
-                    <div className="card-pill">{job.employment_type || "Job"}</div>
-                  </div>
-                  <div className="card-meta">{formatJobMeta(job) || "Quantum role"}</div>
-                  {job.short_description && (
-                    <div className="card-tags">
-                      <span className="card-tag">
-                        {job.short_description.length > 60
-                          ? job.short_description.slice(0, 57) + "..."
-                          : job.short_description}
-                      </span>
+            {jobHits.map((hit) => {
+              const job = hit.row as Job;
+              const highlight = pickHighlight(hit, ["title"]);
+
+              return (
+                <Link
+                  key={job.id}
+                  href={hit.href}
+                  className="card"
+                  style={{ textDecoration: "none", color: "#e5e7eb" }}
+                >
+                  <div className="card-inner">
+                    <div className="card-top-row">
+                      <div className="card-title">{job.title || "Untitled role"}</div>
+                      <div className="card-pill">{job.employment_type || "Job"}</div>
                     </div>
-                  )}
-                </div>
-              </Link>
-            ))}
+                    <div className="card-meta">{formatJobMeta(job) || "Quantum role"}</div>
+                    {highlight ? (
+                      <div className="card-footer-text" style={{ marginTop: 6 }}>
+                        <HighlightText highlight={highlight} />
+                      </div>
+                    ) : (
+                      job.short_description && (
+                        <div className="card-tags">
+                          <span className="card-tag">
+                            {job.short_description.length > 60
+                              ? job.short_description.slice(0, 57) + "..."
+                              : job.short_description}
+                          </span>
+                        </div>
+                      )
+                    )}
+                  </div>
+                </Link>
+              );
+            })}
           </div>
         </section>
       )}
 
       {/* Products */}
-      {!loadingSearch && products.length > 0 && (
+      {!loadingSearch && productHits.length > 0 && (
         <section style={{ marginBottom: 24 }}>
           <div className="section-subtitle" style={{ marginBottom: 8 }}>
             Products
@@ -344,73 +366,76 @@ export default function SearchPage() {
               gap: 16,
             }}
           >
-            {products.map((p) => (
-              <Link
-                key={p.id}
-                href={`/products/${p.id}`}
-                className="card"
-                style={{ textDecoration: "none", color: "#e5e7eb" }}
-              >
-                <div className="card-inner" style={{ display: "flex", gap: 16, alignItems: "flex-start" }}>
-                  <div
-                    style={{
-                      width: 72,
-                      height: 72,
-                      borderRadius: 14,
-                      overflow: "hidden",
-                      flexShrink: 0,
-                      background: "rgba(15,23,42,0.9)",
-                      border: "1px solid rgba(15,23,42,0.9)",
-                    }}
-                  >
-                    {p.image1_url ? (
-                      <img
-                        src={p.image1_url}
-                        alt={p.name}
-                        style={{ width: "100%", height: "100%", objectFit: "cover", display: "block" }}
-                      />
-                    ) : (
-                      <div
-                        style={{
-                          width: "100%",
-                          height: "100%",
-                          display: "flex",
-                          alignItems: "center",
-                          justifyContent: "center",
-                          fontSize: 11,
-                          color: "#6b7280",
-                        }}
-                      >
-                        No image
-                      </div>
-                    )}
-                  </div>
-
-                  <div style={{ flex: 1, minWidth: 0 }}>
-                    <div className="card-top-row">
-                      <div className="card-title">{p.name}</div>
-                      <div className="card-pill">{p.category || "Product"}</div>
+            {productHits.map(({ row, href }) => {
+              const p = row as Product;
+              return (
+                <Link
+                  key={p.id}
+                  href={href}
+                  className="card"
+                  style={{ textDecoration: "none", color: "#e5e7eb" }}
+                >
+                  <div className="card-inner" style={{ display: "flex", gap: 16, alignItems: "flex-start" }}>
+                    <div
+                      style={{
+                        width: 72,
+                        height: 72,
+                        borderRadius: 14,
+                        overflow: "hidden",
+                        flexShrink: 0,
+                        background: "rgba(15,23,42,0.9)",
+                        border: "1px solid rgba(15,23,42,0.9)",
+                      }}
+                    >
+                      {p.image1_url ? (
+                        <img
+                          src={p.image1_url}
+                          alt={p.name}
+                          style={{ width: "100%", height: "100%", objectFit: "cover", display: "block" }}
+                        />
+                      ) : (
+                        <div
+                          style={{
+                            width: "100%",
+                            height: "100%",
+                            display: "flex",
+                            alignItems: "center",
+                            justifyContent: "center",
+                            fontSize: 11,
+                            color: "#6b7280",
+                          }}
+                        >
+                          No image
+                        </div>
+                      )}
                     </div>
-                    <div className="card-meta">{formatProductMeta(p) || "Quantum product"}</div>
-                    {p.short_description && (
-                      <div className="card-tags">
-                        {formatProductTags(p).map((tag) => (
-                          <span key={tag} className="card-tag">
-                            {tag}
-                          </span>
-                        ))}
+  
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div className="card-top-row">
+                        <div className="card-title">{p.name}</div>
+                        <div className="card-pill">{p.category || "Product"}</div>
                       </div>
-                    )}
+                      <div className="card-meta">{formatProductMeta(p) || "Quantum product"}</div>
+                      {p.short_description && (
+                        <div className="card-tags">
+                          {formatProductTags(p).map((tag) => (
+                            <span key={tag} className="card-tag">
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </Link>
-            ))}
+                </Link>
+              );
+            })}
           </div>
         </section>
       )}
 
       {/* People */}
-      {!loadingSearch && members.length > 0 && (
+      {!loadingSearch && memberHits.length > 0 && (
         <section style={{ marginBottom: 24 }}>
           <div className="section-subtitle" style={{ marginBottom: 8 }}>
             People
@@ -423,7 +448,8 @@ export default function SearchPage() {
               gap: 16,
             }}
           >
-            {members.map((m) => {
+            {memberHits.map(({ row, href }) => {
+              const m = row as CommunityProfile;
               const name = m.full_name || "Quantum member";
               const firstName =
                 typeof name === "string" ? name.split(" ")[0] || name : "Member";
@@ -433,7 +459,7 @@ export default function SearchPage() {
               return (
                 <Link
                   key={m.id}
-                  href={`/profile/${m.id}`}
+                  href={href}
                   className="card"
                   style={{ textDecoration: "none", color: "#e5e7eb" }}
                 >
@@ -483,7 +509,7 @@ export default function SearchPage() {
       )}
 
       {/* Organizations */}
-      {!loadingSearch && orgs.length > 0 && (
+      {!loadingSearch && orgHits.length > 0 && (
         <section style={{ marginBottom: 24 }}>
           <div className="section-subtitle" style={{ marginBottom: 8 }}>
             Organizations
@@ -496,14 +522,15 @@ export default function SearchPage() {
               gap: 16,
             }}
           >
-            {orgs.map((o) => {
+            {orgHits.map(({ row, href }) => {
+              const o = row as Org;
               const firstLetter = o.name?.charAt(0).toUpperCase() || "Q";
               const meta = formatOrgMeta(o);
 
               return (
                 <Link
                   key={o.id}
-                  href={`/orgs/${o.slug}`}
+                  href={href}
                   className="card"
                   style={{ textDecoration: "none", color: "#e5e7eb" }}
                 >
@@ -547,6 +574,63 @@ export default function SearchPage() {
           </div>
         </section>
       )}
+
+      {/* Q&A, posts and glossary share a compact text card */}
+      {!loadingSearch &&
+        ([
+          ["question", questionHits],
+          ["post", postHits],
+          ["glossary", glossaryHits],
+        ] as [SearchHitType, SearchHit[]][]).map(
+          ([type, hits]) =>
+            hits.length > 0 && (
+              <section key={type} style={{ marginBottom: 24 }}>
+                <div className="section-subtitle" style={{ marginBottom: 8 }}>
+                  {SEARCH_HIT_LABELS[type]}
+                </div>
+                <div
+                  className="card-row"
+                  style={{
+                    display: "grid",
+                    gridTemplateColumns: "repeat(2, minmax(0, 1fr))",
+                    gap: 16,
+                  }}
+                >
+                  {hits.map((hit) => {
+                    const highlight = pickHighlight(hit, ["title", "name"]);
+                    const fallback = hit.row.one_line || hit.row.body || "";
+
+                    return (
+                      <Link
+                        key={hit.link}
+                        href={hit.href}
+                        className="card"
+                        style={{ textDecoration: "none", color: "#e5e7eb" }}
+                      >
+                        <div className="card-inner">
+                          <div className="card-top-row">
+                            <div className="card-title">{hit.title}</div>
+                            {type === "glossary" && hit.row.category && (
+                              <div className="card-pill">{hit.row.category}</div>
+                            )}
+                          </div>
+                          <div className="card-footer-text" style={{ marginTop: 6 }}>
+                            {highlight ? (
+                              <HighlightText highlight={highlight} />
+                            ) : fallback.length > 140 ? (
+                              fallback.slice(0, 137) + "..."
+                            ) : (
+                              fallback
+                            )}
+                          </div>
+                        </div>
+                      </Link>
+                    );
+                  })}
+                </div>
+              </section>
+            )
+        )}
     </section>
   );
 }